@@ -2,7 +2,9 @@
 pragma solidity ^0.8.22;
 
 import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
-import {BeaconProxy} from "@openzeppelin/contracts/proxy/beacon/BeaconProxy.sol";
+import {UpgradeableBeacon} from "@openzeppelin/contracts/proxy/beacon/UpgradeableBeacon.sol";
+import {Create2} from "@openzeppelin/contracts/utils/Create2.sol";
+import {SecurityTokenProxy} from "./SecurityTokenProxy.sol";
 
 /**
  * @title SecurityTokenFactory
@@ -13,18 +15,32 @@ import {BeaconProxy} from "@openzeppelin/contracts/proxy/beacon/BeaconProxy.sol"
  *         - Asset-backed securities
  *         - Other regulated financial instruments
  *         
- *         Each created token is a BeaconProxy that points to the same implementation contract,
+ *         Each created token is a SecurityTokenProxy (a beacon proxy) that points to the same implementation contract,
  *         allowing all tokens to be upgraded simultaneously through the beacon pattern.
+ *         Once the factory owns the beacon, upgrades are announced and can only be executed
+ *         after a delay, and a token can opt out by pinning itself to a dedicated beacon.
  *         
  * @dev Architecture Flow:
  *      1. SecurityToken Implementation → deployed once
  *      2. UpgradeableBeacon → points to implementation
- *      3. SecurityTokenFactory → creates BeaconProxy instances
- *      4. Each BeaconProxy → independent SecurityToken with unique configuration
+ *      3. SecurityTokenFactory → creates SecurityTokenProxy (beacon proxy) instances
+ *      4. Each SecurityTokenProxy → independent SecurityToken with unique configuration
+ *      5. Beacon ownership → transferred to the factory for timelocked upgrades
  *      
  * @author ISBE Security Tokens Team
  */
 contract SecurityTokenFactory is Ownable {
+    // =============================================================
+    //                           CONSTANTS
+    // =============================================================
+    
+    /// @notice Minimum notice given to issuers between announcing and executing an upgrade
+    uint256 public constant MIN_UPGRADE_DELAY = 2 days;
+
+    /// @dev Selector of SecurityToken.initialize, the only accepted initializer
+    bytes4 private constant INITIALIZE_SELECTOR =
+        bytes4(keccak256("initialize(string,string,uint256,string,string,string,address)"));
+
     // =============================================================
     //                           STORAGE
     // =============================================================
@@ -40,10 +56,31 @@ contract SecurityTokenFactory is Ownable {
     
     /// @notice Mapping from security token address to its index in the deployedTokens array
     mapping(address => uint256) public indexOfDeployedTokens;
+
+    /// @notice Mapping from security token address to the beneficiary it was created for
+    mapping(address => address) public beneficiaryOfToken;
+
+    /// @dev Mapping from beneficiary address to the security tokens created for them
+    mapping(address => address[]) private _tokensByBeneficiary;
+
+    /// @notice Mapping from ISIN to the security token created for it
+    mapping(string => address) public tokenByISIN;
     
     /// @notice Total number of security tokens created by this factory
     uint256 public totalOfTokensCreated;
 
+    /// @notice Delay between announcing and executing a beacon upgrade
+    uint256 public upgradeDelay;
+
+    /// @notice Implementation announced for the next beacon upgrade (zero if none)
+    address public pendingImplementation;
+
+    /// @notice Timestamp from which the announced upgrade can be executed
+    uint256 public upgradeReadyAt;
+
+    /// @notice Mapping from pinned security token address to its dedicated beacon
+    mapping(address => address) public dedicatedBeacons;
+
     // =============================================================
     //                           EVENTS
     // =============================================================
@@ -58,6 +95,33 @@ contract SecurityTokenFactory is Ownable {
         uint256 indexed tokenIndex
     );
 
+    /// @notice Emitted when a beacon upgrade is announced
+    /// @param implementation The new implementation
+    /// @param readyAt Timestamp from which the upgrade can be executed
+    event UpgradeAnnounced(address indexed implementation, uint256 readyAt);
+
+    /// @notice Emitted when an announced beacon upgrade is cancelled
+    /// @param implementation The implementation that was announced
+    event UpgradeCancelled(address indexed implementation);
+
+    /// @notice Emitted when an announced beacon upgrade is executed
+    /// @param implementation The new implementation
+    event UpgradeExecuted(address indexed implementation);
+
+    /// @notice Emitted when the upgrade delay changes
+    /// @param delay The new delay in seconds
+    event UpgradeDelaySet(uint256 delay);
+
+    /// @notice Emitted when a security token is pinned to a dedicated beacon
+    /// @param tokenProxy The address of the security token proxy
+    /// @param dedicatedBeacon The beacon the token now follows
+    /// @param implementation The implementation the token is pinned to
+    event TokenPinned(address indexed tokenProxy, address indexed dedicatedBeacon, address implementation);
+
+    /// @notice Emitted when a pinned security token returns to the shared beacon
+    /// @param tokenProxy The address of the security token proxy
+    event TokenUnpinned(address indexed tokenProxy);
+
     // =============================================================
     //                           ERRORS
     // =============================================================
@@ -71,6 +135,42 @@ contract SecurityTokenFactory is Ownable {
     /// @notice Thrown when security token index is out of bounds
     error TokenIndexOutOfBounds(uint256 index);
 
+    /// @notice Thrown when the initialization data is not a call to SecurityToken.initialize
+    error InvalidInitializer(bytes4 selector);
+
+    /// @notice Thrown when the initialization data has an empty ISIN
+    error EmptyISIN();
+
+    /// @notice Thrown when the initialization data has a zero cap
+    error InvalidCap();
+
+    /// @notice Thrown when the initialization data has a zero admin address
+    error InvalidAdminAddress();
+
+    /// @notice Thrown when a security token has already been created for the ISIN
+    error DuplicateISIN(string isin, address existingToken);
+
+    /// @notice Thrown when the announced implementation has no code
+    error InvalidImplementation(address implementation);
+
+    /// @notice Thrown when executing or cancelling without an announced upgrade
+    error NoPendingUpgrade();
+
+    /// @notice Thrown when executing an upgrade before its delay has passed
+    error UpgradeNotReady(uint256 readyAt);
+
+    /// @notice Thrown when the upgrade delay is below the minimum
+    error UpgradeDelayTooShort(uint256 delay, uint256 minimum);
+
+    /// @notice Thrown when the caller is not a security token created by this factory
+    error TokenNotCreatedByFactory(address tokenAddress);
+
+    /// @notice Thrown when pinning a token that is already pinned
+    error TokenAlreadyPinned(address tokenAddress);
+
+    /// @notice Thrown when unpinning a token that is not pinned
+    error TokenNotPinned(address tokenAddress);
+
     // =============================================================
     //                           CONSTRUCTOR
     // =============================================================
@@ -83,6 +183,7 @@ contract SecurityTokenFactory is Ownable {
     constructor(address _beacon) Ownable(msg.sender) {
         if (_beacon == address(0)) revert InvalidBeaconAddress();
         beacon = _beacon;
+        upgradeDelay = MIN_UPGRADE_DELAY;
     }
 
     // =============================================================
@@ -91,9 +192,11 @@ contract SecurityTokenFactory is Ownable {
     
     /**
      * @notice Creates a new SecurityToken instance using BeaconProxy pattern
-     * @dev Only the owner can create new security tokens. Each token created is a BeaconProxy
-     *      that delegates calls to the implementation contract stored in the beacon.
-     *      This allows all created tokens to be upgraded simultaneously.
+     * @dev Only the owner can create new security tokens. Each token created is a SecurityTokenProxy
+     *      that delegates calls to the implementation contract stored in its beacon.
+     *      This allows all created tokens to be upgraded simultaneously. The initializer
+     *      arguments are validated before the proxy is deployed and each ISIN can only be
+     *      used once.
      * 
      * @param initData The initialization data to be passed to the SecurityToken contract.
      *                 This should be the encoded call to SecurityToken.initialize() with:
@@ -113,36 +216,198 @@ contract SecurityTokenFactory is Ownable {
      * @dev Example usage:
      *      bytes memory initData = abi.encodeWithSignature(
      *          "initialize(string,string,uint256,string,string,string,address)",
-     *          "Corporate Bond 2024", "CB24", 1000000e18, "US0123456789", "bond", "US", adminAddress
+     *          "Corporate Bond 2024", "CB24", 1000000e18, "US0123456784", "bond", "US", adminAddress
      *      );
      *      address newToken = factory.createToken(initData, beneficiaryAddress);
      */
     function createToken(
-        bytes memory initData, 
+        bytes calldata initData, 
         address beneficiary
     ) external onlyOwner returns (address) {
         if (beneficiary == address(0)) revert InvalidBeneficiaryAddress();
+        string memory isin = _validateInitData(initData);
         
-        // Create new BeaconProxy instance - this creates a new SecurityToken
-        BeaconProxy proxy = new BeaconProxy(beacon, initData);
+        // Create new SecurityTokenProxy instance - this creates a new SecurityToken
+        SecurityTokenProxy proxy = new SecurityTokenProxy(beacon, initData);
         address proxyAddress = address(proxy);
 
+        _registerToken(proxyAddress, beneficiary, isin);
+        return proxyAddress;
+    }
+
+    /**
+     * @notice Creates a new SecurityToken instance at a deterministic address (CREATE2)
+     * @dev Same as createToken, but the proxy address only depends on the salt and initData,
+     *      so it can be registered before deployment with predictTokenAddress. Using the
+     *      hash of the ISIN as salt (keccak256(bytes(isin))) maps each ISIN to one address.
+     * @param initData The encoded call to SecurityToken.initialize
+     * @param beneficiary The address that will benefit from this token creation
+     * @param salt The CREATE2 salt
+     * @return The address of the newly created SecurityToken proxy
+     */
+    function createTokenDeterministic(
+        bytes calldata initData,
+        address beneficiary,
+        bytes32 salt
+    ) external onlyOwner returns (address) {
+        if (beneficiary == address(0)) revert InvalidBeneficiaryAddress();
+        string memory isin = _validateInitData(initData);
+
+        address proxyAddress = address(new SecurityTokenProxy{salt: salt}(beacon, initData));
+
+        _registerToken(proxyAddress, beneficiary, isin);
+        return proxyAddress;
+    }
+
+    /**
+     * @dev Stores the information of a newly created security token
+     * @param proxyAddress The address of the security token proxy
+     * @param beneficiary The address the token was created for
+     * @param isin The ISIN of the security token
+     */
+    function _registerToken(address proxyAddress, address beneficiary, string memory isin) private {
         // Store security token information
         deployedTokens[totalOfTokensCreated] = proxyAddress;
         indexOfDeployedTokens[proxyAddress] = totalOfTokensCreated;
+        beneficiaryOfToken[proxyAddress] = beneficiary;
+        _tokensByBeneficiary[beneficiary].push(proxyAddress);
+        tokenByISIN[isin] = proxyAddress;
         
         // Update counters
         totalOfTokensCreated++;
         totalOfTokensCreatedByBeneficiary[beneficiary]++;
 
         emit TokenCreated(proxyAddress, beneficiary, totalOfTokensCreated - 1);
-        return proxyAddress;
+    }
+
+    // =============================================================
+    //                         UPGRADE FUNCTIONS
+    // =============================================================
+
+    /**
+     * @notice Announces an upgrade of the shared beacon to a new implementation
+     * @dev Only the owner. The factory must own the beacon. Announcing again replaces the
+     *      pending upgrade and restarts the delay. Issuers can pin their token during the delay.
+     * @param newImplementation The new SecurityToken implementation
+     */
+    function announceUpgrade(address newImplementation) external onlyOwner {
+        if (newImplementation.code.length == 0) revert InvalidImplementation(newImplementation);
+
+        pendingImplementation = newImplementation;
+        upgradeReadyAt = block.timestamp + upgradeDelay;
+
+        emit UpgradeAnnounced(newImplementation, upgradeReadyAt);
+    }
+
+    /**
+     * @notice Cancels the announced upgrade
+     * @dev Only the owner
+     */
+    function cancelUpgrade() external onlyOwner {
+        address implementation = pendingImplementation;
+        if (implementation == address(0)) revert NoPendingUpgrade();
+
+        delete pendingImplementation;
+        delete upgradeReadyAt;
+
+        emit UpgradeCancelled(implementation);
+    }
+
+    /**
+     * @notice Upgrades the shared beacon to the announced implementation once the delay has passed
+     * @dev Only the owner. Tokens pinned to a dedicated beacon are not affected.
+     */
+    function executeUpgrade() external onlyOwner {
+        address implementation = pendingImplementation;
+        if (implementation == address(0)) revert NoPendingUpgrade();
+        if (block.timestamp < upgradeReadyAt) revert UpgradeNotReady(upgradeReadyAt);
+
+        delete pendingImplementation;
+        delete upgradeReadyAt;
+        UpgradeableBeacon(beacon).upgradeTo(implementation);
+
+        emit UpgradeExecuted(implementation);
+    }
+
+    /**
+     * @notice Sets the delay between announcing and executing an upgrade
+     * @dev Only the owner. Does not change the ready time of an upgrade already announced.
+     * @param delay The new delay in seconds (at least MIN_UPGRADE_DELAY)
+     */
+    function setUpgradeDelay(uint256 delay) external onlyOwner {
+        if (delay < MIN_UPGRADE_DELAY) revert UpgradeDelayTooShort(delay, MIN_UPGRADE_DELAY);
+        upgradeDelay = delay;
+        emit UpgradeDelaySet(delay);
+    }
+
+    /**
+     * @notice Creates a dedicated beacon fixed to the current implementation for the calling token
+     * @dev Called by SecurityToken.pinImplementation, which then moves the proxy onto the
+     *      returned beacon. The dedicated beacon is owned by the factory, which never upgrades it.
+     * @return dedicatedBeacon The address of the dedicated beacon
+     */
+    function createDedicatedBeacon() external returns (address dedicatedBeacon) {
+        if (!_isTokenCreatedByFactory(msg.sender)) revert TokenNotCreatedByFactory(msg.sender);
+        if (dedicatedBeacons[msg.sender] != address(0)) revert TokenAlreadyPinned(msg.sender);
+
+        address implementation = UpgradeableBeacon(beacon).implementation();
+        dedicatedBeacon = address(new UpgradeableBeacon(implementation, address(this)));
+        dedicatedBeacons[msg.sender] = dedicatedBeacon;
+
+        emit TokenPinned(msg.sender, dedicatedBeacon, implementation);
+    }
+
+    /**
+     * @notice Releases the dedicated beacon of the calling token
+     * @dev Called by SecurityToken.unpinImplementation, which then moves the proxy back onto
+     *      the returned shared beacon
+     * @return The address of the shared beacon
+     */
+    function releaseDedicatedBeacon() external returns (address) {
+        if (dedicatedBeacons[msg.sender] == address(0)) revert TokenNotPinned(msg.sender);
+
+        delete dedicatedBeacons[msg.sender];
+
+        emit TokenUnpinned(msg.sender);
+        return beacon;
     }
 
     // =============================================================
     //                         VIEW FUNCTIONS
     // =============================================================
+
+    /**
+     * @notice Predicts the address of a security token created with createTokenDeterministic
+     * @param salt The CREATE2 salt
+     * @param initData The encoded call to SecurityToken.initialize
+     * @return The address the security token proxy will be deployed at
+     */
+    function predictTokenAddress(bytes32 salt, bytes calldata initData) external view returns (address) {
+        bytes32 bytecodeHash = keccak256(
+            abi.encodePacked(type(SecurityTokenProxy).creationCode, abi.encode(beacon, initData))
+        );
+        return Create2.computeAddress(salt, bytecodeHash);
+    }
     
+    /**
+     * @notice Gets the security token created for an ISIN
+     * @param isin The ISIN of the security token
+     * @return The address of the security token, or the zero address if none was created
+     */
+    function getTokenByIsin(string calldata isin) external view returns (address) {
+        return tokenByISIN[isin];
+    }
+
+    /**
+     * @notice Gets the beacon a security token follows
+     * @param tokenAddress The address of the security token
+     * @return The dedicated beacon of a pinned token, otherwise the shared beacon
+     */
+    function getTokenBeacon(address tokenAddress) external view returns (address) {
+        address dedicatedBeacon = dedicatedBeacons[tokenAddress];
+        return dedicatedBeacon != address(0) ? dedicatedBeacon : beacon;
+    }
+
     /**
      * @notice Gets the address of a security token by its index
      * @param index The index of the security token to query
@@ -162,6 +427,49 @@ contract SecurityTokenFactory is Ownable {
         return totalOfTokensCreatedByBeneficiary[beneficiary];
     }
 
+    /**
+     * @notice Gets the security tokens created for a specific beneficiary
+     * @dev This function can be gas-intensive for beneficiaries with many tokens
+     * @param beneficiary The address of the beneficiary
+     * @return Array of the security token addresses created for the beneficiary
+     */
+    function getTokensByBeneficiary(address beneficiary) external view returns (address[] memory) {
+        return _tokensByBeneficiary[beneficiary];
+    }
+
+    /**
+     * @notice Gets a paginated list of the security tokens created for a specific beneficiary
+     * @param beneficiary The address of the beneficiary
+     * @param offset The starting index for pagination
+     * @param limit The maximum number of tokens to return
+     * @return tokens Array of security token addresses within the specified range
+     * @return total The total number of security tokens created for the beneficiary
+     */
+    function getTokensByBeneficiaryPaginated(
+        address beneficiary,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (address[] memory tokens, uint256 total) {
+        address[] storage beneficiaryTokens = _tokensByBeneficiary[beneficiary];
+        total = beneficiaryTokens.length;
+
+        if (offset >= total) {
+            return (new address[](0), total);
+        }
+
+        uint256 end = offset + limit;
+        if (end > total) {
+            end = total;
+        }
+
+        tokens = new address[](end - offset);
+        for (uint256 i = offset; i < end; i++) {
+            tokens[i - offset] = beneficiaryTokens[i];
+        }
+
+        return (tokens, total);
+    }
+
     /**
      * @notice Gets the index of a security token by its address
      * @param tokenAddress The address of the security token
@@ -228,6 +536,37 @@ contract SecurityTokenFactory is Ownable {
      * @return True if the address is a security token created by this factory, false otherwise
      */
     function isTokenCreatedByFactory(address tokenAddress) external view returns (bool) {
+        return _isTokenCreatedByFactory(tokenAddress);
+    }
+
+    /**
+     * @dev Decodes the SecurityToken.initialize arguments and validates them
+     * @param initData The initialization data passed to createToken
+     * @return isin The ISIN of the security token
+     */
+    function _validateInitData(bytes calldata initData) private view returns (string memory isin) {
+        bytes4 selector = initData.length >= 4 ? bytes4(initData[:4]) : bytes4(0);
+        if (selector != INITIALIZE_SELECTOR) revert InvalidInitializer(selector);
+
+        uint256 cap;
+        address admin;
+        (, , cap, isin, , , admin) = abi.decode(
+            initData[4:],
+            (string, string, uint256, string, string, string, address)
+        );
+
+        if (bytes(isin).length == 0) revert EmptyISIN();
+        if (cap == 0) revert InvalidCap();
+        if (admin == address(0)) revert InvalidAdminAddress();
+        if (tokenByISIN[isin] != address(0)) revert DuplicateISIN(isin, tokenByISIN[isin]);
+    }
+
+    /**
+     * @dev Checks if a given address is a security token created by this factory
+     * @param tokenAddress The address to check
+     * @return True if the address is a security token created by this factory
+     */
+    function _isTokenCreatedByFactory(address tokenAddress) private view returns (bool) {
         uint256 index = indexOfDeployedTokens[tokenAddress];
         return index < totalOfTokensCreated && deployedTokens[index] == tokenAddress;
     }
@@ -243,7 +582,7 @@ contract SecurityTokenFactory is Ownable {
      * @param beneficiary The beneficiary address
      * @return The address of the newly created SecurityToken proxy
      */    function createBond(
-        bytes memory initData, 
+        bytes calldata initData, 
         address beneficiary
     ) external onlyOwner returns (address) {
         return this.createToken(initData, beneficiary);
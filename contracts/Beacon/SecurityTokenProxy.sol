@@ -0,0 +1,33 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.22;
+
+import {IBeacon} from "@openzeppelin/contracts/proxy/beacon/IBeacon.sol";
+import {ERC1967Utils} from "@openzeppelin/contracts/proxy/ERC1967/ERC1967Utils.sol";
+import {Proxy} from "@openzeppelin/contracts/proxy/Proxy.sol";
+
+/**
+ * @title SecurityTokenProxy
+ * @dev Beacon proxy created by SecurityTokenFactory for every SecurityToken
+ * @notice Unlike OpenZeppelin's BeaconProxy, which keeps its beacon in an immutable, this proxy
+ *         reads the beacon from the ERC-1967 beacon slot on every call. The token can therefore
+ *         switch beacons from its own code, which SecurityToken.pinImplementation and
+ *         unpinImplementation do to move between the shared beacon and a dedicated one.
+ * @author ISBE Security Tokens Team
+ */
+contract SecurityTokenProxy is Proxy {
+    /**
+     * @dev Stores the beacon in the ERC-1967 beacon slot and calls the implementation with data
+     * @param beacon The beacon holding the implementation
+     * @param data The initialization call, empty to skip it
+     */
+    constructor(address beacon, bytes memory data) payable {
+        ERC1967Utils.upgradeBeaconToAndCall(beacon, data);
+    }
+
+    /**
+     * @dev Returns the implementation of the beacon currently stored in the ERC-1967 beacon slot
+     */
+    function _implementation() internal view override returns (address) {
+        return IBeacon(ERC1967Utils.getBeacon()).implementation();
+    }
+}
@@ -1,6 +1,7 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.28;
 import './Librarys/LibSecurityToken.sol';
+import {LibEIP712} from './Librarys/LibEIP712.sol';
 
 /**
  * @title AdminFacet
@@ -8,12 +9,29 @@ import './Librarys/LibSecurityToken.sol';
  * @notice This facet provides:
  *         - Pause/unpause functionality
  *         - Whitelist/blacklist management
+ *         - EIP-712 signed pause and whitelist actions for off-line admin keys
+ *         - Investor country codes
+ *         - Account and partial token freezing
  *         - Role-based access control
  * @author ISBE Security Tokens Team
  */
 contract AdminFacet {
     using LibSecurityToken for LibSecurityToken.SecurityTokenStorage;
     
+    // =============================================================
+    //                           CONSTANTS
+    // =============================================================
+    
+    /// @dev Version of the AdminFacet contract
+    string private constant VERSION = "1.1.0";
+    
+    /// @dev EIP-712 type hash of a signed pause
+    bytes32 private constant PAUSE_TYPEHASH = keccak256("Pause(uint256 nonce,uint256 deadline)");
+    
+    /// @dev EIP-712 type hash of a signed whitelist addition
+    bytes32 private constant ADD_TO_WHITELIST_TYPEHASH =
+        keccak256("AddToWhitelist(address account,uint256 nonce,uint256 deadline)");
+    
     // =============================================================
     //                           EVENTS
     // =============================================================
@@ -36,12 +54,27 @@ contract AdminFacet {
     /// @notice Emitted when an address is removed from the whitelist
     event WhitelistRemoved(address indexed account, address indexed admin);
     
+    /// @notice Emitted when the country of an investor is recorded
+    event InvestorCountrySet(address indexed account, uint16 indexed country, address indexed admin);
+    
     /// @notice Emitted when an address is added to the blacklist
     event BlacklistAdded(address indexed account, address indexed admin);
     
     /// @notice Emitted when an address is removed from the blacklist
     event BlacklistRemoved(address indexed account, address indexed admin);
 
+    /// @notice Emitted when an account is frozen
+    event AccountFrozen(address indexed account, address indexed admin);
+
+    /// @notice Emitted when an account is unfrozen
+    event AccountUnfrozen(address indexed account, address indexed admin);
+
+    /// @notice Emitted when part of the tokens of an account are frozen
+    event TokensFrozen(address indexed account, uint256 amount);
+
+    /// @notice Emitted when part of the tokens of an account are unfrozen
+    event TokensUnfrozen(address indexed account, uint256 amount);
+
     // =============================================================
     //                           ERRORS
     // =============================================================
@@ -55,6 +88,12 @@ contract AdminFacet {
     /// @notice Thrown when account address is zero
     error InvalidAccountAddress();
 
+    /// @notice Thrown when freezing more tokens than the account holds
+    error FreezeAmountExceedsBalance(address account, uint256 amount, uint256 balance);
+
+    /// @notice Thrown when unfreezing more tokens than are frozen
+    error UnfreezeAmountExceedsFrozen(address account, uint256 amount, uint256 frozen);
+
     // =============================================================
     //                           MODIFIERS
     // =============================================================    
@@ -146,6 +185,119 @@ contract AdminFacet {
         return LibSecurityToken.securityTokenStorage().whitelist[account];
     }
 
+    /**
+     * @notice Adds an address to the whitelist and records the investor's country
+     * @dev Only accounts with ADMIN_ROLE can call this function
+     * @param account The address to add to the whitelist
+     * @param country The ISO 3166-1 numeric country code of the investor (e.g. 724 for Spain)
+     */
+    function addToWhitelistWithCountry(address account, uint16 country) 
+        external 
+        onlyRole(LibSecurityToken.securityTokenStorage().adminRole) 
+        validAccount(account)
+    {
+        LibSecurityToken.SecurityTokenStorage storage sts = LibSecurityToken.securityTokenStorage();
+        sts.whitelist[account] = true;
+        sts.investorCountry[account] = country;
+        emit WhitelistAdded(account, msg.sender);
+        emit InvestorCountrySet(account, country, msg.sender);
+    }
+
+    // =============================================================
+    //                    SIGNED ADMIN FUNCTIONS
+    // =============================================================
+
+    /**
+     * @notice Pauses all token transfers with a signature of a pauser (EIP-712)
+     * @dev Lets a relayer submit the action for a key held in cold storage. The signer must
+     *      have PAUSER_ROLE; the signature is bound to the signer's current nonce.
+     * @param signer The address with PAUSER_ROLE that signed the action
+     * @param deadline The timestamp after which the signature is no longer valid
+     * @param v The recovery id of the signature
+     * @param r The r value of the signature
+     * @param s The s value of the signature
+     */
+    function pauseBySig(address signer, uint256 deadline, uint8 v, bytes32 r, bytes32 s) external {
+        LibSecurityToken.SecurityTokenStorage storage sts = LibSecurityToken.securityTokenStorage();
+        _checkSignerRole(sts.pauserRole, signer);
+
+        bytes32 structHash = keccak256(abi.encode(PAUSE_TYPEHASH, LibEIP712.useNonce(signer), deadline));
+        LibEIP712.verify(signer, structHash, deadline, v, r, s);
+
+        sts.paused = true;
+        emit Paused(signer);
+    }
+
+    /**
+     * @notice Adds an address to the whitelist with a signature of an admin (EIP-712)
+     * @dev Lets a relayer submit the action for a key held in cold storage. The signer must
+     *      have ADMIN_ROLE; the signature is bound to the signer's current nonce.
+     * @param account The address to add to the whitelist
+     * @param signer The address with ADMIN_ROLE that signed the action
+     * @param deadline The timestamp after which the signature is no longer valid
+     * @param v The recovery id of the signature
+     * @param r The r value of the signature
+     * @param s The s value of the signature
+     */
+    function addToWhitelistBySig(
+        address account,
+        address signer,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external validAccount(account) {
+        LibSecurityToken.SecurityTokenStorage storage sts = LibSecurityToken.securityTokenStorage();
+        _checkSignerRole(sts.adminRole, signer);
+
+        bytes32 structHash = keccak256(
+            abi.encode(ADD_TO_WHITELIST_TYPEHASH, account, LibEIP712.useNonce(signer), deadline)
+        );
+        LibEIP712.verify(signer, structHash, deadline, v, r, s);
+
+        sts.whitelist[account] = true;
+        emit WhitelistAdded(account, signer);
+    }
+
+    /**
+     * @dev Reverts if the signer of an action does not have the required role
+     * @param role The role required for the action
+     * @param signer The address that signed the action
+     */
+    function _checkSignerRole(bytes32 role, address signer) private view {
+        if (!LibSecurityToken.securityTokenStorage().roles[role][signer]) {
+            revert AccessControlUnauthorizedAccount(signer, role);
+        }
+    }
+
+    // =============================================================
+    //                    INVESTOR COUNTRY FUNCTIONS
+    // =============================================================
+
+    /**
+     * @notice Records or updates the country of an investor
+     * @dev Only accounts with ADMIN_ROLE can call this function
+     * @param account The investor address
+     * @param country The ISO 3166-1 numeric country code (0 clears the country)
+     */
+    function setInvestorCountry(address account, uint16 country) 
+        external 
+        onlyRole(LibSecurityToken.securityTokenStorage().adminRole) 
+        validAccount(account)
+    {
+        LibSecurityToken.securityTokenStorage().investorCountry[account] = country;
+        emit InvestorCountrySet(account, country, msg.sender);
+    }
+
+    /**
+     * @notice Returns the country of an investor
+     * @param account The investor address
+     * @return The ISO 3166-1 numeric country code (0 if unknown)
+     */
+    function investorCountry(address account) external view returns (uint16) {
+        return LibSecurityToken.securityTokenStorage().investorCountry[account];
+    }
+
     // =============================================================
     //                       BLACKLIST FUNCTIONS
     // =============================================================
@@ -187,6 +339,99 @@ contract AdminFacet {
         return LibSecurityToken.securityTokenStorage().blacklist[account];
     }
 
+    // =============================================================
+    //                        FREEZE FUNCTIONS
+    // =============================================================
+
+    /**
+     * @notice Freezes an account, preventing it from sending or receiving tokens
+     * @dev Only accounts with ADMIN_ROLE can call this function
+     * @param account The address to freeze
+     */
+    function freezeAccount(address account) 
+        external 
+        onlyRole(LibSecurityToken.securityTokenStorage().adminRole) 
+        validAccount(account)
+    {
+        LibSecurityToken.securityTokenStorage().frozen[account] = true;
+        emit AccountFrozen(account, msg.sender);
+    }
+
+    /**
+     * @notice Unfreezes a previously frozen account
+     * @dev Only accounts with ADMIN_ROLE can call this function
+     * @param account The address to unfreeze
+     */
+    function unfreezeAccount(address account) 
+        external 
+        onlyRole(LibSecurityToken.securityTokenStorage().adminRole) 
+        validAccount(account)
+    {
+        LibSecurityToken.securityTokenStorage().frozen[account] = false;
+        emit AccountUnfrozen(account, msg.sender);
+    }
+
+    /**
+     * @notice Checks if an account is frozen
+     * @param account The address to check
+     * @return True if the account is frozen, false otherwise
+     */
+    function isFrozen(address account) external view returns (bool) {
+        return LibSecurityToken.securityTokenStorage().frozen[account];
+    }
+
+    /**
+     * @notice Freezes part of the tokens held by an account
+     * @dev Only accounts with ADMIN_ROLE can call this function. Frozen tokens cannot be
+     *      transferred or burned while the rest of the balance remains transferable.
+     * @param account The address whose tokens are frozen
+     * @param amount The amount of tokens to add to the frozen amount
+     */
+    function freezePartialTokens(address account, uint256 amount) 
+        external 
+        onlyRole(LibSecurityToken.securityTokenStorage().adminRole) 
+        validAccount(account)
+    {
+        LibSecurityToken.SecurityTokenStorage storage sts = LibSecurityToken.securityTokenStorage();
+        uint256 newFrozen = sts.frozenTokens[account] + amount;
+        if (newFrozen > sts.balances[account]) {
+            revert FreezeAmountExceedsBalance(account, newFrozen, sts.balances[account]);
+        }
+
+        sts.frozenTokens[account] = newFrozen;
+        emit TokensFrozen(account, amount);
+    }
+
+    /**
+     * @notice Unfreezes part of the frozen tokens of an account
+     * @dev Only accounts with ADMIN_ROLE can call this function
+     * @param account The address whose tokens are unfrozen
+     * @param amount The amount of tokens to remove from the frozen amount
+     */
+    function unfreezePartialTokens(address account, uint256 amount) 
+        external 
+        onlyRole(LibSecurityToken.securityTokenStorage().adminRole) 
+        validAccount(account)
+    {
+        LibSecurityToken.SecurityTokenStorage storage sts = LibSecurityToken.securityTokenStorage();
+        uint256 currentFrozen = sts.frozenTokens[account];
+        if (amount > currentFrozen) {
+            revert UnfreezeAmountExceedsFrozen(account, amount, currentFrozen);
+        }
+
+        sts.frozenTokens[account] = currentFrozen - amount;
+        emit TokensUnfrozen(account, amount);
+    }
+
+    /**
+     * @notice Returns the amount of frozen tokens of an account
+     * @param account The address to check
+     * @return The amount of tokens frozen for the account
+     */
+    function getFrozenTokens(address account) external view returns (uint256) {
+        return LibSecurityToken.securityTokenStorage().frozenTokens[account];
+    }
+
     // =============================================================
     //                         ROLE FUNCTIONS
     // =============================================================    
@@ -286,4 +531,12 @@ contract AdminFacet {
         }
         return statuses;
     }
+    
+    /**
+     * @notice Returns the version of this facet contract
+     * @return The version string
+     */
+    function adminFacetVersion() external pure returns (string memory) {
+        return VERSION;
+    }
 }
\ No newline at end of file
@@ -3,13 +3,15 @@
 pragma solidity ^0.8.28;
 
 import './Librarys/LibSecurityToken.sol';
+import {LibCompliance} from './Librarys/LibCompliance.sol';
 
 /**
  * @title ComplianceFacet
  * @author ISBE Security Tokens Team
  * @notice Facet contract for compliance and regulatory management of security tokens
  * @dev This facet handles compliance-related operations including transaction records,
- *      security token metadata, and emergency transaction reversals. Part of the Diamond pattern.
+ *      security token metadata, emergency transaction reversals, controller (forced)
+ *      transfers and the registry of compliance modules. Part of the Diamond pattern.
  */
 contract ComplianceFacet {
     using LibSecurityToken for LibSecurityToken.SecurityTokenStorage;
@@ -19,7 +21,84 @@ contract ComplianceFacet {
     //////////////////////////////////////////////////////////////*/
 
     /// @dev Version of the ComplianceFacet contract
-    string private constant VERSION = "1.0.0";
+    string private constant VERSION = "1.1.0";
+
+    /// @dev Maximum number of compliance modules, bounds the gas used by every transfer
+    uint256 private constant MAX_COMPLIANCE_MODULES = 25;
+
+    /*//////////////////////////////////////////////////////////////
+                                 EVENTS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @notice Emitted when tokens are moved, including controller transfers and reversals
+     * @param from The address tokens are transferred from
+     * @param to The address tokens are transferred to
+     * @param value The amount of tokens transferred
+     */
+    event Transfer(address indexed from, address indexed to, uint256 value);
+
+    /**
+     * @notice Emitted when a compliance module is added to the engine
+     * @param module The address of the compliance module
+     * @param admin The address that added the module
+     */
+    event ComplianceModuleAdded(address indexed module, address indexed admin);
+
+    /**
+     * @notice Emitted when a compliance module is removed from the engine
+     * @param module The address of the compliance module
+     * @param admin The address that removed the module
+     */
+    event ComplianceModuleRemoved(address indexed module, address indexed admin);
+
+    /**
+     * @notice Emitted when a country is added to or removed from the allowed list
+     * @param country The ISO 3166-1 numeric country code
+     * @param allowed Whether the country is allowed
+     * @param admin The address that updated the list
+     */
+    event CountryAllowedSet(uint16 indexed country, bool allowed, address indexed admin);
+
+    /**
+     * @notice Emitted when a country is added to or removed from the blocked list
+     * @param country The ISO 3166-1 numeric country code
+     * @param blocked Whether the country is blocked
+     * @param admin The address that updated the list
+     */
+    event CountryBlockedSet(uint16 indexed country, bool blocked, address indexed admin);
+
+    /**
+     * @notice Emitted when the maximum number of holders is updated
+     * @param maxHolders The new maximum number of holders (0 means no limit)
+     * @param admin The address that updated the limit
+     */
+    event MaxHoldersSet(uint256 maxHolders, address indexed admin);
+
+    /**
+     * @notice Emitted when frozen tokens are released to execute a forced transfer or a reversal
+     * @param account The address whose tokens were unfrozen
+     * @param amount The amount of tokens unfrozen
+     */
+    event TokensUnfrozen(address indexed account, uint256 amount);
+
+    /**
+     * @notice Emitted when a controller forces a transfer between two holders (ERC-1644)
+     * @param controller The address that executed the forced transfer
+     * @param from The address tokens were taken from
+     * @param to The address tokens were given to
+     * @param value The amount of tokens transferred
+     * @param reasonCode Code identifying the legal or regulatory reason for the transfer
+     * @param data Additional data supporting the transfer (e.g. court order reference)
+     */
+    event ControllerTransfer(
+        address controller,
+        address indexed from,
+        address indexed to,
+        uint256 value,
+        bytes32 indexed reasonCode,
+        bytes data
+    );
 
     /*//////////////////////////////////////////////////////////////
                                  ERRORS
@@ -34,6 +113,30 @@ contract ComplianceFacet {
     /// @notice Thrown when insufficient balance for reversal
     error InsufficientBalanceForReversal(address account, uint256 required, uint256 available);
 
+    /// @notice Thrown when a forced transfer has a zero address as source or destination
+    error InvalidForcedTransfer(address from, address to);
+
+    /// @notice Thrown when insufficient balance for a forced transfer
+    error InsufficientBalanceForForcedTransfer(address account, uint256 required, uint256 available);
+
+    /// @notice Thrown when the controller role was never set up, see DiamondInit.initControllerRole
+    error ControllerRoleNotInitialized();
+
+    /// @notice Thrown when the maximum number of holders is below the current holder count
+    error MaxHoldersBelowHolderCount(uint256 maxHolders, uint256 holderCount);
+
+    /// @notice Thrown when the compliance module address is zero or has no code
+    error InvalidComplianceModule(address module);
+
+    /// @notice Thrown when the compliance module is already registered
+    error ComplianceModuleAlreadyAdded(address module);
+
+    /// @notice Thrown when the compliance module is not registered
+    error ComplianceModuleNotFound(address module);
+
+    /// @notice Thrown when the maximum number of compliance modules is reached
+    error TooManyComplianceModules(uint256 max);
+
     /*//////////////////////////////////////////////////////////////
                                 MODIFIERS
     //////////////////////////////////////////////////////////////*/
@@ -49,6 +152,18 @@ contract ComplianceFacet {
         }
         _;
     }
+
+    /**
+     * @notice Modifier to reject controller operations while the controller role is unset
+     * @dev An unset role is bytes32(0), the default admin role, which would otherwise
+     *      silently stand in for the controller role
+     */
+    modifier controllerRoleInitialized() {
+        if (LibSecurityToken.securityTokenStorage().controllerRole == bytes32(0)) {
+            revert ControllerRoleNotInitialized();
+        }
+        _;
+    }
       /*//////////////////////////////////////////////////////////////
                          SECURITY TOKEN METADATA
     //////////////////////////////////////////////////////////////*/
@@ -85,6 +200,96 @@ contract ComplianceFacet {
         return LibSecurityToken.securityTokenStorage().cap;
     }
 
+    /*//////////////////////////////////////////////////////////////
+                             HOLDER LIMITS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @notice Sets the maximum number of holders of the security token
+     * @dev Only callable by admin role. Enforced on transfers and mints that add a new holder
+     *      (e.g. 2000 holders of record for US 12(g), 150 for EU private placements).
+     * @param newMaxHolders The maximum number of holders (0 disables the limit)
+     */
+    function setMaxHolders(uint256 newMaxHolders) external onlyRole(LibSecurityToken.securityTokenStorage().adminRole) {
+        LibSecurityToken.SecurityTokenStorage storage sts = LibSecurityToken.securityTokenStorage();
+        if (newMaxHolders != 0 && newMaxHolders < sts.holderCount) {
+            revert MaxHoldersBelowHolderCount(newMaxHolders, sts.holderCount);
+        }
+
+        sts.maxHolders = newMaxHolders;
+        emit MaxHoldersSet(newMaxHolders, msg.sender);
+    }
+
+    /**
+     * @notice Returns the maximum number of holders
+     * @return The maximum number of holders (0 means no limit)
+     */
+    function maxHolders() external view returns (uint256) {
+        return LibSecurityToken.securityTokenStorage().maxHolders;
+    }
+
+    /**
+     * @notice Returns the number of accounts holding a non-zero balance
+     * @return The current holder count
+     */
+    function holderCount() external view returns (uint256) {
+        return LibSecurityToken.securityTokenStorage().holderCount;
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                         COUNTRY RESTRICTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @notice Adds or removes a country from the allowed list
+     * @dev Only callable by admin role. While the allowed list is empty every country that is
+     *      not blocked can receive tokens; once it has entries only those countries can.
+     * @param country The ISO 3166-1 numeric country code
+     * @param allowed Whether the country is allowed
+     */
+    function setCountryAllowed(uint16 country, bool allowed) external onlyRole(LibSecurityToken.securityTokenStorage().adminRole) {
+        LibSecurityToken.SecurityTokenStorage storage sts = LibSecurityToken.securityTokenStorage();
+        if (sts.allowedCountries[country] != allowed) {
+            sts.allowedCountries[country] = allowed;
+            if (allowed) {
+                sts.allowedCountryCount += 1;
+            } else {
+                sts.allowedCountryCount -= 1;
+            }
+        }
+
+        emit CountryAllowedSet(country, allowed, msg.sender);
+    }
+
+    /**
+     * @notice Adds or removes a country from the blocked list
+     * @dev Only callable by admin role. Blocked countries take precedence over the allowed list.
+     * @param country The ISO 3166-1 numeric country code
+     * @param blocked Whether the country is blocked
+     */
+    function setCountryBlocked(uint16 country, bool blocked) external onlyRole(LibSecurityToken.securityTokenStorage().adminRole) {
+        LibSecurityToken.securityTokenStorage().blockedCountries[country] = blocked;
+        emit CountryBlockedSet(country, blocked, msg.sender);
+    }
+
+    /**
+     * @notice Checks if a country is in the allowed list
+     * @param country The ISO 3166-1 numeric country code
+     * @return True if the country is allowed, false otherwise
+     */
+    function isCountryAllowed(uint16 country) external view returns (bool) {
+        return LibSecurityToken.securityTokenStorage().allowedCountries[country];
+    }
+
+    /**
+     * @notice Checks if a country is in the blocked list
+     * @param country The ISO 3166-1 numeric country code
+     * @return True if the country is blocked, false otherwise
+     */
+    function isCountryBlocked(uint16 country) external view returns (bool) {
+        return LibSecurityToken.securityTokenStorage().blockedCountries[country];
+    }
+
     /*//////////////////////////////////////////////////////////////
                           TRANSACTION RECORDS
     //////////////////////////////////////////////////////////////*/
@@ -177,7 +382,10 @@ contract ComplianceFacet {
 
     /**
      * @notice Reverts a transaction in case of emergency or regulatory compliance
-     * @dev Only callable by admin role. Creates a reverse transaction record.
+     * @dev Only callable by admin role. Creates a reverse transaction record. Frozen tokens
+     *      of the original recipient are released when the unfrozen balance does not cover
+     *      the amount, as in forcedTransfer, lock-up tranches are cut down to the remaining
+     *      balance and the max holders limit still applies.
      * @param transactionId The ID of the transaction to revert
      */
     function revertTransaction(uint256 transactionId) external onlyRole(LibSecurityToken.securityTokenStorage().adminRole) {
@@ -188,13 +396,26 @@ contract ComplianceFacet {
             revert InvalidTransactionRecord(transactionId);
         }
         
-        if (sts.balances[record.to] < record.amount) {
-            revert InsufficientBalanceForReversal(record.to, record.amount, sts.balances[record.to]);
+        uint256 toBalance = sts.balances[record.to];
+        if (toBalance < record.amount) {
+            revert InsufficientBalanceForReversal(record.to, record.amount, toBalance);
+        }
+
+        // Release frozen tokens if the unfrozen balance is not enough
+        uint256 frozenTokens = sts.frozenTokens[record.to];
+        if (toBalance - record.amount < frozenTokens) {
+            uint256 tokensToUnfreeze = frozenTokens - (toBalance - record.amount);
+            sts.frozenTokens[record.to] = frozenTokens - tokensToUnfreeze;
+            emit TokensUnfrozen(record.to, tokensToUnfreeze);
         }
         
         // Perform reverse transfer
-        sts.balances[record.to] -= record.amount;
+        sts.updateSnapshots(record.to, record.from);
+        sts.balances[record.to] = toBalance - record.amount;
         sts.balances[record.from] += record.amount;
+        if (sts.updateHolderCount(record.to, record.from, record.amount)) sts.enforceMaxHolders();
+        sts.settlePartitions(record.to);
+        sts.settleLockUps(record.to);
         
         // Record the reversal transaction
         sts.transactionCount += 1;
@@ -203,8 +424,147 @@ contract ComplianceFacet {
             from: record.to,
             to: record.from,
             amount: record.amount,
-            timestamp: block.timestamp
+            timestamp: block.timestamp,
+            forced: false
         });
+        
+        LibCompliance.transferred(record.to, record.from, record.amount);
+
+        emit Transfer(record.to, record.from, record.amount);
+    }
+
+    /**
+     * @notice Forces a transfer between two holders by order of a court or regulator (ERC-1644)
+     * @dev Only callable by controller role. Bypasses pause, whitelist, blacklist and freeze
+     *      checks and creates a transaction record flagged as forced. Frozen tokens are
+     *      released when the unfrozen balance does not cover the amount, and partitioned
+     *      and locked tokens are taken out of their partitions and tranches the same way.
+     * @param from The address to take the tokens from
+     * @param to The address to give the tokens to
+     * @param amount The amount of tokens to transfer
+     * @param reasonCode Code identifying the legal or regulatory reason for the transfer
+     * @param data Additional data supporting the transfer (e.g. court order reference)
+     */
+    function forcedTransfer(
+        address from,
+        address to,
+        uint256 amount,
+        bytes32 reasonCode,
+        bytes calldata data
+    ) external controllerRoleInitialized onlyRole(LibSecurityToken.securityTokenStorage().controllerRole) {
+        if (from == address(0) || to == address(0)) {
+            revert InvalidForcedTransfer(from, to);
+        }
+
+        LibSecurityToken.SecurityTokenStorage storage sts = LibSecurityToken.securityTokenStorage();
+
+        uint256 fromBalance = sts.balances[from];
+        if (fromBalance < amount) {
+            revert InsufficientBalanceForForcedTransfer(from, amount, fromBalance);
+        }
+
+        // Release frozen tokens if the unfrozen balance is not enough
+        uint256 frozenTokens = sts.frozenTokens[from];
+        if (fromBalance - amount < frozenTokens) {
+            uint256 tokensToUnfreeze = frozenTokens - (fromBalance - amount);
+            sts.frozenTokens[from] = frozenTokens - tokensToUnfreeze;
+            emit TokensUnfrozen(from, tokensToUnfreeze);
+        }
+
+        // Perform forced transfer
+        sts.updateSnapshots(from, to);
+        sts.balances[from] = fromBalance - amount;
+        sts.balances[to] += amount;
+        sts.updateHolderCount(from, to, amount);
+        sts.settlePartitions(from);
+        sts.settleLockUps(from);
+
+        // Record the forced transaction
+        sts.transactionCount += 1;
+        sts.transactionRecords[sts.transactionCount] = LibSecurityToken.TransactionRecord({
+            id: sts.transactionCount,
+            from: from,
+            to: to,
+            amount: amount,
+            timestamp: block.timestamp,
+            forced: true
+        });
+
+        LibCompliance.transferred(from, to, amount);
+
+        emit Transfer(from, to, amount);
+        emit ControllerTransfer(msg.sender, from, to, amount, reasonCode, data);
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                           COMPLIANCE MODULES
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @notice Adds a compliance module at the end of the evaluation order
+     * @dev Only callable by admin role. The module must implement IComplianceModule.
+     * @param module The address of the compliance module
+     */
+    function addComplianceModule(address module) external onlyRole(LibSecurityToken.securityTokenStorage().adminRole) {
+        if (module == address(0) || module.code.length == 0) {
+            revert InvalidComplianceModule(module);
+        }
+
+        LibSecurityToken.SecurityTokenStorage storage sts = LibSecurityToken.securityTokenStorage();
+        if (sts.complianceModules.length >= MAX_COMPLIANCE_MODULES) {
+            revert TooManyComplianceModules(MAX_COMPLIANCE_MODULES);
+        }
+        for (uint256 i = 0; i < sts.complianceModules.length; i++) {
+            if (sts.complianceModules[i] == module) {
+                revert ComplianceModuleAlreadyAdded(module);
+            }
+        }
+
+        sts.complianceModules.push(module);
+        emit ComplianceModuleAdded(module, msg.sender);
+    }
+
+    /**
+     * @notice Removes a compliance module keeping the order of the remaining ones
+     * @dev Only callable by admin role
+     * @param module The address of the compliance module
+     */
+    function removeComplianceModule(address module) external onlyRole(LibSecurityToken.securityTokenStorage().adminRole) {
+        address[] storage modules = LibSecurityToken.securityTokenStorage().complianceModules;
+        for (uint256 i = 0; i < modules.length; i++) {
+            if (modules[i] == module) {
+                for (uint256 j = i; j < modules.length - 1; j++) {
+                    modules[j] = modules[j + 1];
+                }
+                modules.pop();
+                emit ComplianceModuleRemoved(module, msg.sender);
+                return;
+            }
+        }
+        revert ComplianceModuleNotFound(module);
+    }
+
+    /**
+     * @notice Returns the compliance modules in evaluation order
+     * @return The array of compliance module addresses
+     */
+    function getComplianceModules() external view returns (address[] memory) {
+        return LibSecurityToken.securityTokenStorage().complianceModules;
+    }
+
+    /**
+     * @notice Checks if a compliance module is registered
+     * @param module The address to check
+     * @return True if the module is registered, false otherwise
+     */
+    function isComplianceModule(address module) external view returns (bool) {
+        address[] storage modules = LibSecurityToken.securityTokenStorage().complianceModules;
+        for (uint256 i = 0; i < modules.length; i++) {
+            if (modules[i] == module) {
+                return true;
+            }
+        }
+        return false;
     }
 
     /*//////////////////////////////////////////////////////////////
@@ -243,6 +603,14 @@ contract ComplianceFacet {
         return LibSecurityToken.securityTokenStorage().defaultAdminRole;
     }
 
+    /**
+     * @notice Returns the controller role identifier
+     * @return The bytes32 identifier for the controller role
+     */
+    function CONTROLLER_ROLE() external view returns (bytes32) {
+        return LibSecurityToken.securityTokenStorage().controllerRole;
+    }
+
     /*//////////////////////////////////////////////////////////////
                              UTILITY FUNCTIONS
     //////////////////////////////////////////////////////////////*/
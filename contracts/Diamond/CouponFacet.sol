@@ -0,0 +1,306 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import './Librarys/LibSecurityToken.sol';
+import {LibDateTime} from './Librarys/LibDateTime.sol';
+
+/**
+ * @title CouponFacet
+ * @author ISBE Security Tokens Team
+ * @notice Facet contract for the fixed-rate coupon schedule of bond tokens
+ * @dev Stores the coupon terms next to the security token metadata and computes coupon
+ *      dates, coupon amounts and accrued interest on-chain. Amounts are expressed in the
+ *      payment token using the nominal value set in RedemptionFacet. Period n runs from
+ *      coupon date n - 1 to coupon date n, where coupon date 0 is one regular period before
+ *      the first coupon date; the last period ends at the maturity date when one is set.
+ *      Part of the Diamond pattern.
+ */
+contract CouponFacet {
+    /*//////////////////////////////////////////////////////////////
+                                 CONSTANTS
+    //////////////////////////////////////////////////////////////*/
+
+    /// @dev Version of the CouponFacet contract
+    string private constant VERSION = "1.0.0";
+
+    /// @dev Basis points in 100%
+    uint256 private constant BPS = 10_000;
+
+    /*//////////////////////////////////////////////////////////////
+                                 EVENTS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @notice Emitted when the coupon schedule is set
+     * @param rateBps The annual coupon rate in basis points
+     * @param frequency The number of coupon payments per year
+     * @param dayCount The day-count convention
+     * @param firstCouponDate The payment date of the first coupon
+     * @param admin The address that set the schedule
+     */
+    event CouponScheduleSet(
+        uint256 rateBps,
+        uint256 frequency,
+        LibSecurityToken.DayCount dayCount,
+        uint256 firstCouponDate,
+        address indexed admin
+    );
+
+    /*//////////////////////////////////////////////////////////////
+                                 ERRORS
+    //////////////////////////////////////////////////////////////*/
+
+    /// @notice Thrown when caller doesn't have the required role
+    error UnauthorizedRole(address caller, bytes32 requiredRole);
+
+    /// @notice Thrown when the coupon rate is zero or above 100%
+    error InvalidCouponRate(uint256 rateBps);
+
+    /// @notice Thrown when the payment frequency is not 1, 2, 4 or 12
+    error InvalidCouponFrequency(uint256 frequency);
+
+    /// @notice Thrown when the first coupon date is not in the future
+    error InvalidFirstCouponDate(uint256 firstCouponDate);
+
+    /// @notice Thrown when changing the schedule after the first coupon date
+    error CouponScheduleLocked(uint256 firstCouponDate);
+
+    /// @notice Thrown when the coupon period does not exist
+    error InvalidCouponPeriod(uint256 period);
+
+    /*//////////////////////////////////////////////////////////////
+                                MODIFIERS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @notice Restricts function access to accounts with specific role
+     * @param role The required role for function access
+     */
+    modifier onlyRole(bytes32 role) {
+        LibSecurityToken.SecurityTokenStorage storage sts = LibSecurityToken.securityTokenStorage();
+        if (!sts.roles[role][msg.sender]) {
+            revert UnauthorizedRole(msg.sender, role);
+        }
+        _;
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                            COUPON SCHEDULE
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @notice Sets the fixed-rate coupon schedule
+     * @dev Only callable by admin role, and only until the first coupon date is reached
+     * @param rateBps The annual coupon rate in basis points (e.g. 450 for 4.5%)
+     * @param frequency The number of coupon payments per year (1, 2, 4 or 12)
+     * @param dayCount The day-count convention
+     * @param firstCouponDate The payment date of the first coupon
+     */
+    function setCouponSchedule(
+        uint256 rateBps,
+        uint256 frequency,
+        LibSecurityToken.DayCount dayCount,
+        uint256 firstCouponDate
+    ) external onlyRole(LibSecurityToken.securityTokenStorage().adminRole) {
+        LibSecurityToken.CouponSchedule storage schedule = LibSecurityToken.securityTokenStorage().couponSchedule;
+        if (schedule.firstCouponDate != 0 && block.timestamp >= schedule.firstCouponDate) {
+            revert CouponScheduleLocked(schedule.firstCouponDate);
+        }
+        if (rateBps == 0 || rateBps > BPS) revert InvalidCouponRate(rateBps);
+        if (frequency != 1 && frequency != 2 && frequency != 4 && frequency != 12) {
+            revert InvalidCouponFrequency(frequency);
+        }
+        if (firstCouponDate <= block.timestamp) revert InvalidFirstCouponDate(firstCouponDate);
+
+        schedule.rateBps = rateBps;
+        schedule.frequency = frequency;
+        schedule.dayCount = dayCount;
+        schedule.firstCouponDate = firstCouponDate;
+
+        emit CouponScheduleSet(rateBps, frequency, dayCount, firstCouponDate, msg.sender);
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                             VIEW FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @notice Returns the coupon schedule
+     * @return The coupon schedule (all zero if not set)
+     */
+    function getCouponSchedule() external view returns (LibSecurityToken.CouponSchedule memory) {
+        return LibSecurityToken.securityTokenStorage().couponSchedule;
+    }
+
+    /**
+     * @notice Returns the payment date of the next coupon
+     * @return The next coupon date (0 if no schedule is set or the bond has matured)
+     */
+    function nextCouponDate() external view returns (uint256) {
+        LibSecurityToken.SecurityTokenStorage storage sts = LibSecurityToken.securityTokenStorage();
+        if (sts.couponSchedule.firstCouponDate == 0) {
+            return 0;
+        }
+        if (sts.maturityDate != 0 && block.timestamp >= sts.maturityDate) {
+            return 0;
+        }
+
+        uint256 nextDate = block.timestamp < sts.couponSchedule.firstCouponDate
+            ? sts.couponSchedule.firstCouponDate
+            : _couponDate(sts, _periodAt(sts, block.timestamp));
+        if (sts.maturityDate != 0 && nextDate > sts.maturityDate) {
+            return sts.maturityDate;
+        }
+        return nextDate;
+    }
+
+    /**
+     * @notice Returns the start and end of a coupon period
+     * @param period The coupon period (1 for the period paid on the first coupon date)
+     * @return start The accrual start of the period
+     * @return end The payment date of the period
+     */
+    function couponPeriod(uint256 period) external view returns (uint256 start, uint256 end) {
+        return _periodBounds(LibSecurityToken.securityTokenStorage(), period);
+    }
+
+    /**
+     * @notice Returns the coupon paid per whole token for a period
+     * @param period The coupon period
+     * @return The coupon amount in payment token units
+     */
+    function couponAmountPerToken(uint256 period) external view returns (uint256) {
+        LibSecurityToken.SecurityTokenStorage storage sts = LibSecurityToken.securityTokenStorage();
+        (uint256 start, uint256 end) = _periodBounds(sts, period);
+        return _interest(sts, 10 ** sts.decimals, start, end);
+    }
+
+    /**
+     * @notice Returns the coupon due to a holder for a period
+     * @dev Uses the current balance of the holder; take a snapshot on the record date and
+     *      pay through DistributionFacet to settle coupons on historic balances
+     * @param holder The address of the holder
+     * @param period The coupon period
+     * @return The coupon amount in payment token units
+     */
+    function couponAmountFor(address holder, uint256 period) external view returns (uint256) {
+        LibSecurityToken.SecurityTokenStorage storage sts = LibSecurityToken.securityTokenStorage();
+        (uint256 start, uint256 end) = _periodBounds(sts, period);
+        return _interest(sts, sts.balances[holder], start, end);
+    }
+
+    /**
+     * @notice Returns the interest accrued by a holder since the last coupon date
+     * @dev Uses the current balance of the holder. Accrual stops at the maturity date.
+     * @param holder The address of the holder
+     * @param timestamp The date to compute the accrued interest at
+     * @return The accrued interest in payment token units
+     */
+    function accruedInterest(address holder, uint256 timestamp) external view returns (uint256) {
+        LibSecurityToken.SecurityTokenStorage storage sts = LibSecurityToken.securityTokenStorage();
+        if (sts.couponSchedule.firstCouponDate == 0) {
+            return 0;
+        }
+        if (sts.maturityDate != 0 && timestamp >= sts.maturityDate) {
+            return 0;
+        }
+
+        uint256 start = _couponDate(sts, 0);
+        if (timestamp <= start) {
+            return 0;
+        }
+        if (timestamp >= sts.couponSchedule.firstCouponDate) {
+            start = _couponDate(sts, _periodAt(sts, timestamp) - 1);
+        }
+        return _interest(sts, sts.balances[holder], start, timestamp);
+    }
+
+    /**
+     * @notice Returns the version of this facet contract
+     * @return The version string
+     */
+    function couponFacetVersion() external pure returns (string memory) {
+        return VERSION;
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                           INTERNAL FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @dev Payment date of a coupon; coupon date 0 is the accrual start of the first period
+     */
+    function _couponDate(LibSecurityToken.SecurityTokenStorage storage sts, uint256 index) internal view returns (uint256) {
+        int256 monthsPerPeriod = int256(12 / sts.couponSchedule.frequency);
+        return LibDateTime.addMonths(sts.couponSchedule.firstCouponDate, (int256(index) - 1) * monthsPerPeriod);
+    }
+
+    /**
+     * @dev Period whose payment date is the first coupon date strictly after `timestamp`.
+     *      Requires timestamp >= firstCouponDate.
+     */
+    function _periodAt(LibSecurityToken.SecurityTokenStorage storage sts, uint256 timestamp) internal view returns (uint256 period) {
+        (uint256 year, uint256 month, ) = LibDateTime.toDate(timestamp);
+        (uint256 firstYear, uint256 firstMonth, ) = LibDateTime.toDate(sts.couponSchedule.firstCouponDate);
+
+        // Estimate from the month difference, then correct for the day of the month
+        period = ((year * 12 + month) - (firstYear * 12 + firstMonth)) / (12 / sts.couponSchedule.frequency) + 1;
+        while (_couponDate(sts, period) <= timestamp) {
+            period++;
+        }
+        while (period > 1 && _couponDate(sts, period - 1) > timestamp) {
+            period--;
+        }
+    }
+
+    /**
+     * @dev Accrual start and payment date of a period, the last one ending at maturity
+     */
+    function _periodBounds(
+        LibSecurityToken.SecurityTokenStorage storage sts,
+        uint256 period
+    ) internal view returns (uint256 start, uint256 end) {
+        if (period == 0 || sts.couponSchedule.firstCouponDate == 0) revert InvalidCouponPeriod(period);
+
+        start = _couponDate(sts, period - 1);
+        end = _couponDate(sts, period);
+        if (sts.maturityDate != 0) {
+            if (start >= sts.maturityDate) revert InvalidCouponPeriod(period);
+            if (end > sts.maturityDate) end = sts.maturityDate;
+        }
+    }
+
+    /**
+     * @dev Interest on `amount` tokens between two dates, rounded down
+     */
+    function _interest(
+        LibSecurityToken.SecurityTokenStorage storage sts,
+        uint256 amount,
+        uint256 start,
+        uint256 end
+    ) internal view returns (uint256) {
+        (uint256 numerator, uint256 denominator) = _yearFraction(sts.couponSchedule.dayCount, start, end);
+        return amount * sts.nominalValue * sts.couponSchedule.rateBps * numerator
+            / (10 ** sts.decimals * BPS * denominator);
+    }
+
+    /**
+     * @dev Year fraction between two dates as numerator / denominator (in days)
+     */
+    function _yearFraction(
+        LibSecurityToken.DayCount dayCount,
+        uint256 start,
+        uint256 end
+    ) internal pure returns (uint256 numerator, uint256 denominator) {
+        if (dayCount == LibSecurityToken.DayCount.THIRTY_360) {
+            (uint256 y1, uint256 m1, uint256 d1) = LibDateTime.toDate(start);
+            (uint256 y2, uint256 m2, uint256 d2) = LibDateTime.toDate(end);
+            if (d1 == 31) d1 = 30;
+            if (d2 == 31 && d1 == 30) d2 = 30;
+            return ((360 * y2 + 30 * m2 + d2) - (360 * y1 + 30 * m1 + d1), 360);
+        }
+
+        uint256 actualDays = end / LibDateTime.SECONDS_PER_DAY - start / LibDateTime.SECONDS_PER_DAY;
+        return (actualDays, dayCount == LibSecurityToken.DayCount.ACT_360 ? 360 : 365);
+    }
+}
@@ -9,7 +9,9 @@ import {LibDiamond} from './Librarys/LibDiamond.sol';
  * @author ISBE Security Tokens Team
  * @notice Facet contract for diamond cutting operations
  * @dev This facet implements the IDiamondCut interface and handles adding, replacing,
- *      and removing facets from the diamond. Only the contract owner can perform cuts.
+ *      and removing facets from the diamond. Until cut approvers are configured the
+ *      contract owner performs cuts directly; afterwards every cut goes through a
+ *      propose/approve/execute workflow with an M-of-N approver set and a delay.
  *      Part of the EIP-2535 Diamond Standard implementation.
  */
 contract DiamondCutFacet is IDiamondCut {
@@ -18,7 +20,58 @@ contract DiamondCutFacet is IDiamondCut {
     //////////////////////////////////////////////////////////////*/
 
     /// @dev Version of the DiamondCutFacet contract
-    string private constant VERSION = "1.0.0";
+    string private constant VERSION = "1.1.0";
+
+    /*//////////////////////////////////////////////////////////////
+                                 EVENTS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @notice Emitted when the cut approvers, threshold or delay change
+     * @param approvers The new approver set
+     * @param threshold The number of approvals required to execute a cut
+     * @param delay The delay between proposing and executing a cut
+     */
+    event CutGovernanceUpdated(address[] approvers, uint256 threshold, uint256 delay);
+
+    /**
+     * @notice Emitted when a diamond cut is proposed
+     * @param proposalId The id of the proposal
+     * @param proposer The approver that proposed the cut
+     * @param _diamondCut The proposed facet cuts
+     * @param _init The address to execute _calldata on
+     * @param _calldata The initialization call data
+     * @param readyAt Timestamp from which the cut can be executed
+     */
+    event DiamondCutProposed(
+        uint256 indexed proposalId,
+        address indexed proposer,
+        FacetCut[] _diamondCut,
+        address _init,
+        bytes _calldata,
+        uint256 readyAt
+    );
+
+    /**
+     * @notice Emitted when an approver approves a proposed cut
+     * @param proposalId The id of the proposal
+     * @param approver The approver
+     */
+    event DiamondCutApproved(uint256 indexed proposalId, address indexed approver);
+
+    /**
+     * @notice Emitted when a proposed cut is cancelled
+     * @param proposalId The id of the proposal
+     * @param approver The approver that cancelled the cut
+     */
+    event DiamondCutCancelled(uint256 indexed proposalId, address indexed approver);
+
+    /**
+     * @notice Emitted when a proposed cut is executed
+     * @param proposalId The id of the proposal
+     * @param executor The address that executed the cut
+     */
+    event DiamondCutExecuted(uint256 indexed proposalId, address indexed executor);
 
     /*//////////////////////////////////////////////////////////////
                                  ERRORS
@@ -27,13 +80,61 @@ contract DiamondCutFacet is IDiamondCut {
     /// @notice Thrown when caller is not the contract owner
     error NotContractOwner(address caller, address owner);
 
+    /// @notice Thrown when the approver set or threshold is invalid
+    error InvalidCutGovernance(uint256 approverCount, uint256 threshold);
+
+    /// @notice Thrown when an approver is the zero address or listed twice
+    error InvalidCutApprover(address approver);
+
+    /// @notice Thrown when the proposal does not exist or was already executed or cancelled
+    error CutProposalNotPending(uint256 proposalId);
+
+    /// @notice Thrown when an approver approves the same proposal twice
+    error CutAlreadyApproved(uint256 proposalId, address approver);
+
+    /// @notice Thrown when executing a proposal before its delay has passed
+    error CutNotReady(uint256 proposalId, uint256 readyAt);
+
+    /// @notice Thrown when executing a proposal without enough approvals
+    error CutNotApproved(uint256 proposalId, uint256 approvals, uint256 threshold);
+
+    /// @notice Thrown when the executed cut differs from the proposed one
+    error CutMismatch(uint256 proposalId);
+
+    // Approver and governance errors shared with LibDiamond are declared there
+
+    /*//////////////////////////////////////////////////////////////
+                                MODIFIERS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @notice Restricts function access to cut approvers
+     */
+    modifier onlyCutApprover() {
+        LibDiamond.enforceIsCutApprover();
+        _;
+    }
+
+    /**
+     * @notice Requires a proposal that has not been executed or cancelled
+     * @param proposalId The id of the proposal
+     */
+    modifier pendingProposal(uint256 proposalId) {
+        LibDiamond.CutProposal storage proposal = LibDiamond.diamondStorage().cutProposals[proposalId];
+        if (proposal.cutHash == bytes32(0) || proposal.executed || proposal.cancelled) {
+            revert CutProposalNotPending(proposalId);
+        }
+        _;
+    }
+
     /*//////////////////////////////////////////////////////////////
                               DIAMOND CUT FUNCTIONS
     //////////////////////////////////////////////////////////////*/
 
     /**
      * @notice Add/replace/remove any number of functions and optionally execute a function with delegatecall
-     * @dev This function implements the diamond cut operation as defined in EIP-2535
+     * @dev This function implements the diamond cut operation as defined in EIP-2535.
+     *      Only available to the owner while no cut approvers are configured.
      * @param _diamondCut Contains the facet addresses and function selectors
      * @param _init The address of the contract or facet to execute _calldata
      * @param _calldata A function call, including function selector and arguments
@@ -43,10 +144,202 @@ contract DiamondCutFacet is IDiamondCut {
         address _init,
         bytes calldata _calldata
     ) external override {
-        LibDiamond.enforceIsContractOwner();
+        LibDiamond.enforceIsCutAuthorized();
         LibDiamond.diamondCut(_diamondCut, _init, _calldata);
     }
 
+    /*//////////////////////////////////////////////////////////////
+                            CUT GOVERNANCE FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @notice Sets the cut approvers, the number of approvals required and the delay
+     * @dev Callable by the owner while no approvers are configured. Afterwards it can only be
+     *      called from the init call of an approved cut (e.g. _init set to this facet).
+     *      An empty approver set with a zero threshold returns control to the owner.
+     * @param approvers The approver set (N)
+     * @param threshold The number of approvals required to execute a cut (M)
+     * @param delay The delay in seconds between proposing and executing a cut
+     */
+    function setCutGovernance(address[] calldata approvers, uint256 threshold, uint256 delay) external {
+        LibDiamond.enforceIsCutAuthorized();
+        if (threshold > approvers.length || (threshold == 0 && approvers.length != 0)) {
+            revert InvalidCutGovernance(approvers.length, threshold);
+        }
+
+        LibDiamond.DiamondStorage storage ds = LibDiamond.diamondStorage();
+        for (uint256 i; i < ds.cutApprovers.length; i++) {
+            ds.isCutApprover[ds.cutApprovers[i]] = false;
+        }
+        for (uint256 i; i < approvers.length; i++) {
+            if (approvers[i] == address(0) || ds.isCutApprover[approvers[i]]) {
+                revert InvalidCutApprover(approvers[i]);
+            }
+            ds.isCutApprover[approvers[i]] = true;
+        }
+
+        ds.cutApprovers = approvers;
+        ds.cutThreshold = threshold;
+        ds.cutDelay = delay;
+
+        emit CutGovernanceUpdated(approvers, threshold, delay);
+    }
+
+    /**
+     * @notice Proposes a diamond cut, counting as the proposer's approval
+     * @dev Only callable by cut approvers. The cut can be executed once the delay has passed
+     *      and enough approvals have been collected.
+     * @param _diamondCut Contains the facet addresses and function selectors
+     * @param _init The address of the contract or facet to execute _calldata
+     * @param _calldata A function call, including function selector and arguments
+     * @return proposalId The id of the new proposal
+     */
+    function proposeDiamondCut(
+        FacetCut[] calldata _diamondCut,
+        address _init,
+        bytes calldata _calldata
+    ) external onlyCutApprover returns (uint256 proposalId) {
+        LibDiamond.DiamondStorage storage ds = LibDiamond.diamondStorage();
+        proposalId = ++ds.cutProposalCount;
+
+        uint256 readyAt = block.timestamp + ds.cutDelay;
+        ds.cutProposals[proposalId] = LibDiamond.CutProposal({
+            cutHash: keccak256(abi.encode(_diamondCut, _init, _calldata)),
+            proposer: msg.sender,
+            readyAt: readyAt,
+            executed: false,
+            cancelled: false
+        });
+        ds.cutApprovals[proposalId][msg.sender] = true;
+
+        emit DiamondCutProposed(proposalId, msg.sender, _diamondCut, _init, _calldata, readyAt);
+        emit DiamondCutApproved(proposalId, msg.sender);
+    }
+
+    /**
+     * @notice Approves a proposed diamond cut
+     * @dev Only callable by cut approvers
+     * @param proposalId The id of the proposal
+     */
+    function approveDiamondCut(uint256 proposalId) external onlyCutApprover pendingProposal(proposalId) {
+        LibDiamond.DiamondStorage storage ds = LibDiamond.diamondStorage();
+        if (ds.cutApprovals[proposalId][msg.sender]) {
+            revert CutAlreadyApproved(proposalId, msg.sender);
+        }
+        ds.cutApprovals[proposalId][msg.sender] = true;
+
+        emit DiamondCutApproved(proposalId, msg.sender);
+    }
+
+    /**
+     * @notice Cancels a proposed diamond cut
+     * @dev Callable by any cut approver, so a single honest approver can stop a malicious
+     *      cut during the delay
+     * @param proposalId The id of the proposal
+     */
+    function cancelDiamondCut(uint256 proposalId) external onlyCutApprover pendingProposal(proposalId) {
+        LibDiamond.diamondStorage().cutProposals[proposalId].cancelled = true;
+
+        emit DiamondCutCancelled(proposalId, msg.sender);
+    }
+
+    /**
+     * @notice Executes an approved diamond cut once its delay has passed
+     * @dev Callable by anyone. The cut must match the proposed one exactly.
+     * @param proposalId The id of the proposal
+     * @param _diamondCut Contains the facet addresses and function selectors
+     * @param _init The address of the contract or facet to execute _calldata
+     * @param _calldata A function call, including function selector and arguments
+     */
+    function executeDiamondCut(
+        uint256 proposalId,
+        FacetCut[] calldata _diamondCut,
+        address _init,
+        bytes calldata _calldata
+    ) external pendingProposal(proposalId) {
+        LibDiamond.DiamondStorage storage ds = LibDiamond.diamondStorage();
+        LibDiamond.CutProposal storage proposal = ds.cutProposals[proposalId];
+
+        if (proposal.cutHash != keccak256(abi.encode(_diamondCut, _init, _calldata))) {
+            revert CutMismatch(proposalId);
+        }
+        if (block.timestamp < proposal.readyAt) {
+            revert CutNotReady(proposalId, proposal.readyAt);
+        }
+        uint256 approvals = LibDiamond.cutApprovalCount(proposalId);
+        if (ds.cutThreshold == 0 || approvals < ds.cutThreshold) {
+            revert CutNotApproved(proposalId, approvals, ds.cutThreshold);
+        }
+
+        proposal.executed = true;
+        ds.executingCut = true;
+        LibDiamond.diamondCut(_diamondCut, _init, _calldata);
+        ds.executingCut = false;
+
+        emit DiamondCutExecuted(proposalId, msg.sender);
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                              VIEW FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @notice Returns the cut approvers, the number of approvals required and the delay
+     * @return approvers The approver set
+     * @return threshold The number of approvals required (0 if the owner cuts directly)
+     * @return delay The delay in seconds between proposing and executing a cut
+     */
+    function getCutGovernance()
+        external
+        view
+        returns (address[] memory approvers, uint256 threshold, uint256 delay)
+    {
+        LibDiamond.DiamondStorage storage ds = LibDiamond.diamondStorage();
+        return (ds.cutApprovers, ds.cutThreshold, ds.cutDelay);
+    }
+
+    /**
+     * @notice Returns a cut proposal and its current number of approvals
+     * @param proposalId The id of the proposal
+     * @return proposal The proposal
+     * @return approvals The number of approvals by the current approvers
+     */
+    function getCutProposal(uint256 proposalId)
+        external
+        view
+        returns (LibDiamond.CutProposal memory proposal, uint256 approvals)
+    {
+        return (LibDiamond.diamondStorage().cutProposals[proposalId], LibDiamond.cutApprovalCount(proposalId));
+    }
+
+    /**
+     * @notice Returns the ids of the proposals that have not been executed or cancelled
+     * @return proposalIds The pending proposal ids
+     */
+    function getPendingCutProposals() external view returns (uint256[] memory proposalIds) {
+        LibDiamond.DiamondStorage storage ds = LibDiamond.diamondStorage();
+        uint256 count;
+        proposalIds = new uint256[](ds.cutProposalCount);
+        for (uint256 id = 1; id <= ds.cutProposalCount; id++) {
+            if (!ds.cutProposals[id].executed && !ds.cutProposals[id].cancelled) {
+                proposalIds[count++] = id;
+            }
+        }
+        assembly {
+            mstore(proposalIds, count)
+        }
+    }
+
+    /**
+     * @notice Returns whether an approver has approved a proposal
+     * @param proposalId The id of the proposal
+     * @param approver The approver
+     * @return True if the approver has approved the proposal
+     */
+    function hasApprovedCut(uint256 proposalId, address approver) external view returns (bool) {
+        return LibDiamond.diamondStorage().cutApprovals[proposalId][approver];
+    }
+
     /*//////////////////////////////////////////////////////////////
                              UTILITY FUNCTIONS
     //////////////////////////////////////////////////////////////*/
@@ -0,0 +1,316 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
+import {IDiamondCut} from './Interfaces/Interfaces.sol';
+import {Diamond} from './Diamond.sol';
+import {OwnershipFacet} from './OwnershipFacet.sol';
+
+/**
+ * @title DiamondFactory
+ * @author ISBE Security Tokens Team
+ * @notice Factory contract for creating security token diamonds in a single transaction
+ * @dev The facets and DiamondInit are deployed once and shared by every diamond. The factory
+ *      keeps the standard cut (facet addresses and selectors) and creates each Diamond with
+ *      that cut and the DiamondInit.init calldata, then hands diamond ownership to the token
+ *      admin. The standard cut must therefore include OwnershipFacet. Changing the standard
+ *      cut only affects diamonds created afterwards; existing diamonds are upgraded through
+ *      their own DiamondCutFacet.
+ */
+contract DiamondFactory is Ownable {
+    /*//////////////////////////////////////////////////////////////
+                                 CONSTANTS
+    //////////////////////////////////////////////////////////////*/
+
+    /// @dev Version of the DiamondFactory contract
+    string private constant VERSION = "1.0.0";
+
+    /// @dev Selector of DiamondInit.init, the only accepted initializer
+    bytes4 private constant INIT_SELECTOR =
+        bytes4(keccak256("init(string,string,uint256,string,string,string,address)"));
+
+    /*//////////////////////////////////////////////////////////////
+                                 STORAGE
+    //////////////////////////////////////////////////////////////*/
+
+    /// @notice The DiamondInit contract every diamond is initialized with
+    address public diamondInit;
+
+    /// @dev Facet cut applied to every new diamond
+    IDiamondCut.FacetCut[] private _standardCut;
+
+    /// @notice Mapping from diamond index to deployed diamond address
+    mapping(uint256 => address) public deployedDiamonds;
+
+    /// @notice Mapping from diamond address to its index in deployedDiamonds
+    mapping(address => uint256) public indexOfDeployedDiamonds;
+
+    /// @notice Mapping from diamond address to the beneficiary it was created for
+    mapping(address => address) public beneficiaryOfDiamond;
+
+    /// @dev Mapping from beneficiary address to the diamonds created for them
+    mapping(address => address[]) private _diamondsByBeneficiary;
+
+    /// @notice Mapping from ISIN to the diamond created for it
+    mapping(string => address) public diamondByISIN;
+
+    /// @notice Total number of diamonds created by this factory
+    uint256 public totalOfDiamondsCreated;
+
+    /*//////////////////////////////////////////////////////////////
+                                 EVENTS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @notice Emitted when a new diamond is created
+     * @param diamond The address of the new diamond
+     * @param beneficiary The address the diamond was created for
+     * @param diamondIndex The index of the diamond in deployedDiamonds
+     */
+    event DiamondCreated(address indexed diamond, address indexed beneficiary, uint256 indexed diamondIndex);
+
+    /**
+     * @notice Emitted when the standard cut or the DiamondInit contract changes
+     * @param facetCount The number of facets in the standard cut
+     * @param diamondInit The DiamondInit contract
+     */
+    event StandardCutUpdated(uint256 facetCount, address indexed diamondInit);
+
+    /*//////////////////////////////////////////////////////////////
+                                 ERRORS
+    //////////////////////////////////////////////////////////////*/
+
+    /// @notice Thrown when the standard cut is empty
+    error EmptyStandardCut();
+
+    /// @notice Thrown when a facet of the standard cut is not an Add of a deployed contract
+    error InvalidStandardCutFacet(address facetAddress);
+
+    /// @notice Thrown when the DiamondInit address has no code
+    error InvalidDiamondInit(address diamondInit);
+
+    /// @notice Thrown when beneficiary address is zero
+    error InvalidBeneficiaryAddress();
+
+    /// @notice Thrown when diamond index is out of bounds
+    error DiamondIndexOutOfBounds(uint256 index);
+
+    /// @notice Thrown when the initialization data is not a call to DiamondInit.init
+    error InvalidInitializer(bytes4 selector);
+
+    /// @notice Thrown when the initialization data has an empty ISIN
+    error EmptyISIN();
+
+    /// @notice Thrown when the initialization data has a zero cap
+    error InvalidCap();
+
+    /// @notice Thrown when the initialization data has a zero admin address
+    error InvalidAdminAddress();
+
+    /// @notice Thrown when a diamond has already been created for the ISIN
+    error DuplicateISIN(string isin, address existingDiamond);
+
+    /*//////////////////////////////////////////////////////////////
+                               CONSTRUCTOR
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @notice Constructs the DiamondFactory contract
+     * @param standardCut The facet cut applied to every new diamond (shared facet addresses)
+     * @param _diamondInit The shared DiamondInit contract
+     */
+    constructor(IDiamondCut.FacetCut[] memory standardCut, address _diamondInit) Ownable(msg.sender) {
+        _setStandardCut(standardCut, _diamondInit);
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                            FACTORY FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @notice Creates a new security token diamond with the standard cut
+     * @dev Only the owner. The initializer arguments are validated before deployment and
+     *      each ISIN can only be used once. Ownership of the diamond is transferred to the
+     *      admin of the token.
+     * @param initData The encoded call to DiamondInit.init
+     * @param beneficiary The address the diamond is created for (tracking only)
+     * @return The address of the new diamond
+     */
+    function createDiamond(bytes calldata initData, address beneficiary) external onlyOwner returns (address) {
+        if (beneficiary == address(0)) revert InvalidBeneficiaryAddress();
+        (string memory isin, address admin) = _validateInitData(initData);
+
+        address diamond = address(new Diamond(_standardCut, diamondInit, initData));
+        OwnershipFacet(diamond).transferOwnership(admin);
+
+        deployedDiamonds[totalOfDiamondsCreated] = diamond;
+        indexOfDeployedDiamonds[diamond] = totalOfDiamondsCreated;
+        beneficiaryOfDiamond[diamond] = beneficiary;
+        _diamondsByBeneficiary[beneficiary].push(diamond);
+        diamondByISIN[isin] = diamond;
+        totalOfDiamondsCreated++;
+
+        emit DiamondCreated(diamond, beneficiary, totalOfDiamondsCreated - 1);
+        return diamond;
+    }
+
+    /**
+     * @notice Replaces the standard cut and DiamondInit used for new diamonds
+     * @dev Only the owner. Diamonds already created are not affected.
+     * @param standardCut The new facet cut
+     * @param _diamondInit The new DiamondInit contract
+     */
+    function setStandardCut(IDiamondCut.FacetCut[] calldata standardCut, address _diamondInit) external onlyOwner {
+        _setStandardCut(standardCut, _diamondInit);
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                             VIEW FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @notice Returns the facet cut applied to every new diamond
+     * @return The standard cut
+     */
+    function getStandardCut() external view returns (IDiamondCut.FacetCut[] memory) {
+        return _standardCut;
+    }
+
+    /**
+     * @notice Gets the address of a diamond by its index
+     * @param index The index of the diamond
+     * @return The address of the diamond at the given index
+     */
+    function getDiamondByIndex(uint256 index) external view returns (address) {
+        if (index >= totalOfDiamondsCreated) revert DiamondIndexOutOfBounds(index);
+        return deployedDiamonds[index];
+    }
+
+    /**
+     * @notice Gets all diamonds created by this factory
+     * @dev This function can be gas-intensive for large numbers of diamonds
+     * @return diamonds Array of all diamond addresses
+     */
+    function getAllDiamonds() external view returns (address[] memory diamonds) {
+        diamonds = new address[](totalOfDiamondsCreated);
+        for (uint256 i = 0; i < totalOfDiamondsCreated; i++) {
+            diamonds[i] = deployedDiamonds[i];
+        }
+    }
+
+    /**
+     * @notice Gets a paginated list of the diamonds created by this factory
+     * @param offset The starting index for pagination
+     * @param limit The maximum number of diamonds to return
+     * @return diamonds Array of diamond addresses within the specified range
+     * @return total The total number of diamonds created
+     */
+    function getDiamondsPaginated(uint256 offset, uint256 limit)
+        external
+        view
+        returns (address[] memory diamonds, uint256 total)
+    {
+        total = totalOfDiamondsCreated;
+        if (offset >= total) {
+            return (new address[](0), total);
+        }
+
+        uint256 end = offset + limit;
+        if (end > total) {
+            end = total;
+        }
+
+        diamonds = new address[](end - offset);
+        for (uint256 i = offset; i < end; i++) {
+            diamonds[i - offset] = deployedDiamonds[i];
+        }
+    }
+
+    /**
+     * @notice Gets the diamonds created for a specific beneficiary
+     * @param beneficiary The address of the beneficiary
+     * @return Array of the diamond addresses created for the beneficiary
+     */
+    function getDiamondsByBeneficiary(address beneficiary) external view returns (address[] memory) {
+        return _diamondsByBeneficiary[beneficiary];
+    }
+
+    /**
+     * @notice Gets the diamond created for an ISIN
+     * @param isin The ISIN of the security token
+     * @return The address of the diamond, or the zero address if none was created
+     */
+    function getTokenByIsin(string calldata isin) external view returns (address) {
+        return diamondByISIN[isin];
+    }
+
+    /**
+     * @notice Checks if a given address is a diamond created by this factory
+     * @param diamond The address to check
+     * @return True if the address is a diamond created by this factory
+     */
+    function isDiamondCreatedByFactory(address diamond) external view returns (bool) {
+        uint256 index = indexOfDeployedDiamonds[diamond];
+        return index < totalOfDiamondsCreated && deployedDiamonds[index] == diamond;
+    }
+
+    /**
+     * @notice Returns the version of this factory contract
+     * @return The version string
+     */
+    function diamondFactoryVersion() external pure returns (string memory) {
+        return VERSION;
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                           INTERNAL FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @dev Validates and stores the standard cut and DiamondInit
+     * @param standardCut The facet cut applied to every new diamond
+     * @param _diamondInit The DiamondInit contract
+     */
+    function _setStandardCut(IDiamondCut.FacetCut[] memory standardCut, address _diamondInit) private {
+        if (standardCut.length == 0) revert EmptyStandardCut();
+        if (_diamondInit.code.length == 0) revert InvalidDiamondInit(_diamondInit);
+
+        delete _standardCut;
+        for (uint256 i = 0; i < standardCut.length; i++) {
+            IDiamondCut.FacetCut memory facetCut = standardCut[i];
+            if (
+                facetCut.action != IDiamondCut.FacetCutAction.Add ||
+                facetCut.facetAddress.code.length == 0 ||
+                facetCut.functionSelectors.length == 0
+            ) {
+                revert InvalidStandardCutFacet(facetCut.facetAddress);
+            }
+            _standardCut.push(facetCut);
+        }
+        diamondInit = _diamondInit;
+
+        emit StandardCutUpdated(standardCut.length, _diamondInit);
+    }
+
+    /**
+     * @dev Decodes the DiamondInit.init arguments and validates them
+     * @param initData The initialization data passed to createDiamond
+     * @return isin The ISIN of the security token
+     * @return admin The admin of the security token
+     */
+    function _validateInitData(bytes calldata initData) private view returns (string memory isin, address admin) {
+        bytes4 selector = initData.length >= 4 ? bytes4(initData[:4]) : bytes4(0);
+        if (selector != INIT_SELECTOR) revert InvalidInitializer(selector);
+
+        uint256 cap;
+        (, , cap, isin, , , admin) = abi.decode(
+            initData[4:],
+            (string, string, uint256, string, string, string, address)
+        );
+
+        if (bytes(isin).length == 0) revert EmptyISIN();
+        if (cap == 0) revert InvalidCap();
+        if (admin == address(0)) revert InvalidAdminAddress();
+        if (diamondByISIN[isin] != address(0)) revert DuplicateISIN(isin, diamondByISIN[isin]);
+    }
+}
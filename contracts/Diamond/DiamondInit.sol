@@ -2,6 +2,7 @@
 pragma solidity ^0.8.28;
 
 import './Librarys/LibSecurityToken.sol';
+import {LibISIN} from './Librarys/LibISIN.sol';
 
 /**
  * @title DiamondInit
@@ -71,7 +72,7 @@ contract DiamondInit {
      * @param name The name of the security token
      * @param symbol The symbol of the security token
      * @param cap The maximum supply cap for the token
-     * @param _isin The ISIN (International Securities Identification Number)
+     * @param _isin The ISIN (International Securities Identification Number), validated with its check digit
      * @param _instrumentType The type of security instrument (e.g., "BOND", "EQUITY")
      * @param _jurisdiction The regulatory jurisdiction
      * @param admin The initial admin address who will receive all roles
@@ -98,9 +99,7 @@ contract DiamondInit {
         if (bytes(symbol).length == 0) {
             revert EmptyString("symbol");
         }
-        if (bytes(_isin).length == 0) {
-            revert EmptyString("isin");
-        }
+        LibISIN.validate(_isin);
         if (bytes(_instrumentType).length == 0) {
             revert EmptyString("instrumentType");
         }
@@ -126,17 +125,20 @@ contract DiamondInit {
         sts.adminRole = keccak256("ADMIN_ROLE");
         sts.minterRole = keccak256("MINTER_ROLE");
         sts.pauserRole = keccak256("PAUSER_ROLE");
+        sts.controllerRole = keccak256("CONTROLLER_ROLE");
         
         // Grant all roles to admin
         sts.roles[sts.defaultAdminRole][admin] = true;
         sts.roles[sts.adminRole][admin] = true;
         sts.roles[sts.minterRole][admin] = true;
         sts.roles[sts.pauserRole][admin] = true;
+        sts.roles[sts.controllerRole][admin] = true;
         
         // Set role hierarchy (role admins)
         sts.roleAdmins[sts.adminRole] = sts.defaultAdminRole;
         sts.roleAdmins[sts.minterRole] = sts.adminRole;
         sts.roleAdmins[sts.pauserRole] = sts.adminRole;
+        sts.roleAdmins[sts.controllerRole] = sts.adminRole;
 
         // Initialize transaction counter
         sts.transactionCount = 0;
@@ -155,6 +157,42 @@ contract DiamondInit {
         );
     }
 
+    /*//////////////////////////////////////////////////////////////
+                          UPGRADE INITIALIZATION
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @notice Sets up the controller role on a diamond initialized before it existed
+     * @dev Run as the init call of the diamond cut that adds forcedTransfer. Diamonds
+     *      initialized by an older init have a zero controllerRole, which is the default
+     *      admin role. Does nothing if the role is already set. The role is administered
+     *      by the admin role, whose holders grant it to the controllers afterwards.
+     */
+    function initControllerRole() external {
+        LibSecurityToken.SecurityTokenStorage storage sts = LibSecurityToken.securityTokenStorage();
+        if (sts.controllerRole != bytes32(0)) return;
+
+        sts.controllerRole = keccak256("CONTROLLER_ROLE");
+        sts.roleAdmins[sts.controllerRole] = sts.adminRole;
+    }
+
+    /**
+     * @notice Adds existing holders to the holder list and count of an upgraded diamond
+     * @dev Run as the init call of the diamond cut that adds holder tracking, with every
+     *      account holding tokens (e.g. collected from the Transfer events). Accounts
+     *      without a balance or already listed are skipped, so it can be run in batches.
+     * @param accounts The accounts to add
+     */
+    function initHolders(address[] calldata accounts) external {
+        LibSecurityToken.SecurityTokenStorage storage sts = LibSecurityToken.securityTokenStorage();
+        for (uint256 i = 0; i < accounts.length; i++) {
+            address account = accounts[i];
+            if (sts.balances[account] > 0 && sts.holderIndex[account] == 0) {
+                sts.addHolder(account);
+            }
+        }
+    }
+
     /*//////////////////////////////////////////////////////////////
                              UTILITY FUNCTIONS
     //////////////////////////////////////////////////////////////*/
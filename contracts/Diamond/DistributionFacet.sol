@@ -0,0 +1,330 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import './Librarys/LibSecurityToken.sol';
+
+/**
+ * @title DistributionFacet
+ * @author ISBE Security Tokens Team
+ * @notice Facet contract for dividend and coupon payments to security token holders
+ * @dev An admin deposits an ERC20 payment token (e.g. a stablecoin) against a snapshot.
+ *      Each holder claims amount * balanceOfAt(holder) / totalSupplyAt for that snapshot.
+ *      Blacklisted and frozen holders cannot claim; their share, like any other unclaimed
+ *      amount, can be reclaimed by an admin once the distribution expires.
+ *      Part of the Diamond pattern.
+ */
+contract DistributionFacet {
+    using LibSecurityToken for LibSecurityToken.SecurityTokenStorage;
+    using SafeERC20 for IERC20;
+
+    /*//////////////////////////////////////////////////////////////
+                                 CONSTANTS
+    //////////////////////////////////////////////////////////////*/
+
+    /// @dev Version of the DistributionFacet contract
+    string private constant VERSION = "1.0.0";
+
+    /*//////////////////////////////////////////////////////////////
+                                 EVENTS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @notice Emitted when a distribution is created
+     * @param distributionId The id of the distribution
+     * @param paymentToken The ERC20 token the payment is made in
+     * @param snapshotId The snapshot that determines each holder's share
+     * @param amount The total amount deposited
+     * @param expiry The timestamp after which holders can no longer claim
+     */
+    event DistributionCreated(
+        uint256 indexed distributionId,
+        address indexed paymentToken,
+        uint256 snapshotId,
+        uint256 amount,
+        uint256 expiry
+    );
+
+    /**
+     * @notice Emitted when a holder claims its share of a distribution
+     * @param distributionId The id of the distribution
+     * @param holder The address of the holder
+     * @param amount The amount paid to the holder
+     */
+    event DistributionClaimed(uint256 indexed distributionId, address indexed holder, uint256 amount);
+
+    /**
+     * @notice Emitted when the unclaimed amount of an expired distribution is reclaimed
+     * @param distributionId The id of the distribution
+     * @param recipient The address receiving the unclaimed amount
+     * @param amount The amount reclaimed
+     */
+    event DistributionReclaimed(uint256 indexed distributionId, address indexed recipient, uint256 amount);
+
+    /*//////////////////////////////////////////////////////////////
+                                 ERRORS
+    //////////////////////////////////////////////////////////////*/
+
+    /// @notice Thrown when caller doesn't have the required role
+    error UnauthorizedRole(address caller, bytes32 requiredRole);
+
+    /// @notice Thrown when the payment token is the zero address or has no code
+    error InvalidPaymentToken(address paymentToken);
+
+    /// @notice Thrown when the distribution amount is zero
+    error InvalidDistributionAmount();
+
+    /// @notice Thrown when the expiry is not in the future
+    error InvalidExpiry(uint256 expiry);
+
+    /// @notice Thrown when the snapshot has no supply to distribute against
+    error EmptySnapshot(uint256 snapshotId);
+
+    /// @notice Thrown when the distribution does not exist
+    error DistributionNotFound(uint256 distributionId);
+
+    /// @notice Thrown when claiming from an expired distribution
+    error DistributionExpired(uint256 distributionId, uint256 expiry);
+
+    /// @notice Thrown when reclaiming a distribution that has not expired yet
+    error DistributionNotExpired(uint256 distributionId, uint256 expiry);
+
+    /// @notice Thrown when the unclaimed amount was already reclaimed
+    error DistributionAlreadyReclaimed(uint256 distributionId);
+
+    /// @notice Thrown when the holder already claimed its share
+    error AlreadyClaimed(uint256 distributionId, address holder);
+
+    /// @notice Thrown when the holder is blacklisted or frozen
+    error HolderExcluded(uint256 distributionId, address holder);
+
+    /// @notice Thrown when the holder has nothing to claim
+    error NothingToClaim(uint256 distributionId, address holder);
+
+    /// @notice Thrown when the recipient address is zero
+    error InvalidRecipient();
+
+    /*//////////////////////////////////////////////////////////////
+                                MODIFIERS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @notice Restricts function access to accounts with specific role
+     * @param role The required role for function access
+     */
+    modifier onlyRole(bytes32 role) {
+        LibSecurityToken.SecurityTokenStorage storage sts = LibSecurityToken.securityTokenStorage();
+        if (!sts.roles[role][msg.sender]) {
+            revert UnauthorizedRole(msg.sender, role);
+        }
+        _;
+    }
+
+    /**
+     * @notice Ensures the distribution exists
+     * @param distributionId The id of the distribution
+     */
+    modifier distributionExists(uint256 distributionId) {
+        if (distributionId == 0 || distributionId > LibSecurityToken.securityTokenStorage().distributionCount) {
+            revert DistributionNotFound(distributionId);
+        }
+        _;
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                          DISTRIBUTION MANAGEMENT
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @notice Creates a distribution by depositing payment tokens against a snapshot
+     * @dev Only callable by admin role. The caller must have approved the diamond to
+     *      spend `amount` of the payment token.
+     * @param paymentToken The ERC20 token the payment is made in
+     * @param snapshotId The snapshot that determines each holder's share
+     * @param amount The total amount to distribute
+     * @param expiry The timestamp after which holders can no longer claim
+     * @return distributionId The id of the new distribution
+     */
+    function createDistribution(
+        address paymentToken,
+        uint256 snapshotId,
+        uint256 amount,
+        uint256 expiry
+    ) external onlyRole(LibSecurityToken.securityTokenStorage().adminRole) returns (uint256 distributionId) {
+        if (paymentToken == address(0) || paymentToken.code.length == 0) revert InvalidPaymentToken(paymentToken);
+        if (amount == 0) revert InvalidDistributionAmount();
+        if (expiry <= block.timestamp) revert InvalidExpiry(expiry);
+
+        LibSecurityToken.SecurityTokenStorage storage sts = LibSecurityToken.securityTokenStorage();
+        if (sts.totalSupplyAt(snapshotId) == 0) revert EmptySnapshot(snapshotId);
+
+        sts.distributionCount += 1;
+        distributionId = sts.distributionCount;
+        sts.distributions[distributionId] = LibSecurityToken.Distribution({
+            paymentToken: paymentToken,
+            snapshotId: snapshotId,
+            amount: amount,
+            claimedAmount: 0,
+            expiry: expiry,
+            reclaimed: false
+        });
+
+        IERC20(paymentToken).safeTransferFrom(msg.sender, address(this), amount);
+
+        emit DistributionCreated(distributionId, paymentToken, snapshotId, amount, expiry);
+    }
+
+    /**
+     * @notice Claims the caller's share of a distribution
+     * @param distributionId The id of the distribution
+     */
+    function claim(uint256 distributionId) external distributionExists(distributionId) {
+        LibSecurityToken.SecurityTokenStorage storage sts = LibSecurityToken.securityTokenStorage();
+        LibSecurityToken.Distribution storage distribution = sts.distributions[distributionId];
+
+        if (block.timestamp > distribution.expiry) revert DistributionExpired(distributionId, distribution.expiry);
+        if (sts.distributionClaimed[distributionId][msg.sender]) revert AlreadyClaimed(distributionId, msg.sender);
+        if (sts.blacklist[msg.sender] || sts.frozen[msg.sender]) revert HolderExcluded(distributionId, msg.sender);
+
+        uint256 share = _share(sts, distribution, msg.sender);
+        if (share == 0) revert NothingToClaim(distributionId, msg.sender);
+
+        sts.distributionClaimed[distributionId][msg.sender] = true;
+        distribution.claimedAmount += share;
+
+        IERC20(distribution.paymentToken).safeTransfer(msg.sender, share);
+
+        emit DistributionClaimed(distributionId, msg.sender, share);
+    }
+
+    /**
+     * @notice Returns the unclaimed amount of an expired distribution
+     * @dev Only callable by admin role
+     * @param distributionId The id of the distribution
+     * @param recipient The address receiving the unclaimed amount
+     */
+    function reclaimDistribution(uint256 distributionId, address recipient) 
+        external 
+        onlyRole(LibSecurityToken.securityTokenStorage().adminRole) 
+        distributionExists(distributionId) 
+    {
+        if (recipient == address(0)) revert InvalidRecipient();
+
+        LibSecurityToken.Distribution storage distribution = LibSecurityToken.securityTokenStorage().distributions[distributionId];
+        if (block.timestamp <= distribution.expiry) revert DistributionNotExpired(distributionId, distribution.expiry);
+        if (distribution.reclaimed) revert DistributionAlreadyReclaimed(distributionId);
+
+        uint256 unclaimed = distribution.amount - distribution.claimedAmount;
+        distribution.reclaimed = true;
+
+        IERC20(distribution.paymentToken).safeTransfer(recipient, unclaimed);
+
+        emit DistributionReclaimed(distributionId, recipient, unclaimed);
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                             VIEW FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @notice Returns the amount a holder can currently claim from a distribution
+     * @dev Returns 0 if the holder already claimed, is excluded or the distribution expired
+     * @param distributionId The id of the distribution
+     * @param holder The address of the holder
+     * @return The claimable amount
+     */
+    function claimableAmount(uint256 distributionId, address holder) 
+        external 
+        view 
+        distributionExists(distributionId) 
+        returns (uint256) 
+    {
+        LibSecurityToken.SecurityTokenStorage storage sts = LibSecurityToken.securityTokenStorage();
+        LibSecurityToken.Distribution storage distribution = sts.distributions[distributionId];
+
+        if (
+            block.timestamp > distribution.expiry ||
+            sts.distributionClaimed[distributionId][holder] ||
+            sts.blacklist[holder] ||
+            sts.frozen[holder]
+        ) {
+            return 0;
+        }
+        return _share(sts, distribution, holder);
+    }
+
+    /**
+     * @notice Returns the amount of a distribution not claimed yet
+     * @param distributionId The id of the distribution
+     * @return The unclaimed amount (0 once reclaimed)
+     */
+    function unclaimedAmount(uint256 distributionId) 
+        external 
+        view 
+        distributionExists(distributionId) 
+        returns (uint256) 
+    {
+        LibSecurityToken.Distribution storage distribution = LibSecurityToken.securityTokenStorage().distributions[distributionId];
+        if (distribution.reclaimed) {
+            return 0;
+        }
+        return distribution.amount - distribution.claimedAmount;
+    }
+
+    /**
+     * @notice Returns whether a holder has claimed its share of a distribution
+     * @param distributionId The id of the distribution
+     * @param holder The address of the holder
+     * @return True if the holder has claimed
+     */
+    function hasClaimed(uint256 distributionId, address holder) external view returns (bool) {
+        return LibSecurityToken.securityTokenStorage().distributionClaimed[distributionId][holder];
+    }
+
+    /**
+     * @notice Returns a distribution
+     * @param distributionId The id of the distribution
+     * @return The distribution data
+     */
+    function getDistribution(uint256 distributionId) 
+        external 
+        view 
+        distributionExists(distributionId) 
+        returns (LibSecurityToken.Distribution memory) 
+    {
+        return LibSecurityToken.securityTokenStorage().distributions[distributionId];
+    }
+
+    /**
+     * @notice Returns the number of distributions created
+     * @return The distribution count
+     */
+    function distributionCount() external view returns (uint256) {
+        return LibSecurityToken.securityTokenStorage().distributionCount;
+    }
+
+    /**
+     * @notice Returns the version of this facet contract
+     * @return The version string
+     */
+    function distributionFacetVersion() external pure returns (string memory) {
+        return VERSION;
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                           INTERNAL FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @dev Pro-rata share of a holder, rounded down
+     */
+    function _share(
+        LibSecurityToken.SecurityTokenStorage storage sts,
+        LibSecurityToken.Distribution storage distribution,
+        address holder
+    ) internal view returns (uint256) {
+        return distribution.amount * sts.balanceOfAt(holder, distribution.snapshotId)
+            / sts.totalSupplyAt(distribution.snapshotId);
+    }
+}
@@ -0,0 +1,167 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import './Librarys/LibSecurityToken.sol';
+
+/**
+ * @title DocumentFacet
+ * @author ISBE Security Tokens Team
+ * @notice Facet contract for the on-chain document registry of security tokens (ERC-1643)
+ * @dev Anchors the prospectus, terms sheet, KID and other legal documents to the token
+ *      by name, URI and content hash. Part of the Diamond pattern.
+ */
+contract DocumentFacet {
+    /*//////////////////////////////////////////////////////////////
+                                 CONSTANTS
+    //////////////////////////////////////////////////////////////*/
+
+    /// @dev Version of the DocumentFacet contract
+    string private constant VERSION = "1.0.0";
+
+    /*//////////////////////////////////////////////////////////////
+                                 EVENTS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @notice Emitted when a document is added or updated
+     * @param name The name of the document
+     * @param uri The location of the document
+     * @param documentHash The hash of the document contents
+     */
+    event DocumentUpdated(bytes32 indexed name, string uri, bytes32 documentHash);
+
+    /**
+     * @notice Emitted when a document is removed
+     * @param name The name of the document
+     * @param uri The location of the removed document
+     * @param documentHash The hash of the removed document contents
+     */
+    event DocumentRemoved(bytes32 indexed name, string uri, bytes32 documentHash);
+
+    /*//////////////////////////////////////////////////////////////
+                                 ERRORS
+    //////////////////////////////////////////////////////////////*/
+
+    /// @notice Thrown when caller doesn't have the required role
+    error UnauthorizedRole(address caller, bytes32 requiredRole);
+
+    /// @notice Thrown when the document name is empty
+    error InvalidDocumentName();
+
+    /// @notice Thrown when the document URI is empty
+    error InvalidDocumentURI();
+
+    /// @notice Thrown when the document does not exist
+    error DocumentNotFound(bytes32 name);
+
+    /*//////////////////////////////////////////////////////////////
+                                MODIFIERS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @notice Restricts function access to accounts with specific role
+     * @param role The required role for function access
+     */
+    modifier onlyRole(bytes32 role) {
+        LibSecurityToken.SecurityTokenStorage storage sts = LibSecurityToken.securityTokenStorage();
+        if (!sts.roles[role][msg.sender]) {
+            revert UnauthorizedRole(msg.sender, role);
+        }
+        _;
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                           DOCUMENT MANAGEMENT
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @notice Adds a new document or updates an existing one
+     * @dev Only callable by admin role
+     * @param name The name of the document (e.g. "PROSPECTUS")
+     * @param uri The location of the document
+     * @param documentHash The hash of the document contents
+     */
+    function setDocument(
+        bytes32 name,
+        string calldata uri,
+        bytes32 documentHash
+    ) external onlyRole(LibSecurityToken.securityTokenStorage().adminRole) {
+        if (name == bytes32(0)) revert InvalidDocumentName();
+        if (bytes(uri).length == 0) revert InvalidDocumentURI();
+
+        LibSecurityToken.SecurityTokenStorage storage sts = LibSecurityToken.securityTokenStorage();
+        if (sts.documentIndex[name] == 0) {
+            sts.documentNames.push(name);
+            sts.documentIndex[name] = sts.documentNames.length;
+        }
+
+        sts.documents[name] = LibSecurityToken.Document({
+            uri: uri,
+            documentHash: documentHash,
+            lastModified: block.timestamp
+        });
+
+        emit DocumentUpdated(name, uri, documentHash);
+    }
+
+    /**
+     * @notice Removes a document
+     * @dev Only callable by admin role. The order of the remaining names may change.
+     * @param name The name of the document to remove
+     */
+    function removeDocument(bytes32 name) external onlyRole(LibSecurityToken.securityTokenStorage().adminRole) {
+        LibSecurityToken.SecurityTokenStorage storage sts = LibSecurityToken.securityTokenStorage();
+        uint256 index = sts.documentIndex[name];
+        if (index == 0) revert DocumentNotFound(name);
+
+        LibSecurityToken.Document memory document = sts.documents[name];
+
+        // Swap and pop
+        bytes32 lastName = sts.documentNames[sts.documentNames.length - 1];
+        sts.documentNames[index - 1] = lastName;
+        sts.documentIndex[lastName] = index;
+        sts.documentNames.pop();
+
+        delete sts.documentIndex[name];
+        delete sts.documents[name];
+
+        emit DocumentRemoved(name, document.uri, document.documentHash);
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                             VIEW FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @notice Returns a document
+     * @dev Returns empty values for unknown names, as specified by ERC-1643
+     * @param name The name of the document
+     * @return uri The location of the document
+     * @return documentHash The hash of the document contents
+     * @return lastModified Timestamp of the last update
+     */
+    function getDocument(bytes32 name) 
+        external 
+        view 
+        returns (string memory uri, bytes32 documentHash, uint256 lastModified) 
+    {
+        LibSecurityToken.Document storage document = LibSecurityToken.securityTokenStorage().documents[name];
+        return (document.uri, document.documentHash, document.lastModified);
+    }
+
+    /**
+     * @notice Returns the names of all documents
+     * @return Array of document names
+     */
+    function getAllDocuments() external view returns (bytes32[] memory) {
+        return LibSecurityToken.securityTokenStorage().documentNames;
+    }
+
+    /**
+     * @notice Returns the version of this facet contract
+     * @return The version string
+     */
+    function documentFacetVersion() external pure returns (string memory) {
+        return VERSION;
+    }
+}
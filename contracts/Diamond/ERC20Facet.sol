@@ -1,19 +1,32 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.28;
 import './Librarys/LibSecurityToken.sol';
+import {LibCompliance} from './Librarys/LibCompliance.sol';
+import {LibTransfer} from './Librarys/LibTransfer.sol';
+import {LibEIP712} from './Librarys/LibEIP712.sol';
 
 /**
  * @title ERC20Facet
  * @dev Facet contract that implements ERC20 token functionality for the Diamond SecurityToken
  * @notice This facet provides:
  *         - Standard ERC20 token operations (transfer, approve, etc.)
- *         - Compliance checks during transfers
+ *         - Gasless approvals with signed permits (EIP-2612)
+ *         - Compliance checks during transfers (via the compliance engine)
+ *         - Lock-up enforcement during transfers
  *         - Transaction recording for regulatory purposes
  * @author ISBE Security Tokens Team
  */
 contract ERC20Facet {
     using LibSecurityToken for LibSecurityToken.SecurityTokenStorage;
     
+    // =============================================================
+    //                           CONSTANTS
+    // =============================================================
+    
+    /// @dev EIP-2612 permit type hash
+    bytes32 private constant PERMIT_TYPEHASH =
+        keccak256("Permit(address owner,address spender,uint256 value,uint256 nonce,uint256 deadline)");
+    
     // =============================================================
     //                           EVENTS
     // =============================================================
@@ -28,38 +41,18 @@ contract ERC20Facet {
     //                           ERRORS
     // =============================================================
     
-    /// @notice Thrown when transfer is attempted from zero address
-    error ERC20InvalidSender(address sender);
-    
-    /// @notice Thrown when transfer is attempted to zero address
-    error ERC20InvalidReceiver(address receiver);
-    
     /// @notice Thrown when approve is attempted from zero address
     error ERC20InvalidApprover(address approver);
     
     /// @notice Thrown when approve is attempted to zero address
     error ERC20InvalidSpender(address spender);
     
-    /// @notice Thrown when transfer amount exceeds balance
-    error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed);
-    
     /// @notice Thrown when transfer amount exceeds allowance
     error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed);
     
-    /// @notice Thrown when token transfers are paused
-    error ERC20TokenTransferPaused();
-    
-    /// @notice Thrown when sender is not whitelisted
-    error SenderNotWhitelisted(address sender);
-    
-    /// @notice Thrown when recipient is not whitelisted
-    error RecipientNotWhitelisted(address recipient);
-    
-    /// @notice Thrown when sender is blacklisted
-    error SenderBlacklisted(address sender);
-    
-    /// @notice Thrown when recipient is blacklisted
-    error RecipientBlacklisted(address recipient);
+    // Transfer validation errors are declared in LibTransfer
+    // Signature errors are declared in LibEIP712
+    // Whitelist/blacklist and compliance module errors are declared in LibCompliance
 
     // =============================================================
     //                         VIEW FUNCTIONS
@@ -115,6 +108,41 @@ contract ERC20Facet {
         return LibSecurityToken.securityTokenStorage().allowances[owner][spender];
     }
 
+    /**
+     * @notice Returns the amount of tokens of an account still under lock-up
+     * @param account The address to query
+     * @return The sum of the tranches whose release time has not been reached
+     */
+    function lockedBalanceOf(address account) external view returns (uint256) {
+        return LibSecurityToken.securityTokenStorage().lockedBalanceOf(account);
+    }
+
+    /**
+     * @notice Returns the amount of tokens an account can transfer right now
+     * @dev Applies the checks of a plain transfer: the amount must be neither frozen nor
+     *      locked up, and must fit in the unpartitioned balance
+     * @param account The address to query
+     * @return The balance that is neither frozen, locked up nor partitioned
+     */
+    function transferableBalanceOf(address account) external view returns (uint256) {
+        LibSecurityToken.SecurityTokenStorage storage sts = LibSecurityToken.securityTokenStorage();
+        uint256 restricted = sts.frozenTokens[account] + sts.lockedBalanceOf(account);
+        uint256 balance = sts.balances[account];
+        uint256 transferable = balance > restricted ? balance - restricted : 0;
+        uint256 unpartitioned = sts.unpartitionedBalanceOf(account);
+        return transferable < unpartitioned ? transferable : unpartitioned;
+    }
+
+    /**
+     * @notice Returns the lock-up tranches of an account
+     * @dev Released tranches are only removed on the next transfer of the account
+     * @param account The address to query
+     * @return The array of lock-up tranches
+     */
+    function getLockUps(address account) external view returns (LibSecurityToken.LockUp[] memory) {
+        return LibSecurityToken.securityTokenStorage().lockUps[account];
+    }
+
     // =============================================================
     //                      TRANSFER FUNCTIONS
     // =============================================================
@@ -151,6 +179,44 @@ contract ERC20Facet {
         return true;
     }
 
+    // =============================================================
+    //                    TRANSFER CHECK FUNCTIONS
+    // =============================================================
+
+    /**
+     * @notice Checks whether a transfer from the caller would succeed (ERC-1594)
+     * @param to The address to transfer tokens to
+     * @param amount The amount of tokens to transfer
+     * @return status The EIP-1066 status code (0x51 if the transfer would succeed)
+     * @return reason The reason the transfer would fail (zero if it would succeed)
+     */
+    function canTransfer(address to, uint256 amount, bytes calldata /* data */) 
+        external 
+        view 
+        returns (bytes1 status, bytes32 reason) 
+    {
+        return LibCompliance.detectTransferRestriction(msg.sender, to, amount);
+    }
+
+    /**
+     * @notice Checks whether a transfer by the caller using an allowance would succeed (ERC-1594)
+     * @param from The address to transfer tokens from
+     * @param to The address to transfer tokens to
+     * @param amount The amount of tokens to transfer
+     * @return status The EIP-1066 status code (0x51 if the transfer would succeed)
+     * @return reason The reason the transfer would fail (zero if it would succeed)
+     */
+    function canTransferFrom(address from, address to, uint256 amount, bytes calldata /* data */) 
+        external 
+        view 
+        returns (bytes1 status, bytes32 reason) 
+    {
+        if (LibSecurityToken.securityTokenStorage().allowances[from][msg.sender] < amount) {
+            return (LibCompliance.STATUS_INSUFFICIENT_ALLOWANCE, "INSUFFICIENT_ALLOWANCE");
+        }
+        return LibCompliance.detectTransferRestriction(from, to, amount);
+    }
+
     // =============================================================
     //                      APPROVAL FUNCTIONS
     // =============================================================
@@ -165,44 +231,63 @@ contract ERC20Facet {
         return true;
     }
 
+    /**
+     * @notice Sets the allowance of a spender from a signature of the owner (EIP-2612)
+     * @dev Anyone can submit the signature; it is bound to the owner's current nonce
+     * @param owner The address which owns the tokens and signed the permit
+     * @param spender The address which will spend the tokens
+     * @param value The allowance amount to set
+     * @param deadline The timestamp after which the signature is no longer valid
+     * @param v The recovery id of the signature
+     * @param r The r value of the signature
+     * @param s The s value of the signature
+     */
+    function permit(
+        address owner,
+        address spender,
+        uint256 value,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external {
+        bytes32 structHash = keccak256(
+            abi.encode(PERMIT_TYPEHASH, owner, spender, value, LibEIP712.useNonce(owner), deadline)
+        );
+        LibEIP712.verify(owner, structHash, deadline, v, r, s);
+        _approve(owner, spender, value);
+    }
+
+    /**
+     * @notice Returns the next signature nonce of an account
+     * @dev Shared by permit and the signed admin actions
+     * @param owner The address to query
+     * @return The current nonce
+     */
+    function nonces(address owner) external view returns (uint256) {
+        return LibSecurityToken.securityTokenStorage().nonces[owner];
+    }
+
+    /**
+     * @notice Returns the EIP-712 domain separator used for permits and signed admin actions
+     * @return The domain separator
+     */
+    function DOMAIN_SEPARATOR() external view returns (bytes32) {
+        return LibEIP712.domainSeparator();
+    }
+
     /*//////////////////////////////////////////////////////////////
                               INTERNAL FUNCTIONS
     //////////////////////////////////////////////////////////////*/
     /**
-     * @dev Internal function to transfer tokens between accounts with compliance checks
+     * @dev Internal function to transfer tokens between accounts with compliance checks.
+     *      Validation, accounting and transaction recording live in LibTransfer.
      * @param from The address to transfer tokens from
      * @param to The address to transfer tokens to
      * @param amount The amount of tokens to transfer
      */
     function _transfer(address from, address to, uint256 amount) internal {
-        if (from == address(0)) revert ERC20InvalidSender(address(0));
-        if (to == address(0)) revert ERC20InvalidReceiver(address(0));
-        
-        LibSecurityToken.SecurityTokenStorage storage sts = LibSecurityToken.securityTokenStorage();
-        
-        // Compliance checks
-        if (sts.paused) revert ERC20TokenTransferPaused();
-        if (!sts.whitelist[from]) revert SenderNotWhitelisted(from);
-        if (sts.blacklist[from]) revert SenderBlacklisted(from);
-        if (!sts.whitelist[to]) revert RecipientNotWhitelisted(to);
-        if (sts.blacklist[to]) revert RecipientBlacklisted(to);
-        
-        uint256 fromBalance = sts.balances[from];
-        if (fromBalance < amount) revert ERC20InsufficientBalance(from, fromBalance, amount);
-        
-        // Perform transfer
-        sts.balances[from] = fromBalance - amount;
-        sts.balances[to] += amount;
-        
-        // Record transaction for compliance
-        sts.transactionCount += 1;
-        sts.transactionRecords[sts.transactionCount] = LibSecurityToken.TransactionRecord({
-            id: sts.transactionCount,
-            from: from,
-            to: to,
-            amount: amount,
-            timestamp: block.timestamp
-        });
+        LibTransfer.transfer(from, to, amount, false);
         
         emit Transfer(from, to, amount);
     }
@@ -230,7 +315,7 @@ contract ERC20Facet {
      * @return The version string
      */
     function version() external pure returns (string memory) {
-        return "1.0.0";
+        return "1.1.0";
     }
     
     /**
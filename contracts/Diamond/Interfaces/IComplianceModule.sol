@@ -0,0 +1,49 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+/**
+ * @title IComplianceModule
+ * @author ISBE Security Tokens Team
+ * @notice Interface for pluggable compliance rules evaluated by the security token diamond
+ * @dev Modules are called by the diamond itself, so msg.sender identifies the token.
+ *      canTransfer is checked before every transfer and mint; the hooks are called after
+ *      balances change so modules can keep their own state (counters, volumes, ...).
+ */
+interface IComplianceModule {
+    /**
+     * @notice Checks whether a transfer complies with the module rule
+     * @param from The address tokens are transferred from (address(0) for minting)
+     * @param to The address tokens are transferred to
+     * @param amount The amount of tokens transferred
+     * @return True if the transfer is allowed, false otherwise
+     */
+    function canTransfer(address from, address to, uint256 amount) external view returns (bool);
+
+    /**
+     * @notice Hook called after tokens are transferred between two holders
+     * @param from The address tokens were transferred from
+     * @param to The address tokens were transferred to
+     * @param amount The amount of tokens transferred
+     */
+    function transferred(address from, address to, uint256 amount) external;
+
+    /**
+     * @notice Hook called after tokens are minted
+     * @param to The address tokens were minted to
+     * @param amount The amount of tokens minted
+     */
+    function created(address to, uint256 amount) external;
+
+    /**
+     * @notice Hook called after tokens are burned
+     * @param from The address tokens were burned from
+     * @param amount The amount of tokens burned
+     */
+    function destroyed(address from, uint256 amount) external;
+
+    /**
+     * @notice Returns the name of the module
+     * @return The module name
+     */
+    function moduleName() external pure returns (string memory);
+}
@@ -0,0 +1,250 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import {IComplianceModule} from '../Interfaces/IComplianceModule.sol';
+import {LibSecurityToken} from './LibSecurityToken.sol';
+
+/**
+ * @title LibCompliance
+ * @author ISBE Security Tokens Team
+ * @notice Library implementing the compliance engine of the security token diamond
+ * @dev Runs the built-in rules (maturity, whitelist/blacklist, investor country) followed by the ordered
+ *      list of compliance modules stored in LibSecurityToken, and dispatches the
+ *      post-transfer hooks to every module.
+ */
+library LibCompliance {
+    using LibSecurityToken for LibSecurityToken.SecurityTokenStorage;
+
+    /*//////////////////////////////////////////////////////////////
+                          EIP-1066 STATUS CODES
+    //////////////////////////////////////////////////////////////*/
+
+    bytes1 internal constant STATUS_TRANSFER_FAILURE = 0x50;
+    bytes1 internal constant STATUS_TRANSFER_SUCCESS = 0x51;
+    bytes1 internal constant STATUS_INSUFFICIENT_BALANCE = 0x52;
+    bytes1 internal constant STATUS_INSUFFICIENT_ALLOWANCE = 0x53;
+    bytes1 internal constant STATUS_TRANSFERS_HALTED = 0x54;
+    bytes1 internal constant STATUS_FUNDS_LOCKED = 0x55;
+    bytes1 internal constant STATUS_INVALID_SENDER = 0x56;
+    bytes1 internal constant STATUS_INVALID_RECEIVER = 0x57;
+
+    /*//////////////////////////////////////////////////////////////
+                                 ERRORS
+    //////////////////////////////////////////////////////////////*/
+
+    /// @notice Thrown when sender is not whitelisted
+    error SenderNotWhitelisted(address sender);
+    
+    /// @notice Thrown when recipient is not whitelisted
+    error RecipientNotWhitelisted(address recipient);
+    
+    /// @notice Thrown when sender is blacklisted
+    error SenderBlacklisted(address sender);
+    
+    /// @notice Thrown when recipient is blacklisted
+    error RecipientBlacklisted(address recipient);
+
+    /// @notice Thrown when transferring or minting a bond after its maturity date
+    error BondMatured(uint256 maturityDate);
+
+    /// @notice Thrown when the country of the recipient is blocked or not allowed
+    error CountryRestricted(address to, uint16 country);
+
+    /// @notice Thrown when a compliance module rejects a transfer
+    error ComplianceModuleRejected(address module, address from, address to, uint256 amount);
+
+    /*//////////////////////////////////////////////////////////////
+                             CHECK FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @notice Enforces every compliance rule for a transfer between two holders
+     * @dev Reverts with the error of the first rule that fails
+     * @param from The address tokens are transferred from
+     * @param to The address tokens are transferred to
+     * @param amount The amount of tokens transferred
+     */
+    function checkTransfer(address from, address to, uint256 amount) internal view {
+        LibSecurityToken.SecurityTokenStorage storage sts = LibSecurityToken.securityTokenStorage();
+
+        checkMaturity();
+        if (!sts.whitelist[from]) revert SenderNotWhitelisted(from);
+        if (sts.blacklist[from]) revert SenderBlacklisted(from);
+        if (!sts.whitelist[to]) revert RecipientNotWhitelisted(to);
+        if (sts.blacklist[to]) revert RecipientBlacklisted(to);
+
+        checkCountry(to);
+        checkModules(from, to, amount);
+    }
+
+    /**
+     * @notice Enforces the rules that apply to a mint
+     * @dev Runs the maturity check, the country restrictions and the compliance modules
+     *      with from set to address(0)
+     * @param to The address tokens are minted to
+     * @param amount The amount of tokens minted
+     */
+    function checkMint(address to, uint256 amount) internal view {
+        checkMaturity();
+        checkCountry(to);
+        checkModules(address(0), to, amount);
+    }
+
+    /**
+     * @notice Reverts once the bond has reached its maturity date
+     * @dev After maturity tokens can only leave circulation through redemption
+     */
+    function checkMaturity() internal view {
+        if (isMatured()) revert BondMatured(LibSecurityToken.securityTokenStorage().maturityDate);
+    }
+
+    /**
+     * @notice Returns whether the bond has reached its maturity date
+     * @return True if a maturity date is set and has been reached
+     */
+    function isMatured() internal view returns (bool) {
+        uint256 maturityDate = LibSecurityToken.securityTokenStorage().maturityDate;
+        return maturityDate != 0 && block.timestamp >= maturityDate;
+    }
+
+    /**
+     * @notice Enforces the allowed/blocked country lists on the recipient
+     * @dev When at least one country is allowed, investors from any other country
+     *      (including investors without a recorded country) are rejected
+     * @param to The address receiving tokens
+     */
+    function checkCountry(address to) internal view {
+        if (isCountryRestricted(to)) {
+            revert CountryRestricted(to, LibSecurityToken.securityTokenStorage().investorCountry[to]);
+        }
+    }
+
+    /**
+     * @notice Returns whether the country of the recipient is blocked or not allowed
+     * @param to The address receiving tokens
+     * @return True if the recipient cannot receive tokens because of its country
+     */
+    function isCountryRestricted(address to) internal view returns (bool) {
+        LibSecurityToken.SecurityTokenStorage storage sts = LibSecurityToken.securityTokenStorage();
+        uint16 country = sts.investorCountry[to];
+
+        if (sts.blockedCountries[country]) return true;
+        return sts.allowedCountryCount != 0 && !sts.allowedCountries[country];
+    }
+
+    /**
+     * @notice Evaluates every rule of a transfer without reverting
+     * @dev Mirrors the checks of ERC20Facet._transfer in the same order. New transfer rules
+     *      must be added here as well so canTransfer keeps matching the transfer behaviour.
+     * @param from The address tokens would be transferred from
+     * @param to The address tokens would be transferred to
+     * @param amount The amount of tokens
+     * @return status The EIP-1066 status code (0x51 if the transfer would succeed)
+     * @return reason The reason the transfer would fail (zero if it would succeed)
+     */
+    function detectTransferRestriction(
+        address from,
+        address to,
+        uint256 amount
+    ) internal view returns (bytes1 status, bytes32 reason) {
+        LibSecurityToken.SecurityTokenStorage storage sts = LibSecurityToken.securityTokenStorage();
+
+        if (from == address(0)) return (STATUS_INVALID_SENDER, "INVALID_SENDER");
+        if (to == address(0)) return (STATUS_INVALID_RECEIVER, "INVALID_RECEIVER");
+        if (sts.paused) return (STATUS_TRANSFERS_HALTED, "TRANSFERS_PAUSED");
+        if (isMatured()) return (STATUS_TRANSFERS_HALTED, "BOND_MATURED");
+
+        if (!sts.whitelist[from]) return (STATUS_INVALID_SENDER, "SENDER_NOT_WHITELISTED");
+        if (sts.blacklist[from]) return (STATUS_INVALID_SENDER, "SENDER_BLACKLISTED");
+        if (!sts.whitelist[to]) return (STATUS_INVALID_RECEIVER, "RECIPIENT_NOT_WHITELISTED");
+        if (sts.blacklist[to]) return (STATUS_INVALID_RECEIVER, "RECIPIENT_BLACKLISTED");
+        if (isCountryRestricted(to)) return (STATUS_INVALID_RECEIVER, "COUNTRY_RESTRICTED");
+
+        address[] storage modules = sts.complianceModules;
+        for (uint256 i = 0; i < modules.length; i++) {
+            if (!IComplianceModule(modules[i]).canTransfer(from, to, amount)) {
+                return (STATUS_TRANSFER_FAILURE, "COMPLIANCE_MODULE_REJECTED");
+            }
+        }
+
+        if (sts.frozen[from]) return (STATUS_FUNDS_LOCKED, "SENDER_FROZEN");
+        if (sts.frozen[to]) return (STATUS_INVALID_RECEIVER, "RECIPIENT_FROZEN");
+
+        uint256 fromBalance = sts.balances[from];
+        if (fromBalance < amount) return (STATUS_INSUFFICIENT_BALANCE, "INSUFFICIENT_BALANCE");
+
+        uint256 frozenTokens = sts.frozenTokens[from];
+        uint256 unfrozenBalance = fromBalance > frozenTokens ? fromBalance - frozenTokens : 0;
+        if (unfrozenBalance < amount) return (STATUS_FUNDS_LOCKED, "TOKENS_FROZEN");
+
+        uint256 lockedTokens = sts.lockedBalanceOf(from);
+        uint256 unlockedBalance = unfrozenBalance > lockedTokens ? unfrozenBalance - lockedTokens : 0;
+        if (unlockedBalance < amount) return (STATUS_FUNDS_LOCKED, "TOKENS_LOCKED");
+        if (sts.unpartitionedBalanceOf(from) < amount) return (STATUS_FUNDS_LOCKED, "TOKENS_IN_PARTITION");
+
+        if (sts.maxHolders != 0 && amount != 0 && from != to && sts.balances[to] == 0) {
+            uint256 holders = sts.holderCount + 1;
+            if (fromBalance == amount) holders -= 1;
+            if (holders > sts.maxHolders) return (STATUS_INVALID_RECEIVER, "MAX_HOLDERS_EXCEEDED");
+        }
+
+        return (STATUS_TRANSFER_SUCCESS, bytes32(0));
+    }
+
+    /**
+     * @notice Enforces the rules of the compliance modules only
+     * @dev Used by checkTransfer and checkMint; from is address(0) for minting
+     * @param from The address tokens are transferred from (address(0) for minting)
+     * @param to The address tokens are transferred to
+     * @param amount The amount of tokens transferred
+     */
+    function checkModules(address from, address to, uint256 amount) internal view {
+        address[] storage modules = LibSecurityToken.securityTokenStorage().complianceModules;
+        for (uint256 i = 0; i < modules.length; i++) {
+            if (!IComplianceModule(modules[i]).canTransfer(from, to, amount)) {
+                revert ComplianceModuleRejected(modules[i], from, to, amount);
+            }
+        }
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                              HOOK FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @notice Notifies every compliance module of a transfer between two holders
+     * @param from The address tokens were transferred from
+     * @param to The address tokens were transferred to
+     * @param amount The amount of tokens transferred
+     */
+    function transferred(address from, address to, uint256 amount) internal {
+        address[] storage modules = LibSecurityToken.securityTokenStorage().complianceModules;
+        for (uint256 i = 0; i < modules.length; i++) {
+            IComplianceModule(modules[i]).transferred(from, to, amount);
+        }
+    }
+
+    /**
+     * @notice Notifies every compliance module of a mint
+     * @param to The address tokens were minted to
+     * @param amount The amount of tokens minted
+     */
+    function created(address to, uint256 amount) internal {
+        address[] storage modules = LibSecurityToken.securityTokenStorage().complianceModules;
+        for (uint256 i = 0; i < modules.length; i++) {
+            IComplianceModule(modules[i]).created(to, amount);
+        }
+    }
+
+    /**
+     * @notice Notifies every compliance module of a burn
+     * @param from The address tokens were burned from
+     * @param amount The amount of tokens burned
+     */
+    function destroyed(address from, uint256 amount) internal {
+        address[] storage modules = LibSecurityToken.securityTokenStorage().complianceModules;
+        for (uint256 i = 0; i < modules.length; i++) {
+            IComplianceModule(modules[i]).destroyed(from, amount);
+        }
+    }
+}
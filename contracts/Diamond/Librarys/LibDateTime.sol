@@ -0,0 +1,92 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+/**
+ * @title LibDateTime
+ * @author ISBE Security Tokens Team
+ * @notice Library converting between Unix timestamps and UTC calendar dates
+ * @dev Uses the days-from-civil algorithms by Howard Hinnant, restricted to dates
+ *      from 1970-01-01 onwards so every intermediate value is unsigned.
+ */
+library LibDateTime {
+    uint256 internal constant SECONDS_PER_DAY = 1 days;
+
+    /// @dev Number of days between 0000-03-01 and 1970-01-01 in the proleptic Gregorian calendar
+    uint256 private constant DAYS_TO_EPOCH = 719468;
+
+    /**
+     * @notice Converts a timestamp to a calendar date
+     * @param timestamp The Unix timestamp
+     * @return year The year
+     * @return month The month (1-12)
+     * @return day The day of the month (1-31)
+     */
+    function toDate(uint256 timestamp) internal pure returns (uint256 year, uint256 month, uint256 day) {
+        uint256 z = timestamp / SECONDS_PER_DAY + DAYS_TO_EPOCH;
+        uint256 era = z / 146097;
+        uint256 doe = z - era * 146097;
+        uint256 yoe = (doe - doe / 1460 + doe / 36524 - doe / 146096) / 365;
+        uint256 doy = doe - (365 * yoe + yoe / 4 - yoe / 100);
+        uint256 mp = (5 * doy + 2) / 153;
+
+        day = doy - (153 * mp + 2) / 5 + 1;
+        month = mp < 10 ? mp + 3 : mp - 9;
+        year = yoe + era * 400 + (month <= 2 ? 1 : 0);
+    }
+
+    /**
+     * @notice Converts a calendar date to the timestamp of its midnight (UTC)
+     * @param year The year (1970 or later)
+     * @param month The month (1-12)
+     * @param day The day of the month (1-31)
+     * @return The Unix timestamp
+     */
+    function toTimestamp(uint256 year, uint256 month, uint256 day) internal pure returns (uint256) {
+        if (month <= 2) year -= 1;
+        uint256 era = year / 400;
+        uint256 yoe = year - era * 400;
+        uint256 doy = (153 * (month > 2 ? month - 3 : month + 9) + 2) / 5 + day - 1;
+        uint256 doe = yoe * 365 + yoe / 4 - yoe / 100 + doy;
+        return (era * 146097 + doe - DAYS_TO_EPOCH) * SECONDS_PER_DAY;
+    }
+
+    /**
+     * @notice Shifts a timestamp by a number of calendar months, keeping the time of day
+     * @dev The day is clamped to the last day of the resulting month (Jan 31 + 1 month = Feb 28/29)
+     * @param timestamp The Unix timestamp
+     * @param months The number of months to add (negative to subtract)
+     * @return The shifted timestamp
+     */
+    function addMonths(uint256 timestamp, int256 months) internal pure returns (uint256) {
+        (uint256 year, uint256 month, uint256 day) = toDate(timestamp);
+        uint256 totalMonths = uint256(int256(year * 12 + month - 1) + months);
+        uint256 newYear = totalMonths / 12;
+        uint256 newMonth = totalMonths % 12 + 1;
+        uint256 monthDays = daysInMonth(newYear, newMonth);
+
+        return toTimestamp(newYear, newMonth, day < monthDays ? day : monthDays)
+            + timestamp % SECONDS_PER_DAY;
+    }
+
+    /**
+     * @notice Returns the number of days of a month
+     * @param year The year
+     * @param month The month (1-12)
+     * @return The number of days
+     */
+    function daysInMonth(uint256 year, uint256 month) internal pure returns (uint256) {
+        if (month == 2) {
+            return isLeapYear(year) ? 29 : 28;
+        }
+        return (month == 4 || month == 6 || month == 9 || month == 11) ? 30 : 31;
+    }
+
+    /**
+     * @notice Returns whether a year is a leap year
+     * @param year The year
+     * @return True for leap years
+     */
+    function isLeapYear(uint256 year) internal pure returns (bool) {
+        return (year % 4 == 0 && year % 100 != 0) || year % 400 == 0;
+    }
+}
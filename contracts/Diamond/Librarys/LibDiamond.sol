@@ -8,7 +8,8 @@ import {IDiamondCut} from '../Interfaces/Interfaces.sol';
  * @author ISBE Security Tokens Team
  * @notice Library implementing EIP-2535 Diamond Standard storage and operations
  * @dev This library provides the core functionality for the Diamond pattern including
- *      facet management, function selector routing, and ownership management.
+ *      facet management, function selector routing, ownership management and the
+ *      time-locked, multi-party approval of diamond cuts.
  *      It uses diamond storage to maintain state across all facets.
  */
 library LibDiamond {
@@ -43,6 +44,24 @@ library LibDiamond {
         uint256 facetAddressPosition; // position of facetAddress in facetAddresses array
     }
 
+    /**
+     * @notice Struct storing a proposed diamond cut
+     * @dev Only the hash of the cut is stored; the cut is emitted in DiamondCutProposed and
+     *      must be passed again on execution
+     * @param cutHash Hash of the abi-encoded facet cuts, init address and init calldata
+     * @param proposer The approver that proposed the cut
+     * @param readyAt Timestamp from which the cut can be executed
+     * @param executed Whether the cut has been executed
+     * @param cancelled Whether the cut has been cancelled
+     */
+    struct CutProposal {
+        bytes32 cutHash;
+        address proposer;
+        uint256 readyAt;
+        bool executed;
+        bool cancelled;
+    }
+
     /**
      * @notice Main diamond storage struct
      * @dev Contains all data needed for diamond functionality
@@ -58,6 +77,22 @@ library LibDiamond {
         mapping(bytes4 => bool) supportedInterfaces;
         /// @dev Owner of the diamond contract
         address contractOwner;
+        /// @dev Approvers of diamond cuts (N)
+        address[] cutApprovers;
+        /// @dev Mapping of cut approvers
+        mapping(address => bool) isCutApprover;
+        /// @dev Number of approvals required to execute a cut (M); 0 lets the owner cut directly
+        uint256 cutThreshold;
+        /// @dev Delay between proposing and executing a cut
+        uint256 cutDelay;
+        /// @dev Number of cut proposals (also the id of the latest one)
+        uint256 cutProposalCount;
+        /// @dev Mapping from proposal id to cut proposal
+        mapping(uint256 => CutProposal) cutProposals;
+        /// @dev Mapping from proposal id to approver to whether it approved the cut
+        mapping(uint256 => mapping(address => bool)) cutApprovals;
+        /// @dev Set while an approved cut is being executed
+        bool executingCut;
     }
 
     /*//////////////////////////////////////////////////////////////
@@ -93,6 +128,12 @@ library LibDiamond {
     /// @notice Thrown when facet address has no code
     error FacetHasNoCode(address facet);
 
+    /// @notice Thrown when caller is not a diamond cut approver
+    error NotCutApprover(address caller);
+
+    /// @notice Thrown when cut governance is enabled and a change has not gone through an approved cut
+    error DiamondCutRequiresApproval();
+
     /*//////////////////////////////////////////////////////////////
                               STORAGE FUNCTIONS
     //////////////////////////////////////////////////////////////*/
@@ -140,7 +181,52 @@ library LibDiamond {
         if (msg.sender != owner) {
             revert NotContractOwner(msg.sender, owner);
         }
-    }    /*//////////////////////////////////////////////////////////////
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                          CUT GOVERNANCE FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @notice Enforces that the caller is a diamond cut approver
+     * @dev Reverts with NotCutApprover if caller is not an approver
+     */
+    function enforceIsCutApprover() internal view {
+        if (!diamondStorage().isCutApprover[msg.sender]) {
+            revert NotCutApprover(msg.sender);
+        }
+    }
+
+    /**
+     * @notice Enforces that the cut governance allows a direct change
+     * @dev Without approvers the owner makes direct changes. Once approvers are set, changes
+     *      are only allowed from the init call of an approved, executed cut.
+     */
+    function enforceIsCutAuthorized() internal view {
+        DiamondStorage storage ds = diamondStorage();
+        if (ds.cutThreshold == 0) {
+            enforceIsContractOwner();
+        } else if (!ds.executingCut) {
+            revert DiamondCutRequiresApproval();
+        }
+    }
+
+    /**
+     * @notice Counts the approvals of a proposal by the current approvers
+     * @dev Approvals of removed approvers are ignored
+     * @param _proposalId The id of the proposal
+     * @return approvals_ The number of approvals
+     */
+    function cutApprovalCount(uint256 _proposalId) internal view returns (uint256 approvals_) {
+        DiamondStorage storage ds = diamondStorage();
+        for (uint256 i; i < ds.cutApprovers.length; i++) {
+            if (ds.cutApprovals[_proposalId][ds.cutApprovers[i]]) {
+                approvals_++;
+            }
+        }
+    }
+
+    /*//////////////////////////////////////////////////////////////
                             DIAMOND CUT FUNCTIONS
     //////////////////////////////////////////////////////////////*/
 
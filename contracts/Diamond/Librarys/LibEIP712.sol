@@ -0,0 +1,94 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import {ECDSA} from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import {MessageHashUtils} from "@openzeppelin/contracts/utils/cryptography/MessageHashUtils.sol";
+import {LibSecurityToken} from './LibSecurityToken.sol';
+
+/**
+ * @title LibEIP712
+ * @author ISBE Security Tokens Team
+ * @notice Library for EIP-712 typed signatures on the security token diamond
+ * @dev Used by ERC20Facet (EIP-2612 permit) and by the signed admin actions of AdminFacet
+ *      and MintingFacet, which a relayer submits on behalf of an off-line key. The domain
+ *      uses the token name, version "1", the chain id and the diamond address. All
+ *      signatures of an account share one nonce sequence.
+ */
+library LibEIP712 {
+    /*//////////////////////////////////////////////////////////////
+                                 CONSTANTS
+    //////////////////////////////////////////////////////////////*/
+
+    /// @dev EIP-712 domain type hash
+    bytes32 internal constant DOMAIN_TYPEHASH =
+        keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)");
+
+    /// @dev Hash of the signing domain version
+    bytes32 internal constant VERSION_HASH = keccak256("1");
+
+    /*//////////////////////////////////////////////////////////////
+                                 ERRORS
+    //////////////////////////////////////////////////////////////*/
+
+    /// @notice Thrown when a signature is used after its deadline
+    error ExpiredSignature(uint256 deadline);
+
+    /// @notice Thrown when a signature was not produced by the expected signer
+    error InvalidSigner(address signer, address expected);
+
+    /*//////////////////////////////////////////////////////////////
+                           SIGNATURE FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @notice Returns the EIP-712 domain separator of the token
+     * @return The domain separator
+     */
+    function domainSeparator() internal view returns (bytes32) {
+        return keccak256(
+            abi.encode(
+                DOMAIN_TYPEHASH,
+                keccak256(bytes(LibSecurityToken.securityTokenStorage().name)),
+                VERSION_HASH,
+                block.chainid,
+                address(this)
+            )
+        );
+    }
+
+    /**
+     * @notice Consumes the current nonce of an account
+     * @param owner The account whose nonce is used
+     * @return The nonce before the increment
+     */
+    function useNonce(address owner) internal returns (uint256) {
+        return LibSecurityToken.securityTokenStorage().nonces[owner]++;
+    }
+
+    /**
+     * @notice Reverts unless a typed signature is valid, unexpired and from the expected signer
+     * @param signer The account expected to have signed
+     * @param structHash The EIP-712 hash of the signed struct (including the nonce)
+     * @param deadline The timestamp after which the signature is no longer valid
+     * @param v The recovery id of the signature
+     * @param r The r value of the signature
+     * @param s The s value of the signature
+     */
+    function verify(
+        address signer,
+        bytes32 structHash,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) internal view {
+        if (block.timestamp > deadline) {
+            revert ExpiredSignature(deadline);
+        }
+
+        address recovered = ECDSA.recover(MessageHashUtils.toTypedDataHash(domainSeparator(), structHash), v, r, s);
+        if (recovered != signer) {
+            revert InvalidSigner(recovered, signer);
+        }
+    }
+}
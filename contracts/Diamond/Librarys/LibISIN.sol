@@ -0,0 +1,96 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+/**
+ * @title LibISIN
+ * @author ISBE Security Tokens Team
+ * @notice Library validating International Securities Identification Numbers (ISO 6166)
+ * @dev Used by DiamondInit and SecurityToken.initialize. An ISIN has 12 characters: a
+ *      two-letter country code, a nine-character alphanumeric identifier and a check digit.
+ *      The check digit is the Luhn checksum of the code with letters replaced by their
+ *      value (A = 10 ... Z = 35).
+ */
+library LibISIN {
+    /*//////////////////////////////////////////////////////////////
+                                 CONSTANTS
+    //////////////////////////////////////////////////////////////*/
+
+    /// @dev Length of an ISIN
+    uint256 internal constant ISIN_LENGTH = 12;
+
+    /*//////////////////////////////////////////////////////////////
+                                 ERRORS
+    //////////////////////////////////////////////////////////////*/
+
+    /// @notice Thrown when an ISIN has an invalid format or check digit
+    error InvalidISIN(string isin);
+
+    /*//////////////////////////////////////////////////////////////
+                           VALIDATION FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @notice Reverts unless an ISIN has a valid format and check digit
+     * @param isin The ISIN to validate
+     */
+    function validate(string memory isin) internal pure {
+        if (!isValid(isin)) revert InvalidISIN(isin);
+    }
+
+    /**
+     * @notice Checks the format and the check digit of an ISIN
+     * @dev Only upper-case letters are accepted
+     * @param isin The ISIN to check
+     * @return True if the ISIN is valid
+     */
+    function isValid(string memory isin) internal pure returns (bool) {
+        bytes memory code = bytes(isin);
+        if (code.length != ISIN_LENGTH) return false;
+        if (!_isLetter(code[0]) || !_isLetter(code[1])) return false;
+        if (!_isDigit(code[ISIN_LENGTH - 1])) return false;
+
+        // Luhn over the expanded digits, walking from the check digit leftwards; a letter
+        // expands to two digits, the units digit being the rightmost one
+        uint256 sum;
+        bool double;
+        for (uint256 i = ISIN_LENGTH; i > 0; i--) {
+            bytes1 char = code[i - 1];
+            if (_isDigit(char)) {
+                sum += _luhnDigit(uint8(char) - 48, double);
+                double = !double;
+            } else if (_isLetter(char)) {
+                uint256 value = uint8(char) - 55;
+                sum += _luhnDigit(value % 10, double);
+                sum += _luhnDigit(value / 10, !double);
+            } else {
+                return false;
+            }
+        }
+        return sum % 10 == 0;
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                           INTERNAL FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @dev Returns the Luhn contribution of a digit
+     * @param digit The digit
+     * @param double Whether the digit is in a doubled position
+     */
+    function _luhnDigit(uint256 digit, bool double) private pure returns (uint256) {
+        if (!double) return digit;
+        digit *= 2;
+        return digit > 9 ? digit - 9 : digit;
+    }
+
+    /// @dev Returns true for '0'-'9'
+    function _isDigit(bytes1 char) private pure returns (bool) {
+        return char >= 0x30 && char <= 0x39;
+    }
+
+    /// @dev Returns true for 'A'-'Z'
+    function _isLetter(bytes1 char) private pure returns (bool) {
+        return char >= 0x41 && char <= 0x5A;
+    }
+}
@@ -0,0 +1,156 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import {LibSecurityToken} from './LibSecurityToken.sol';
+import {LibCompliance} from './LibCompliance.sol';
+
+/**
+ * @title LibMinting
+ * @author ISBE Security Tokens Team
+ * @notice Library implementing the mint and burn paths of the security token diamond
+ * @dev Shared by MintingFacet, PartitionFacet (issuance by partition) and RedemptionFacet
+ *      (redemption at maturity) so every mint and burn updates snapshots, holders,
+ *      transaction records and compliance modules the same way. Callers emit the Transfer event.
+ */
+library LibMinting {
+    using LibSecurityToken for LibSecurityToken.SecurityTokenStorage;
+
+    /*//////////////////////////////////////////////////////////////
+                                 ERRORS
+    //////////////////////////////////////////////////////////////*/
+
+    /// @notice Thrown when attempting to mint to zero address
+    error MintToZeroAddress();
+    
+    /// @notice Thrown when minting would exceed the token cap
+    error CapExceeded(uint256 totalSupply, uint256 amount, uint256 cap);
+    
+    /// @notice Thrown when attempting to burn from zero address
+    error BurnFromZeroAddress();
+    
+    /// @notice Thrown when burn amount exceeds account balance
+    error BurnAmountExceedsBalance(address account, uint256 amount, uint256 balance);
+    
+    /// @notice Thrown when attempting to burn from a frozen account
+    error BurnFromFrozenAccount(address account);
+    
+    /// @notice Thrown when burn amount exceeds the balance that is not frozen
+    error BurnAmountExceedsUnfrozenBalance(address account, uint256 amount, uint256 unfrozenBalance);
+
+    /// @notice Thrown when burn amount exceeds the balance that is neither frozen nor locked up
+    error BurnAmountExceedsUnlockedBalance(address account, uint256 amount, uint256 unlockedBalance);
+
+    /*//////////////////////////////////////////////////////////////
+                              MINT FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @notice Mints tokens to an account
+     * @dev Handles the core minting logic with cap enforcement and transaction recording
+     * @param to The address to mint tokens to
+     * @param amount The amount of tokens to mint
+     */
+    function mint(address to, uint256 amount) internal {
+        if (to == address(0)) {
+            revert MintToZeroAddress();
+        }
+        
+        LibSecurityToken.SecurityTokenStorage storage sts = LibSecurityToken.securityTokenStorage();
+        
+        // Check cap
+        if (sts.totalSupply + amount > sts.cap) {
+            revert CapExceeded(sts.totalSupply, amount, sts.cap);
+        }
+        
+        LibCompliance.checkMint(to, amount);
+        
+        sts.updateSnapshots(address(0), to);
+        sts.totalSupply += amount;
+        sts.balances[to] += amount;
+        if (sts.updateHolderCount(address(0), to, amount)) {
+            sts.enforceMaxHolders();
+        }
+        
+        // Record transaction
+        sts.transactionCount += 1;
+        sts.transactionRecords[sts.transactionCount] = LibSecurityToken.TransactionRecord({
+            id: sts.transactionCount,
+            from: address(0),
+            to: to,
+            amount: amount,
+            timestamp: block.timestamp,
+            forced: false
+        });
+        
+        LibCompliance.created(to, amount);
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                              BURN FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @notice Burns tokens from an account
+     * @dev Handles the core burning logic with proper validation and transaction recording.
+     *      Forced burns skip the freeze and lock-up checks and release the frozen tokens they
+     *      consume. Partitioned and locked tokens consumed by the burn are taken out of their
+     *      partitions and lock-up tranches.
+     * @param from The address to burn tokens from
+     * @param amount The amount of tokens to burn
+     * @param forced Whether the burn is executed by the issuer regardless of freezes
+     */
+    function burn(address from, uint256 amount, bool forced) internal {
+        if (from == address(0)) {
+            revert BurnFromZeroAddress();
+        }
+        
+        LibSecurityToken.SecurityTokenStorage storage sts = LibSecurityToken.securityTokenStorage();
+        
+        if (!forced && sts.frozen[from]) {
+            revert BurnFromFrozenAccount(from);
+        }
+        
+        uint256 accountBalance = sts.balances[from];
+        if (accountBalance < amount) {
+            revert BurnAmountExceedsBalance(from, amount, accountBalance);
+        }
+        
+        uint256 frozenTokens = sts.frozenTokens[from];
+        if (accountBalance - amount < frozenTokens) {
+            if (!forced) {
+                uint256 unfrozenBalance = accountBalance > frozenTokens ? accountBalance - frozenTokens : 0;
+                revert BurnAmountExceedsUnfrozenBalance(from, amount, unfrozenBalance);
+            }
+            sts.frozenTokens[from] = accountBalance - amount;
+        }
+
+        if (!forced) {
+            uint256 unfrozenBalance = accountBalance - frozenTokens;
+            uint256 lockedTokens = sts.releaseExpiredLockUps(from);
+            uint256 unlockedBalance = unfrozenBalance > lockedTokens ? unfrozenBalance - lockedTokens : 0;
+            if (unlockedBalance < amount) {
+                revert BurnAmountExceedsUnlockedBalance(from, amount, unlockedBalance);
+            }
+        }
+        
+        sts.updateSnapshots(from, address(0));
+        sts.balances[from] = accountBalance - amount;
+        sts.totalSupply -= amount;
+        sts.updateHolderCount(from, address(0), amount);
+        sts.settlePartitions(from);
+        sts.settleLockUps(from);
+        
+        // Record transaction
+        sts.transactionCount += 1;
+        sts.transactionRecords[sts.transactionCount] = LibSecurityToken.TransactionRecord({
+            id: sts.transactionCount,
+            from: from,
+            to: address(0),
+            amount: amount,
+            timestamp: block.timestamp,
+            forced: forced
+        });
+        
+        LibCompliance.destroyed(from, amount);
+    }
+}
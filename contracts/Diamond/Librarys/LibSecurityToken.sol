@@ -17,6 +17,19 @@ library LibSecurityToken {
     /// @dev Storage position for security token data using diamond storage pattern
     bytes32 constant SECURITY_TOKEN_STORAGE_POSITION = keccak256("isbe.security.token.storage");
     
+    /*//////////////////////////////////////////////////////////////
+                                 ERRORS
+    //////////////////////////////////////////////////////////////*/
+
+    /// @notice Thrown when a transfer or mint would exceed the maximum number of holders
+    error MaxHoldersExceeded(uint256 holderCount, uint256 maxHolders);
+
+    /// @notice Thrown when querying a snapshot that does not exist
+    error InvalidSnapshotId(uint256 snapshotId);
+
+    /// @notice Thrown when a plain transfer or burn needs tokens held in partitions
+    error InsufficientUnpartitionedBalance(address account, uint256 unpartitionedBalance, uint256 needed);
+    
     /*//////////////////////////////////////////////////////////////
                                  STRUCTS
     //////////////////////////////////////////////////////////////*/
@@ -28,6 +41,7 @@ library LibSecurityToken {
      * @param to Address that received the tokens (address(0) for burning)
      * @param amount Number of tokens transferred
      * @param timestamp Block timestamp when the transaction occurred
+     * @param forced Whether the transaction was a controller (forced) transfer
      */
     struct TransactionRecord {
         uint256 id;
@@ -35,6 +49,83 @@ library LibSecurityToken {
         address to;
         uint256 amount;
         uint256 timestamp;
+        bool forced;
+    }
+    
+    /**
+     * @notice Struct representing a tranche of tokens locked until a release time
+     * @param amount Number of tokens locked
+     * @param releaseTime Timestamp from which the tokens become transferable
+     */
+    struct LockUp {
+        uint256 amount;
+        uint256 releaseTime;
+    }
+
+    /**
+     * @notice Struct representing a legal document attached to the token (ERC-1643)
+     * @param uri Location of the document (e.g. IPFS or HTTPS URI)
+     * @param documentHash Hash of the document contents
+     * @param lastModified Timestamp of the last update
+     */
+    struct Document {
+        string uri;
+        bytes32 documentHash;
+        uint256 lastModified;
+    }
+
+    /**
+     * @notice Struct holding the checkpoints of a balance or of the total supply
+     * @dev ids[i] is the first snapshot at which values[i] applies; ids is sorted ascending
+     * @param ids Snapshot ids at which the value was recorded
+     * @param values Value before the first change after each snapshot
+     */
+    struct Snapshots {
+        uint256[] ids;
+        uint256[] values;
+    }
+
+    /**
+     * @notice Day-count conventions used to compute coupon year fractions
+     * @dev ACT_360 and ACT_365 use the actual number of days; THIRTY_360 is the US (bond basis)
+     *      30/360 convention
+     */
+    enum DayCount {
+        ACT_360,
+        ACT_365,
+        THIRTY_360
+    }
+
+    /**
+     * @notice Struct representing a fixed-rate coupon schedule
+     * @param rateBps Annual coupon rate in basis points
+     * @param frequency Number of coupon payments per year (1, 2, 4 or 12)
+     * @param dayCount Day-count convention
+     * @param firstCouponDate Payment date of the first coupon; later dates follow every 12 / frequency months
+     */
+    struct CouponSchedule {
+        uint256 rateBps;
+        uint256 frequency;
+        DayCount dayCount;
+        uint256 firstCouponDate;
+    }
+
+    /**
+     * @notice Struct representing a payment (dividend or coupon) to the holders of a snapshot
+     * @param paymentToken ERC20 token the payment is made in
+     * @param snapshotId Snapshot whose balances determine each holder's share
+     * @param amount Total amount deposited
+     * @param claimedAmount Amount already claimed by holders
+     * @param expiry Timestamp after which holders can no longer claim
+     * @param reclaimed Whether the unclaimed amount was returned after expiry
+     */
+    struct Distribution {
+        address paymentToken;
+        uint256 snapshotId;
+        uint256 amount;
+        uint256 claimedAmount;
+        uint256 expiry;
+        bool reclaimed;
     }
     
     /**
@@ -98,7 +189,106 @@ library LibSecurityToken {
         /// @dev Pauser role identifier
         bytes32 pauserRole;
         /// @dev Default admin role identifier (usually 0x00)
-        bytes32 defaultAdminRole;    }
+        bytes32 defaultAdminRole;
+        /// @dev Controller role identifier (forced transfers)
+        bytes32 controllerRole;
+
+        // Freeze Storage
+        /// @dev Mapping of frozen accounts (cannot send or receive tokens)
+        mapping(address => bool) frozen;
+        /// @dev Mapping of partially frozen token amounts per account
+        mapping(address => uint256) frozenTokens;
+
+        // Lock-up Storage
+        /// @dev Mapping of lock-up tranches per account
+        mapping(address => LockUp[]) lockUps;
+
+        // Compliance Engine Storage
+        /// @dev Ordered list of compliance modules evaluated on every transfer and mint
+        address[] complianceModules;
+
+        // Holder Tracking Storage
+        /// @dev Number of accounts with a non-zero balance
+        uint256 holderCount;
+        /// @dev Maximum number of holders allowed (0 means no limit)
+        uint256 maxHolders;
+
+        // Country Restriction Storage
+        /// @dev Mapping from investor address to ISO 3166-1 numeric country code (0 means unknown)
+        mapping(address => uint16) investorCountry;
+        /// @dev Mapping of allowed country codes
+        mapping(uint16 => bool) allowedCountries;
+        /// @dev Number of allowed country codes (0 means every country not blocked is allowed)
+        uint256 allowedCountryCount;
+        /// @dev Mapping of blocked country codes
+        mapping(uint16 => bool) blockedCountries;
+
+        // Document Storage (ERC-1643)
+        /// @dev Mapping from document name to document
+        mapping(bytes32 => Document) documents;
+        /// @dev List of document names
+        bytes32[] documentNames;
+        /// @dev Mapping from document name to its position in documentNames plus one (0 means not present)
+        mapping(bytes32 => uint256) documentIndex;
+
+        // Snapshot Storage
+        /// @dev Id of the latest snapshot (0 means no snapshot taken)
+        uint256 currentSnapshotId;
+        /// @dev Mapping from snapshot id to the timestamp it was taken at
+        mapping(uint256 => uint256) snapshotTimestamps;
+        /// @dev Balance checkpoints per account
+        mapping(address => Snapshots) accountBalanceSnapshots;
+        /// @dev Total supply checkpoints
+        Snapshots totalSupplySnapshots;
+
+        // Distribution Storage
+        /// @dev Number of distributions created (ids start at 1)
+        uint256 distributionCount;
+        /// @dev Mapping from distribution id to distribution
+        mapping(uint256 => Distribution) distributions;
+        /// @dev Mapping from distribution id to holder to whether the holder has claimed
+        mapping(uint256 => mapping(address => bool)) distributionClaimed;
+
+        // Holder List Storage
+        /// @dev Accounts with a non-zero balance, kept in sync with holderCount
+        address[] holders;
+        /// @dev Mapping from holder to its position in holders plus one (0 means not a holder)
+        mapping(address => uint256) holderIndex;
+
+        // Bond Redemption Storage
+        /// @dev Maturity timestamp of the bond (0 means no maturity)
+        uint256 maturityDate;
+        /// @dev Payment token amount paid per whole token (10 ** decimals units) at redemption
+        uint256 nominalValue;
+        /// @dev ERC20 token the principal is paid in
+        address redemptionToken;
+        /// @dev Amount of redemption token funded by the issuer and not paid out yet
+        uint256 redemptionFunds;
+
+        // Coupon Storage
+        /// @dev Fixed-rate coupon schedule of the bond
+        CouponSchedule couponSchedule;
+
+        // Partition Storage (ERC-1410)
+        /// @dev Mapping from holder to partition to balance
+        mapping(address => mapping(bytes32 => uint256)) partitionBalances;
+        /// @dev Partitions in which each holder has a non-zero balance
+        mapping(address => bytes32[]) holderPartitions;
+        /// @dev Mapping from holder to partition to its position in holderPartitions plus one
+        mapping(address => mapping(bytes32 => uint256)) holderPartitionIndex;
+        /// @dev Sum of the partition balances of each holder (the rest of the balance is unpartitioned)
+        mapping(address => uint256) partitionedBalances;
+        /// @dev Mapping from partition to the sum of the balances of every holder in it
+        mapping(bytes32 => uint256) partitionSupply;
+        /// @dev Every partition tokens have been issued in
+        bytes32[] partitions;
+        /// @dev Mapping of known partitions
+        mapping(bytes32 => bool) isPartition;
+
+        // Signature Storage (EIP-712)
+        /// @dev Next nonce of each signer, shared by permit and signed admin actions
+        mapping(address => uint256) nonces;
+    }
     
     /*//////////////////////////////////////////////////////////////
                               STORAGE FUNCTIONS
@@ -138,4 +328,330 @@ library LibSecurityToken {
         SecurityTokenStorage storage sts = securityTokenStorage();
         return bytes(sts.name).length > 0;
     }
+
+    /*//////////////////////////////////////////////////////////////
+                          HOLDER TRACKING FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @notice Updates the holder count and holder list after balances have been moved
+     * @dev Must be called after the balances are updated: a recipient whose balance equals
+     *      the amount received had a zero balance before. Holders missing from the list, on
+     *      diamonds upgraded before holders were tracked, are not counted and so are not
+     *      removed either; DiamondInit.initHolders adds them.
+     * @param sts The security token storage
+     * @param from The address tokens were taken from (address(0) for minting)
+     * @param to The address tokens were given to (address(0) for burning)
+     * @param amount The amount of tokens moved
+     * @return holderAdded Whether the recipient became a new holder
+     */
+    function updateHolderCount(
+        SecurityTokenStorage storage sts,
+        address from,
+        address to,
+        uint256 amount
+    ) internal returns (bool holderAdded) {
+        if (amount == 0 || from == to) {
+            return false;
+        }
+        if (to != address(0) && sts.balances[to] == amount) {
+            addHolder(sts, to);
+            holderAdded = true;
+        }
+        if (from != address(0) && sts.balances[from] == 0 && sts.holderIndex[from] != 0) {
+            _removeHolder(sts, from);
+        }
+    }
+
+    /**
+     * @notice Adds an account to the holder list and the holder count
+     * @dev The caller checks that the account has a balance and is not listed yet
+     * @param sts The security token storage
+     * @param account The new holder
+     */
+    function addHolder(SecurityTokenStorage storage sts, address account) internal {
+        sts.holderCount += 1;
+        sts.holders.push(account);
+        sts.holderIndex[account] = sts.holders.length;
+    }
+
+    /**
+     * @dev Removes an account from the holder list (swap and pop) and the holder count
+     */
+    function _removeHolder(SecurityTokenStorage storage sts, address account) private {
+        sts.holderCount -= 1;
+        uint256 index = sts.holderIndex[account];
+        address lastHolder = sts.holders[sts.holders.length - 1];
+        sts.holders[index - 1] = lastHolder;
+        sts.holderIndex[lastHolder] = index;
+        sts.holders.pop();
+        delete sts.holderIndex[account];
+    }
+
+    /**
+     * @notice Reverts if the holder count is above the configured maximum
+     * @param sts The security token storage
+     */
+    function enforceMaxHolders(SecurityTokenStorage storage sts) internal view {
+        if (sts.maxHolders != 0 && sts.holderCount > sts.maxHolders) {
+            revert MaxHoldersExceeded(sts.holderCount, sts.maxHolders);
+        }
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                           SNAPSHOT FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @notice Records the current balances of the accounts involved in a balance change
+     * @dev Must be called before the balances are updated. A zero from (mint) or to (burn)
+     *      means the total supply changes, so it is checkpointed as well.
+     * @param sts The security token storage
+     * @param from The address tokens are taken from (address(0) for minting)
+     * @param to The address tokens are given to (address(0) for burning)
+     */
+    function updateSnapshots(SecurityTokenStorage storage sts, address from, address to) internal {
+        if (sts.currentSnapshotId == 0) {
+            return;
+        }
+        if (from == address(0) || to == address(0)) {
+            _updateSnapshot(sts, sts.totalSupplySnapshots, sts.totalSupply);
+        }
+        if (from != address(0)) {
+            _updateSnapshot(sts, sts.accountBalanceSnapshots[from], sts.balances[from]);
+        }
+        if (to != address(0)) {
+            _updateSnapshot(sts, sts.accountBalanceSnapshots[to], sts.balances[to]);
+        }
+    }
+
+    /**
+     * @notice Returns the balance of an account at a snapshot
+     * @param sts The security token storage
+     * @param account The address to check
+     * @param snapshotId The snapshot id
+     * @return The balance of the account when the snapshot was taken
+     */
+    function balanceOfAt(
+        SecurityTokenStorage storage sts,
+        address account,
+        uint256 snapshotId
+    ) internal view returns (uint256) {
+        (bool snapshotted, uint256 value) = _valueAt(sts, sts.accountBalanceSnapshots[account], snapshotId);
+        return snapshotted ? value : sts.balances[account];
+    }
+
+    /**
+     * @notice Returns the total supply at a snapshot
+     * @param sts The security token storage
+     * @param snapshotId The snapshot id
+     * @return The total supply when the snapshot was taken
+     */
+    function totalSupplyAt(SecurityTokenStorage storage sts, uint256 snapshotId) internal view returns (uint256) {
+        (bool snapshotted, uint256 value) = _valueAt(sts, sts.totalSupplySnapshots, snapshotId);
+        return snapshotted ? value : sts.totalSupply;
+    }
+
+    /**
+     * @dev Stores the current value if it has not been checkpointed since the latest snapshot
+     */
+    function _updateSnapshot(SecurityTokenStorage storage sts, Snapshots storage snapshots, uint256 currentValue) private {
+        uint256 length = snapshots.ids.length;
+        if (length == 0 || snapshots.ids[length - 1] < sts.currentSnapshotId) {
+            snapshots.ids.push(sts.currentSnapshotId);
+            snapshots.values.push(currentValue);
+        }
+    }
+
+    /**
+     * @dev Looks up the first checkpoint recorded at or after the snapshot. If there is none,
+     *      the value has not changed since the snapshot and the current value applies.
+     */
+    function _valueAt(
+        SecurityTokenStorage storage sts,
+        Snapshots storage snapshots,
+        uint256 snapshotId
+    ) private view returns (bool, uint256) {
+        if (snapshotId == 0 || snapshotId > sts.currentSnapshotId) revert InvalidSnapshotId(snapshotId);
+
+        // Binary search for the first id >= snapshotId
+        uint256 low = 0;
+        uint256 high = snapshots.ids.length;
+        while (low < high) {
+            uint256 mid = (low + high) / 2;
+            if (snapshots.ids[mid] < snapshotId) {
+                low = mid + 1;
+            } else {
+                high = mid;
+            }
+        }
+
+        if (low == snapshots.ids.length) {
+            return (false, 0);
+        }
+        return (true, snapshots.values[low]);
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                           PARTITION FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @notice Returns the part of the balance of an account that is not held in any partition
+     * @param sts The security token storage
+     * @param account The address to check
+     * @return The unpartitioned balance
+     */
+    function unpartitionedBalanceOf(SecurityTokenStorage storage sts, address account) internal view returns (uint256) {
+        uint256 balance = sts.balances[account];
+        uint256 partitioned = sts.partitionedBalances[account];
+        return balance > partitioned ? balance - partitioned : 0;
+    }
+
+    /**
+     * @notice Reverts if an amount exceeds the unpartitioned balance of an account
+     * @dev Plain ERC-20 transfers and burns only spend unpartitioned tokens
+     * @param sts The security token storage
+     * @param account The address spending tokens
+     * @param amount The amount of tokens spent
+     */
+    function enforceUnpartitioned(SecurityTokenStorage storage sts, address account, uint256 amount) internal view {
+        uint256 unpartitioned = unpartitionedBalanceOf(sts, account);
+        if (unpartitioned < amount) {
+            revert InsufficientUnpartitionedBalance(account, unpartitioned, amount);
+        }
+    }
+
+    /**
+     * @notice Adds tokens to a partition of an account
+     * @dev Does not change the ERC-20 balance; callers move or mint the tokens themselves
+     * @param sts The security token storage
+     * @param account The address receiving the tokens
+     * @param partition The partition
+     * @param amount The amount of tokens
+     */
+    function creditPartition(SecurityTokenStorage storage sts, address account, bytes32 partition, uint256 amount) internal {
+        if (amount == 0) {
+            return;
+        }
+        if (sts.holderPartitionIndex[account][partition] == 0) {
+            sts.holderPartitions[account].push(partition);
+            sts.holderPartitionIndex[account][partition] = sts.holderPartitions[account].length;
+        }
+        if (!sts.isPartition[partition]) {
+            sts.isPartition[partition] = true;
+            sts.partitions.push(partition);
+        }
+        sts.partitionBalances[account][partition] += amount;
+        sts.partitionedBalances[account] += amount;
+        sts.partitionSupply[partition] += amount;
+    }
+
+    /**
+     * @notice Removes tokens from a partition of an account
+     * @dev The caller must have checked that the partition balance covers the amount
+     * @param sts The security token storage
+     * @param account The address the tokens are taken from
+     * @param partition The partition
+     * @param amount The amount of tokens
+     */
+    function debitPartition(SecurityTokenStorage storage sts, address account, bytes32 partition, uint256 amount) internal {
+        uint256 remaining = sts.partitionBalances[account][partition] - amount;
+        sts.partitionBalances[account][partition] = remaining;
+        sts.partitionedBalances[account] -= amount;
+        sts.partitionSupply[partition] -= amount;
+
+        if (remaining == 0 && amount != 0) {
+            bytes32[] storage held = sts.holderPartitions[account];
+            uint256 index = sts.holderPartitionIndex[account][partition];
+            bytes32 lastPartition = held[held.length - 1];
+            held[index - 1] = lastPartition;
+            sts.holderPartitionIndex[account][lastPartition] = index;
+            held.pop();
+            delete sts.holderPartitionIndex[account][partition];
+        }
+    }
+
+    /**
+     * @notice Takes tokens out of the partitions of an account whose balance fell below its partitioned balance
+     * @dev Called after forced balance decreases (controller transfers, reversals, forced redemptions),
+     *      which may consume partitioned tokens. Partitions are drained from the last one.
+     * @param sts The security token storage
+     * @param account The address whose balance decreased
+     */
+    function settlePartitions(SecurityTokenStorage storage sts, address account) internal {
+        uint256 balance = sts.balances[account];
+        while (sts.partitionedBalances[account] > balance) {
+            bytes32[] storage held = sts.holderPartitions[account];
+            bytes32 partition = held[held.length - 1];
+            uint256 excess = sts.partitionedBalances[account] - balance;
+            uint256 partitionBalance = sts.partitionBalances[account][partition];
+            debitPartition(sts, account, partition, excess < partitionBalance ? excess : partitionBalance);
+        }
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                            LOCK-UP FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @notice Returns the amount of tokens of an account still under lock-up
+     * @param sts The security token storage
+     * @param account The address to check
+     * @return locked The sum of all tranches whose release time has not been reached
+     */
+    function lockedBalanceOf(SecurityTokenStorage storage sts, address account) internal view returns (uint256 locked) {
+        LockUp[] storage tranches = sts.lockUps[account];
+        for (uint256 i = 0; i < tranches.length; i++) {
+            if (tranches[i].releaseTime > block.timestamp) {
+                locked += tranches[i].amount;
+            }
+        }
+    }
+
+    /**
+     * @notice Removes the released tranches of an account and returns the amount still locked
+     * @dev Keeps the lock-up array short so transfers don't iterate over expired tranches
+     * @param sts The security token storage
+     * @param account The address whose tranches are released
+     * @return locked The sum of the remaining tranches
+     */
+    function releaseExpiredLockUps(SecurityTokenStorage storage sts, address account) internal returns (uint256 locked) {
+        LockUp[] storage tranches = sts.lockUps[account];
+        uint256 i = 0;
+        while (i < tranches.length) {
+            if (tranches[i].releaseTime <= block.timestamp) {
+                tranches[i] = tranches[tranches.length - 1];
+                tranches.pop();
+            } else {
+                locked += tranches[i].amount;
+                i++;
+            }
+        }
+    }
+
+    /**
+     * @notice Cuts the lock-up tranches of an account whose balance fell below its locked amount
+     * @dev Called after every balance decrease that may consume locked tokens (controller
+     *      transfers, reversals, burns and redemptions), so tranches never outlive the tokens
+     *      they lock. Tranches are cut from the last one.
+     * @param sts The security token storage
+     * @param account The address whose balance decreased
+     */
+    function settleLockUps(SecurityTokenStorage storage sts, address account) internal {
+        uint256 locked = releaseExpiredLockUps(sts, account);
+        uint256 balance = sts.balances[account];
+        LockUp[] storage tranches = sts.lockUps[account];
+        while (locked > balance) {
+            LockUp storage tranche = tranches[tranches.length - 1];
+            uint256 excess = locked - balance;
+            if (tranche.amount > excess) {
+                tranche.amount -= excess;
+                locked = balance;
+            } else {
+                locked -= tranche.amount;
+                tranches.pop();
+            }
+        }
+    }
 }
\ No newline at end of file
@@ -0,0 +1,103 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import {LibSecurityToken} from './LibSecurityToken.sol';
+import {LibCompliance} from './LibCompliance.sol';
+
+/**
+ * @title LibTransfer
+ * @author ISBE Security Tokens Team
+ * @notice Library implementing the transfer path of the security token diamond
+ * @dev Shared by ERC20Facet (transfer/transferFrom) and PartitionFacet (transferByPartition)
+ *      so every holder-initiated transfer runs the same compliance, freeze and lock-up
+ *      checks. Callers emit the Transfer event.
+ */
+library LibTransfer {
+    using LibSecurityToken for LibSecurityToken.SecurityTokenStorage;
+
+    /*//////////////////////////////////////////////////////////////
+                                 ERRORS
+    //////////////////////////////////////////////////////////////*/
+
+    /// @notice Thrown when transfer is attempted from zero address
+    error ERC20InvalidSender(address sender);
+
+    /// @notice Thrown when transfer is attempted to zero address
+    error ERC20InvalidReceiver(address receiver);
+
+    /// @notice Thrown when transfer amount exceeds balance
+    error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed);
+
+    /// @notice Thrown when token transfers are paused
+    error ERC20TokenTransferPaused();
+
+    /// @notice Thrown when sender account is frozen
+    error SenderFrozen(address sender);
+
+    /// @notice Thrown when recipient account is frozen
+    error RecipientFrozen(address recipient);
+
+    /// @notice Thrown when transfer amount exceeds the balance that is not frozen
+    error InsufficientUnfrozenBalance(address sender, uint256 unfrozenBalance, uint256 needed);
+
+    /// @notice Thrown when transfer amount exceeds the balance that is not locked up
+    error InsufficientUnlockedBalance(address sender, uint256 unlockedBalance, uint256 needed);
+
+    /*//////////////////////////////////////////////////////////////
+                            TRANSFER FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @notice Transfers tokens between accounts with compliance checks
+     * @dev Plain transfers may only spend the unpartitioned balance; partition transfers
+     *      check the partition balance themselves and move it after this call.
+     * @param from The address to transfer tokens from
+     * @param to The address to transfer tokens to
+     * @param amount The amount of tokens to transfer
+     * @param byPartition Whether the tokens are taken from a partition of the sender
+     */
+    function transfer(address from, address to, uint256 amount, bool byPartition) internal {
+        if (from == address(0)) revert ERC20InvalidSender(address(0));
+        if (to == address(0)) revert ERC20InvalidReceiver(address(0));
+
+        LibSecurityToken.SecurityTokenStorage storage sts = LibSecurityToken.securityTokenStorage();
+
+        // Compliance checks
+        if (sts.paused) revert ERC20TokenTransferPaused();
+        LibCompliance.checkTransfer(from, to, amount);
+        if (sts.frozen[from]) revert SenderFrozen(from);
+        if (sts.frozen[to]) revert RecipientFrozen(to);
+
+        uint256 fromBalance = sts.balances[from];
+        if (fromBalance < amount) revert ERC20InsufficientBalance(from, fromBalance, amount);
+
+        uint256 frozenTokens = sts.frozenTokens[from];
+        uint256 unfrozenBalance = fromBalance > frozenTokens ? fromBalance - frozenTokens : 0;
+        if (unfrozenBalance < amount) revert InsufficientUnfrozenBalance(from, unfrozenBalance, amount);
+
+        uint256 lockedTokens = sts.releaseExpiredLockUps(from);
+        uint256 unlockedBalance = unfrozenBalance > lockedTokens ? unfrozenBalance - lockedTokens : 0;
+        if (unlockedBalance < amount) revert InsufficientUnlockedBalance(from, unlockedBalance, amount);
+
+        if (!byPartition) sts.enforceUnpartitioned(from, amount);
+
+        // Perform transfer
+        sts.updateSnapshots(from, to);
+        sts.balances[from] = fromBalance - amount;
+        sts.balances[to] += amount;
+        if (sts.updateHolderCount(from, to, amount)) sts.enforceMaxHolders();
+
+        // Record transaction for compliance
+        sts.transactionCount += 1;
+        sts.transactionRecords[sts.transactionCount] = LibSecurityToken.TransactionRecord({
+            id: sts.transactionCount,
+            from: from,
+            to: to,
+            amount: amount,
+            timestamp: block.timestamp,
+            forced: false
+        });
+
+        LibCompliance.transferred(from, to, amount);
+    }
+}
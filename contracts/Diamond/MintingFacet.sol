@@ -2,6 +2,9 @@
 pragma solidity ^0.8.28;
 
 import './Librarys/LibSecurityToken.sol';
+import {LibCompliance} from './Librarys/LibCompliance.sol';
+import {LibMinting} from './Librarys/LibMinting.sol';
+import {LibEIP712} from './Librarys/LibEIP712.sol';
 
 /**
  * @title MintingFacet
@@ -18,7 +21,11 @@ contract MintingFacet {
     //////////////////////////////////////////////////////////////*/
 
     /// @dev Version of the MintingFacet contract
-    string private constant VERSION = "1.0.0";
+    string private constant VERSION = "1.1.0";
+
+    /// @dev EIP-712 type hash of a signed mint
+    bytes32 private constant MINT_TYPEHASH =
+        keccak256("Mint(address to,uint256 amount,uint256 nonce,uint256 deadline)");
 
     /*//////////////////////////////////////////////////////////////
                                  EVENTS
@@ -32,6 +39,14 @@ contract MintingFacet {
      */
     event Transfer(address indexed from, address indexed to, uint256 value);
 
+    /**
+     * @notice Emitted when minted tokens are locked up until a release time
+     * @param account The address holding the locked tokens
+     * @param amount The amount of tokens locked
+     * @param releaseTime The timestamp from which the tokens become transferable
+     */
+    event TokensLocked(address indexed account, uint256 amount, uint256 releaseTime);
+
     /*//////////////////////////////////////////////////////////////
                                  ERRORS
     //////////////////////////////////////////////////////////////*/
@@ -39,17 +54,11 @@ contract MintingFacet {
     /// @notice Thrown when caller doesn't have the required role
     error UnauthorizedRole(address caller, bytes32 requiredRole);
     
-    /// @notice Thrown when attempting to mint to zero address
-    error MintToZeroAddress();
-    
-    /// @notice Thrown when minting would exceed the token cap
-    error CapExceeded(uint256 totalSupply, uint256 amount, uint256 cap);
-    
-    /// @notice Thrown when attempting to burn from zero address
-    error BurnFromZeroAddress();
+    /// @notice Thrown when the lock-up release time is not in the future
+    error InvalidReleaseTime(uint256 releaseTime);
     
-    /// @notice Thrown when burn amount exceeds account balance
-    error BurnAmountExceedsBalance(address account, uint256 amount, uint256 balance);
+    // Mint and burn validation errors are declared in LibMinting
+    // Signature errors are declared in LibEIP712
     
     /// @notice Thrown when burn amount exceeds allowance
     error InsufficientAllowance(address owner, address spender, uint256 amount, uint256 allowance);
@@ -80,31 +89,66 @@ contract MintingFacet {
      * @param amount The amount of tokens to mint
      */
     function mint(address to, uint256 amount) external onlyRole(LibSecurityToken.securityTokenStorage().minterRole) {
-        if (to == address(0)) {
-            revert MintToZeroAddress();
+        _mint(to, amount);
+    }
+
+    /**
+     * @notice Mints new tokens with a signature of a minter (EIP-712)
+     * @dev Lets a relayer submit the mint for a key held in cold storage. The signer must
+     *      have MINTER_ROLE; the signature is bound to the signer's current nonce.
+     * @param to The address to mint tokens to
+     * @param amount The amount of tokens to mint
+     * @param signer The address with MINTER_ROLE that signed the mint
+     * @param deadline The timestamp after which the signature is no longer valid
+     * @param v The recovery id of the signature
+     * @param r The r value of the signature
+     * @param s The s value of the signature
+     */
+    function mintBySig(
+        address to,
+        uint256 amount,
+        address signer,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external {
+        bytes32 minterRole = LibSecurityToken.securityTokenStorage().minterRole;
+        if (!LibSecurityToken.securityTokenStorage().roles[minterRole][signer]) {
+            revert UnauthorizedRole(signer, minterRole);
         }
-        
-        LibSecurityToken.SecurityTokenStorage storage sts = LibSecurityToken.securityTokenStorage();
-        
-        // Check cap
-        if (sts.totalSupply + amount > sts.cap) {
-            revert CapExceeded(sts.totalSupply, amount, sts.cap);
+
+        bytes32 structHash = keccak256(
+            abi.encode(MINT_TYPEHASH, to, amount, LibEIP712.useNonce(signer), deadline)
+        );
+        LibEIP712.verify(signer, structHash, deadline, v, r, s);
+
+        _mint(to, amount);
+    }
+
+    /**
+     * @notice Mints new tokens that stay locked up until a release time
+     * @dev Only callable by addresses with MINTER_ROLE. Each call adds a new tranche to the
+     *      lock-up schedule of the recipient (e.g. founders' 12 months, Reg S 40 days).
+     * @param to The address to mint tokens to
+     * @param amount The amount of tokens to mint and lock
+     * @param releaseTime The timestamp from which the tokens become transferable
+     */
+    function mintLocked(address to, uint256 amount, uint256 releaseTime) 
+        external 
+        onlyRole(LibSecurityToken.securityTokenStorage().minterRole) 
+    {
+        if (releaseTime <= block.timestamp) {
+            revert InvalidReleaseTime(releaseTime);
         }
         
-        sts.totalSupply += amount;
-        sts.balances[to] += amount;
+        _mint(to, amount);
         
-        // Record transaction
-        sts.transactionCount += 1;
-        sts.transactionRecords[sts.transactionCount] = LibSecurityToken.TransactionRecord({
-            id: sts.transactionCount,
-            from: address(0),
-            to: to,
-            amount: amount,
-            timestamp: block.timestamp
-        });
+        LibSecurityToken.securityTokenStorage().lockUps[to].push(
+            LibSecurityToken.LockUp({amount: amount, releaseTime: releaseTime})
+        );
         
-        emit Transfer(address(0), to, amount);
+        emit TokensLocked(to, amount, releaseTime);
     }
 
     /**
@@ -130,7 +174,7 @@ contract MintingFacet {
         }
         
         if (sts.totalSupply + totalAmount > sts.cap) {
-            revert CapExceeded(sts.totalSupply, totalAmount, sts.cap);
+            revert LibMinting.CapExceeded(sts.totalSupply, totalAmount, sts.cap);
         }
         
         // Execute mints
@@ -139,10 +183,16 @@ contract MintingFacet {
             uint256 amount = amounts[i];
             
             if (to == address(0)) {
-                revert MintToZeroAddress();
+                revert LibMinting.MintToZeroAddress();
             }
             
+            LibCompliance.checkMint(to, amount);
+            
+            sts.updateSnapshots(address(0), to);
             sts.balances[to] += amount;
+            if (sts.updateHolderCount(address(0), to, amount)) {
+                sts.enforceMaxHolders();
+            }
             
             // Record transaction
             sts.transactionCount += 1;
@@ -151,14 +201,29 @@ contract MintingFacet {
                 from: address(0),
                 to: to,
                 amount: amount,
-                timestamp: block.timestamp
+                timestamp: block.timestamp,
+                forced: false
             });
             
+            LibCompliance.created(to, amount);
+            
             emit Transfer(address(0), to, amount);
         }
         
         sts.totalSupply += totalAmount;
     }
+
+    /**
+     * @notice Internal function to mint tokens to an account
+     * @dev Cap enforcement, accounting and transaction recording live in LibMinting
+     * @param to The address to mint tokens to
+     * @param amount The amount of tokens to mint
+     */
+    function _mint(address to, uint256 amount) internal {
+        LibMinting.mint(to, amount);
+        
+        emit Transfer(address(0), to, amount);
+    }
       /*//////////////////////////////////////////////////////////////
                               BURNING FUNCTIONS
     //////////////////////////////////////////////////////////////*/
@@ -192,34 +257,18 @@ contract MintingFacet {
 
     /**
      * @notice Internal function to burn tokens from an account
-     * @dev Handles the core burning logic with proper validation and transaction recording
+     * @dev Validation, accounting and transaction recording live in LibMinting.
+     *      Plain burns only spend the unpartitioned balance that is neither frozen nor locked up.
      * @param from The address to burn tokens from
      * @param amount The amount of tokens to burn
      */
     function _burn(address from, uint256 amount) internal {
-        if (from == address(0)) {
-            revert BurnFromZeroAddress();
-        }
-        
         LibSecurityToken.SecurityTokenStorage storage sts = LibSecurityToken.securityTokenStorage();
-        
-        uint256 accountBalance = sts.balances[from];
-        if (accountBalance < amount) {
-            revert BurnAmountExceedsBalance(from, amount, accountBalance);
+        if (amount <= sts.balances[from]) {
+            sts.enforceUnpartitioned(from, amount);
         }
         
-        sts.balances[from] = accountBalance - amount;
-        sts.totalSupply -= amount;
-        
-        // Record transaction
-        sts.transactionCount += 1;
-        sts.transactionRecords[sts.transactionCount] = LibSecurityToken.TransactionRecord({
-            id: sts.transactionCount,
-            from: from,
-            to: address(0),
-            amount: amount,
-            timestamp: block.timestamp
-        });
+        LibMinting.burn(from, amount, false);
         
         emit Transfer(from, address(0), amount);
     }
@@ -0,0 +1,100 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
+import {IComplianceModule} from '../Interfaces/IComplianceModule.sol';
+
+/**
+ * @title DailyTransferLimitModule
+ * @author ISBE Security Tokens Team
+ * @notice Compliance module limiting the amount of tokens a holder can send per day
+ * @dev One module instance can serve several tokens: limits and counters are keyed by
+ *      the token address, which is msg.sender when the diamond calls the module.
+ *      Minting and burning are not limited.
+ */
+contract DailyTransferLimitModule is IComplianceModule, Ownable {
+    /*//////////////////////////////////////////////////////////////
+                                 STORAGE
+    //////////////////////////////////////////////////////////////*/
+
+    /// @notice Daily transfer limit per token (0 means no limit)
+    mapping(address => uint256) public dailyLimit;
+
+    /// @notice Amount sent per token, holder and day number
+    mapping(address => mapping(address => mapping(uint256 => uint256))) public dailyVolume;
+
+    /*//////////////////////////////////////////////////////////////
+                                 EVENTS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @notice Emitted when the daily limit of a token is updated
+     * @param token The address of the token
+     * @param limit The new daily limit
+     */
+    event DailyLimitSet(address indexed token, uint256 limit);
+
+    /*//////////////////////////////////////////////////////////////
+                               CONSTRUCTOR
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @notice Constructs the module and sets the deployer as owner
+     */
+    constructor() Ownable(msg.sender) {}
+
+    /*//////////////////////////////////////////////////////////////
+                              ADMIN FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @notice Sets the daily transfer limit of a token
+     * @dev Only the module owner can call this function
+     * @param token The address of the token
+     * @param limit The maximum amount a holder can send per day (0 disables the limit)
+     */
+    function setDailyLimit(address token, uint256 limit) external onlyOwner {
+        dailyLimit[token] = limit;
+        emit DailyLimitSet(token, limit);
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                            COMPLIANCE FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /// @inheritdoc IComplianceModule
+    function canTransfer(address from, address, uint256 amount) external view override returns (bool) {
+        uint256 limit = dailyLimit[msg.sender];
+        if (limit == 0 || from == address(0)) {
+            return true;
+        }
+        return dailyVolume[msg.sender][from][_today()] + amount <= limit;
+    }
+
+    /// @inheritdoc IComplianceModule
+    function transferred(address from, address, uint256 amount) external override {
+        dailyVolume[msg.sender][from][_today()] += amount;
+    }
+
+    /// @inheritdoc IComplianceModule
+    function created(address, uint256) external override {}
+
+    /// @inheritdoc IComplianceModule
+    function destroyed(address, uint256) external override {}
+
+    /// @inheritdoc IComplianceModule
+    function moduleName() external pure override returns (string memory) {
+        return "DailyTransferLimitModule";
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                           INTERNAL FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @dev Returns the current day number since the Unix epoch
+     */
+    function _today() internal view returns (uint256) {
+        return block.timestamp / 1 days;
+    }
+}
@@ -0,0 +1,230 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import './Librarys/LibSecurityToken.sol';
+import {LibMinting} from './Librarys/LibMinting.sol';
+import {LibTransfer} from './Librarys/LibTransfer.sol';
+
+/**
+ * @title PartitionFacet
+ * @author ISBE Security Tokens Team
+ * @notice Facet contract for partitioned balances of security tokens (ERC-1410)
+ * @dev Splits one security into partitions such as share classes or series. Partition
+ *      balances are a subset of the ERC-20 balance, so balanceOf keeps reporting the total
+ *      across partitions; the rest of the balance is unpartitioned and is the only part
+ *      plain ERC-20 transfers and burns can spend. Part of the Diamond pattern.
+ */
+contract PartitionFacet {
+    using LibSecurityToken for LibSecurityToken.SecurityTokenStorage;
+
+    /*//////////////////////////////////////////////////////////////
+                                 CONSTANTS
+    //////////////////////////////////////////////////////////////*/
+
+    /// @dev Version of the PartitionFacet contract
+    string private constant VERSION = "1.0.0";
+
+    /*//////////////////////////////////////////////////////////////
+                                 EVENTS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @notice Emitted when tokens are transferred, including issuance
+     * @param from The address tokens are transferred from (address(0) for issuance)
+     * @param to The address tokens are transferred to
+     * @param value The amount of tokens transferred
+     */
+    event Transfer(address indexed from, address indexed to, uint256 value);
+
+    /**
+     * @notice Emitted when tokens are transferred within a partition
+     * @param fromPartition The partition the tokens are transferred from and to
+     * @param operator The address that executed the transfer
+     * @param from The address tokens are transferred from
+     * @param to The address tokens are transferred to
+     * @param value The amount of tokens transferred
+     * @param data Additional data attached to the transfer
+     * @param operatorData Additional data attached by the operator
+     */
+    event TransferByPartition(
+        bytes32 indexed fromPartition,
+        address operator,
+        address indexed from,
+        address indexed to,
+        uint256 value,
+        bytes data,
+        bytes operatorData
+    );
+
+    /**
+     * @notice Emitted when tokens are issued into a partition
+     * @param partition The partition the tokens are issued into
+     * @param operator The address that issued the tokens
+     * @param to The address receiving the tokens
+     * @param value The amount of tokens issued
+     * @param data Additional data attached to the issuance
+     * @param operatorData Additional data attached by the operator
+     */
+    event IssuedByPartition(
+        bytes32 indexed partition,
+        address indexed operator,
+        address indexed to,
+        uint256 value,
+        bytes data,
+        bytes operatorData
+    );
+
+    /*//////////////////////////////////////////////////////////////
+                                 ERRORS
+    //////////////////////////////////////////////////////////////*/
+
+    /// @notice Thrown when caller doesn't have the required role
+    error UnauthorizedRole(address caller, bytes32 requiredRole);
+
+    /// @notice Thrown when the zero partition is used
+    error InvalidPartition(bytes32 partition);
+
+    /// @notice Thrown when a transfer exceeds the balance of the holder in a partition
+    error InsufficientPartitionBalance(address holder, bytes32 partition, uint256 balance, uint256 needed);
+
+    // Transfer and mint validation errors are declared in LibTransfer and LibMinting
+
+    /*//////////////////////////////////////////////////////////////
+                                MODIFIERS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @notice Restricts function access to accounts with specific role
+     * @param role The required role for function access
+     */
+    modifier onlyRole(bytes32 role) {
+        LibSecurityToken.SecurityTokenStorage storage sts = LibSecurityToken.securityTokenStorage();
+        if (!sts.roles[role][msg.sender]) {
+            revert UnauthorizedRole(msg.sender, role);
+        }
+        _;
+    }
+
+    /**
+     * @notice Rejects the zero partition, which stands for the unpartitioned balance
+     * @param partition The partition to check
+     */
+    modifier validPartition(bytes32 partition) {
+        if (partition == bytes32(0)) {
+            revert InvalidPartition(partition);
+        }
+        _;
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                           PARTITION FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @notice Transfers tokens of the caller within a partition
+     * @dev Runs the same compliance, freeze and lock-up checks as a plain ERC-20 transfer.
+     *      The recipient receives the tokens in the same partition.
+     * @param partition The partition to transfer from
+     * @param to The address to transfer tokens to
+     * @param value The amount of tokens to transfer
+     * @param data Additional data attached to the transfer
+     * @return The partition the recipient received the tokens in
+     */
+    function transferByPartition(bytes32 partition, address to, uint256 value, bytes calldata data)
+        external
+        validPartition(partition)
+        returns (bytes32)
+    {
+        LibSecurityToken.SecurityTokenStorage storage sts = LibSecurityToken.securityTokenStorage();
+
+        uint256 partitionBalance = sts.partitionBalances[msg.sender][partition];
+        if (partitionBalance < value) {
+            revert InsufficientPartitionBalance(msg.sender, partition, partitionBalance, value);
+        }
+
+        LibTransfer.transfer(msg.sender, to, value, true);
+        sts.debitPartition(msg.sender, partition, value);
+        sts.creditPartition(to, partition, value);
+
+        emit Transfer(msg.sender, to, value);
+        emit TransferByPartition(partition, msg.sender, msg.sender, to, value, data, "");
+        return partition;
+    }
+
+    /**
+     * @notice Issues new tokens into a partition
+     * @dev Only callable by minter role. Enforces the supply cap and compliance rules like mint.
+     * @param partition The partition to issue into
+     * @param to The address to issue tokens to
+     * @param value The amount of tokens to issue
+     * @param data Additional data attached to the issuance
+     */
+    function issueByPartition(bytes32 partition, address to, uint256 value, bytes calldata data)
+        external
+        onlyRole(LibSecurityToken.securityTokenStorage().minterRole)
+        validPartition(partition)
+    {
+        LibMinting.mint(to, value);
+        LibSecurityToken.securityTokenStorage().creditPartition(to, partition, value);
+
+        emit Transfer(address(0), to, value);
+        emit IssuedByPartition(partition, msg.sender, to, value, data, "");
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                             VIEW FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @notice Returns the balance of a holder in a partition
+     * @param partition The partition
+     * @param holder The address to check
+     * @return The amount of tokens the holder has in the partition
+     */
+    function balanceOfByPartition(bytes32 partition, address holder) external view returns (uint256) {
+        return LibSecurityToken.securityTokenStorage().partitionBalances[holder][partition];
+    }
+
+    /**
+     * @notice Returns the partitions a holder has tokens in
+     * @param holder The address to check
+     * @return The partitions with a non-zero balance of the holder
+     */
+    function partitionsOf(address holder) external view returns (bytes32[] memory) {
+        return LibSecurityToken.securityTokenStorage().holderPartitions[holder];
+    }
+
+    /**
+     * @notice Returns the part of the balance of a holder that is not held in any partition
+     * @param holder The address to check
+     * @return The balance plain ERC-20 transfers and burns can spend
+     */
+    function unpartitionedBalanceOf(address holder) external view returns (uint256) {
+        return LibSecurityToken.securityTokenStorage().unpartitionedBalanceOf(holder);
+    }
+
+    /**
+     * @notice Returns the total amount of tokens in a partition
+     * @param partition The partition
+     * @return The sum of the balances of every holder in the partition
+     */
+    function totalSupplyByPartition(bytes32 partition) external view returns (uint256) {
+        return LibSecurityToken.securityTokenStorage().partitionSupply[partition];
+    }
+
+    /**
+     * @notice Returns every partition tokens have been issued in
+     * @return The list of partitions
+     */
+    function totalPartitions() external view returns (bytes32[] memory) {
+        return LibSecurityToken.securityTokenStorage().partitions;
+    }
+
+    /**
+     * @notice Returns the version of this facet contract
+     * @return The version string
+     */
+    function partitionFacetVersion() external pure returns (string memory) {
+        return VERSION;
+    }
+}
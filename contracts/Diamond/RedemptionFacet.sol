@@ -0,0 +1,291 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import './Librarys/LibSecurityToken.sol';
+import {LibCompliance} from './Librarys/LibCompliance.sol';
+import {LibMinting} from './Librarys/LibMinting.sol';
+
+/**
+ * @title RedemptionFacet
+ * @author ISBE Security Tokens Team
+ * @notice Facet contract for the redemption of bond tokens at maturity
+ * @dev Stores the maturity date and nominal value of the bond. After maturity transfers
+ *      and mints are blocked (LibCompliance.checkMaturity) and tokens are burned through
+ *      LibMinting in exchange for their nominal value in the payment token funded by the
+ *      issuer. Holders redeem themselves or the issuer force-redeems them in batches.
+ *      Part of the Diamond pattern.
+ */
+contract RedemptionFacet {
+    using SafeERC20 for IERC20;
+
+    /*//////////////////////////////////////////////////////////////
+                                 CONSTANTS
+    //////////////////////////////////////////////////////////////*/
+
+    /// @dev Version of the RedemptionFacet contract
+    string private constant VERSION = "1.0.0";
+
+    /*//////////////////////////////////////////////////////////////
+                                 EVENTS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @notice Emitted when tokens are burned on redemption
+     * @param from The address tokens are burned from
+     * @param to Always address(0)
+     * @param value The amount of tokens burned
+     */
+    event Transfer(address indexed from, address indexed to, uint256 value);
+
+    /**
+     * @notice Emitted when the bond terms are set
+     * @param maturityDate The maturity timestamp of the bond
+     * @param nominalValue The payment token amount paid per whole token
+     * @param admin The address that set the terms
+     */
+    event BondTermsSet(uint256 maturityDate, uint256 nominalValue, address indexed admin);
+
+    /**
+     * @notice Emitted when the issuer funds the redemption
+     * @param paymentToken The ERC20 token the principal is paid in
+     * @param funder The address that provided the funds
+     * @param amount The amount funded
+     */
+    event RedemptionFunded(address indexed paymentToken, address indexed funder, uint256 amount);
+
+    /**
+     * @notice Emitted when a holder's tokens are redeemed
+     * @param holder The address of the holder
+     * @param amount The amount of tokens burned
+     * @param payout The amount of payment token paid to the holder
+     * @param forced Whether the redemption was executed by the issuer
+     */
+    event Redeemed(address indexed holder, uint256 amount, uint256 payout, bool forced);
+
+    /*//////////////////////////////////////////////////////////////
+                                 ERRORS
+    //////////////////////////////////////////////////////////////*/
+
+    /// @notice Thrown when caller doesn't have the required role
+    error UnauthorizedRole(address caller, bytes32 requiredRole);
+
+    /// @notice Thrown when the maturity date is not in the future
+    error InvalidMaturityDate(uint256 maturityDate);
+
+    /// @notice Thrown when the nominal value is zero
+    error InvalidNominalValue();
+
+    /// @notice Thrown when changing the terms of a bond that has already matured
+    error BondTermsLocked(uint256 maturityDate);
+
+    /// @notice Thrown when redeeming before the maturity date
+    error BondNotMatured(uint256 maturityDate);
+
+    /// @notice Thrown when the payment token is the zero address or has no code
+    error InvalidPaymentToken(address paymentToken);
+
+    /// @notice Thrown when funding with a different token than the one already funded
+    error RedemptionTokenMismatch(address expected, address provided);
+
+    /// @notice Thrown when the redemption amount is zero
+    error InvalidRedemptionAmount();
+
+    /// @notice Thrown when the funded amount does not cover the payout
+    error InsufficientRedemptionFunds(uint256 needed, uint256 available);
+
+    /*//////////////////////////////////////////////////////////////
+                                MODIFIERS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @notice Restricts function access to accounts with specific role
+     * @param role The required role for function access
+     */
+    modifier onlyRole(bytes32 role) {
+        LibSecurityToken.SecurityTokenStorage storage sts = LibSecurityToken.securityTokenStorage();
+        if (!sts.roles[role][msg.sender]) {
+            revert UnauthorizedRole(msg.sender, role);
+        }
+        _;
+    }
+
+    /// @notice Ensures the bond has reached its maturity date
+    modifier whenMatured() {
+        if (!LibCompliance.isMatured()) {
+            revert BondNotMatured(LibSecurityToken.securityTokenStorage().maturityDate);
+        }
+        _;
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                               BOND TERMS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @notice Sets the maturity date and nominal value of the bond
+     * @dev Only callable by admin role, and only until the bond matures
+     * @param maturityDate The maturity timestamp of the bond
+     * @param nominalValue The payment token amount paid per whole token at redemption
+     */
+    function setBondTerms(uint256 maturityDate, uint256 nominalValue) 
+        external 
+        onlyRole(LibSecurityToken.securityTokenStorage().adminRole) 
+    {
+        LibSecurityToken.SecurityTokenStorage storage sts = LibSecurityToken.securityTokenStorage();
+        if (LibCompliance.isMatured()) revert BondTermsLocked(sts.maturityDate);
+        if (maturityDate <= block.timestamp) revert InvalidMaturityDate(maturityDate);
+        if (nominalValue == 0) revert InvalidNominalValue();
+
+        sts.maturityDate = maturityDate;
+        sts.nominalValue = nominalValue;
+
+        emit BondTermsSet(maturityDate, nominalValue, msg.sender);
+    }
+
+    /**
+     * @notice Deposits payment tokens used to pay the principal at redemption
+     * @dev Only callable by admin role. The caller must have approved the diamond to spend
+     *      `amount`. The first funding fixes the payment token.
+     * @param paymentToken The ERC20 token the principal is paid in
+     * @param amount The amount to deposit
+     */
+    function fundRedemption(address paymentToken, uint256 amount) 
+        external 
+        onlyRole(LibSecurityToken.securityTokenStorage().adminRole) 
+    {
+        if (paymentToken == address(0) || paymentToken.code.length == 0) revert InvalidPaymentToken(paymentToken);
+        if (amount == 0) revert InvalidRedemptionAmount();
+
+        LibSecurityToken.SecurityTokenStorage storage sts = LibSecurityToken.securityTokenStorage();
+        if (sts.redemptionToken == address(0)) {
+            sts.redemptionToken = paymentToken;
+        } else if (sts.redemptionToken != paymentToken) {
+            revert RedemptionTokenMismatch(sts.redemptionToken, paymentToken);
+        }
+
+        sts.redemptionFunds += amount;
+        IERC20(paymentToken).safeTransferFrom(msg.sender, address(this), amount);
+
+        emit RedemptionFunded(paymentToken, msg.sender, amount);
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                               REDEMPTION
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @notice Redeems tokens of the caller for their nominal value
+     * @dev Only after maturity. Tokens are burned through the regular burn path, so
+     *      frozen tokens cannot be redeemed by the holder.
+     * @param amount The amount of tokens to redeem
+     */
+    function redeem(uint256 amount) external whenMatured {
+        if (amount == 0) revert InvalidRedemptionAmount();
+        _redeem(msg.sender, amount, false);
+    }
+
+    /**
+     * @notice Redeems the whole balance of up to `batchSize` holders
+     * @dev Only callable by admin role, after maturity. Holders are taken from the end of
+     *      the holder list, which shrinks as balances reach zero; call repeatedly until
+     *      it returns 0. Freezes do not prevent forced redemption.
+     * @param batchSize The maximum number of holders to redeem in this call
+     * @return remaining The number of holders left to redeem
+     */
+    function forceRedeem(uint256 batchSize) 
+        external 
+        onlyRole(LibSecurityToken.securityTokenStorage().adminRole) 
+        whenMatured 
+        returns (uint256 remaining) 
+    {
+        LibSecurityToken.SecurityTokenStorage storage sts = LibSecurityToken.securityTokenStorage();
+        for (uint256 i = 0; i < batchSize && sts.holders.length > 0; i++) {
+            address holder = sts.holders[sts.holders.length - 1];
+            _redeem(holder, sts.balances[holder], true);
+        }
+        return sts.holders.length;
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                             VIEW FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @notice Returns the bond terms and redemption state
+     * @return maturityDate The maturity timestamp (0 if not set)
+     * @return nominalValue The payment token amount paid per whole token
+     * @return redemptionToken The payment token (zero until funded)
+     * @return redemptionFunds The funded amount not paid out yet
+     */
+    function getRedemptionInfo() 
+        external 
+        view 
+        returns (
+            uint256 maturityDate,
+            uint256 nominalValue,
+            address redemptionToken,
+            uint256 redemptionFunds
+        ) 
+    {
+        LibSecurityToken.SecurityTokenStorage storage sts = LibSecurityToken.securityTokenStorage();
+        return (sts.maturityDate, sts.nominalValue, sts.redemptionToken, sts.redemptionFunds);
+    }
+
+    /**
+     * @notice Returns whether the bond has reached its maturity date
+     * @return True if a maturity date is set and has been reached
+     */
+    function isMatured() external view returns (bool) {
+        return LibCompliance.isMatured();
+    }
+
+    /**
+     * @notice Returns the payment token amount paid for redeeming an amount of tokens
+     * @param amount The amount of tokens
+     * @return The payout at nominal value
+     */
+    function redemptionAmount(uint256 amount) external view returns (uint256) {
+        return _payout(LibSecurityToken.securityTokenStorage(), amount);
+    }
+
+    /**
+     * @notice Returns the version of this facet contract
+     * @return The version string
+     */
+    function redemptionFacetVersion() external pure returns (string memory) {
+        return VERSION;
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                           INTERNAL FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @dev Burns `amount` tokens of `holder` and pays their nominal value
+     */
+    function _redeem(address holder, uint256 amount, bool forced) internal {
+        LibSecurityToken.SecurityTokenStorage storage sts = LibSecurityToken.securityTokenStorage();
+
+        uint256 payout = _payout(sts, amount);
+        if (payout > sts.redemptionFunds) revert InsufficientRedemptionFunds(payout, sts.redemptionFunds);
+
+        LibMinting.burn(holder, amount, forced);
+        sts.redemptionFunds -= payout;
+
+        if (payout > 0) {
+            IERC20(sts.redemptionToken).safeTransfer(holder, payout);
+        }
+
+        emit Transfer(holder, address(0), amount);
+        emit Redeemed(holder, amount, payout, forced);
+    }
+
+    /**
+     * @dev Nominal value of an amount of tokens, rounded down
+     */
+    function _payout(LibSecurityToken.SecurityTokenStorage storage sts, uint256 amount) internal view returns (uint256) {
+        return amount * sts.nominalValue / (10 ** sts.decimals);
+    }
+}
@@ -0,0 +1,123 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import './Librarys/LibSecurityToken.sol';
+
+/**
+ * @title SnapshotFacet
+ * @author ISBE Security Tokens Team
+ * @notice Facet contract for balance snapshots of security tokens
+ * @dev ERC20Snapshot-style checkpoints used to read balances as of a record date for
+ *      corporate actions. Checkpoints are written lazily by the facets that move balances
+ *      (LibSecurityToken.updateSnapshots), so taking a snapshot costs constant gas.
+ *      Part of the Diamond pattern.
+ */
+contract SnapshotFacet {
+    using LibSecurityToken for LibSecurityToken.SecurityTokenStorage;
+
+    /*//////////////////////////////////////////////////////////////
+                                 CONSTANTS
+    //////////////////////////////////////////////////////////////*/
+
+    /// @dev Version of the SnapshotFacet contract
+    string private constant VERSION = "1.0.0";
+
+    /*//////////////////////////////////////////////////////////////
+                                 EVENTS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @notice Emitted when a snapshot is taken
+     * @param id The id of the snapshot
+     */
+    event Snapshot(uint256 id);
+
+    /*//////////////////////////////////////////////////////////////
+                                 ERRORS
+    //////////////////////////////////////////////////////////////*/
+
+    /// @notice Thrown when caller doesn't have the required role
+    error UnauthorizedRole(address caller, bytes32 requiredRole);
+
+    /*//////////////////////////////////////////////////////////////
+                                MODIFIERS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @notice Restricts function access to accounts with specific role
+     * @param role The required role for function access
+     */
+    modifier onlyRole(bytes32 role) {
+        LibSecurityToken.SecurityTokenStorage storage sts = LibSecurityToken.securityTokenStorage();
+        if (!sts.roles[role][msg.sender]) {
+            revert UnauthorizedRole(msg.sender, role);
+        }
+        _;
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                            SNAPSHOT FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @notice Takes a snapshot of all balances and the total supply
+     * @dev Only callable by admin role
+     * @return The id of the new snapshot
+     */
+    function snapshot() external onlyRole(LibSecurityToken.securityTokenStorage().adminRole) returns (uint256) {
+        LibSecurityToken.SecurityTokenStorage storage sts = LibSecurityToken.securityTokenStorage();
+        sts.currentSnapshotId += 1;
+        sts.snapshotTimestamps[sts.currentSnapshotId] = block.timestamp;
+
+        emit Snapshot(sts.currentSnapshotId);
+        return sts.currentSnapshotId;
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                             VIEW FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @notice Returns the balance of an account at a snapshot
+     * @param account The address to check
+     * @param snapshotId The snapshot id
+     * @return The balance of the account when the snapshot was taken
+     */
+    function balanceOfAt(address account, uint256 snapshotId) external view returns (uint256) {
+        return LibSecurityToken.securityTokenStorage().balanceOfAt(account, snapshotId);
+    }
+
+    /**
+     * @notice Returns the total supply at a snapshot
+     * @param snapshotId The snapshot id
+     * @return The total supply when the snapshot was taken
+     */
+    function totalSupplyAt(uint256 snapshotId) external view returns (uint256) {
+        return LibSecurityToken.securityTokenStorage().totalSupplyAt(snapshotId);
+    }
+
+    /**
+     * @notice Returns the id of the latest snapshot
+     * @return The current snapshot id (0 if no snapshot has been taken)
+     */
+    function getCurrentSnapshotId() external view returns (uint256) {
+        return LibSecurityToken.securityTokenStorage().currentSnapshotId;
+    }
+
+    /**
+     * @notice Returns the timestamp a snapshot was taken at
+     * @param snapshotId The snapshot id
+     * @return The block timestamp of the snapshot (0 if it does not exist)
+     */
+    function snapshotTimestamp(uint256 snapshotId) external view returns (uint256) {
+        return LibSecurityToken.securityTokenStorage().snapshotTimestamps[snapshotId];
+    }
+
+    /**
+     * @notice Returns the version of this facet contract
+     * @return The version string
+     */
+    function snapshotFacetVersion() external pure returns (string memory) {
+        return VERSION;
+    }
+}
@@ -5,8 +5,13 @@ import "@openzeppelin/contracts-upgradeable/token/ERC20/ERC20Upgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/token/ERC20/extensions/ERC20BurnableUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/token/ERC20/extensions/ERC20PausableUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/token/ERC20/extensions/ERC20CappedUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/token/ERC20/extensions/ERC20PermitUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/access/AccessControlUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/proxy/ERC1967/ERC1967Utils.sol";
+import {SecurityTokenFactory} from "./Beacon/SecurityTokenFactory.sol";
+import {LibISIN} from "./Diamond/Librarys/LibISIN.sol";
 
 /**
  * @title SecurityToken
@@ -14,10 +19,15 @@ import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
  * @notice This contract implements a security token with:
  *         - Role-based access control
  *         - Whitelist/blacklist functionality
+ *         - Account and partial token freezing
  *         - Transaction recording for compliance
+ *         - Controller (forced) transfers
+ *         - Pre-transfer checks with EIP-1066 status codes
+ *         - On-chain document registry (ERC-1643)
+ *         - Gasless approvals (EIP-2612) and EIP-712 signed admin actions
  *         - Pausable transfers
  *         - Supply cap enforcement
- *         - Upgradeable architecture
+ *         - Upgradeable architecture, with opt-out of shared upgrades by pinning
  * @author ISBE Tokens Team
  */
 contract SecurityToken is 
@@ -26,6 +36,7 @@ contract SecurityToken is
     ERC20BurnableUpgradeable,
     ERC20PausableUpgradeable,
     ERC20CappedUpgradeable,
+    ERC20PermitUpgradeable,
     AccessControlUpgradeable
 {
     // =============================================================
@@ -37,6 +48,14 @@ contract SecurityToken is
     bytes32 public constant ADMIN_ROLE = keccak256("ADMIN_ROLE");
     bytes32 public constant MINTER_ROLE = keccak256("MINTER_ROLE");
     bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
+    bytes32 public constant CONTROLLER_ROLE = keccak256("CONTROLLER_ROLE");
+
+    /// @dev EIP-712 type hashes of the signed admin actions
+    bytes32 private constant PAUSE_TYPEHASH = keccak256("Pause(uint256 nonce,uint256 deadline)");
+    bytes32 private constant ADD_TO_WHITELIST_TYPEHASH =
+        keccak256("AddToWhitelist(address account,uint256 nonce,uint256 deadline)");
+    bytes32 private constant MINT_TYPEHASH =
+        keccak256("Mint(address to,uint256 amount,uint256 nonce,uint256 deadline)");
 
     // =============================================================
     //                           STORAGE
@@ -64,6 +83,7 @@ contract SecurityToken is
         address to;          // Recipient address
         uint256 amount;      // Amount transferred
         uint256 timestamp;   // Block timestamp of the transaction
+        bool forced;         // Whether it was a controller (forced) transfer
     }
 
     /// @notice Mapping from transaction ID to transaction record
@@ -72,6 +92,31 @@ contract SecurityToken is
     /// @notice Total number of recorded transactions
     uint256 public transactionCount;
 
+    /// @notice Mapping of frozen accounts (cannot send or receive tokens)
+    mapping(address => bool) private _frozenAccounts;
+
+    /// @notice Mapping of partially frozen token amounts per account
+    mapping(address => uint256) private _frozenTokens;
+
+    /// @notice Legal document attached to the token (ERC-1643)
+    struct Document {
+        string uri;            // Location of the document
+        bytes32 documentHash;  // Hash of the document contents
+        uint256 lastModified;  // Timestamp of the last update
+    }
+
+    /// @notice Mapping from document name to document
+    mapping(bytes32 => Document) private _documents;
+
+    /// @notice List of document names
+    bytes32[] private _documentNames;
+
+    /// @notice Mapping from document name to its position in _documentNames plus one
+    mapping(bytes32 => uint256) private _documentIndex;
+
+    /// @notice SecurityTokenFactory that created the token, the only one it pins itself with
+    address public factory;
+
     // =============================================================
     //                           EVENTS
     // =============================================================
@@ -88,9 +133,37 @@ contract SecurityToken is
     /// @notice Emitted when an address is removed from the blacklist
     event BlacklistRemoved(address indexed account, address indexed admin);
     
+    /// @notice Emitted when an account is frozen
+    event AccountFrozen(address indexed account, address indexed admin);
+
+    /// @notice Emitted when an account is unfrozen
+    event AccountUnfrozen(address indexed account, address indexed admin);
+
+    /// @notice Emitted when part of the tokens of an account are frozen
+    event TokensFrozen(address indexed account, uint256 amount);
+
+    /// @notice Emitted when part of the tokens of an account are unfrozen
+    event TokensUnfrozen(address indexed account, uint256 amount);
+    
     /// @notice Emitted when a transaction is reverted by an admin
     event TransactionReverted(uint256 indexed transactionId, address indexed admin);
 
+    /// @notice Emitted when a document is added or updated (ERC-1643)
+    event DocumentUpdated(bytes32 indexed name, string uri, bytes32 documentHash);
+
+    /// @notice Emitted when a document is removed (ERC-1643)
+    event DocumentRemoved(bytes32 indexed name, string uri, bytes32 documentHash);
+
+    /// @notice Emitted when a controller forces a transfer between two holders (ERC-1644)
+    event ControllerTransfer(
+        address controller,
+        address indexed from,
+        address indexed to,
+        uint256 value,
+        bytes32 indexed reasonCode,
+        bytes data
+    );
+
     // =============================================================
     //                           ERRORS
     // =============================================================
@@ -110,9 +183,45 @@ contract SecurityToken is
     /// @notice Thrown when recipient is blacklisted
     error RecipientBlacklisted(address recipient);
     
+    /// @notice Thrown when sender account is frozen
+    error SenderFrozen(address sender);
+
+    /// @notice Thrown when recipient account is frozen
+    error RecipientFrozen(address recipient);
+
+    /// @notice Thrown when transfer amount exceeds the balance that is not frozen
+    error InsufficientUnfrozenBalance(address sender, uint256 unfrozenBalance, uint256 needed);
+
+    /// @notice Thrown when freezing more tokens than the account holds
+    error FreezeAmountExceedsBalance(address account, uint256 amount, uint256 balance);
+
+    /// @notice Thrown when unfreezing more tokens than are frozen
+    error UnfreezeAmountExceedsFrozen(address account, uint256 amount, uint256 frozen);
+    
     /// @notice Thrown when transaction record is invalid
     error InvalidTransactionRecord(uint256 transactionId);
 
+    /// @notice Thrown when a forced transfer has a zero address as source or destination
+    error InvalidForcedTransfer(address from, address to);
+
+    /// @notice Thrown when the document name is empty
+    error InvalidDocumentName();
+
+    /// @notice Thrown when the document URI is empty
+    error InvalidDocumentURI();
+
+    /// @notice Thrown when the document does not exist
+    error DocumentNotFound(bytes32 name);
+
+    /// @notice Thrown when pinning a token initialized before its factory was recorded
+    error FactoryNotSet();
+
+    /// @notice Thrown when a signed admin action is submitted after its deadline
+    error ExpiredSignature(uint256 deadline);
+
+    /// @notice Thrown when a signed admin action was not produced by the expected signer
+    error InvalidSigner(address signer, address expected);
+
     // =============================================================
     //                           MODIFIERS
     // =============================================================
@@ -133,7 +242,7 @@ contract SecurityToken is
      * @param name The name of the token
      * @param symbol The symbol of the token
      * @param cap The maximum supply cap for the token
-     * @param _isin The ISIN code for the security
+     * @param _isin The ISIN code for the security (format and check digit are validated)
      * @param _instrumentType The type of financial instrument
      * @param _jurisdiction The legal jurisdiction
      * @param admin The address that will receive all admin roles
@@ -148,21 +257,68 @@ contract SecurityToken is
         address admin
     ) public virtual initializer {
         if (admin == address(0)) revert InvalidAdminAddress();
+        LibISIN.validate(_isin);
 
         __ERC20_init(name, symbol);
         __ERC20Burnable_init();
         __ERC20Pausable_init();
         __ERC20Capped_init(cap);
+        __ERC20Permit_init(name);
         __AccessControl_init();
 
         isin = _isin;
         instrumentType = _instrumentType;
         jurisdiction = _jurisdiction;
+        // The factory deploys the proxy, whose constructor runs this initializer
+        factory = msg.sender;
 
         _grantRole(DEFAULT_ADMIN_ROLE, admin);
         _grantRole(ADMIN_ROLE, admin);
         _grantRole(MINTER_ROLE, admin);
         _grantRole(PAUSER_ROLE, admin);
+        _grantRole(CONTROLLER_ROLE, admin);
+    }
+
+    /**
+     * @notice Initializes the EIP-712 domain of tokens deployed before permit support
+     * @dev Call once through the proxy after upgrading the beacon. Tokens initialized with
+     *      this version already have the domain set.
+     */
+    function initializePermit() external reinitializer(2) onlyRole(DEFAULT_ADMIN_ROLE) {
+        __ERC20Permit_init(name());
+    }
+
+    // =============================================================
+    //                         BEACON FUNCTIONS
+    // =============================================================
+
+    /**
+     * @notice Pins the token to its current implementation by moving it onto a dedicated beacon
+     * @dev Only accounts with DEFAULT_ADMIN_ROLE. The factory that created the token deploys a
+     *      beacon fixed to the current implementation, so later upgrades of the shared beacon
+     *      do not apply to this token. Relies on the SecurityTokenProxy the factory creates,
+     *      which reads the beacon from the ERC-1967 beacon slot. Only the factory recorded at
+     *      initialization is used, so the token cannot be moved onto an arbitrary beacon.
+     */
+    function pinImplementation() external onlyRole(DEFAULT_ADMIN_ROLE) {
+        ERC1967Utils.upgradeBeaconToAndCall(_factory().createDedicatedBeacon(), "");
+    }
+
+    /**
+     * @notice Moves a pinned token back onto the shared beacon of its factory
+     * @dev Only accounts with DEFAULT_ADMIN_ROLE. The token takes the current implementation
+     *      of the shared beacon immediately.
+     */
+    function unpinImplementation() external onlyRole(DEFAULT_ADMIN_ROLE) {
+        ERC1967Utils.upgradeBeaconToAndCall(_factory().releaseDedicatedBeacon(), "");
+    }
+
+    /**
+     * @dev Returns the factory that created the token
+     */
+    function _factory() private view returns (SecurityTokenFactory) {
+        if (factory == address(0)) revert FactoryNotSet();
+        return SecurityTokenFactory(factory);
     }
 
     // =============================================================
@@ -285,13 +441,106 @@ contract SecurityToken is
         return blacklist[account];
     }
 
+    // =============================================================
+    //                        FREEZE FUNCTIONS
+    // =============================================================
+
+    /**
+     * @notice Freezes an account, preventing it from sending or receiving tokens
+     * @dev Only accounts with ADMIN_ROLE can call this function
+     * @param account The address to freeze
+     */
+    function freezeAccount(address account) 
+        external 
+        onlyRole(ADMIN_ROLE) 
+        notZeroAddress(account)
+    {
+        _frozenAccounts[account] = true;
+        emit AccountFrozen(account, msg.sender);
+    }
+
+    /**
+     * @notice Unfreezes a previously frozen account
+     * @dev Only accounts with ADMIN_ROLE can call this function
+     * @param account The address to unfreeze
+     */
+    function unfreezeAccount(address account) 
+        external 
+        onlyRole(ADMIN_ROLE) 
+        notZeroAddress(account)
+    {
+        _frozenAccounts[account] = false;
+        emit AccountUnfrozen(account, msg.sender);
+    }
+
+    /**
+     * @notice Checks if an account is frozen
+     * @param account The address to check
+     * @return True if the account is frozen, false otherwise
+     */
+    function isFrozen(address account) external view returns (bool) {
+        return _frozenAccounts[account];
+    }
+
+    /**
+     * @notice Freezes part of the tokens held by an account
+     * @dev Only accounts with ADMIN_ROLE can call this function. Frozen tokens cannot be
+     *      transferred or burned while the rest of the balance remains transferable.
+     * @param account The address whose tokens are frozen
+     * @param amount The amount of tokens to add to the frozen amount
+     */
+    function freezePartialTokens(address account, uint256 amount) 
+        external 
+        onlyRole(ADMIN_ROLE) 
+        notZeroAddress(account)
+    {
+        uint256 newFrozen = _frozenTokens[account] + amount;
+        if (newFrozen > balanceOf(account)) {
+            revert FreezeAmountExceedsBalance(account, newFrozen, balanceOf(account));
+        }
+
+        _frozenTokens[account] = newFrozen;
+        emit TokensFrozen(account, amount);
+    }
+
+    /**
+     * @notice Unfreezes part of the frozen tokens of an account
+     * @dev Only accounts with ADMIN_ROLE can call this function
+     * @param account The address whose tokens are unfrozen
+     * @param amount The amount of tokens to remove from the frozen amount
+     */
+    function unfreezePartialTokens(address account, uint256 amount) 
+        external 
+        onlyRole(ADMIN_ROLE) 
+        notZeroAddress(account)
+    {
+        uint256 currentFrozen = _frozenTokens[account];
+        if (amount > currentFrozen) {
+            revert UnfreezeAmountExceedsFrozen(account, amount, currentFrozen);
+        }
+
+        _frozenTokens[account] = currentFrozen - amount;
+        emit TokensUnfrozen(account, amount);
+    }
+
+    /**
+     * @notice Returns the amount of frozen tokens of an account
+     * @param account The address to check
+     * @return The amount of tokens frozen for the account
+     */
+    function getFrozenTokens(address account) external view returns (uint256) {
+        return _frozenTokens[account];
+    }
+
     // =============================================================
     //                    COMPLIANCE FUNCTIONS
     // =============================================================
 
     /**
      * @notice Reverts a previous transaction by transferring tokens back
-     * @dev Only accounts with ADMIN_ROLE can call this function
+     * @dev Only accounts with ADMIN_ROLE can call this function. Like forcedTransfer, it
+     *      bypasses the pause, whitelist, blacklist and freeze checks, and releases frozen
+     *      tokens of the original recipient when the unfrozen balance does not cover the amount.
      * @param transactionId The ID of the transaction to revert
      */
     function revertTransaction(uint256 transactionId) external onlyRole(ADMIN_ROLE) {
@@ -301,10 +550,42 @@ contract SecurityToken is
             revert InvalidTransactionRecord(transactionId);
         }
 
-        _transfer(record.to, record.from, record.amount);
+        _releaseFrozenTokens(record.to, record.amount);
+        _recordTransaction(record.to, record.from, record.amount, false);
+
+        // Skip the compliance and pause checks of _update
+        ERC20Upgradeable._update(record.to, record.from, record.amount);
         emit TransactionReverted(transactionId, msg.sender);
     }
 
+    /**
+     * @notice Forces a transfer between two holders by order of a court or regulator (ERC-1644)
+     * @dev Only accounts with CONTROLLER_ROLE can call this function. Bypasses pause,
+     *      whitelist, blacklist and freeze checks and records the transaction as forced.
+     *      Frozen tokens are released when the unfrozen balance does not cover the amount.
+     * @param from The address to take the tokens from
+     * @param to The address to give the tokens to
+     * @param amount The amount of tokens to transfer
+     * @param reasonCode Code identifying the legal or regulatory reason for the transfer
+     * @param data Additional data supporting the transfer (e.g. court order reference)
+     */
+    function forcedTransfer(
+        address from,
+        address to,
+        uint256 amount,
+        bytes32 reasonCode,
+        bytes calldata data
+    ) external onlyRole(CONTROLLER_ROLE) {
+        if (from == address(0) || to == address(0)) revert InvalidForcedTransfer(from, to);
+
+        _releaseFrozenTokens(from, amount);
+        _recordTransaction(from, to, amount, true);
+
+        // Skip the compliance and pause checks of _update
+        ERC20Upgradeable._update(from, to, amount);
+        emit ControllerTransfer(msg.sender, from, to, amount, reasonCode, data);
+    }
+
     /**
      * @notice Gets the details of a transaction record
      * @param id The transaction ID to query
@@ -314,10 +595,258 @@ contract SecurityToken is
         return _transactionRecords[id];
     }
 
+    // =============================================================
+    //                      DOCUMENT FUNCTIONS
+    // =============================================================
+
+    /**
+     * @notice Adds a new document or updates an existing one (ERC-1643)
+     * @dev Only accounts with ADMIN_ROLE can call this function
+     * @param name The name of the document (e.g. "PROSPECTUS")
+     * @param uri The location of the document
+     * @param documentHash The hash of the document contents
+     */
+    function setDocument(bytes32 name, string calldata uri, bytes32 documentHash)
+        external
+        onlyRole(ADMIN_ROLE)
+    {
+        if (name == bytes32(0)) revert InvalidDocumentName();
+        if (bytes(uri).length == 0) revert InvalidDocumentURI();
+
+        if (_documentIndex[name] == 0) {
+            _documentNames.push(name);
+            _documentIndex[name] = _documentNames.length;
+        }
+        _documents[name] = Document(uri, documentHash, block.timestamp);
+
+        emit DocumentUpdated(name, uri, documentHash);
+    }
+
+    /**
+     * @notice Removes a document (ERC-1643)
+     * @dev Only accounts with ADMIN_ROLE can call this function
+     * @param name The name of the document to remove
+     */
+    function removeDocument(bytes32 name) external onlyRole(ADMIN_ROLE) {
+        uint256 index = _documentIndex[name];
+        if (index == 0) revert DocumentNotFound(name);
+
+        Document memory document = _documents[name];
+
+        bytes32 lastName = _documentNames[_documentNames.length - 1];
+        _documentNames[index - 1] = lastName;
+        _documentIndex[lastName] = index;
+        _documentNames.pop();
+
+        delete _documentIndex[name];
+        delete _documents[name];
+
+        emit DocumentRemoved(name, document.uri, document.documentHash);
+    }
+
+    /**
+     * @notice Returns a document, or empty values for unknown names (ERC-1643)
+     * @param name The name of the document
+     * @return uri The location of the document
+     * @return documentHash The hash of the document contents
+     * @return lastModified Timestamp of the last update
+     */
+    function getDocument(bytes32 name)
+        external
+        view
+        returns (string memory uri, bytes32 documentHash, uint256 lastModified)
+    {
+        Document storage document = _documents[name];
+        return (document.uri, document.documentHash, document.lastModified);
+    }
+
+    /**
+     * @notice Returns the names of all documents (ERC-1643)
+     * @return Array of document names
+     */
+    function getAllDocuments() external view returns (bytes32[] memory) {
+        return _documentNames;
+    }
+
+    // =============================================================
+    //                    SIGNED ADMIN FUNCTIONS
+    // =============================================================
+
+    /**
+     * @notice Pauses all token transfers with a signature of a pauser (EIP-712)
+     * @dev Lets a relayer submit the action for a key held in cold storage. The signature
+     *      is bound to the signer's current nonce, shared with permit.
+     * @param signer The address with PAUSER_ROLE that signed the action
+     * @param deadline The timestamp after which the signature is no longer valid
+     * @param v The recovery id of the signature
+     * @param r The r value of the signature
+     * @param s The s value of the signature
+     */
+    function pauseBySig(address signer, uint256 deadline, uint8 v, bytes32 r, bytes32 s) external {
+        bytes32 structHash = keccak256(abi.encode(PAUSE_TYPEHASH, _useNonce(signer), deadline));
+        _verifySignedAction(PAUSER_ROLE, signer, structHash, deadline, v, r, s);
+        _pause();
+    }
+
+    /**
+     * @notice Adds an address to the whitelist with a signature of an admin (EIP-712)
+     * @dev Lets a relayer submit the action for a key held in cold storage
+     * @param account The address to add to the whitelist
+     * @param signer The address with ADMIN_ROLE that signed the action
+     * @param deadline The timestamp after which the signature is no longer valid
+     * @param v The recovery id of the signature
+     * @param r The r value of the signature
+     * @param s The s value of the signature
+     */
+    function addToWhitelistBySig(
+        address account,
+        address signer,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external notZeroAddress(account) {
+        bytes32 structHash = keccak256(
+            abi.encode(ADD_TO_WHITELIST_TYPEHASH, account, _useNonce(signer), deadline)
+        );
+        _verifySignedAction(ADMIN_ROLE, signer, structHash, deadline, v, r, s);
+        whitelist[account] = true;
+        emit WhitelistAdded(account, signer);
+    }
+
+    /**
+     * @notice Mints new tokens with a signature of a minter (EIP-712)
+     * @dev Lets a relayer submit the mint for a key held in cold storage
+     * @param to The address to mint tokens to
+     * @param amount The amount of tokens to mint
+     * @param signer The address with MINTER_ROLE that signed the mint
+     * @param deadline The timestamp after which the signature is no longer valid
+     * @param v The recovery id of the signature
+     * @param r The r value of the signature
+     * @param s The s value of the signature
+     */
+    function mintBySig(
+        address to,
+        uint256 amount,
+        address signer,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external notZeroAddress(to) {
+        bytes32 structHash = keccak256(abi.encode(MINT_TYPEHASH, to, amount, _useNonce(signer), deadline));
+        _verifySignedAction(MINTER_ROLE, signer, structHash, deadline, v, r, s);
+        _mint(to, amount);
+    }
+
+    /**
+     * @dev Reverts unless a signed admin action is unexpired and signed by an account with the role
+     * @param role The role required for the action
+     * @param signer The address expected to have signed
+     * @param structHash The EIP-712 hash of the signed struct (including the nonce)
+     * @param deadline The timestamp after which the signature is no longer valid
+     * @param v The recovery id of the signature
+     * @param r The r value of the signature
+     * @param s The s value of the signature
+     */
+    function _verifySignedAction(
+        bytes32 role,
+        address signer,
+        bytes32 structHash,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) private view {
+        if (!hasRole(role, signer)) {
+            revert AccessControlUnauthorizedAccount(signer, role);
+        }
+        if (block.timestamp > deadline) {
+            revert ExpiredSignature(deadline);
+        }
+
+        address recovered = ECDSA.recover(_hashTypedDataV4(structHash), v, r, s);
+        if (recovered != signer) {
+            revert InvalidSigner(recovered, signer);
+        }
+    }
+
+    // =============================================================
+    //                    TRANSFER CHECK FUNCTIONS
+    // =============================================================
+
+    /**
+     * @notice Checks whether a transfer from the caller would succeed (ERC-1594)
+     * @param to The address to transfer tokens to
+     * @param amount The amount of tokens to transfer
+     * @return status The EIP-1066 status code (0x51 if the transfer would succeed)
+     * @return reason The reason the transfer would fail (zero if it would succeed)
+     */
+    function canTransfer(address to, uint256 amount, bytes calldata /* data */)
+        external
+        view
+        returns (bytes1 status, bytes32 reason)
+    {
+        return _detectTransferRestriction(msg.sender, to, amount);
+    }
+
+    /**
+     * @notice Checks whether a transfer by the caller using an allowance would succeed (ERC-1594)
+     * @param from The address to transfer tokens from
+     * @param to The address to transfer tokens to
+     * @param amount The amount of tokens to transfer
+     * @return status The EIP-1066 status code (0x51 if the transfer would succeed)
+     * @return reason The reason the transfer would fail (zero if it would succeed)
+     */
+    function canTransferFrom(address from, address to, uint256 amount, bytes calldata /* data */)
+        external
+        view
+        returns (bytes1 status, bytes32 reason)
+    {
+        if (allowance(from, msg.sender) < amount) {
+            return (0x53, "INSUFFICIENT_ALLOWANCE");
+        }
+        return _detectTransferRestriction(from, to, amount);
+    }
+
     // =============================================================
     //                      INTERNAL FUNCTIONS
     // =============================================================
 
+    /**
+     * @dev Evaluates the checks of _update without reverting, in the same order.
+     *      Status codes follow EIP-1066: 0x51 success, 0x52 insufficient balance,
+     *      0x54 transfers halted, 0x55 funds locked, 0x56 invalid sender, 0x57 invalid receiver.
+     * @param from The address tokens would be transferred from
+     * @param to The address tokens would be transferred to
+     * @param amount The amount of tokens
+     */
+    function _detectTransferRestriction(address from, address to, uint256 amount)
+        private
+        view
+        returns (bytes1, bytes32)
+    {
+        if (from == address(0)) return (0x56, "INVALID_SENDER");
+        if (to == address(0)) return (0x57, "INVALID_RECEIVER");
+
+        if (!whitelist[from]) return (0x56, "SENDER_NOT_WHITELISTED");
+        if (blacklist[from]) return (0x56, "SENDER_BLACKLISTED");
+        if (_frozenAccounts[from]) return (0x55, "SENDER_FROZEN");
+
+        uint256 fromBalance = balanceOf(from);
+        uint256 frozenTokens = _frozenTokens[from];
+        if (fromBalance >= amount && fromBalance - amount < frozenTokens) return (0x55, "TOKENS_FROZEN");
+
+        if (!whitelist[to]) return (0x57, "RECIPIENT_NOT_WHITELISTED");
+        if (blacklist[to]) return (0x57, "RECIPIENT_BLACKLISTED");
+        if (_frozenAccounts[to]) return (0x57, "RECIPIENT_FROZEN");
+
+        if (paused()) return (0x54, "TRANSFERS_PAUSED");
+        if (fromBalance < amount) return (0x52, "INSUFFICIENT_BALANCE");
+
+        return (0x51, bytes32(0));
+    }
+
     /**
      * @dev Override of ERC20 _update function to add compliance checks and transaction recording
      * @param from The address tokens are transferred from
@@ -338,6 +867,16 @@ contract SecurityToken is
             if (blacklist[from]) {
                 revert SenderBlacklisted(from);
             }
+            if (_frozenAccounts[from]) {
+                revert SenderFrozen(from);
+            }
+
+            uint256 fromBalance = balanceOf(from);
+            uint256 frozenTokens = _frozenTokens[from];
+            uint256 unfrozenBalance = fromBalance > frozenTokens ? fromBalance - frozenTokens : 0;
+            if (fromBalance >= amount && unfrozenBalance < amount) {
+                revert InsufficientUnfrozenBalance(from, unfrozenBalance, amount);
+            }
         }
 
         // Compliance checks for recipient (skip for burning)
@@ -348,20 +887,49 @@ contract SecurityToken is
             if (blacklist[to]) {
                 revert RecipientBlacklisted(to);
             }
+            if (_frozenAccounts[to]) {
+                revert RecipientFrozen(to);
+            }
         }
 
         // Record transaction for compliance tracking
+        _recordTransaction(from, to, amount, false);
+
+        // Execute the transfer
+        super._update(from, to, amount);
+    }
+
+    /**
+     * @dev Stores a new transaction record for compliance tracking
+     * @param from The address tokens are transferred from
+     * @param to The address tokens are transferred to
+     * @param amount The amount of tokens being transferred
+     * @param forced Whether the transfer was forced by a controller
+     */
+    function _recordTransaction(address from, address to, uint256 amount, bool forced) private {
         transactionCount += 1;
         _transactionRecords[transactionCount] = TransactionRecord({
             id: transactionCount,
             from: from,
             to: to,
             amount: amount,
-            timestamp: block.timestamp
+            timestamp: block.timestamp,
+            forced: forced
         });
+    }
 
-        // Execute the transfer
-        super._update(from, to, amount);
+    /**
+     * @dev Releases the frozen tokens of an account that an administrative transfer of amount
+     *      takes, when its unfrozen balance does not cover it
+     */
+    function _releaseFrozenTokens(address account, uint256 amount) private {
+        uint256 balance = balanceOf(account);
+        uint256 frozenTokens = _frozenTokens[account];
+        if (balance >= amount && balance - amount < frozenTokens) {
+            uint256 tokensToUnfreeze = frozenTokens - (balance - amount);
+            _frozenTokens[account] = frozenTokens - tokensToUnfreeze;
+            emit TokensUnfrozen(account, tokensToUnfreeze);
+        }
     }
 
     // =============================================================
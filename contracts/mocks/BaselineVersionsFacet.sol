@@ -0,0 +1,31 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+/**
+ * @title BaselineVersionsFacet
+ * @notice Test facet reporting the versions of the first release for the facets changed since,
+ *         so a diamond can be made to look like one deployed from the baseline facet set
+ */
+contract BaselineVersionsFacet {
+    string private constant BASELINE_VERSION = "1.0.0";
+
+    function diamondCutFacetVersion() external pure returns (string memory) {
+        return BASELINE_VERSION;
+    }
+
+    function version() external pure returns (string memory) {
+        return BASELINE_VERSION;
+    }
+
+    function mintingFacetVersion() external pure returns (string memory) {
+        return BASELINE_VERSION;
+    }
+
+    function adminFacetVersion() external pure returns (string memory) {
+        return BASELINE_VERSION;
+    }
+
+    function complianceFacetVersion() external pure returns (string memory) {
+        return BASELINE_VERSION;
+    }
+}
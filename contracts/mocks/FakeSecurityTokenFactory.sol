@@ -0,0 +1,25 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import {UpgradeableBeacon} from "@openzeppelin/contracts/proxy/beacon/UpgradeableBeacon.sol";
+
+/**
+ * @title FakeSecurityTokenFactory
+ * @notice Hands out beacons pointing at any implementation, used in tests to check that a
+ *         token only pins itself through the factory that created it
+ */
+contract FakeSecurityTokenFactory {
+    address public immutable implementation;
+
+    constructor(address _implementation) {
+        implementation = _implementation;
+    }
+
+    function createDedicatedBeacon() external returns (address) {
+        return address(new UpgradeableBeacon(implementation, address(this)));
+    }
+
+    function releaseDedicatedBeacon() external returns (address) {
+        return address(new UpgradeableBeacon(implementation, address(this)));
+    }
+}
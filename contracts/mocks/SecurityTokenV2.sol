@@ -0,0 +1,15 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import {SecurityToken} from "../SecurityToken.sol";
+
+/**
+ * @title SecurityTokenV2
+ * @notice SecurityToken implementation with one extra function, used in tests to tell which
+ *         implementation a token proxy runs after a beacon upgrade
+ */
+contract SecurityTokenV2 is SecurityToken {
+    function isV2() external pure returns (bool) {
+        return true;
+    }
+}
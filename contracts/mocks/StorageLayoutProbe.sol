@@ -0,0 +1,15 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import {LibSecurityToken} from "../Diamond/Librarys/LibSecurityToken.sol";
+import {LibDiamond} from "../Diamond/Librarys/LibDiamond.sol";
+
+/**
+ * @title StorageLayoutProbe
+ * @notice Never deployed. Declares the diamond storage structs as state variables so the
+ *         compiler reports their layout, checked by scripts/utils/storageLayout.js
+ */
+contract StorageLayoutProbe {
+    LibSecurityToken.SecurityTokenStorage internal securityTokenStorage;
+    LibDiamond.DiamondStorage internal diamondStorage;
+}
@@ -1,10 +1,34 @@
-import { HardhatUserConfig } from "hardhat/config";
+import fs from "fs";
+import path from "path";
+import { HardhatUserConfig, subtask } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox";
 import dotenvx from "@dotenvx/dotenvx";
 import "solidity-coverage";
 
 dotenvx.config();
 
+const { writeDiamondAbi } = require("./scripts/utils/diamondAbi");
+
+// typechain-types is generated, not tracked. The plugin only writes the typings of the
+// contracts it just compiled, so with cached artifacts and no typechain-types (e.g. after
+// deleting it) it writes nothing; run the full generation of the typechain task instead.
+let generatingAllTypes = false;
+
+// Keep abi/SecurityTokenDiamond.json and its typechain type in sync with the facets
+subtask("typechain:generate-types").setAction(async (args, hre, runSuper) => {
+  const result = await runSuper(args);
+  if (!generatingAllTypes && !fs.existsSync(path.resolve(hre.config.paths.root, hre.config.typechain.outDir, "index.ts"))) {
+    generatingAllTypes = true;
+    try {
+      await hre.run("typechain");
+    } finally {
+      generatingAllTypes = false;
+    }
+  }
+  await writeDiamondAbi(hre.artifacts, { quiet: args.quiet });
+  return result;
+});
+
 const config: HardhatUserConfig = {
   solidity: {
     version: "0.8.28",
@@ -14,6 +38,11 @@ const config: HardhatUserConfig = {
         runs: 10,
       },
       evmVersion: "berlin", // for compatibility with isbe
+      outputSelection: {
+        "*": {
+          "*": ["storageLayout"], // checked against storage-layout/ by scripts/utils/storageLayout.js
+        },
+      },
     },
   },
   paths: {
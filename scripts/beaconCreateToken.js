@@ -1,30 +1,35 @@
 const { ethers } = require("hardhat");
-
-const FACTORY_ADDRESS = "0x6C40C3a129C382ca0FD957381D5801AC13c34728"; // 
-const IMPLEMENTATION_ADDRESS = "0xD30B19eF8Eae6f6646F1eF1F56f4442879F3CAAc"; // 
+const { getAddress, recordDeployment, transactionRecord } = require("./utils/deploymentRegistry");
 
   async function createSecurityToken() {
       const [admin] = await ethers.getSigners();
       user1 = "0x717E34E5019AebE1A596Fd3cB1c1119aD6fD8B69"; // dev alastria 12      // Obtener las instancias de los contratos desplegados
-      const factory = await ethers.getContractAt("SecurityTokenFactory", FACTORY_ADDRESS);
-      const securityTokenImpl = await ethers.getContractAt("SecurityToken", IMPLEMENTATION_ADDRESS);
+      const factory = await ethers.getContractAt("SecurityTokenFactory", getAddress("SecurityTokenFactory"));
+      const securityTokenImpl = await ethers.getContractAt("SecurityToken", getAddress("SecurityToken"));
+      const isin = process.env.ISIN || "ES0123456784"; // must be new for this factory
       
       // Preparar datos de inicialización usando la implementación real
       const initData = securityTokenImpl.interface.encodeFunctionData("initialize", [
          "TestBond",              // name
          "TBND",                  // symbol
          ethers.parseUnits("1000000", 18), // cap (1M tokens)
-         "ISIN1234567890",        // ISIN
+         isin,                    // ISIN
          "bond",                  // instrumentType
          "ES",                    // jurisdiction
          admin.address            // admin
       ]);      // Crear el token
-      const tx = await factory.createToken(initData, user1);
-      const receipt = await tx.wait();
+      const creation = await transactionRecord("createToken", await factory.createToken(initData, user1));
       
-      // Obtener la dirección del primer token creado
-      const tokenAddress = await factory.deployedTokens(0);
+      // Obtener la dirección del token creado
+      const tokenAddress = await factory.getTokenByIsin(isin);
       console.log("Security Token created at:", tokenAddress);
+      await recordDeployment({
+         kind: "token",
+         script: "beaconCreateToken",
+         contracts: { [`token:${isin}`]: { contract: "SecurityTokenProxy", address: tokenAddress } },
+         transactions: [creation],
+         details: { factory: await factory.getAddress(), beneficiary: user1 }
+      });
         // Interactuar con el nuevo token
       const token = await ethers.getContractAt("SecurityToken", tokenAddress);
         // Configuración inicial
@@ -45,4 +50,4 @@ const IMPLEMENTATION_ADDRESS = "0xD30B19eF8Eae6f6646F1eF1F56f4442879F3CAAc"; //
     process.exit(1);
   });
 
-  //npx hardhat run scripts/beaconCreateToken.js --network <network_name>
+  //ISIN=ES0000000051 npx hardhat run scripts/beaconCreateToken.js --network <network_name>
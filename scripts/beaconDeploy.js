@@ -1,5 +1,6 @@
 
 const { ethers } = require("hardhat");
+const { recordDeployment, deployedContractRecord, transactionRecord } = require("./utils/deploymentRegistry");
 
     async function main() {
       const [admin] = await ethers.getSigners();
@@ -27,6 +28,25 @@ const { ethers } = require("hardhat");
       const factoryAddress = await factory.getAddress();
       console.log("Factory deployed at:", factoryAddress);
 
+      // 4. Hand beacon ownership to the factory so upgrades go through its timelock
+      const ownershipTransfer = await transactionRecord(
+         "UpgradeableBeacon.transferOwnership(SecurityTokenFactory)",
+         await beacon.transferOwnership(factoryAddress)
+      );
+      console.log("Beacon ownership transferred to factory");
+
+      // 5. Register the deployment so the other scripts resolve these addresses
+      await recordDeployment({
+         kind: "deployment",
+         script: "beaconDeploy",
+         contracts: {
+            SecurityToken: await deployedContractRecord(securityTokenImpl, "SecurityToken"),
+            UpgradeableBeacon: await deployedContractRecord(beacon, "UpgradeableBeacon"),
+            SecurityTokenFactory: await deployedContractRecord(factory, "SecurityTokenFactory")
+         },
+         transactions: [ownershipTransfer]
+      });
+
       return {
          implementation: implAddress,
          beacon: beaconAddress,
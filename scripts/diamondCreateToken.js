@@ -0,0 +1,50 @@
+const { ethers } = require("hardhat");
+const { getAddress, recordDeployment, transactionRecord } = require("./utils/deploymentRegistry");
+
+async function createSecurityToken() {
+  const [admin] = await ethers.getSigners();
+  const beneficiary = process.env.BENEFICIARY || admin.address;
+  const isin = process.env.ISIN || "ES0123456784"; // must be new for this factory
+
+  // DiamondFactory and DiamondInit registered by scripts/diamondDeploy.js
+  const factory = await ethers.getContractAt("DiamondFactory", getAddress("DiamondFactory"));
+  const diamondInit = await ethers.getContractAt("DiamondInit", getAddress("DiamondInit"));
+
+  const initData = diamondInit.interface.encodeFunctionData("init", [
+    "TestBond",                        // name
+    "TBND",                            // symbol
+    ethers.parseUnits("1000000", 18),  // cap (1M tokens)
+    isin,                              // ISIN
+    "bond",                            // instrumentType
+    "ES",                              // jurisdiction
+    admin.address                      // admin
+  ]);
+
+  // One transaction: new Diamond with the shared facets, initialized and owned by admin
+  const creation = await transactionRecord("createDiamond", await factory.createDiamond(initData, beneficiary));
+
+  const diamondAddress = await factory.getTokenByIsin(isin);
+  console.log("Security Token diamond created at:", diamondAddress);
+  console.log("Gas used:", BigInt(creation.gasUsed).toLocaleString());
+
+  await recordDeployment({
+    kind: "token",
+    script: "diamondCreateToken",
+    contracts: { [`token:${isin}`]: { contract: "Diamond", address: diamondAddress } },
+    transactions: [creation],
+    details: { factory: await factory.getAddress(), beneficiary }
+  });
+
+  const adminFacet = await ethers.getContractAt("AdminFacet", diamondAddress);
+  await adminFacet.addToWhitelist(admin.address);
+  console.log("added to whitelist:", admin.address);
+}
+
+createSecurityToken()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
+
+// ISIN=ES0000000044 npx hardhat run scripts/diamondCreateToken.js --network <network_name>
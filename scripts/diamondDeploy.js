@@ -3,8 +3,7 @@
 // SPDX-License-Identifier: MIT
 
 const { ethers } = require("hardhat");
-const fs = require("fs");
-const path = require("path");
+const { recordDeployment, deployedContractRecord } = require("./utils/deploymentRegistry");
 
 // Deployment configuration
 const DEPLOYMENT_CONFIG = {
@@ -13,7 +12,7 @@ const DEPLOYMENT_CONFIG = {
     name: "Security Bond Token",
     symbol: "SBT",
     cap: ethers.parseUnits("1000000", 18), // 1M tokens max
-    isin: "ES0000000000",
+    isin: "ES0000000002",
     instrumentType: "bond",
     jurisdiction: "ES"
   },
@@ -43,23 +42,6 @@ function getSelectors(contract) {
 //   return new Promise(resolve => setTimeout(resolve, ms));
 // }
 
-async function saveDeploymentInfo(deploymentInfo, network) {
-  const deploymentsDir = path.join(__dirname, '..', 'deployments');
-  if (!fs.existsSync(deploymentsDir)) {
-    fs.mkdirSync(deploymentsDir, { recursive: true });
-  }
-  
-  const filePath = path.join(deploymentsDir, `${network}.json`);
-  fs.writeFileSync(
-  filePath,
-  JSON.stringify(deploymentInfo, (key, value) =>
-    typeof value === 'bigint' ? value.toString() : value,
-    2
-    )
-  );
-  console.log(`📄 Deployment info saved to: ${filePath}`);
-}
-
 // async function verifyContract(address, constructorArguments = [], contractName = "") {
 //   try {
 //     console.log(`🔍 Verifying ${contractName} at ${address}...`);
@@ -301,7 +283,133 @@ async function main() {
 
     console.log(`✅ ComplianceFacet deployed: ${complianceAddress}`);
     console.log(`📝 Function selectors: ${getSelectors(complianceFacet).length}`);
-    console.log(`⛽ Gas used: ${complianceTx.gasUsed.toLocaleString()}\n`);
+    console.log(`⛽ Gas used: ${complianceTx.gasUsed.toLocaleString()}`);
+
+    // Deploy DocumentFacet
+    const DocumentFacet = await ethers.getContractFactory("DocumentFacet");
+    const documentFacet = await DocumentFacet.deploy({
+      gasLimit: DEPLOYMENT_CONFIG.gasLimit.facetDeploy
+    });
+    await documentFacet.waitForDeployment();
+    
+    const documentAddress = await documentFacet.getAddress();
+    const documentTx = await ethers.provider.getTransactionReceipt(documentFacet.deploymentTransaction().hash);
+    totalGasUsed += documentTx.gasUsed;
+
+    deploymentInfo.facets.document = {
+      address: documentAddress,
+      selectors: getSelectors(documentFacet)
+    };
+    deploymentInfo.gasUsed.document = documentTx.gasUsed.toString();
+
+    console.log(`✅ DocumentFacet deployed: ${documentAddress}`);
+    console.log(`📝 Function selectors: ${getSelectors(documentFacet).length}`);
+    console.log(`⛽ Gas used: ${documentTx.gasUsed.toLocaleString()}`);
+
+    // Deploy SnapshotFacet
+    const SnapshotFacet = await ethers.getContractFactory("SnapshotFacet");
+    const snapshotFacet = await SnapshotFacet.deploy({
+      gasLimit: DEPLOYMENT_CONFIG.gasLimit.facetDeploy
+    });
+    await snapshotFacet.waitForDeployment();
+    
+    const snapshotAddress = await snapshotFacet.getAddress();
+    const snapshotTx = await ethers.provider.getTransactionReceipt(snapshotFacet.deploymentTransaction().hash);
+    totalGasUsed += snapshotTx.gasUsed;
+
+    deploymentInfo.facets.snapshot = {
+      address: snapshotAddress,
+      selectors: getSelectors(snapshotFacet)
+    };
+    deploymentInfo.gasUsed.snapshot = snapshotTx.gasUsed.toString();
+
+    console.log(`✅ SnapshotFacet deployed: ${snapshotAddress}`);
+    console.log(`📝 Function selectors: ${getSelectors(snapshotFacet).length}`);
+    console.log(`⛽ Gas used: ${snapshotTx.gasUsed.toLocaleString()}`);
+
+    // Deploy DistributionFacet
+    const DistributionFacet = await ethers.getContractFactory("DistributionFacet");
+    const distributionFacet = await DistributionFacet.deploy({
+      gasLimit: DEPLOYMENT_CONFIG.gasLimit.facetDeploy
+    });
+    await distributionFacet.waitForDeployment();
+    
+    const distributionAddress = await distributionFacet.getAddress();
+    const distributionTx = await ethers.provider.getTransactionReceipt(distributionFacet.deploymentTransaction().hash);
+    totalGasUsed += distributionTx.gasUsed;
+
+    deploymentInfo.facets.distribution = {
+      address: distributionAddress,
+      selectors: getSelectors(distributionFacet)
+    };
+    deploymentInfo.gasUsed.distribution = distributionTx.gasUsed.toString();
+
+    console.log(`✅ DistributionFacet deployed: ${distributionAddress}`);
+    console.log(`📝 Function selectors: ${getSelectors(distributionFacet).length}`);
+    console.log(`⛽ Gas used: ${distributionTx.gasUsed.toLocaleString()}`);
+
+    // Deploy RedemptionFacet
+    const RedemptionFacet = await ethers.getContractFactory("RedemptionFacet");
+    const redemptionFacet = await RedemptionFacet.deploy({
+      gasLimit: DEPLOYMENT_CONFIG.gasLimit.facetDeploy
+    });
+    await redemptionFacet.waitForDeployment();
+    
+    const redemptionAddress = await redemptionFacet.getAddress();
+    const redemptionTx = await ethers.provider.getTransactionReceipt(redemptionFacet.deploymentTransaction().hash);
+    totalGasUsed += redemptionTx.gasUsed;
+
+    deploymentInfo.facets.redemption = {
+      address: redemptionAddress,
+      selectors: getSelectors(redemptionFacet)
+    };
+    deploymentInfo.gasUsed.redemption = redemptionTx.gasUsed.toString();
+
+    console.log(`✅ RedemptionFacet deployed: ${redemptionAddress}`);
+    console.log(`📝 Function selectors: ${getSelectors(redemptionFacet).length}`);
+    console.log(`⛽ Gas used: ${redemptionTx.gasUsed.toLocaleString()}`);
+
+    // Deploy CouponFacet
+    const CouponFacet = await ethers.getContractFactory("CouponFacet");
+    const couponFacet = await CouponFacet.deploy({
+      gasLimit: DEPLOYMENT_CONFIG.gasLimit.facetDeploy
+    });
+    await couponFacet.waitForDeployment();
+    
+    const couponAddress = await couponFacet.getAddress();
+    const couponTx = await ethers.provider.getTransactionReceipt(couponFacet.deploymentTransaction().hash);
+    totalGasUsed += couponTx.gasUsed;
+
+    deploymentInfo.facets.coupon = {
+      address: couponAddress,
+      selectors: getSelectors(couponFacet)
+    };
+    deploymentInfo.gasUsed.coupon = couponTx.gasUsed.toString();
+
+    console.log(`✅ CouponFacet deployed: ${couponAddress}`);
+    console.log(`📝 Function selectors: ${getSelectors(couponFacet).length}`);
+    console.log(`⛽ Gas used: ${couponTx.gasUsed.toLocaleString()}`);
+
+    // Deploy PartitionFacet
+    const PartitionFacet = await ethers.getContractFactory("PartitionFacet");
+    const partitionFacet = await PartitionFacet.deploy({
+      gasLimit: DEPLOYMENT_CONFIG.gasLimit.facetDeploy
+    });
+    await partitionFacet.waitForDeployment();
+    
+    const partitionAddress = await partitionFacet.getAddress();
+    const partitionTx = await ethers.provider.getTransactionReceipt(partitionFacet.deploymentTransaction().hash);
+    totalGasUsed += partitionTx.gasUsed;
+
+    deploymentInfo.facets.partition = {
+      address: partitionAddress,
+      selectors: getSelectors(partitionFacet)
+    };
+    deploymentInfo.gasUsed.partition = partitionTx.gasUsed.toString();
+
+    console.log(`✅ PartitionFacet deployed: ${partitionAddress}`);
+    console.log(`📝 Function selectors: ${getSelectors(partitionFacet).length}`);
+    console.log(`⛽ Gas used: ${partitionTx.gasUsed.toLocaleString()}\n`);
 
     // =======================================================================
     // STEP 5: Prepare Diamond Cut
@@ -344,6 +452,36 @@ async function main() {
         facetAddress: complianceAddress,
         action: 0, // Add
         functionSelectors: getSelectors(complianceFacet)
+      },
+      {
+        facetAddress: documentAddress,
+        action: 0, // Add
+        functionSelectors: getSelectors(documentFacet)
+      },
+      {
+        facetAddress: snapshotAddress,
+        action: 0, // Add
+        functionSelectors: getSelectors(snapshotFacet)
+      },
+      {
+        facetAddress: distributionAddress,
+        action: 0, // Add
+        functionSelectors: getSelectors(distributionFacet)
+      },
+      {
+        facetAddress: redemptionAddress,
+        action: 0, // Add
+        functionSelectors: getSelectors(redemptionFacet)
+      },
+      {
+        facetAddress: couponAddress,
+        action: 0, // Add
+        functionSelectors: getSelectors(couponFacet)
+      },
+      {
+        facetAddress: partitionAddress,
+        action: 0, // Add
+        functionSelectors: getSelectors(partitionFacet)
       }
     ];
 
@@ -400,6 +538,24 @@ async function main() {
 
     console.log(`✅ Diamond deployed: ${diamondAddress}`);
     console.log(`⛽ Gas used: ${diamondTx.gasUsed.toLocaleString()}`);
+
+    // Deploy DiamondFactory so further tokens reuse the facets deployed above
+    const DiamondFactory = await ethers.getContractFactory("DiamondFactory");
+    const diamondFactory = await DiamondFactory.deploy(cut, diamondInitAddress, {
+      gasLimit: DEPLOYMENT_CONFIG.gasLimit.diamondDeploy
+    });
+    await diamondFactory.waitForDeployment();
+
+    const diamondFactoryAddress = await diamondFactory.getAddress();
+    const diamondFactoryTx = await ethers.provider.getTransactionReceipt(diamondFactory.deploymentTransaction().hash);
+    totalGasUsed += diamondFactoryTx.gasUsed;
+
+    deploymentInfo.contracts.diamondFactory = diamondFactoryAddress;
+    deploymentInfo.gasUsed.diamondFactory = diamondFactoryTx.gasUsed.toString();
+    deploymentInfo.gasUsed.total = totalGasUsed.toString();
+
+    console.log(`✅ DiamondFactory deployed: ${diamondFactoryAddress}`);
+    console.log(`⛽ Gas used: ${diamondFactoryTx.gasUsed.toLocaleString()}`);
     console.log(`⛽ Total gas used: ${totalGasUsed.toLocaleString()}\n`);
 
     // =======================================================================
@@ -468,7 +624,42 @@ async function main() {
     console.log("\n💾 Step 10: Saving Deployment Information...");
     console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
 
-    await saveDeploymentInfo(deploymentInfo, network);
+    const facetContracts = {
+      DiamondCutFacet: diamondCutFacet,
+      DiamondLoupeFacet: diamondLoupeFacet,
+      OwnershipFacet: ownershipFacet,
+      ERC20Facet: erc20Facet,
+      MintingFacet: mintingFacet,
+      AdminFacet: adminFacet,
+      ComplianceFacet: complianceFacet,
+      DocumentFacet: documentFacet,
+      SnapshotFacet: snapshotFacet,
+      DistributionFacet: distributionFacet,
+      RedemptionFacet: redemptionFacet,
+      CouponFacet: couponFacet,
+      PartitionFacet: partitionFacet
+    };
+    const contracts = {
+      DiamondInit: await deployedContractRecord(diamondInit, "DiamondInit"),
+      Diamond: await deployedContractRecord(diamond, "Diamond"),
+      DiamondFactory: await deployedContractRecord(diamondFactory, "DiamondFactory")
+    };
+    for (const [name, facet] of Object.entries(facetContracts)) {
+      contracts[name] = await deployedContractRecord(facet, name, { facet: true });
+    }
+
+    await recordDeployment({
+      kind: "deployment",
+      script: "diamondDeploy",
+      contracts,
+      details: {
+        admin: deploymentInfo.admin,
+        config: deploymentInfo.config,
+        gasUsed: deploymentInfo.gasUsed,
+        verification: deploymentInfo.verification
+      }
+    });
+    console.log(`📄 Deployment recorded in: deployments/${network}.json`);
 
     // =======================================================================
     // STEP 11: Contract Verification (if on testnet/mainnet)
@@ -489,6 +680,12 @@ async function main() {
     //   await verifyContract(mintingAddress, [], "MintingFacet");
     //   await verifyContract(adminFacetAddress, [], "AdminFacet");
     //   await verifyContract(complianceAddress, [], "ComplianceFacet");
+    //   await verifyContract(documentAddress, [], "DocumentFacet");
+    //   await verifyContract(snapshotAddress, [], "SnapshotFacet");
+    //   await verifyContract(distributionAddress, [], "DistributionFacet");
+    //   await verifyContract(redemptionAddress, [], "RedemptionFacet");
+    //   await verifyContract(couponAddress, [], "CouponFacet");
+    //   await verifyContract(partitionAddress, [], "PartitionFacet");
     //   await verifyContract(diamondAddress, [cut, diamondInitAddress, initData], "Diamond");
     // }
 
@@ -498,6 +695,7 @@ async function main() {
     console.log("\n🎉 DEPLOYMENT COMPLETED SUCCESSFULLY!");
     console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
     console.log(`💎 Diamond Address: ${diamondAddress}`);
+    console.log(`🏭 DiamondFactory Address: ${diamondFactoryAddress}`);
     console.log(`📊 Total Facets: ${facets.length}`);
     console.log(`⛽ Total Gas Used: ${totalGasUsed.toLocaleString()}`);
     console.log(`💰 Estimated Cost: ~${ethers.formatEther(totalGasUsed * BigInt("20000000000"))} ETH (20 gwei)`);
@@ -525,9 +723,16 @@ async function main() {
         erc20: erc20Address,
         minting: mintingAddress,
         admin: adminFacetAddress,
-        compliance: complianceAddress
+        compliance: complianceAddress,
+        document: documentAddress,
+        snapshot: snapshotAddress,
+        distribution: distributionAddress,
+        redemption: redemptionAddress,
+        coupon: couponAddress,
+        partition: partitionAddress
       },
       diamondInit: diamondInitAddress,
+      diamondFactory: diamondFactoryAddress,
       gasUsed: totalGasUsed,
       deploymentInfo
     };
@@ -547,8 +752,14 @@ async function main() {
         message: error.message,
         timestamp: new Date().toISOString()
       };
-      await saveDeploymentInfo(deploymentInfo, `${network}-failed`);
-      console.error(`📄 Partial deployment info saved to: deployments/${network}-failed.json`);
+      await recordDeployment({
+        kind: "deployment",
+        script: "diamondDeploy",
+        contracts: {},
+        details: { partial: deploymentInfo },
+        error: error.message
+      });
+      console.error(`📄 Partial deployment info recorded in: deployments/${network}.json`);
     }
     
     throw error;
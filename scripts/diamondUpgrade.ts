@@ -0,0 +1,329 @@
+// scripts/diamondUpgrade.ts
+// Declarative diamond upgrade: diffs a manifest of facet versions against the live diamond
+// (DiamondLoupeFacet.facets()), deploys only the facets whose version changed and applies the
+// minimal Add/Replace/Remove cut, optionally with an init call. DRY_RUN=1 only prints the plan.
+import fs from "fs";
+import path from "path";
+import { artifacts, ethers } from "hardhat";
+import { Contract, FunctionFragment, Interface, TransactionReceipt, ZeroAddress } from "ethers";
+import diamondAbi from "../abi/SecurityTokenDiamond.json";
+import {
+  ContractRecord,
+  deployedContractRecord,
+  findVersionFunction,
+  getAddress,
+  recordDeployment
+} from "./utils/deploymentRegistry";
+
+const { getSelectors, findDuplicateSelectors } = require("./utils/checkSelectors");
+
+export enum FacetCutAction {
+  Add,
+  Replace,
+  Remove
+}
+
+export interface UpgradeManifest {
+  /** Facet contract name => version the facet must report. Live facets not listed are removed. */
+  facets: Record<string, string>;
+  /** Optional call delegated to by the cut (`_init` / `_calldata`) */
+  init?: {
+    /** Contract whose ABI encodes the call, deployed unless `address` is given */
+    contract: string;
+    address?: string;
+    function: string;
+    args?: unknown[];
+  };
+}
+
+export interface FacetUpgrade {
+  name: string;
+  version: string;
+  /** Name of the version getter, e.g. "mintingFacetVersion" */
+  versionFunction: string;
+  /** Live facet address and version, undefined for a new facet */
+  currentAddress?: string;
+  currentVersion?: string;
+}
+
+export interface PlannedCut {
+  action: FacetCutAction;
+  /** Facet deployed by the upgrade (Add/Replace), undefined for Remove */
+  facetName?: string;
+  selectors: string[];
+  /** Function signatures of the selectors, or the selector itself if unknown */
+  functions: string[];
+}
+
+export interface UpgradePlan {
+  diamond: string;
+  /** Facets to deploy */
+  upgrades: FacetUpgrade[];
+  cut: PlannedCut[];
+}
+
+export interface UpgradeResult {
+  /** Deployed facets by name */
+  facets: Record<string, ContractRecord>;
+  cut: { facetAddress: string; action: FacetCutAction; functionSelectors: string[] }[];
+  init: string;
+  calldata: string;
+  receipt: TransactionReceipt;
+  /** Set when cut governance is enabled and the cut was proposed instead of executed */
+  proposalId?: bigint;
+}
+
+/**
+ * Reads and validates an upgrade manifest.
+ */
+export function loadManifest(file: string): UpgradeManifest {
+  const manifest = JSON.parse(fs.readFileSync(file, "utf8")) as UpgradeManifest;
+  const entries = Object.entries(manifest.facets ?? {});
+  if (entries.length === 0) {
+    throw new Error(`${file}: "facets" must list at least one facet`);
+  }
+  for (const [name, version] of entries) {
+    if (typeof version !== "string" || version === "") {
+      throw new Error(`${file}: invalid version for ${name}`);
+    }
+  }
+  return manifest;
+}
+
+/**
+ * Computes the facets to deploy and the minimal cut that turns the live diamond into the
+ * manifest. A facet is upgraded when its live version differs from the manifest; its selectors
+ * are then added or replaced, and the old selectors it no longer has are removed.
+ */
+export async function planUpgrade(diamondAddress: string, manifest: UpgradeManifest): Promise<UpgradePlan> {
+  // Addresses are compared as strings, so all of them are checksummed
+  const diamond = ethers.getAddress(diamondAddress);
+  const loupe = await ethers.getContractAt("DiamondLoupeFacet", diamond);
+  const liveOwner = new Map<string, string>();
+  for (const facet of await loupe.facets()) {
+    for (const selector of facet.functionSelectors) {
+      liveOwner.set(selector, ethers.getAddress(facet.facetAddress));
+    }
+  }
+
+  const signatures = new Map<string, string>();
+  for (const fragment of new Interface(diamondAbi).fragments) {
+    if (fragment.type === "function") {
+      signatures.set((fragment as FunctionFragment).selector, fragment.format("sighash"));
+    }
+  }
+
+  const upgrades: FacetUpgrade[] = [];
+  const facetSelectors: Record<string, { name: string; selector: string }[]> = {};
+  // selector => facet that must own it, with its live address when the facet is kept
+  const desired = new Map<string, { facetName: string; address?: string }>();
+
+  for (const [name, version] of Object.entries(manifest.facets)) {
+    const facetInterface = new Interface((await artifacts.readArtifact(name)).abi);
+    facetInterface.forEachFunction((fragment) => signatures.set(fragment.selector, fragment.format("sighash")));
+
+    const versionFunction = findVersionFunction(facetInterface);
+    if (!versionFunction) {
+      throw new Error(`${name} has no version function`);
+    }
+
+    const currentAddress = liveOwner.get(versionFunction.selector);
+    const currentVersion: string | undefined = currentAddress
+      ? await new Contract(currentAddress, facetInterface, ethers.provider).getFunction(versionFunction.name)()
+      : undefined;
+
+    const kept = currentAddress !== undefined && currentVersion === version;
+    if (kept) {
+      facetSelectors[name] = [...liveOwner]
+        .filter(([, address]) => address === currentAddress)
+        .map(([selector]) => ({ name: facetInterface.getFunction(selector)?.name ?? selector, selector }));
+    } else {
+      upgrades.push({ name, version, versionFunction: versionFunction.name, currentAddress, currentVersion });
+      facetSelectors[name] = getSelectors({ interface: facetInterface });
+    }
+    for (const { selector } of facetSelectors[name]) {
+      desired.set(selector, { facetName: name, address: kept ? currentAddress : undefined });
+    }
+  }
+
+  const duplicates = findDuplicateSelectors(facetSelectors);
+  if (duplicates.length > 0) {
+    const list = duplicates
+      .map(({ selector, function1, function2 }: Record<string, string>) => `  ${selector}: ${function1} / ${function2}`)
+      .join("\n");
+    throw new Error(`Duplicate function selectors in the manifest facets:\n${list}`);
+  }
+
+  const cut: PlannedCut[] = [];
+  const addTo = (action: FacetCutAction, facetName: string | undefined, selector: string) => {
+    let entry = cut.find((c) => c.action === action && c.facetName === facetName);
+    if (!entry) {
+      entry = { action, facetName, selectors: [], functions: [] };
+      cut.push(entry);
+    }
+    entry.selectors.push(selector);
+    entry.functions.push(signatures.get(selector) ?? selector);
+  };
+
+  for (const [selector, { facetName, address }] of desired) {
+    const current = liveOwner.get(selector);
+    if (!current) {
+      addTo(FacetCutAction.Add, facetName, selector);
+    } else if (current !== address) {
+      addTo(FacetCutAction.Replace, facetName, selector);
+    }
+  }
+  for (const [selector, current] of liveOwner) {
+    // Functions defined in the diamond itself are immutable
+    if (!desired.has(selector) && current !== diamond) {
+      addTo(FacetCutAction.Remove, undefined, selector);
+    }
+  }
+
+  return { diamond, upgrades, cut };
+}
+
+/**
+ * Formats a plan for the console, resolving selectors to function signatures.
+ */
+export function formatPlan(plan: UpgradePlan, manifest: UpgradeManifest): string {
+  const lines = [`Diamond: ${plan.diamond}`];
+
+  lines.push(`Facets to deploy: ${plan.upgrades.length}`);
+  for (const upgrade of plan.upgrades) {
+    const from = upgrade.currentVersion ? `${upgrade.currentVersion} -> ` : "new ";
+    lines.push(`  ${upgrade.name} ${from}${upgrade.version}`);
+  }
+
+  lines.push(`Cut: ${plan.cut.length} entries`);
+  for (const entry of plan.cut) {
+    lines.push(`  ${FacetCutAction[entry.action]} ${entry.facetName ?? ZeroAddress}`);
+    entry.functions.forEach((fn, i) => lines.push(`    ${entry.selectors[i]}  ${fn}`));
+  }
+
+  if (manifest.init) {
+    const { contract, address, function: fn, args = [] } = manifest.init;
+    lines.push(`Init: ${contract}${address ? ` at ${address}` : ""}.${fn}(${args.map(String).join(", ")})`);
+  }
+  return lines.join("\n");
+}
+
+async function encodeInit(manifest: UpgradeManifest): Promise<[string, string]> {
+  if (!manifest.init) return [ZeroAddress, "0x"];
+
+  const { contract, address, function: fn, args = [] } = manifest.init;
+  const factory = await ethers.getContractFactory(contract);
+  const calldata = factory.interface.encodeFunctionData(fn, args);
+  if (address) return [address, calldata];
+
+  const initContract = await factory.deploy();
+  await initContract.waitForDeployment();
+  return [await initContract.getAddress(), calldata];
+}
+
+/**
+ * Deploys the upgraded facets and applies the planned cut from the default signer, which
+ * must be the diamond owner or, with cut governance enabled, a cut approver. With governance
+ * (see DiamondCutFacet.setCutGovernance) the cut is proposed instead, and has to be approved
+ * and executed with the same cut, init and calldata.
+ */
+export async function applyUpgrade(plan: UpgradePlan, manifest: UpgradeManifest): Promise<UpgradeResult> {
+  const facets: Record<string, ContractRecord> = {};
+  for (const upgrade of plan.upgrades) {
+    const facet = await ethers.deployContract(upgrade.name);
+    await facet.waitForDeployment();
+
+    const deployedVersion = await facet.getFunction(upgrade.versionFunction)();
+    if (deployedVersion !== upgrade.version) {
+      throw new Error(`${upgrade.name} reports version ${deployedVersion}, the manifest expects ${upgrade.version}`);
+    }
+    facets[upgrade.name] = await deployedContractRecord(facet, upgrade.name, { facet: true });
+  }
+
+  const cut = plan.cut.map((entry) => ({
+    facetAddress: entry.facetName ? facets[entry.facetName].address : ZeroAddress,
+    action: entry.action,
+    functionSelectors: entry.selectors
+  }));
+  const [init, calldata] = await encodeInit(manifest);
+
+  const diamondCut = await ethers.getContractAt("DiamondCutFacet", plan.diamond);
+  const [, threshold] = await diamondCut.getCutGovernance();
+  if (threshold === 0n) {
+    const receipt = (await (await diamondCut.diamondCut(cut, init, calldata)).wait())!;
+    return { facets, cut, init, calldata, receipt };
+  }
+
+  const receipt = (await (await diamondCut.proposeDiamondCut(cut, init, calldata)).wait())!;
+  const proposed = receipt.logs
+    .map((log) => diamondCut.interface.parseLog(log))
+    .find((event) => event?.name === "DiamondCutProposed");
+  return { facets, cut, init, calldata, receipt, proposalId: proposed?.args.proposalId };
+}
+
+async function main() {
+  const manifestPath = process.env.MANIFEST || path.join(__dirname, "..", "manifests", "securityToken.json");
+  const manifest = loadManifest(manifestPath);
+
+  // Defaults to the diamond registered by scripts/diamondDeploy.js
+  const diamond = process.env.DIAMOND || getAddress("Diamond");
+
+  const plan = await planUpgrade(diamond, manifest);
+  console.log(formatPlan(plan, manifest));
+
+  if (plan.cut.length === 0) {
+    console.log("\nThe diamond already matches the manifest");
+    return;
+  }
+  if (process.env.DRY_RUN) {
+    console.log("\nDry run, nothing deployed");
+    return;
+  }
+
+  const result = await applyUpgrade(plan, manifest);
+  for (const [name, { address, version }] of Object.entries(result.facets)) {
+    console.log(`${name} ${version} deployed: ${address}`);
+  }
+  console.log(`Gas used: ${result.receipt.gasUsed.toLocaleString()}`);
+
+  await recordDeployment({
+    kind: "upgrade",
+    script: "diamondUpgrade",
+    contracts: result.facets,
+    transactions: [
+      {
+        description: result.proposalId === undefined ? "diamondCut" : `proposeDiamondCut #${result.proposalId}`,
+        txHash: result.receipt.hash,
+        gasUsed: result.receipt.gasUsed.toString()
+      }
+    ],
+    details: {
+      diamond,
+      manifest: manifestPath,
+      cut: result.cut,
+      init: result.init,
+      calldata: result.calldata,
+      ...(result.proposalId !== undefined && { proposalId: result.proposalId.toString() })
+    }
+  });
+
+  if (result.proposalId !== undefined) {
+    console.log(`\nCut governance is enabled: proposed cut #${result.proposalId}`);
+    console.log("Once approved, execute it with the same arguments:");
+    console.log(JSON.stringify([result.proposalId.toString(), result.cut, result.init, result.calldata]));
+  } else {
+    console.log("\nDiamond upgraded");
+  }
+}
+
+if (require.main === module) {
+  main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error(error);
+      process.exit(1);
+    });
+}
+
+// DRY_RUN=1 npx hardhat run scripts/diamondUpgrade.ts --network <network_name>
+// MANIFEST=manifests/securityToken.json DIAMOND=<address> npx hardhat run scripts/diamondUpgrade.ts --network <network_name>
@@ -1,6 +1,6 @@
 // scripts/checkSelectors.js
 // Debug script to check function selectors for each facet
-const { ethers } = require("hardhat");
+// getSelectors and findDuplicateSelectors are also used by diamondAbi.js
 
 function getSelectors(contract) {
   const functionFragments = contract.interface.fragments.filter(f => f.type === "function");
@@ -36,6 +36,7 @@ function findDuplicateSelectors(facetSelectors) {
 }
 
 async function main() {
+  const { ethers } = require("hardhat");
   console.log("🔍 Checking Function Selectors for All Facets...\n");
 
   try {
@@ -68,6 +69,30 @@ async function main() {
     const complianceFacet = await ComplianceFacet.deploy();
     await complianceFacet.waitForDeployment();
 
+    const DocumentFacet = await ethers.getContractFactory("DocumentFacet");
+    const documentFacet = await DocumentFacet.deploy();
+    await documentFacet.waitForDeployment();
+
+    const SnapshotFacet = await ethers.getContractFactory("SnapshotFacet");
+    const snapshotFacet = await SnapshotFacet.deploy();
+    await snapshotFacet.waitForDeployment();
+
+    const DistributionFacet = await ethers.getContractFactory("DistributionFacet");
+    const distributionFacet = await DistributionFacet.deploy();
+    await distributionFacet.waitForDeployment();
+
+    const RedemptionFacet = await ethers.getContractFactory("RedemptionFacet");
+    const redemptionFacet = await RedemptionFacet.deploy();
+    await redemptionFacet.waitForDeployment();
+
+    const CouponFacet = await ethers.getContractFactory("CouponFacet");
+    const couponFacet = await CouponFacet.deploy();
+    await couponFacet.waitForDeployment();
+
+    const PartitionFacet = await ethers.getContractFactory("PartitionFacet");
+    const partitionFacet = await PartitionFacet.deploy();
+    await partitionFacet.waitForDeployment();
+
     // Get selectors for each facet
     const facetSelectors = {
       DiamondCut: getSelectors(diamondCutFacet),
@@ -76,7 +101,13 @@ async function main() {
       ERC20: getSelectors(erc20Facet),
       Minting: getSelectors(mintingFacet),
       Admin: getSelectors(adminFacet),
-      Compliance: getSelectors(complianceFacet)
+      Compliance: getSelectors(complianceFacet),
+      Document: getSelectors(documentFacet),
+      Snapshot: getSelectors(snapshotFacet),
+      Distribution: getSelectors(distributionFacet),
+      Redemption: getSelectors(redemptionFacet),
+      Coupon: getSelectors(couponFacet),
+      Partition: getSelectors(partitionFacet)
     };
 
     // Display selectors for each facet
@@ -131,6 +162,8 @@ if (require.main === module) {
 }
 
 module.exports = main;
+module.exports.getSelectors = getSelectors;
+module.exports.findDuplicateSelectors = findDuplicateSelectors;
 
  // npx hardhat run scripts/utils/checkSelectors.js
  
\ No newline at end of file
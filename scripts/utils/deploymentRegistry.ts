@@ -0,0 +1,188 @@
+// scripts/utils/deploymentRegistry.ts
+// Deployment registry: deployments/<network>.json keeps the latest address of every contract by
+// name and the full history of deployments, upgrades and token creations on that network.
+// Scripts resolve addresses with getAddress(name) instead of hard-coding them.
+import fs from "fs";
+import path from "path";
+import { ethers, network } from "hardhat";
+import { BaseContract, ContractTransactionResponse, FunctionFragment, Interface } from "ethers";
+
+const { getSelectors } = require("./checkSelectors");
+
+const DEPLOYMENTS_DIR = path.join(__dirname, "..", "..", "deployments");
+
+export interface ContractRecord {
+  /** Artifact name, e.g. "ERC20Facet" */
+  contract: string;
+  address: string;
+  /** Deployment transaction, unset for contracts deployed by another contract */
+  txHash?: string;
+  gasUsed?: string;
+  /** Version reported by a facet */
+  version?: string;
+  /** Function selectors of a facet */
+  selectors?: string[];
+}
+
+export interface TransactionRecord {
+  description: string;
+  txHash: string;
+  gasUsed: string;
+}
+
+export interface DeploymentEntry {
+  kind: "deployment" | "upgrade" | "token";
+  /** Script that made the entry, e.g. "diamondDeploy" */
+  script: string;
+  timestamp: string;
+  chainId: string;
+  deployer: string;
+  /** Contracts deployed by this entry, by name */
+  contracts: Record<string, ContractRecord>;
+  /** Other transactions sent, e.g. the diamond cut */
+  transactions: TransactionRecord[];
+  details?: Record<string, unknown>;
+  /** Set when the script failed; the contracts are then not registered as the latest */
+  error?: string;
+}
+
+export interface NetworkRegistry {
+  network: string;
+  /** Latest contract of every name */
+  contracts: Record<string, ContractRecord>;
+  history: DeploymentEntry[];
+}
+
+export type NewDeploymentEntry = Pick<DeploymentEntry, "kind" | "script" | "contracts"> &
+  Partial<Pick<DeploymentEntry, "transactions" | "details" | "error">>;
+
+export function registryPath(networkName = network.name): string {
+  return path.join(DEPLOYMENTS_DIR, `${networkName}.json`);
+}
+
+/**
+ * Reads the registry of a network, empty if nothing was deployed there yet.
+ */
+export function loadRegistry(networkName = network.name): NetworkRegistry {
+  const file = registryPath(networkName);
+  if (!fs.existsSync(file)) {
+    return { network: networkName, contracts: {}, history: [] };
+  }
+
+  const registry = JSON.parse(fs.readFileSync(file, "utf8"));
+  if (!Array.isArray(registry.history)) {
+    throw new Error(`${file} is a single deployment file from an older script, move it aside to start a registry`);
+  }
+  return registry as NetworkRegistry;
+}
+
+/**
+ * Returns the latest contract registered under a name, or undefined.
+ */
+export function findContract(name: string, networkName = network.name): ContractRecord | undefined {
+  return loadRegistry(networkName).contracts[name];
+}
+
+/**
+ * Returns the latest contract registered under a name.
+ * Throws if there is none on the network.
+ */
+export function getContract(name: string, networkName = network.name): ContractRecord {
+  const record = findContract(name, networkName);
+  if (!record) {
+    throw new Error(`No ${name} in ${path.relative(process.cwd(), registryPath(networkName))}, deploy it first`);
+  }
+  return record;
+}
+
+export function getAddress(name: string, networkName = network.name): string {
+  return getContract(name, networkName).address;
+}
+
+/**
+ * Returns the history entries, optionally only those that deployed a contract name.
+ */
+export function getHistory(name?: string, networkName = network.name): DeploymentEntry[] {
+  const { history } = loadRegistry(networkName);
+  return name ? history.filter((entry) => entry.contracts[name]) : history;
+}
+
+/**
+ * Appends an entry to the network history and, unless it failed, registers its contracts as
+ * the latest of their names.
+ */
+export async function recordDeployment(entry: NewDeploymentEntry, networkName = network.name): Promise<DeploymentEntry> {
+  const registry = loadRegistry(networkName);
+  const [deployer] = await ethers.getSigners();
+
+  const recorded: DeploymentEntry = {
+    kind: entry.kind,
+    script: entry.script,
+    timestamp: new Date().toISOString(),
+    chainId: (await ethers.provider.getNetwork()).chainId.toString(),
+    deployer: deployer.address,
+    contracts: entry.contracts,
+    transactions: entry.transactions ?? [],
+    ...(entry.details && { details: entry.details }),
+    ...(entry.error && { error: entry.error })
+  };
+
+  registry.history.push(recorded);
+  if (!recorded.error) {
+    Object.assign(registry.contracts, recorded.contracts);
+  }
+
+  fs.mkdirSync(DEPLOYMENTS_DIR, { recursive: true });
+  fs.writeFileSync(
+    registryPath(networkName),
+    JSON.stringify(registry, (key, value) => (typeof value === "bigint" ? value.toString() : value), 2) + "\n"
+  );
+  return recorded;
+}
+
+/**
+ * Returns the version getter of a facet: `version()` or `<facet>Version()`.
+ */
+export function findVersionFunction(facetInterface: Interface): FunctionFragment | undefined {
+  return facetInterface.fragments.find(
+    (fragment): fragment is FunctionFragment =>
+      fragment.type === "function" &&
+      /^(version|\w+FacetVersion)$/.test((fragment as FunctionFragment).name) &&
+      (fragment as FunctionFragment).inputs.length === 0
+  );
+}
+
+/**
+ * Builds the record of a contract deployed by a script, with its deployment transaction.
+ * Facets also get their version and function selectors.
+ */
+export async function deployedContractRecord(
+  contract: BaseContract,
+  contractName: string,
+  { facet = false } = {}
+): Promise<ContractRecord> {
+  const record: ContractRecord = { contract: contractName, address: await contract.getAddress() };
+
+  const receipt = await contract.deploymentTransaction()?.wait();
+  if (receipt) {
+    record.txHash = receipt.hash;
+    record.gasUsed = receipt.gasUsed.toString();
+  }
+
+  if (facet) {
+    const versionFunction = findVersionFunction(contract.interface);
+    if (versionFunction) {
+      record.version = await contract.getFunction(versionFunction.name)();
+    }
+    record.selectors = getSelectors(contract).map(({ selector }: { selector: string }) => selector);
+  }
+  return record;
+}
+
+/**
+ * Waits for a transaction and builds its record.
+ */
+export async function transactionRecord(description: string, tx: ContractTransactionResponse): Promise<TransactionRecord> {
+  const receipt = (await tx.wait())!;
+  return { description, txHash: receipt.hash, gasUsed: receipt.gasUsed.toString() };
+}
@@ -0,0 +1,115 @@
+// scripts/utils/diamondAbi.js
+// Merges the ABIs of every diamond facet into abi/SecurityTokenDiamond.json and generates
+// the SecurityTokenDiamond typechain type (typechain-types/diamond), so a single typed
+// contract object covers the whole diamond. Runs after every compile (see hardhat.config.ts).
+const fs = require("fs");
+const path = require("path");
+const { Interface } = require("ethers");
+const { getSelectors, findDuplicateSelectors } = require("./checkSelectors");
+
+// Facets of the standard security token diamond cut
+const DIAMOND_FACETS = [
+  "DiamondCutFacet",
+  "DiamondLoupeFacet",
+  "OwnershipFacet",
+  "ERC20Facet",
+  "MintingFacet",
+  "AdminFacet",
+  "ComplianceFacet",
+  "DocumentFacet",
+  "SnapshotFacet",
+  "DistributionFacet",
+  "RedemptionFacet",
+  "CouponFacet",
+  "PartitionFacet"
+];
+
+const ROOT = path.join(__dirname, "..", "..");
+const DIAMOND_ABI_PATH = path.join(ROOT, "abi", "SecurityTokenDiamond.json");
+const DIAMOND_TYPES_DIR = path.join(ROOT, "typechain-types", "diamond");
+
+// Files generated in DIAMOND_TYPES_DIR that scripts and the SDK import
+const DIAMOND_TYPE_FILES = ["index.ts", "SecurityTokenDiamond.ts", "factories/SecurityTokenDiamond__factory.ts"];
+
+/**
+ * Builds the merged ABI of all facets.
+ * Throws if two facets register the same function selector, or declare the same event
+ * or error with different parameters (e.g. different indexed flags).
+ */
+async function buildDiamondAbi(artifacts) {
+  const facetSelectors = {};
+  const fragments = new Map();
+
+  for (const facetName of DIAMOND_FACETS) {
+    const { abi } = await artifacts.readArtifact(facetName);
+    const facetInterface = new Interface(abi);
+    facetSelectors[facetName] = getSelectors({ interface: facetInterface });
+
+    for (const fragment of facetInterface.fragments) {
+      if (fragment.type === "constructor") continue;
+      if (fragment.type === "function" && fragment.name === "init") continue;
+
+      const key = `${fragment.type} ${fragment.format("sighash")}`;
+      const existing = fragments.get(key);
+      if (existing && existing.fragment.format("json") !== fragment.format("json")) {
+        throw new Error(`${key} differs between ${existing.facetName} and ${facetName}`);
+      }
+      if (!existing) fragments.set(key, { facetName, fragment });
+    }
+  }
+
+  const duplicates = findDuplicateSelectors(facetSelectors);
+  if (duplicates.length > 0) {
+    const list = duplicates
+      .map(({ selector, function1, function2 }) => `  ${selector}: ${function1} / ${function2}`)
+      .join("\n");
+    throw new Error(`Duplicate function selectors in the diamond facets:\n${list}`);
+  }
+
+  return [...fragments.values()].map(({ fragment }) => JSON.parse(fragment.format("json")));
+}
+
+/**
+ * Writes abi/SecurityTokenDiamond.json and regenerates its typechain type when the ABI
+ * changed or any generated file is missing (typechain-types is not tracked).
+ */
+async function writeDiamondAbi(artifacts, { quiet = false } = {}) {
+  const abi = JSON.stringify(await buildDiamondAbi(artifacts), null, 2) + "\n";
+  const changed = !fs.existsSync(DIAMOND_ABI_PATH) || fs.readFileSync(DIAMOND_ABI_PATH, "utf8") !== abi;
+  if (changed) {
+    fs.mkdirSync(path.dirname(DIAMOND_ABI_PATH), { recursive: true });
+    fs.writeFileSync(DIAMOND_ABI_PATH, abi);
+  }
+
+  const missingTypes = DIAMOND_TYPE_FILES.some((file) => !fs.existsSync(path.join(DIAMOND_TYPES_DIR, file)));
+  if (changed || missingTypes) {
+    const { runTypeChain } = require("typechain");
+    await runTypeChain({
+      cwd: ROOT,
+      filesToProcess: [DIAMOND_ABI_PATH],
+      allFiles: [DIAMOND_ABI_PATH],
+      outDir: DIAMOND_TYPES_DIR,
+      target: "ethers-v6"
+    });
+    if (!quiet) console.log(`Generated SecurityTokenDiamond ABI and typings for ${DIAMOND_FACETS.length} facets`);
+  }
+}
+
+async function main() {
+  const hre = require("hardhat");
+  await hre.run("compile", { quiet: true });
+  await writeDiamondAbi(hre.artifacts);
+}
+
+if (require.main === module) {
+  main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error(error);
+      process.exit(1);
+    });
+}
+
+module.exports = { DIAMOND_FACETS, buildDiamondAbi, writeDiamondAbi };
+
+// npx hardhat run scripts/utils/diamondAbi.js
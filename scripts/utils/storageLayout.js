@@ -0,0 +1,201 @@
+// scripts/utils/storageLayout.js
+// Compares the storage layout reported by the compiler with the committed baselines in
+// storage-layout/. Storage is append-only: fields may be added at the end of a struct or of
+// the contract storage, but never removed, reordered, retyped or inserted before others.
+const fs = require("fs");
+const path = require("path");
+
+const BASELINE_DIR = path.join(__dirname, "..", "..", "storage-layout");
+
+// Storage checked for upgrade compatibility. Struct layouts are read from StorageLayoutProbe,
+// which declares the diamond storage structs as state variables.
+const LAYOUT_TARGETS = [
+  { name: "SecurityToken", contract: "contracts/SecurityToken.sol:SecurityToken" },
+  {
+    name: "SecurityTokenStorage",
+    contract: "contracts/mocks/StorageLayoutProbe.sol:StorageLayoutProbe",
+    variable: "securityTokenStorage"
+  },
+  {
+    name: "DiamondStorage",
+    contract: "contracts/mocks/StorageLayoutProbe.sol:StorageLayoutProbe",
+    variable: "diamondStorage"
+  }
+];
+
+// Removes the AST ids from type names, e.g. t_struct(Document)1234_storage => t_struct(Document)_storage
+function normalizeType(type) {
+  return type.replace(/(t_(?:struct|enum|contract|userDefinedValueType)\(\w+\))\d+/g, "$1");
+}
+
+function normalizeField({ label, slot, offset, type }) {
+  return { label, slot, offset, type: normalizeType(type) };
+}
+
+/**
+ * Extracts a target layout from the compiler output: its fields and every type they use.
+ */
+async function extractLayout(artifacts, { contract, variable }) {
+  const buildInfo = await artifacts.getBuildInfo(contract);
+  if (!buildInfo) {
+    throw new Error(`No build info for ${contract}, compile first`);
+  }
+  const [sourceName, contractName] = contract.split(":");
+  const { storageLayout } = buildInfo.output.contracts[sourceName][contractName];
+  if (!storageLayout) {
+    throw new Error(`No storage layout for ${contract}, enable the storageLayout output`);
+  }
+
+  const allTypes = {};
+  for (const [id, type] of Object.entries(storageLayout.types ?? {})) {
+    allTypes[normalizeType(id)] = type;
+  }
+
+  let storage = storageLayout.storage.map(normalizeField);
+  if (variable) {
+    const field = storage.find(({ label }) => label === variable);
+    if (!field) {
+      throw new Error(`${contract} has no state variable ${variable}`);
+    }
+    storage = allTypes[field.type].members.map(normalizeField);
+  }
+
+  // Keep only the types reachable from the fields
+  const types = {};
+  const visit = (id) => {
+    if (!id || types[id]) return;
+    const { encoding, label, numberOfBytes, members, key, value, base } = allTypes[id];
+    types[id] = { encoding, label, numberOfBytes };
+    if (members) types[id].members = members.map(normalizeField);
+    if (key) types[id].key = normalizeType(key);
+    if (value) types[id].value = normalizeType(value);
+    if (base) types[id].base = normalizeType(base);
+    for (const child of [...(members ?? []).map((m) => m.type), key, value, base]) {
+      visit(child && normalizeType(child));
+    }
+  };
+  storage.forEach(({ type }) => visit(type));
+
+  return { contract, variable, storage, types };
+}
+
+/**
+ * Compares a layout with its baseline.
+ * @returns The incompatibilities found, empty if current only appends to the baseline
+ */
+function compareLayouts(baseline, current, name = "storage") {
+  const errors = [];
+  const compared = new Set();
+
+  const compareFields = (baseFields, currentFields, where) => {
+    for (let i = 0; i < baseFields.length; i++) {
+      const base = baseFields[i];
+      const field = currentFields[i];
+
+      if (!field) {
+        errors.push(`${where}: ${base.label} was removed`);
+        continue;
+      }
+      if (field.label !== base.label) {
+        if (!baseFields.some(({ label }) => label === field.label)) {
+          errors.push(`${where}: ${field.label} was inserted before ${base.label}`);
+        } else {
+          errors.push(`${where}: ${base.label} was reordered, found ${field.label} in its place`);
+        }
+        // Everything after this point is shifted
+        return;
+      }
+      if (field.slot !== base.slot || field.offset !== base.offset) {
+        errors.push(
+          `${where}: ${base.label} moved from slot ${base.slot} offset ${base.offset} ` +
+            `to slot ${field.slot} offset ${field.offset}`
+        );
+      }
+      compareTypes(base.type, field.type, `${where}.${base.label}`);
+    }
+  };
+
+  const compareTypes = (baseId, currentId, where) => {
+    const base = baseline.types[baseId];
+    const type = current.types[currentId];
+    if (baseId !== currentId || base.encoding !== type.encoding) {
+      errors.push(`${where}: type changed from ${base.label} to ${type.label}`);
+      return;
+    }
+    if (compared.has(baseId)) return;
+    compared.add(baseId);
+
+    if (base.members) compareFields(base.members, type.members, `${where} (${base.label})`);
+    if (base.value) compareTypes(base.value, type.value, `${where}[]`);
+    if (base.base) compareTypes(base.base, type.base, `${where}[]`);
+  };
+
+  compareFields(baseline.storage, current.storage, name);
+  return errors;
+}
+
+function baselinePath(name) {
+  return path.join(BASELINE_DIR, `${name}.json`);
+}
+
+/**
+ * Checks every target against its baseline.
+ * @param update Write the current layouts as the new baselines when they are compatible
+ * @returns The incompatibilities found, keyed by target name
+ */
+async function checkStorageLayouts(artifacts, { update = false } = {}) {
+  const results = {};
+  for (const target of LAYOUT_TARGETS) {
+    const current = await extractLayout(artifacts, target);
+    const file = baselinePath(target.name);
+    const errors = fs.existsSync(file)
+      ? compareLayouts(JSON.parse(fs.readFileSync(file, "utf8")), current, target.name)
+      : [];
+
+    if (update && errors.length === 0) {
+      fs.mkdirSync(BASELINE_DIR, { recursive: true });
+      fs.writeFileSync(file, JSON.stringify(current, null, 2) + "\n");
+    } else if (!fs.existsSync(file)) {
+      errors.push(`${target.name}: no baseline in ${path.relative(process.cwd(), file)}, run with UPDATE_BASELINE=1`);
+    }
+    results[target.name] = errors;
+  }
+  return results;
+}
+
+async function main() {
+  const hre = require("hardhat");
+  await hre.run("compile", { quiet: true });
+
+  const update = Boolean(process.env.UPDATE_BASELINE);
+  const results = await checkStorageLayouts(hre.artifacts, { update });
+
+  let failed = false;
+  for (const [name, errors] of Object.entries(results)) {
+    if (errors.length === 0) {
+      console.log(`✅ ${name}: compatible${update ? ", baseline updated" : ""}`);
+      continue;
+    }
+    failed = true;
+    console.log(`❌ ${name}: ${errors.length} incompatible change(s)`);
+    errors.forEach((error) => console.log(`   ${error}`));
+  }
+
+  if (failed) {
+    throw new Error("Storage layout is not upgrade compatible with the baseline");
+  }
+}
+
+if (require.main === module) {
+  main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error(error.message);
+      process.exit(1);
+    });
+}
+
+module.exports = { LAYOUT_TARGETS, extractLayout, compareLayouts, checkStorageLayouts };
+
+// npx hardhat run scripts/utils/storageLayout.js
+// UPDATE_BASELINE=1 npx hardhat run scripts/utils/storageLayout.js  (after appending fields)
@@ -0,0 +1,150 @@
+import { BigNumberish, ContractRunner } from "ethers";
+import { SecurityToken, SecurityToken__factory } from "../../typechain-types";
+import { SecurityTokenClient } from "./SecurityTokenClient";
+import { read, send, toTransactionRecord, toTransferCheck } from "./transactions";
+import { ROLE_IDS, Role, SecurityInfo } from "./types";
+
+/**
+ * Security token client for a `SecurityTokenProxy` created by `SecurityTokenFactory`, which
+ * delegates to the `SecurityToken` implementation.
+ */
+export class BeaconSecurityTokenClient implements SecurityTokenClient {
+  readonly kind = "beacon" as const;
+
+  private readonly token: SecurityToken;
+
+  /**
+   * @param address Address of the token proxy
+   * @param runner Signer for transactions, or provider for read-only use
+   */
+  constructor(readonly address: string, runner: ContractRunner) {
+    this.token = SecurityToken__factory.connect(address, runner);
+  }
+
+  // ERC-20
+
+  name() {
+    return read(() => this.token.name());
+  }
+
+  symbol() {
+    return read(() => this.token.symbol());
+  }
+
+  decimals() {
+    return read(() => this.token.decimals());
+  }
+
+  totalSupply() {
+    return read(() => this.token.totalSupply());
+  }
+
+  balanceOf(account: string) {
+    return read(() => this.token.balanceOf(account));
+  }
+
+  allowance(owner: string, spender: string) {
+    return read(() => this.token.allowance(owner, spender));
+  }
+
+  transfer(to: string, amount: BigNumberish) {
+    return send(() => this.token.transfer(to, amount));
+  }
+
+  transferFrom(from: string, to: string, amount: BigNumberish) {
+    return send(() => this.token.transferFrom(from, to, amount));
+  }
+
+  approve(spender: string, amount: BigNumberish) {
+    return send(() => this.token.approve(spender, amount));
+  }
+
+  // Minting
+
+  mint(to: string, amount: BigNumberish) {
+    return send(() => this.token.mint(to, amount));
+  }
+
+  // Whitelist and blacklist
+
+  addToWhitelist(account: string) {
+    return send(() => this.token.addToWhitelist(account));
+  }
+
+  removeFromWhitelist(account: string) {
+    return send(() => this.token.removeFromWhitelist(account));
+  }
+
+  isWhitelisted(account: string) {
+    return read(() => this.token.isWhitelisted(account));
+  }
+
+  addToBlacklist(account: string) {
+    return send(() => this.token.addToBlacklist(account));
+  }
+
+  removeFromBlacklist(account: string) {
+    return send(() => this.token.removeFromBlacklist(account));
+  }
+
+  isBlacklisted(account: string) {
+    return read(() => this.token.isBlacklisted(account));
+  }
+
+  // Pausing
+
+  pause() {
+    return send(() => this.token.pause());
+  }
+
+  unpause() {
+    return send(() => this.token.unpause());
+  }
+
+  paused() {
+    return read(() => this.token.paused());
+  }
+
+  // Roles
+
+  grantRole(role: Role, account: string) {
+    return send(() => this.token.grantRole(ROLE_IDS[role], account));
+  }
+
+  revokeRole(role: Role, account: string) {
+    return send(() => this.token.revokeRole(ROLE_IDS[role], account));
+  }
+
+  hasRole(role: Role, account: string) {
+    return read(() => this.token.hasRole(ROLE_IDS[role], account));
+  }
+
+  // Compliance reads
+
+  async getSecurityInfo(): Promise<SecurityInfo> {
+    const [isin, instrumentType, jurisdiction, cap] = await read(() =>
+      Promise.all([this.token.isin(), this.token.instrumentType(), this.token.jurisdiction(), this.token.cap()])
+    );
+    return { isin, instrumentType, jurisdiction, cap };
+  }
+
+  isFrozen(account: string) {
+    return read(() => this.token.isFrozen(account));
+  }
+
+  getFrozenTokens(account: string) {
+    return read(() => this.token.getFrozenTokens(account));
+  }
+
+  async canTransfer(to: string, amount: BigNumberish) {
+    return toTransferCheck(await read(() => this.token.canTransfer(to, amount, "0x")));
+  }
+
+  transactionCount() {
+    return read(() => this.token.transactionCount());
+  }
+
+  async getTransactionRecord(id: BigNumberish) {
+    return toTransactionRecord(await read(() => this.token.getTransactionRecord(id)));
+  }
+}
@@ -0,0 +1,150 @@
+import { BigNumberish, ContractRunner } from "ethers";
+import { SecurityTokenDiamond, SecurityTokenDiamond__factory } from "../../typechain-types/diamond";
+import { SecurityTokenClient } from "./SecurityTokenClient";
+import { read, send, toTransactionRecord, toTransferCheck } from "./transactions";
+import { ROLE_IDS, Role, SecurityInfo } from "./types";
+
+/**
+ * Security token client for an EIP-2535 diamond, through the merged ABI of all facets
+ * (`SecurityTokenDiamond`, generated by scripts/utils/diamondAbi.js).
+ */
+export class DiamondSecurityTokenClient implements SecurityTokenClient {
+  readonly kind = "diamond" as const;
+
+  private readonly diamond: SecurityTokenDiamond;
+
+  /**
+   * @param address Address of the diamond
+   * @param runner Signer for transactions, or provider for read-only use
+   */
+  constructor(readonly address: string, runner: ContractRunner) {
+    this.diamond = SecurityTokenDiamond__factory.connect(address, runner);
+  }
+
+  // ERC-20
+
+  name() {
+    return read(() => this.diamond.name());
+  }
+
+  symbol() {
+    return read(() => this.diamond.symbol());
+  }
+
+  decimals() {
+    return read(() => this.diamond.decimals());
+  }
+
+  totalSupply() {
+    return read(() => this.diamond.totalSupply());
+  }
+
+  balanceOf(account: string) {
+    return read(() => this.diamond.balanceOf(account));
+  }
+
+  allowance(owner: string, spender: string) {
+    return read(() => this.diamond.allowance(owner, spender));
+  }
+
+  transfer(to: string, amount: BigNumberish) {
+    return send(() => this.diamond.transfer(to, amount));
+  }
+
+  transferFrom(from: string, to: string, amount: BigNumberish) {
+    return send(() => this.diamond.transferFrom(from, to, amount));
+  }
+
+  approve(spender: string, amount: BigNumberish) {
+    return send(() => this.diamond.approve(spender, amount));
+  }
+
+  // Minting
+
+  mint(to: string, amount: BigNumberish) {
+    return send(() => this.diamond.mint(to, amount));
+  }
+
+  // Whitelist and blacklist
+
+  addToWhitelist(account: string) {
+    return send(() => this.diamond.addToWhitelist(account));
+  }
+
+  removeFromWhitelist(account: string) {
+    return send(() => this.diamond.removeFromWhitelist(account));
+  }
+
+  isWhitelisted(account: string) {
+    return read(() => this.diamond.isWhitelisted(account));
+  }
+
+  addToBlacklist(account: string) {
+    return send(() => this.diamond.addToBlacklist(account));
+  }
+
+  removeFromBlacklist(account: string) {
+    return send(() => this.diamond.removeFromBlacklist(account));
+  }
+
+  isBlacklisted(account: string) {
+    return read(() => this.diamond.isBlacklisted(account));
+  }
+
+  // Pausing
+
+  pause() {
+    return send(() => this.diamond.pause());
+  }
+
+  unpause() {
+    return send(() => this.diamond.unpause());
+  }
+
+  paused() {
+    return read(() => this.diamond.paused());
+  }
+
+  // Roles
+
+  grantRole(role: Role, account: string) {
+    return send(() => this.diamond.grantRole(ROLE_IDS[role], account));
+  }
+
+  revokeRole(role: Role, account: string) {
+    return send(() => this.diamond.revokeRole(ROLE_IDS[role], account));
+  }
+
+  hasRole(role: Role, account: string) {
+    return read(() => this.diamond.hasRole(ROLE_IDS[role], account));
+  }
+
+  // Compliance reads
+
+  async getSecurityInfo(): Promise<SecurityInfo> {
+    const [isin, instrumentType, jurisdiction, cap] = await read(() =>
+      Promise.all([this.diamond.isin(), this.diamond.instrumentType(), this.diamond.jurisdiction(), this.diamond.cap()])
+    );
+    return { isin, instrumentType, jurisdiction, cap };
+  }
+
+  isFrozen(account: string) {
+    return read(() => this.diamond.isFrozen(account));
+  }
+
+  getFrozenTokens(account: string) {
+    return read(() => this.diamond.getFrozenTokens(account));
+  }
+
+  async canTransfer(to: string, amount: BigNumberish) {
+    return toTransferCheck(await read(() => this.diamond.canTransfer(to, amount, "0x")));
+  }
+
+  transactionCount() {
+    return read(() => this.diamond.transactionCount());
+  }
+
+  async getTransactionRecord(id: BigNumberish) {
+    return toTransactionRecord(await read(() => this.diamond.getTransactionRecord(id)));
+  }
+}
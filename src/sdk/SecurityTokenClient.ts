@@ -0,0 +1,64 @@
+import { BigNumberish, ContractTransactionReceipt } from "ethers";
+import { Role, SecurityInfo, SecurityTokenKind, TransactionRecord, TransferCheck } from "./types";
+
+/**
+ * Architecture-independent client of a security token.
+ *
+ * Implemented by `DiamondSecurityTokenClient` (EIP-2535 diamond) and
+ * `BeaconSecurityTokenClient` (`SecurityTokenProxy` in front of `SecurityToken`). Transactions
+ * resolve once mined; reverts are rethrown as the typed errors of `./errors`.
+ */
+export interface SecurityTokenClient {
+  /** Address of the token (diamond or proxy) */
+  readonly address: string;
+
+  /** Proxy architecture of the token */
+  readonly kind: SecurityTokenKind;
+
+  // ERC-20
+
+  name(): Promise<string>;
+  symbol(): Promise<string>;
+  decimals(): Promise<bigint>;
+  totalSupply(): Promise<bigint>;
+  balanceOf(account: string): Promise<bigint>;
+  allowance(owner: string, spender: string): Promise<bigint>;
+  transfer(to: string, amount: BigNumberish): Promise<ContractTransactionReceipt>;
+  transferFrom(from: string, to: string, amount: BigNumberish): Promise<ContractTransactionReceipt>;
+  approve(spender: string, amount: BigNumberish): Promise<ContractTransactionReceipt>;
+
+  // Minting (MINTER_ROLE)
+
+  mint(to: string, amount: BigNumberish): Promise<ContractTransactionReceipt>;
+
+  // Whitelist and blacklist (ADMIN_ROLE)
+
+  addToWhitelist(account: string): Promise<ContractTransactionReceipt>;
+  removeFromWhitelist(account: string): Promise<ContractTransactionReceipt>;
+  isWhitelisted(account: string): Promise<boolean>;
+  addToBlacklist(account: string): Promise<ContractTransactionReceipt>;
+  removeFromBlacklist(account: string): Promise<ContractTransactionReceipt>;
+  isBlacklisted(account: string): Promise<boolean>;
+
+  // Pausing (PAUSER_ROLE)
+
+  pause(): Promise<ContractTransactionReceipt>;
+  unpause(): Promise<ContractTransactionReceipt>;
+  paused(): Promise<boolean>;
+
+  // Roles
+
+  grantRole(role: Role, account: string): Promise<ContractTransactionReceipt>;
+  revokeRole(role: Role, account: string): Promise<ContractTransactionReceipt>;
+  hasRole(role: Role, account: string): Promise<boolean>;
+
+  // Compliance reads
+
+  getSecurityInfo(): Promise<SecurityInfo>;
+  isFrozen(account: string): Promise<boolean>;
+  getFrozenTokens(account: string): Promise<bigint>;
+  /** Checks a transfer from the connected signer */
+  canTransfer(to: string, amount: BigNumberish): Promise<TransferCheck>;
+  transactionCount(): Promise<bigint>;
+  getTransactionRecord(id: BigNumberish): Promise<TransactionRecord>;
+}
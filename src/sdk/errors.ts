@@ -0,0 +1,232 @@
+import { ErrorFragment, Interface, Result } from "ethers";
+import {
+  DiamondFactory__factory,
+  DiamondInit__factory,
+  Diamond__factory,
+  SecurityTokenFactory__factory,
+  SecurityToken__factory,
+} from "../../typechain-types";
+import { SecurityTokenDiamond__factory } from "../../typechain-types/diamond";
+
+/**
+ * Every custom error of the security token contracts (both architectures and both
+ * factories), keyed by selector. Errors declared in several contracts share a selector.
+ */
+const errorInterface = Interface.from(
+  [
+    SecurityToken__factory.abi,
+    SecurityTokenFactory__factory.abi,
+    Diamond__factory.abi,
+    DiamondFactory__factory.abi,
+    DiamondInit__factory.abi,
+    SecurityTokenDiamond__factory.abi,
+  ]
+    .flat()
+    .filter((fragment) => fragment.type === "error")
+    .map((fragment) => ErrorFragment.from(fragment))
+    .filter((fragment, i, all) => all.findIndex((f) => f.selector === fragment.selector) === i)
+);
+
+/**
+ * A custom error reverted by a security token contract.
+ *
+ * Errors with a dedicated subclass below are raised as that subclass; every other custom
+ * error is raised as a plain `SecurityTokenError` carrying its name and arguments.
+ */
+export class SecurityTokenError extends Error {
+  constructor(
+    /** Name of the Solidity error, e.g. "SenderNotWhitelisted" */
+    readonly errorName: string,
+    /** Decoded error arguments, accessible by position and by name */
+    readonly args: Result,
+    /** Four-byte error selector */
+    readonly selector: string,
+    /** The error thrown by ethers */
+    readonly cause?: unknown
+  ) {
+    super(`${errorName}(${args.map(String).join(", ")})`);
+    this.name = new.target.name;
+  }
+
+  protected arg<T>(name: string): T {
+    return this.args.getValue(name) as T;
+  }
+}
+
+// Access control
+
+export class UnauthorizedRoleError extends SecurityTokenError {
+  get caller(): string { return this.arg("caller"); }
+  get requiredRole(): string { return this.arg("requiredRole"); }
+}
+
+export class AccessControlUnauthorizedAccountError extends SecurityTokenError {
+  get account(): string { return this.arg("account"); }
+  get neededRole(): string { return this.arg("neededRole"); }
+}
+
+// Whitelist, blacklist and freezing
+
+export class SenderNotWhitelistedError extends SecurityTokenError {
+  get sender(): string { return this.arg("sender"); }
+}
+
+export class RecipientNotWhitelistedError extends SecurityTokenError {
+  get recipient(): string { return this.arg("recipient"); }
+}
+
+export class SenderBlacklistedError extends SecurityTokenError {
+  get sender(): string { return this.arg("sender"); }
+}
+
+export class RecipientBlacklistedError extends SecurityTokenError {
+  get recipient(): string { return this.arg("recipient"); }
+}
+
+export class SenderFrozenError extends SecurityTokenError {
+  get sender(): string { return this.arg("sender"); }
+}
+
+export class RecipientFrozenError extends SecurityTokenError {
+  get recipient(): string { return this.arg("recipient"); }
+}
+
+// Balances and supply
+
+export class ERC20InsufficientBalanceError extends SecurityTokenError {
+  get sender(): string { return this.arg("sender"); }
+  get balance(): bigint { return this.arg("balance"); }
+  get needed(): bigint { return this.arg("needed"); }
+}
+
+export class InsufficientUnfrozenBalanceError extends SecurityTokenError {
+  get sender(): string { return this.arg("sender"); }
+  get unfrozenBalance(): bigint { return this.arg("unfrozenBalance"); }
+  get needed(): bigint { return this.arg("needed"); }
+}
+
+export class InsufficientUnlockedBalanceError extends SecurityTokenError {
+  get sender(): string { return this.arg("sender"); }
+  get unlockedBalance(): bigint { return this.arg("unlockedBalance"); }
+  get needed(): bigint { return this.arg("needed"); }
+}
+
+export class InsufficientBalanceForReversalError extends SecurityTokenError {
+  get account(): string { return this.arg("account"); }
+  get required(): bigint { return this.arg("required"); }
+  get available(): bigint { return this.arg("available"); }
+}
+
+/** Diamond minting above the cap */
+export class CapExceededError extends SecurityTokenError {
+  get totalSupply(): bigint { return this.arg("totalSupply"); }
+  get amount(): bigint { return this.arg("amount"); }
+  get cap(): bigint { return this.arg("cap"); }
+}
+
+/** Beacon (ERC20Capped) minting above the cap */
+export class ERC20ExceededCapError extends SecurityTokenError {
+  get increasedSupply(): bigint { return this.arg("increasedSupply"); }
+  get cap(): bigint { return this.arg("cap"); }
+}
+
+// Pausing
+
+/** Beacon token paused (ERC20Pausable) */
+export class EnforcedPauseError extends SecurityTokenError {}
+
+/** Diamond token paused */
+export class ERC20TokenTransferPausedError extends SecurityTokenError {}
+
+// Compliance rules
+
+export class CountryRestrictedError extends SecurityTokenError {
+  get to(): string { return this.arg("to"); }
+  get country(): bigint { return this.arg("country"); }
+}
+
+export class MaxHoldersExceededError extends SecurityTokenError {
+  get holderCount(): bigint { return this.arg("holderCount"); }
+  get maxHolders(): bigint { return this.arg("maxHolders"); }
+}
+
+export class ComplianceModuleRejectedError extends SecurityTokenError {
+  get module(): string { return this.arg("module"); }
+  get from(): string { return this.arg("from"); }
+  get to(): string { return this.arg("to"); }
+  get amount(): bigint { return this.arg("amount"); }
+}
+
+export class InvalidISINError extends SecurityTokenError {
+  get isin(): string { return this.arg("isin"); }
+}
+
+type SecurityTokenErrorClass = new (
+  errorName: string,
+  args: Result,
+  selector: string,
+  cause?: unknown
+) => SecurityTokenError;
+
+const errorClasses: Record<string, SecurityTokenErrorClass> = {
+  UnauthorizedRole: UnauthorizedRoleError,
+  AccessControlUnauthorizedAccount: AccessControlUnauthorizedAccountError,
+  SenderNotWhitelisted: SenderNotWhitelistedError,
+  RecipientNotWhitelisted: RecipientNotWhitelistedError,
+  SenderBlacklisted: SenderBlacklistedError,
+  RecipientBlacklisted: RecipientBlacklistedError,
+  SenderFrozen: SenderFrozenError,
+  RecipientFrozen: RecipientFrozenError,
+  ERC20InsufficientBalance: ERC20InsufficientBalanceError,
+  InsufficientUnfrozenBalance: InsufficientUnfrozenBalanceError,
+  InsufficientUnlockedBalance: InsufficientUnlockedBalanceError,
+  InsufficientBalanceForReversal: InsufficientBalanceForReversalError,
+  CapExceeded: CapExceededError,
+  ERC20ExceededCap: ERC20ExceededCapError,
+  EnforcedPause: EnforcedPauseError,
+  ERC20TokenTransferPaused: ERC20TokenTransferPausedError,
+  CountryRestricted: CountryRestrictedError,
+  MaxHoldersExceeded: MaxHoldersExceededError,
+  ComplianceModuleRejected: ComplianceModuleRejectedError,
+  InvalidISIN: InvalidISINError,
+};
+
+/**
+ * Finds the revert data in an error thrown by ethers or by the provider it wraps.
+ */
+function findRevertData(error: unknown, depth = 0): string | undefined {
+  if (depth > 4 || typeof error !== "object" || error === null) return undefined;
+
+  const { data, error: inner, info } = error as { data?: unknown; error?: unknown; info?: { error?: unknown } };
+  if (typeof data === "string" && data.startsWith("0x") && data.length >= 10) return data;
+  if (typeof data === "object") {
+    const nested = findRevertData(data, depth + 1);
+    if (nested) return nested;
+  }
+  return findRevertData(inner, depth + 1) ?? findRevertData(info?.error, depth + 1);
+}
+
+/**
+ * Decodes the custom error of a reverted call.
+ *
+ * @param error The error thrown by ethers
+ * @returns The typed error, or undefined if the revert data is not a known custom error
+ */
+export function decodeSecurityTokenError(error: unknown): SecurityTokenError | undefined {
+  const data = findRevertData(error);
+  if (!data) return undefined;
+
+  const parsed = errorInterface.parseError(data);
+  if (!parsed) return undefined;
+
+  const ErrorClass = errorClasses[parsed.name] ?? SecurityTokenError;
+  return new ErrorClass(parsed.name, parsed.args, parsed.selector, error);
+}
+
+/**
+ * Returns the typed error for a reverted call, or the original error if it is not a
+ * custom error of the security token contracts.
+ */
+export function toSecurityTokenError(error: unknown): unknown {
+  return decodeSecurityTokenError(error) ?? error;
+}
@@ -0,0 +1,28 @@
+import { ContractRunner } from "ethers";
+import { BeaconSecurityTokenClient } from "./BeaconSecurityTokenClient";
+import { DiamondSecurityTokenClient } from "./DiamondSecurityTokenClient";
+import { SecurityTokenClient } from "./SecurityTokenClient";
+import { SecurityTokenKind } from "./types";
+
+export * from "./errors";
+export * from "./types";
+export { SecurityTokenClient } from "./SecurityTokenClient";
+export { BeaconSecurityTokenClient } from "./BeaconSecurityTokenClient";
+export { DiamondSecurityTokenClient } from "./DiamondSecurityTokenClient";
+
+/**
+ * Creates the client for a token of the given architecture.
+ *
+ * @param kind "diamond" for an EIP-2535 diamond, "beacon" for a SecurityTokenFactory proxy
+ * @param address Address of the token
+ * @param runner Signer for transactions, or provider for read-only use
+ */
+export function connectSecurityToken(
+  kind: SecurityTokenKind,
+  address: string,
+  runner: ContractRunner
+): SecurityTokenClient {
+  return kind === "diamond"
+    ? new DiamondSecurityTokenClient(address, runner)
+    : new BeaconSecurityTokenClient(address, runner);
+}
@@ -0,0 +1,48 @@
+import { ContractTransactionReceipt, ContractTransactionResponse, decodeBytes32String, ZeroHash } from "ethers";
+import { toSecurityTokenError } from "./errors";
+import { TRANSFER_SUCCESS, TransactionRecord, TransferCheck } from "./types";
+
+/**
+ * Waits for a transaction to be mined, rethrowing reverts as typed errors.
+ */
+export async function send(transaction: () => Promise<ContractTransactionResponse>): Promise<ContractTransactionReceipt> {
+  try {
+    const response = await transaction();
+    return (await response.wait()) as ContractTransactionReceipt;
+  } catch (error) {
+    throw toSecurityTokenError(error);
+  }
+}
+
+/**
+ * Runs a view call, rethrowing reverts as typed errors.
+ */
+export async function read<T>(call: () => Promise<T>): Promise<T> {
+  try {
+    return await call();
+  } catch (error) {
+    throw toSecurityTokenError(error);
+  }
+}
+
+/** Converts the (status, reason) pair returned by canTransfer */
+export function toTransferCheck([status, reason]: [string, string]): TransferCheck {
+  return {
+    allowed: status === TRANSFER_SUCCESS,
+    status,
+    reason: reason === ZeroHash ? "" : decodeBytes32String(reason),
+  };
+}
+
+/** Converts a TransactionRecord struct returned by the token */
+export function toTransactionRecord(record: {
+  id: bigint;
+  from: string;
+  to: string;
+  amount: bigint;
+  timestamp: bigint;
+  forced: boolean;
+}): TransactionRecord {
+  const { id, from, to, amount, timestamp, forced } = record;
+  return { id, from, to, amount, timestamp, forced };
+}
@@ -0,0 +1,47 @@
+import { ZeroHash, id } from "ethers";
+
+/** Roles shared by the Diamond and Beacon security tokens */
+export type Role = "DEFAULT_ADMIN_ROLE" | "ADMIN_ROLE" | "MINTER_ROLE" | "PAUSER_ROLE" | "CONTROLLER_ROLE";
+
+/** bytes32 identifier of each role, identical in both architectures */
+export const ROLE_IDS: Record<Role, string> = {
+  DEFAULT_ADMIN_ROLE: ZeroHash,
+  ADMIN_ROLE: id("ADMIN_ROLE"),
+  MINTER_ROLE: id("MINTER_ROLE"),
+  PAUSER_ROLE: id("PAUSER_ROLE"),
+  CONTROLLER_ROLE: id("CONTROLLER_ROLE"),
+};
+
+/** Which proxy architecture a token is deployed with */
+export type SecurityTokenKind = "diamond" | "beacon";
+
+/** Financial instrument metadata of a token */
+export interface SecurityInfo {
+  isin: string;
+  instrumentType: string;
+  jurisdiction: string;
+  cap: bigint;
+}
+
+/** A transfer recorded by the token for compliance */
+export interface TransactionRecord {
+  id: bigint;
+  from: string;
+  to: string;
+  amount: bigint;
+  timestamp: bigint;
+  forced: boolean;
+}
+
+/** Result of an ERC-1400 style transfer check */
+export interface TransferCheck {
+  /** True when the transfer would succeed (status code 0x51) */
+  allowed: boolean;
+  /** ERC-1066 status code, e.g. "0x51" (success) or "0x50" (failure) */
+  status: string;
+  /** Reason of a failed check, e.g. "SENDER_NOT_WHITELISTED" (empty when allowed) */
+  reason: string;
+}
+
+/** ERC-1066 status code of a transfer check that passes */
+export const TRANSFER_SUCCESS = "0x51";
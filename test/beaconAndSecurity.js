@@ -1,5 +1,6 @@
 const { expect } = require("chai");
 const { ethers } = require("hardhat");
+const { time } = require("@nomicfoundation/hardhat-network-helpers");
 
 describe("SecurityToken (BeaconProxy architecture)", function () {
   let SecurityToken;
@@ -15,7 +16,7 @@ describe("SecurityToken (BeaconProxy architecture)", function () {
     name: "TestBond",
     symbol: "TBND",
     cap: ethers.parseUnits("1000000", 18),
-    isin: "ISIN1234567890",
+    isin: "ES0123456784",
     instrumentType: "bond",
     jurisdiction: "ES"
   };
@@ -82,7 +83,7 @@ it("should deploy a new token contract using the factory", async function () {
     initParams.name,
     initParams.symbol,
     initParams.cap,
-    initParams.isin,
+    "ES0000000010", // each ISIN can only be used once
     initParams.instrumentType,
     initParams.jurisdiction,
     admin.address,
@@ -138,4 +139,307 @@ it("should allow minting and transferring if whitelisted", async function () {
       bond.connect(user1).transfer(user2.address, ethers.parseUnits("100", 18))
     ).to.be.revertedWithCustomError(bond, "RecipientNotWhitelisted");
   });
+
+  it("should allow a controller to force a transfer to a non-whitelisted holder", async function () {
+    const reasonCode = ethers.encodeBytes32String("COURT_ORDER");
+    const amount = ethers.parseUnits("100", 18);
+
+    await expect(
+      bond.forcedTransfer(user1.address, user2.address, amount, reasonCode, "0x")
+    ).to.emit(bond, "ControllerTransfer")
+      .withArgs(admin.address, user1.address, user2.address, amount, reasonCode, "0x");
+    expect(await bond.balanceOf(user2.address)).to.equal(amount);
+
+    const txData = await bond.getTransactionRecord(await bond.transactionCount());
+    expect(txData.from).to.equal(user1.address);
+    expect(txData.to).to.equal(user2.address);
+    expect(txData.forced).to.be.true;
+  });
+
+  it("should not allow forced transfers without CONTROLLER_ROLE", async function () {
+    await expect(
+      bond.connect(user1).forcedTransfer(user2.address, user1.address, 1, ethers.ZeroHash, "0x")
+    ).to.be.revertedWithCustomError(bond, "AccessControlUnauthorizedAccount");
+  });
+
+  it("should only allow transferring the unfrozen part of a balance", async function () {
+    const balance = await bond.balanceOf(user1.address);
+    const frozenAmount = balance - ethers.parseUnits("50", 18);
+
+    await bond.freezePartialTokens(user1.address, frozenAmount);
+    expect(await bond.getFrozenTokens(user1.address)).to.equal(frozenAmount);
+
+    await expect(
+      bond.connect(user1).transfer(admin.address, ethers.parseUnits("51", 18))
+    ).to.be.revertedWithCustomError(bond, "InsufficientUnfrozenBalance");
+
+    await bond.connect(user1).transfer(admin.address, ethers.parseUnits("50", 18));
+    expect(await bond.balanceOf(user1.address)).to.equal(frozenAmount);
+
+    await bond.unfreezePartialTokens(user1.address, frozenAmount);
+    expect(await bond.getFrozenTokens(user1.address)).to.equal(0);
+  });
+
+  it("should block frozen accounts from sending and receiving", async function () {
+    await bond.freezeAccount(admin.address);
+    expect(await bond.isFrozen(admin.address)).to.be.true;
+
+    await expect(
+      bond.connect(user1).transfer(admin.address, ethers.parseUnits("1", 18))
+    ).to.be.revertedWithCustomError(bond, "RecipientFrozen");
+    await expect(
+      bond.transfer(user1.address, ethers.parseUnits("1", 18))
+    ).to.be.revertedWithCustomError(bond, "SenderFrozen");
+
+    await bond.unfreezeAccount(admin.address);
+    await bond.transfer(user1.address, ethers.parseUnits("1", 18));
+  });
+
+  it("should revert a transaction out of a frozen account, releasing its frozen tokens", async function () {
+    const amount = ethers.parseUnits("10", 18);
+    await bond.connect(user1).transfer(admin.address, amount);
+    const transactionId = await bond.transactionCount();
+
+    const balance = await bond.balanceOf(admin.address);
+    await bond.freezePartialTokens(admin.address, balance);
+    await bond.freezeAccount(admin.address);
+
+    await expect(bond.revertTransaction(transactionId))
+      .to.emit(bond, "TokensUnfrozen").withArgs(admin.address, amount)
+      .and.to.emit(bond, "TransactionReverted").withArgs(transactionId, admin.address);
+    expect(await bond.balanceOf(admin.address)).to.equal(balance - amount);
+    expect(await bond.getFrozenTokens(admin.address)).to.equal(balance - amount);
+
+    await bond.unfreezeAccount(admin.address);
+    await bond.unfreezePartialTokens(admin.address, balance - amount);
+  });
+
+  it("should report whether a transfer would succeed", async function () {
+    const amount = ethers.parseUnits("1", 18);
+
+    expect(await bond.canTransfer(user1.address, amount, "0x"))
+      .to.deep.equal(["0x51", ethers.ZeroHash]);
+    expect(await bond.canTransfer(user2.address, amount, "0x"))
+      .to.deep.equal(["0x57", ethers.encodeBytes32String("RECIPIENT_NOT_WHITELISTED")]);
+    expect(await bond.connect(user2).canTransferFrom(admin.address, user1.address, amount, "0x"))
+      .to.deep.equal(["0x53", ethers.encodeBytes32String("INSUFFICIENT_ALLOWANCE")]);
+  });
+
+  it("should manage the document registry", async function () {
+    const name = ethers.encodeBytes32String("PROSPECTUS");
+    const documentHash = ethers.keccak256(ethers.toUtf8Bytes("prospectus"));
+
+    await expect(bond.setDocument(name, "ipfs://prospectus", documentHash))
+      .to.emit(bond, "DocumentUpdated")
+      .withArgs(name, "ipfs://prospectus", documentHash);
+    expect(await bond.getAllDocuments()).to.deep.equal([name]);
+    expect((await bond.getDocument(name))[1]).to.equal(documentHash);
+
+    await expect(bond.removeDocument(name)).to.emit(bond, "DocumentRemoved");
+    expect(await bond.getAllDocuments()).to.deep.equal([]);
+  });
+
+  it("should set allowances from EIP-2612 permits", async function () {
+    const amount = ethers.parseUnits("5", 18);
+    const deadline = ethers.MaxUint256;
+    const domain = {
+      name: await bond.name(),
+      version: "1",
+      chainId: (await ethers.provider.getNetwork()).chainId,
+      verifyingContract: await bond.getAddress()
+    };
+    expect(await bond.DOMAIN_SEPARATOR()).to.equal(ethers.TypedDataEncoder.hashDomain(domain));
+
+    const signature = ethers.Signature.from(await user1.signTypedData(domain, {
+      Permit: [
+        { name: "owner", type: "address" },
+        { name: "spender", type: "address" },
+        { name: "value", type: "uint256" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" }
+      ]
+    }, { owner: user1.address, spender: user2.address, value: amount, nonce: 0, deadline }));
+
+    await bond.connect(user2).permit(user1.address, user2.address, amount, deadline, signature.v, signature.r, signature.s);
+    expect(await bond.allowance(user1.address, user2.address)).to.equal(amount);
+    expect(await bond.nonces(user1.address)).to.equal(1);
+  });
+
+  it("should execute admin actions signed by an off-line key", async function () {
+    const amount = ethers.parseUnits("10", 18);
+    const deadline = ethers.MaxUint256;
+    const domain = {
+      name: await bond.name(),
+      version: "1",
+      chainId: (await ethers.provider.getNetwork()).chainId,
+      verifyingContract: await bond.getAddress()
+    };
+    const types = {
+      Mint: [
+        { name: "to", type: "address" },
+        { name: "amount", type: "uint256" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" }
+      ]
+    };
+    const value = { to: user1.address, amount, nonce: await bond.nonces(admin.address), deadline };
+    const signature = ethers.Signature.from(await admin.signTypedData(domain, types, value));
+    const balanceBefore = await bond.balanceOf(user1.address);
+
+    await bond.connect(user2).mintBySig(user1.address, amount, admin.address, deadline, signature.v, signature.r, signature.s);
+    expect(await bond.balanceOf(user1.address)).to.equal(balanceBefore + amount);
+
+    await expect(
+      bond.connect(user2).mintBySig(user1.address, amount, admin.address, deadline, signature.v, signature.r, signature.s)
+    ).to.be.revertedWithCustomError(bond, "InvalidSigner");
+  });
+
+  describe("Factory", function () {
+    function encodeInit(overrides = {}) {
+      const params = { ...initParams, admin: admin.address, ...overrides };
+      return securityTokenImpl.interface.encodeFunctionData("initialize", [
+        params.name,
+        params.symbol,
+        params.cap,
+        params.isin,
+        params.instrumentType,
+        params.jurisdiction,
+        params.admin,
+      ]);
+    }
+
+    it("should track the tokens created for each beneficiary", async function () {
+      await factory.createToken(encodeInit({ isin: "ES0000000002" }), user2.address);
+      await factory.createToken(encodeInit({ isin: "ES0000000028" }), user2.address);
+      const total = await factory.totalOfTokensCreated();
+      const first = await factory.deployedTokens(total - 2n);
+      const second = await factory.deployedTokens(total - 1n);
+
+      expect(await factory.getTokensByBeneficiary(user2.address)).to.deep.equal([first, second]);
+      expect(await factory.getTokensByBeneficiaryPaginated(user2.address, 1, 10)).to.deep.equal([[second], 2n]);
+      expect(await factory.getTokensByBeneficiaryPaginated(user2.address, 2, 10)).to.deep.equal([[], 2n]);
+      expect(await factory.beneficiaryOfToken(first)).to.equal(user2.address);
+      expect(await factory.getTokensByBeneficiary(user1.address)).to.include(bondAddress);
+    });
+
+    it("should validate the initializer arguments before deploying", async function () {
+      await expect(factory.createToken(encodeInit({ isin: "" }), user2.address))
+        .to.be.revertedWithCustomError(factory, "EmptyISIN");
+      await expect(factory.createToken(encodeInit({ cap: 0 }), user2.address))
+        .to.be.revertedWithCustomError(factory, "InvalidCap");
+      await expect(factory.createToken(encodeInit({ admin: ethers.ZeroAddress }), user2.address))
+        .to.be.revertedWithCustomError(factory, "InvalidAdminAddress");
+
+      const pauseData = securityTokenImpl.interface.encodeFunctionData("pause");
+      await expect(factory.createToken(pauseData, user2.address))
+        .to.be.revertedWithCustomError(factory, "InvalidInitializer")
+        .withArgs(pauseData);
+    });
+
+    it("should reject ISINs with an invalid format or check digit", async function () {
+      for (const isin of ["ES0000000003", "es0000000002", "ES000000002", "1S0000000002", "ES00000000-2"]) {
+        await expect(factory.createToken(encodeInit({ isin }), user2.address))
+          .to.be.revertedWithCustomError(securityTokenImpl, "InvalidISIN")
+          .withArgs(isin);
+      }
+      expect(await factory.getTokenByIsin("ES0000000003")).to.equal(ethers.ZeroAddress);
+    });
+
+    it("should deploy tokens at the predicted CREATE2 address", async function () {
+      const isin = "ES0000000036";
+      const initData = encodeInit({ isin });
+      const salt = ethers.keccak256(ethers.toUtf8Bytes(isin));
+      const predicted = await factory.predictTokenAddress(salt, initData);
+
+      await expect(factory.createTokenDeterministic(initData, user2.address, salt))
+        .to.emit(factory, "TokenCreated")
+        .withArgs(predicted, user2.address, await factory.totalOfTokensCreated());
+      expect(await factory.getTokenByIsin(isin)).to.equal(predicted);
+      expect(await (await ethers.getContractAt("SecurityToken", predicted)).isin()).to.equal(isin);
+    });
+
+    it("should reject a second token for the same ISIN", async function () {
+      await expect(factory.createToken(encodeInit({ isin: "ES0000000036" }), user2.address))
+        .to.be.revertedWithCustomError(factory, "DuplicateISIN")
+        .withArgs("ES0000000036", await factory.tokenByISIN("ES0000000036"));
+      await expect(factory.createTokenDeterministic(encodeInit(), user2.address, ethers.ZeroHash))
+        .to.be.revertedWithCustomError(factory, "DuplicateISIN");
+    });
+  });
+
+  describe("Upgrade governance", function () {
+    const beaconSlot = "0xa3f0ad74e5423aebfd80d3ef4346578335a9a72aeaee59ff6cb3582b35133d50";
+    let newImplementation;
+
+    async function beaconOf(token) {
+      return ethers.getAddress("0x" + (await ethers.provider.getStorage(token, beaconSlot)).slice(26));
+    }
+
+    before(async function () {
+      await beacon.transferOwnership(await factory.getAddress());
+      newImplementation = await (await ethers.getContractFactory("SecurityTokenV2")).deploy();
+      await newImplementation.waitForDeployment();
+    });
+
+    it("should only upgrade the shared beacon after the announced delay", async function () {
+      const implementation = await newImplementation.getAddress();
+
+      await expect(factory.connect(user1).announceUpgrade(implementation))
+        .to.be.revertedWithCustomError(factory, "OwnableUnauthorizedAccount");
+      await expect(factory.announceUpgrade(user1.address))
+        .to.be.revertedWithCustomError(factory, "InvalidImplementation");
+
+      await expect(factory.announceUpgrade(implementation)).to.emit(factory, "UpgradeAnnounced");
+      await expect(factory.executeUpgrade()).to.be.revertedWithCustomError(factory, "UpgradeNotReady");
+    });
+
+    it("should only pin a token through the factory that created it", async function () {
+      expect(await bond.factory()).to.equal(await factory.getAddress());
+
+      const fakeFactory = await (await ethers.getContractFactory("FakeSecurityTokenFactory"))
+        .deploy(await newImplementation.getAddress());
+      const pinWith = new ethers.Interface(["function pinImplementation(address factory)"]);
+      await expect(admin.sendTransaction({
+        to: bondAddress,
+        data: pinWith.encodeFunctionData("pinImplementation", [await fakeFactory.getAddress()])
+      })).to.be.reverted;
+      expect(await beaconOf(bondAddress)).to.equal(await beacon.getAddress());
+    });
+
+    it("should let an issuer pin its token to the current implementation", async function () {
+      const oldImplementation = await beacon.implementation();
+
+      await expect(bond.connect(user1).pinImplementation())
+        .to.be.revertedWithCustomError(bond, "AccessControlUnauthorizedAccount");
+      await expect(factory.createDedicatedBeacon())
+        .to.be.revertedWithCustomError(factory, "TokenNotCreatedByFactory");
+
+      await expect(bond.pinImplementation()).to.emit(factory, "TokenPinned");
+      const dedicatedBeacon = await factory.getTokenBeacon(bondAddress);
+      expect(await beaconOf(bondAddress)).to.equal(dedicatedBeacon);
+
+      await time.increase(await factory.MIN_UPGRADE_DELAY());
+      await expect(factory.executeUpgrade())
+        .to.emit(factory, "UpgradeExecuted")
+        .withArgs(await newImplementation.getAddress());
+
+      expect(await beacon.implementation()).to.equal(await newImplementation.getAddress());
+      const pinnedBeacon = await ethers.getContractAt("UpgradeableBeacon", dedicatedBeacon);
+      expect(await pinnedBeacon.implementation()).to.equal(oldImplementation);
+
+      // The pinned token still runs the old implementation
+      const bondV2 = await ethers.getContractAt("SecurityTokenV2", bondAddress);
+      await expect(bondV2.isV2()).to.be.reverted;
+      expect(await bond.name()).to.equal(initParams.name);
+    });
+
+    it("should move a pinned token back onto the shared beacon", async function () {
+      await expect(bond.unpinImplementation()).to.emit(factory, "TokenUnpinned");
+      expect(await beaconOf(bondAddress)).to.equal(await beacon.getAddress());
+      expect(await factory.getTokenBeacon(bondAddress)).to.equal(await beacon.getAddress());
+      expect(await (await ethers.getContractAt("SecurityTokenV2", bondAddress)).isV2()).to.be.true;
+      await expect(bond.unpinImplementation())
+        .to.be.revertedWithCustomError(factory, "TokenNotPinned");
+    });
+  });
 });
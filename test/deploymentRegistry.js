@@ -0,0 +1,81 @@
+const { expect } = require("chai");
+const { ethers } = require("hardhat");
+const fs = require("fs");
+const path = require("path");
+const {
+  registryPath,
+  loadRegistry,
+  getAddress,
+  getHistory,
+  recordDeployment,
+  deployedContractRecord,
+  transactionRecord
+} = require("../scripts/utils/deploymentRegistry");
+
+// Written under deployments/ like a real network, removed afterwards
+const NETWORK = "registry-test";
+
+describe("Deployment registry", function () {
+  after(function () {
+    fs.rmSync(registryPath(NETWORK), { force: true });
+  });
+
+  it("should record a deployment with facet versions, selectors, tx hashes and gas", async function () {
+    const facet = await ethers.deployContract("MintingFacet");
+    const record = await deployedContractRecord(facet, "MintingFacet", { facet: true });
+
+    expect(record.address).to.equal(await facet.getAddress());
+    expect(record.txHash).to.equal(facet.deploymentTransaction().hash);
+    expect(BigInt(record.gasUsed)).to.be.greaterThan(0n);
+    expect(record.version).to.equal("1.1.0");
+    expect(record.selectors).to.include(facet.interface.getFunction("mint").selector);
+
+    const entry = await recordDeployment({ kind: "deployment", script: "test", contracts: { MintingFacet: record } }, NETWORK);
+    expect(entry.chainId).to.equal("31337");
+    expect(getAddress("MintingFacet", NETWORK)).to.equal(record.address);
+  });
+
+  it("should keep the history and resolve the latest address by name", async function () {
+    const first = getAddress("MintingFacet", NETWORK);
+    const facet = await ethers.deployContract("MintingFacet");
+    const [owner] = await ethers.getSigners();
+    const token = await ethers.deployContract("MockERC20", ["Mock", "MCK"]);
+
+    await recordDeployment({
+      kind: "upgrade",
+      script: "test",
+      contracts: { MintingFacet: await deployedContractRecord(facet, "MintingFacet", { facet: true }) },
+      transactions: [await transactionRecord("mint", await token.mint(owner.address, 1n))]
+    }, NETWORK);
+
+    expect(getAddress("MintingFacet", NETWORK)).to.equal(await facet.getAddress());
+    const history = getHistory("MintingFacet", NETWORK);
+    expect(history.map(({ kind }) => kind)).to.deep.equal(["deployment", "upgrade"]);
+    expect(history[0].contracts.MintingFacet.address).to.equal(first);
+    expect(history[1].transactions[0].description).to.equal("mint");
+  });
+
+  it("should not register the contracts of a failed run as the latest", async function () {
+    await recordDeployment({
+      kind: "deployment",
+      script: "test",
+      contracts: { MintingFacet: { contract: "MintingFacet", address: ethers.ZeroAddress } },
+      error: "reverted"
+    }, NETWORK);
+
+    expect(getHistory(undefined, NETWORK)).to.have.lengthOf(3);
+    expect(getAddress("MintingFacet", NETWORK)).to.not.equal(ethers.ZeroAddress);
+  });
+
+  it("should fail to resolve unknown names and old single deployment files", async function () {
+    expect(() => getAddress("DiamondFactory", NETWORK)).to.throw("No DiamondFactory in");
+
+    const legacy = registryPath(`${NETWORK}-legacy`);
+    fs.writeFileSync(legacy, JSON.stringify({ network: NETWORK, contracts: { diamond: ethers.ZeroAddress } }));
+    try {
+      expect(() => loadRegistry(`${NETWORK}-legacy`)).to.throw(`${path.basename(legacy)} is a single deployment file`);
+    } finally {
+      fs.rmSync(legacy);
+    }
+  });
+});
@@ -1,5 +1,6 @@
 const { expect } = require("chai");
 const { ethers } = require("hardhat");
+const { time, setStorageAt } = require("@nomicfoundation/hardhat-network-helpers");
 
 describe("SecurityToken (Diamond architecture)", function () {
   let DiamondInit;
@@ -12,6 +13,18 @@ describe("SecurityToken (Diamond architecture)", function () {
   let adminFacet;
   let ComplianceFacet;
   let complianceFacet;
+  let DocumentFacet;
+  let documentFacet;
+  let SnapshotFacet;
+  let snapshotFacet;
+  let DistributionFacet;
+  let distributionFacet;
+  let RedemptionFacet;
+  let redemptionFacet;
+  let CouponFacet;
+  let couponFacet;
+  let PartitionFacet;
+  let partitionFacet;
   let Diamond;
   let diamond;
   let DiamondCutFacet;
@@ -28,7 +41,7 @@ describe("SecurityToken (Diamond architecture)", function () {
     name: "TestBond",
     symbol: "TBND",
     cap: ethers.parseUnits("1000000", 18),
-    isin: "ISIN1234567890",
+    isin: "ES0123456784",
     instrumentType: "bond",
     jurisdiction: "ES"
   };
@@ -73,6 +86,30 @@ function getSelectors(contract) {
     complianceFacet = await ComplianceFacet.deploy();
     await complianceFacet.waitForDeployment();
 
+    DocumentFacet = await ethers.getContractFactory("DocumentFacet");
+    documentFacet = await DocumentFacet.deploy();
+    await documentFacet.waitForDeployment();
+
+    SnapshotFacet = await ethers.getContractFactory("SnapshotFacet");
+    snapshotFacet = await SnapshotFacet.deploy();
+    await snapshotFacet.waitForDeployment();
+
+    DistributionFacet = await ethers.getContractFactory("DistributionFacet");
+    distributionFacet = await DistributionFacet.deploy();
+    await distributionFacet.waitForDeployment();
+
+    RedemptionFacet = await ethers.getContractFactory("RedemptionFacet");
+    redemptionFacet = await RedemptionFacet.deploy();
+    await redemptionFacet.waitForDeployment();
+
+    CouponFacet = await ethers.getContractFactory("CouponFacet");
+    couponFacet = await CouponFacet.deploy();
+    await couponFacet.waitForDeployment();
+
+    PartitionFacet = await ethers.getContractFactory("PartitionFacet");
+    partitionFacet = await PartitionFacet.deploy();
+    await partitionFacet.waitForDeployment();
+
     // Deploy DiamondCutFacet and DiamondLoupeFacet (needed for Diamond)
     DiamondCutFacet = await ethers.getContractFactory("DiamondCutFacet");
     diamondCutFacet = await DiamondCutFacet.deploy();
@@ -110,6 +147,36 @@ function getSelectors(contract) {
             facetAddress: await complianceFacet.getAddress(),
             action: 0, // Add
             functionSelectors: getSelectors(complianceFacet)
+            },
+            {
+            facetAddress: await documentFacet.getAddress(),
+            action: 0, // Add
+            functionSelectors: getSelectors(documentFacet)
+            },
+            {
+            facetAddress: await snapshotFacet.getAddress(),
+            action: 0, // Add
+            functionSelectors: getSelectors(snapshotFacet)
+            },
+            {
+            facetAddress: await distributionFacet.getAddress(),
+            action: 0, // Add
+            functionSelectors: getSelectors(distributionFacet)
+            },
+            {
+            facetAddress: await redemptionFacet.getAddress(),
+            action: 0, // Add
+            functionSelectors: getSelectors(redemptionFacet)
+            },
+            {
+            facetAddress: await couponFacet.getAddress(),
+            action: 0, // Add
+            functionSelectors: getSelectors(couponFacet)
+            },
+            {
+            facetAddress: await partitionFacet.getAddress(),
+            action: 0, // Add
+            functionSelectors: getSelectors(partitionFacet)
             }
         ];
       
@@ -142,7 +209,7 @@ function getSelectors(contract) {
       const diamondLoupe = await ethers.getContractAt("DiamondLoupeFacet", diamondAddress);
       const facets = await diamondLoupe.facets();
       
-      expect(facets.length).to.equal(6); // 6 facets total
+      expect(facets.length).to.equal(12); // 12 facets total
       console.log(`Diamond has ${facets.length} facets attached`);
     });
 
@@ -170,6 +237,23 @@ function getSelectors(contract) {
       expect(await adminFacetContract.hasRole(minterRole, admin.address)).to.be.true;
       expect(await adminFacetContract.hasRole(pauserRole, admin.address)).to.be.true;
     });
+
+    it("should expose every diamond function through the merged ABI", async function () {
+      const diamondAbi = require("../abi/SecurityTokenDiamond.json");
+      const token = await ethers.getContractAt(diamondAbi, diamondAddress);
+
+      expect(await token.name()).to.equal(initParams.name);
+      expect(await token.isin()).to.equal(initParams.isin);
+      expect(await token.hasRole(await token.MINTER_ROLE(), admin.address)).to.be.true;
+
+      // Every selector registered in the diamond resolves to a function of the merged ABI
+      const diamondLoupe = await ethers.getContractAt("DiamondLoupeFacet", diamondAddress);
+      for (const facet of await diamondLoupe.facets()) {
+        for (const selector of facet.functionSelectors) {
+          expect(token.interface.getFunction(selector), selector).to.not.be.null;
+        }
+      }
+    });
   });
 
   describe("ERC20 functionality", function () {
@@ -361,6 +445,1214 @@ function getSelectors(contract) {
     });
   });
 
+  describe("Forced transfers", function () {
+    it("should allow a controller to force a transfer while paused", async function () {
+      const erc20 = await ethers.getContractAt("ERC20Facet", diamondAddress);
+      const compliance = await ethers.getContractAt("ComplianceFacet", diamondAddress);
+      const adminFacetContract = await ethers.getContractAt("AdminFacet", diamondAddress);
+
+      const reasonCode = ethers.encodeBytes32String("COURT_ORDER");
+      const amount = ethers.parseUnits("50", 18);
+      const user1BalanceBefore = await erc20.balanceOf(user1.address);
+
+      await adminFacetContract.pause();
+      await expect(
+        compliance.forcedTransfer(user2.address, user1.address, amount, reasonCode, "0x1234")
+      ).to.emit(compliance, "ControllerTransfer")
+        .withArgs(admin.address, user2.address, user1.address, amount, reasonCode, "0x1234");
+      await adminFacetContract.unpause();
+
+      expect(await erc20.balanceOf(user1.address)).to.equal(user1BalanceBefore + amount);
+
+      const txRecord = await compliance.getTransactionRecord(await compliance.transactionCount());
+      expect(txRecord.from).to.equal(user2.address);
+      expect(txRecord.to).to.equal(user1.address);
+      expect(txRecord.forced).to.be.true;
+    });
+
+    it("should not allow forced transfers above the holder balance", async function () {
+      const erc20 = await ethers.getContractAt("ERC20Facet", diamondAddress);
+      const compliance = await ethers.getContractAt("ComplianceFacet", diamondAddress);
+
+      const balance = await erc20.balanceOf(user2.address);
+      await expect(
+        compliance.forcedTransfer(user2.address, user1.address, balance + 1n, ethers.ZeroHash, "0x")
+      ).to.be.revertedWithCustomError(compliance, "InsufficientBalanceForForcedTransfer");
+    });
+
+    it("should not allow forced transfers without controller role", async function () {
+      const compliance = await ethers.getContractAt("ComplianceFacet", diamondAddress);
+      await expect(
+        compliance.connect(user1).forcedTransfer(user2.address, user1.address, 1, ethers.ZeroHash, "0x")
+      ).to.be.revertedWithCustomError(compliance, "UnauthorizedRole");
+    });
+  });
+
+  describe("Freezing", function () {
+    it("should only allow transferring and burning the unfrozen part of a balance", async function () {
+      const erc20 = await ethers.getContractAt("ERC20Facet", diamondAddress);
+      const minting = await ethers.getContractAt("MintingFacet", diamondAddress);
+      const adminFacetContract = await ethers.getContractAt("AdminFacet", diamondAddress);
+
+      const balance = await erc20.balanceOf(user1.address);
+      const frozenAmount = balance - ethers.parseUnits("10", 18);
+
+      await adminFacetContract.freezePartialTokens(user1.address, frozenAmount);
+      expect(await adminFacetContract.getFrozenTokens(user1.address)).to.equal(frozenAmount);
+
+      await expect(
+        erc20.connect(user1).transfer(user2.address, ethers.parseUnits("20", 18))
+      ).to.be.revertedWithCustomError(erc20, "InsufficientUnfrozenBalance");
+
+      await erc20.connect(user1).transfer(user2.address, ethers.parseUnits("10", 18));
+      await expect(
+        minting.connect(user1).burn(1)
+      ).to.be.revertedWithCustomError(minting, "BurnAmountExceedsUnfrozenBalance");
+
+      await adminFacetContract.unfreezePartialTokens(user1.address, frozenAmount);
+      expect(await adminFacetContract.getFrozenTokens(user1.address)).to.equal(0);
+    });
+
+    it("should not allow freezing more than the balance", async function () {
+      const erc20 = await ethers.getContractAt("ERC20Facet", diamondAddress);
+      const adminFacetContract = await ethers.getContractAt("AdminFacet", diamondAddress);
+
+      const balance = await erc20.balanceOf(user1.address);
+      await expect(
+        adminFacetContract.freezePartialTokens(user1.address, balance + 1n)
+      ).to.be.revertedWithCustomError(adminFacetContract, "FreezeAmountExceedsBalance");
+    });
+
+    it("should release the frozen tokens taken back by a transaction reversal", async function () {
+      const erc20 = await ethers.getContractAt("ERC20Facet", diamondAddress);
+      const compliance = await ethers.getContractAt("ComplianceFacet", diamondAddress);
+      const minting = await ethers.getContractAt("MintingFacet", diamondAddress);
+      const adminFacetContract = await ethers.getContractAt("AdminFacet", diamondAddress);
+
+      const amount = ethers.parseUnits("10", 18);
+      await erc20.connect(user1).transfer(user2.address, amount);
+      const balance = await erc20.balanceOf(user2.address);
+      await adminFacetContract.freezePartialTokens(user2.address, balance);
+
+      await expect(compliance.revertTransaction(await compliance.transactionCount()))
+        .to.emit(compliance, "TokensUnfrozen").withArgs(user2.address, amount)
+        .and.to.emit(compliance, "Transfer").withArgs(user2.address, user1.address, amount);
+      expect(await adminFacetContract.getFrozenTokens(user2.address)).to.equal(balance - amount);
+
+      await expect(minting.connect(user2).burn(1))
+        .to.be.revertedWithCustomError(minting, "BurnAmountExceedsUnfrozenBalance")
+        .withArgs(user2.address, 1, 0);
+
+      await adminFacetContract.unfreezePartialTokens(user2.address, balance - amount);
+    });
+
+    it("should block frozen accounts from sending and receiving", async function () {
+      const erc20 = await ethers.getContractAt("ERC20Facet", diamondAddress);
+      const adminFacetContract = await ethers.getContractAt("AdminFacet", diamondAddress);
+
+      await adminFacetContract.freezeAccount(user2.address);
+      expect(await adminFacetContract.isFrozen(user2.address)).to.be.true;
+
+      await expect(
+        erc20.connect(user1).transfer(user2.address, ethers.parseUnits("1", 18))
+      ).to.be.revertedWithCustomError(erc20, "RecipientFrozen");
+      await expect(
+        erc20.connect(user2).transfer(user1.address, ethers.parseUnits("1", 18))
+      ).to.be.revertedWithCustomError(erc20, "SenderFrozen");
+
+      await adminFacetContract.unfreezeAccount(user2.address);
+      expect(await adminFacetContract.isFrozen(user2.address)).to.be.false;
+    });
+  });
+
+  describe("Lock-ups", function () {
+    let balanceBeforeForcedTransfer;
+
+    it("should not allow transferring tokens before their release time", async function () {
+      const erc20 = await ethers.getContractAt("ERC20Facet", diamondAddress);
+      const minting = await ethers.getContractAt("MintingFacet", diamondAddress);
+
+      const lockedAmount = ethers.parseUnits("1000", 18);
+      const releaseTime = (await time.latest()) + 40 * 24 * 60 * 60; // Reg S 40 days
+
+      await expect(
+        minting.mintLocked(user2.address, lockedAmount, releaseTime)
+      ).to.emit(minting, "TokensLocked").withArgs(user2.address, lockedAmount, releaseTime);
+
+      const balance = await erc20.balanceOf(user2.address);
+      expect(await erc20.lockedBalanceOf(user2.address)).to.equal(lockedAmount);
+      expect(await erc20.transferableBalanceOf(user2.address)).to.equal(balance - lockedAmount);
+
+      await expect(
+        erc20.connect(user2).transfer(user1.address, balance - lockedAmount + 1n)
+      ).to.be.revertedWithCustomError(erc20, "InsufficientUnlockedBalance");
+    });
+
+    it("should release locked tokens after their release time", async function () {
+      const erc20 = await ethers.getContractAt("ERC20Facet", diamondAddress);
+
+      await time.increase(40 * 24 * 60 * 60);
+      const balance = await erc20.balanceOf(user2.address);
+      expect(await erc20.lockedBalanceOf(user2.address)).to.equal(0);
+      expect(await erc20.transferableBalanceOf(user2.address)).to.equal(balance);
+
+      await erc20.connect(user2).transfer(user1.address, ethers.parseUnits("1000", 18));
+      expect((await erc20.getLockUps(user2.address)).length).to.equal(0);
+    });
+
+    it("should not allow lock-ups with a past release time", async function () {
+      const minting = await ethers.getContractAt("MintingFacet", diamondAddress);
+      await expect(
+        minting.mintLocked(user2.address, 1, await time.latest())
+      ).to.be.revertedWithCustomError(minting, "InvalidReleaseTime");
+    });
+
+    it("should cut the lock-ups of tokens taken by a forced transfer", async function () {
+      const erc20 = await ethers.getContractAt("ERC20Facet", diamondAddress);
+      const minting = await ethers.getContractAt("MintingFacet", diamondAddress);
+      const compliance = await ethers.getContractAt("ComplianceFacet", diamondAddress);
+
+      const lockedAmount = ethers.parseUnits("100", 18);
+      const releaseTime = (await time.latest()) + 10 * 365 * 24 * 60 * 60;
+      balanceBeforeForcedTransfer = await erc20.balanceOf(user2.address);
+      await minting.mintLocked(user2.address, lockedAmount, releaseTime);
+
+      await compliance.forcedTransfer(
+        user2.address,
+        user1.address,
+        balanceBeforeForcedTransfer + ethers.parseUnits("60", 18),
+        ethers.ZeroHash,
+        "0x"
+      );
+      expect(await erc20.lockedBalanceOf(user2.address)).to.equal(ethers.parseUnits("40", 18));
+      expect(await erc20.getLockUps(user2.address))
+        .to.deep.equal([[ethers.parseUnits("40", 18), releaseTime]]);
+
+      // Tokens received later are not blocked by the tranche of the tokens taken
+      const received = ethers.parseUnits("30", 18);
+      await erc20.connect(user1).transfer(user2.address, received);
+      expect(await erc20.transferableBalanceOf(user2.address)).to.equal(received);
+    });
+
+    it("should cut the lock-ups of tokens taken back by a transaction reversal", async function () {
+      const erc20 = await ethers.getContractAt("ERC20Facet", diamondAddress);
+      const compliance = await ethers.getContractAt("ComplianceFacet", diamondAddress);
+
+      // Reverts the transfer of the previous test once the received tokens are spent
+      const transactionId = await compliance.transactionCount();
+      await erc20.connect(user2).transfer(user1.address, ethers.parseUnits("30", 18));
+      await compliance.revertTransaction(transactionId);
+
+      expect(await erc20.balanceOf(user2.address)).to.equal(ethers.parseUnits("10", 18));
+      expect(await erc20.lockedBalanceOf(user2.address)).to.equal(ethers.parseUnits("10", 18));
+      expect((await erc20.getLockUps(user2.address))[0].amount).to.equal(ethers.parseUnits("10", 18));
+      expect(await erc20.transferableBalanceOf(user2.address)).to.equal(0);
+    });
+
+    it("should only let holders burn tokens that are not locked up", async function () {
+      const erc20 = await ethers.getContractAt("ERC20Facet", diamondAddress);
+      const minting = await ethers.getContractAt("MintingFacet", diamondAddress);
+
+      const unlocked = ethers.parseUnits("5", 18);
+      await erc20.connect(user1).transfer(user2.address, unlocked);
+
+      await expect(minting.connect(user2).burn(unlocked + 1n))
+        .to.be.revertedWithCustomError(minting, "BurnAmountExceedsUnlockedBalance")
+        .withArgs(user2.address, unlocked + 1n, unlocked);
+
+      await minting.connect(user2).burn(unlocked);
+      expect(await erc20.lockedBalanceOf(user2.address)).to.equal(ethers.parseUnits("10", 18));
+
+      await erc20.connect(user1).transfer(user2.address, balanceBeforeForcedTransfer);
+    });
+  });
+
+  describe("Compliance modules", function () {
+    let limitModule;
+
+    before(async function () {
+      const DailyTransferLimitModule = await ethers.getContractFactory("DailyTransferLimitModule");
+      limitModule = await DailyTransferLimitModule.deploy();
+      await limitModule.waitForDeployment();
+      await limitModule.setDailyLimit(diamondAddress, ethers.parseUnits("100", 18));
+    });
+
+    it("should register compliance modules", async function () {
+      const compliance = await ethers.getContractAt("ComplianceFacet", diamondAddress);
+      const moduleAddress = await limitModule.getAddress();
+
+      await expect(compliance.addComplianceModule(moduleAddress))
+        .to.emit(compliance, "ComplianceModuleAdded").withArgs(moduleAddress, admin.address);
+      expect(await compliance.getComplianceModules()).to.deep.equal([moduleAddress]);
+      expect(await compliance.isComplianceModule(moduleAddress)).to.be.true;
+
+      await expect(
+        compliance.addComplianceModule(moduleAddress)
+      ).to.be.revertedWithCustomError(compliance, "ComplianceModuleAlreadyAdded");
+      await expect(
+        compliance.addComplianceModule(user1.address)
+      ).to.be.revertedWithCustomError(compliance, "InvalidComplianceModule");
+    });
+
+    it("should reject transfers refused by a compliance module", async function () {
+      const erc20 = await ethers.getContractAt("ERC20Facet", diamondAddress);
+
+      await erc20.connect(user2).transfer(user1.address, ethers.parseUnits("60", 18));
+      await expect(
+        erc20.connect(user2).transfer(user1.address, ethers.parseUnits("50", 18))
+      ).to.be.revertedWithCustomError(erc20, "ComplianceModuleRejected")
+        .withArgs(await limitModule.getAddress(), user2.address, user1.address, ethers.parseUnits("50", 18));
+    });
+
+    it("should stop applying a removed compliance module", async function () {
+      const erc20 = await ethers.getContractAt("ERC20Facet", diamondAddress);
+      const compliance = await ethers.getContractAt("ComplianceFacet", diamondAddress);
+
+      await compliance.removeComplianceModule(await limitModule.getAddress());
+      expect(await compliance.getComplianceModules()).to.deep.equal([]);
+
+      await erc20.connect(user2).transfer(user1.address, ethers.parseUnits("50", 18));
+    });
+
+    it("should not allow non-admin to manage compliance modules", async function () {
+      const compliance = await ethers.getContractAt("ComplianceFacet", diamondAddress);
+      await expect(
+        compliance.connect(user1).addComplianceModule(await limitModule.getAddress())
+      ).to.be.revertedWithCustomError(compliance, "UnauthorizedRole");
+    });
+  });
+
+  describe("Max holders", function () {
+    it("should track the number of holders", async function () {
+      const erc20 = await ethers.getContractAt("ERC20Facet", diamondAddress);
+      const compliance = await ethers.getContractAt("ComplianceFacet", diamondAddress);
+
+      let holders = 0n;
+      for (const account of [admin, user1, user2]) {
+        if ((await erc20.balanceOf(account.address)) > 0n) holders++;
+      }
+      expect(await compliance.holderCount()).to.equal(holders);
+    });
+
+    it("should block mints and transfers that exceed the maximum number of holders", async function () {
+      const adminFacetContract = await ethers.getContractAt("AdminFacet", diamondAddress);
+      const compliance = await ethers.getContractAt("ComplianceFacet", diamondAddress);
+      const minting = await ethers.getContractAt("MintingFacet", diamondAddress);
+      const erc20 = await ethers.getContractAt("ERC20Facet", diamondAddress);
+      const [, , , user3] = await ethers.getSigners();
+      const holders = await compliance.holderCount();
+
+      await adminFacetContract.addToWhitelist(user3.address);
+      await expect(compliance.setMaxHolders(holders))
+        .to.emit(compliance, "MaxHoldersSet")
+        .withArgs(holders, admin.address);
+
+      await expect(
+        minting.mint(user3.address, ethers.parseUnits("10", 18))
+      ).to.be.revertedWithCustomError(minting, "MaxHoldersExceeded")
+        .withArgs(holders + 1n, holders);
+      await expect(
+        erc20.connect(user1).transfer(user3.address, ethers.parseUnits("1", 18))
+      ).to.be.revertedWithCustomError(erc20, "MaxHoldersExceeded");
+
+      await compliance.setMaxHolders(holders + 1n);
+      await minting.mint(user3.address, ethers.parseUnits("10", 18));
+      expect(await compliance.holderCount()).to.equal(holders + 1n);
+
+      await expect(
+        compliance.setMaxHolders(holders)
+      ).to.be.revertedWithCustomError(compliance, "MaxHoldersBelowHolderCount");
+
+      await minting.connect(user3).burn(ethers.parseUnits("10", 18));
+      expect(await compliance.holderCount()).to.equal(holders);
+
+      await compliance.setMaxHolders(0);
+      expect(await compliance.maxHolders()).to.equal(0);
+    });
+
+    it("should not let a transaction reversal exceed the maximum number of holders", async function () {
+      const adminFacetContract = await ethers.getContractAt("AdminFacet", diamondAddress);
+      const compliance = await ethers.getContractAt("ComplianceFacet", diamondAddress);
+      const minting = await ethers.getContractAt("MintingFacet", diamondAddress);
+      const erc20 = await ethers.getContractAt("ERC20Facet", diamondAddress);
+      const [, , , user3] = await ethers.getSigners();
+      const holders = await compliance.holderCount();
+
+      await minting.mint(user3.address, ethers.parseUnits("10", 18));
+      await erc20.connect(user3).transfer(user1.address, ethers.parseUnits("10", 18));
+      await compliance.setMaxHolders(holders);
+
+      await expect(
+        compliance.revertTransaction(await compliance.transactionCount())
+      ).to.be.revertedWithCustomError(compliance, "MaxHoldersExceeded")
+        .withArgs(holders + 1n, holders);
+
+      await compliance.setMaxHolders(0);
+    });
+
+    it("should not allow non-admin to set the maximum number of holders", async function () {
+      const compliance = await ethers.getContractAt("ComplianceFacet", diamondAddress);
+      await expect(
+        compliance.connect(user1).setMaxHolders(1)
+      ).to.be.revertedWithCustomError(compliance, "UnauthorizedRole");
+    });
+  });
+
+  describe("Country restrictions", function () {
+    const SPAIN = 724;
+    const UNITED_STATES = 840;
+
+    it("should record the investor country when whitelisting", async function () {
+      const adminFacetContract = await ethers.getContractAt("AdminFacet", diamondAddress);
+      const [, , , , user4] = await ethers.getSigners();
+
+      await expect(adminFacetContract.addToWhitelistWithCountry(user4.address, SPAIN))
+        .to.emit(adminFacetContract, "InvestorCountrySet")
+        .withArgs(user4.address, SPAIN, admin.address);
+      expect(await adminFacetContract.isWhitelisted(user4.address)).to.be.true;
+      expect(await adminFacetContract.investorCountry(user4.address)).to.equal(SPAIN);
+    });
+
+    it("should block transfers and mints to investors from blocked countries", async function () {
+      const adminFacetContract = await ethers.getContractAt("AdminFacet", diamondAddress);
+      const compliance = await ethers.getContractAt("ComplianceFacet", diamondAddress);
+      const minting = await ethers.getContractAt("MintingFacet", diamondAddress);
+      const erc20 = await ethers.getContractAt("ERC20Facet", diamondAddress);
+
+      await adminFacetContract.setInvestorCountry(user2.address, UNITED_STATES);
+      await compliance.setCountryBlocked(UNITED_STATES, true);
+      expect(await compliance.isCountryBlocked(UNITED_STATES)).to.be.true;
+
+      await expect(
+        erc20.transfer(user2.address, ethers.parseUnits("1", 18))
+      ).to.be.revertedWithCustomError(erc20, "CountryRestricted")
+        .withArgs(user2.address, UNITED_STATES);
+      await expect(
+        minting.mint(user2.address, ethers.parseUnits("1", 18))
+      ).to.be.revertedWithCustomError(minting, "CountryRestricted")
+        .withArgs(user2.address, UNITED_STATES);
+
+      await compliance.setCountryBlocked(UNITED_STATES, false);
+      await minting.mint(user2.address, ethers.parseUnits("1", 18));
+    });
+
+    it("should only allow investors from allowed countries once the allowed list is set", async function () {
+      const adminFacetContract = await ethers.getContractAt("AdminFacet", diamondAddress);
+      const compliance = await ethers.getContractAt("ComplianceFacet", diamondAddress);
+      const minting = await ethers.getContractAt("MintingFacet", diamondAddress);
+
+      await adminFacetContract.setInvestorCountry(user1.address, SPAIN);
+      await compliance.setCountryAllowed(SPAIN, true);
+      expect(await compliance.isCountryAllowed(SPAIN)).to.be.true;
+
+      await minting.mint(user1.address, ethers.parseUnits("1", 18));
+      await expect(
+        minting.mint(user2.address, ethers.parseUnits("1", 18))
+      ).to.be.revertedWithCustomError(minting, "CountryRestricted")
+        .withArgs(user2.address, UNITED_STATES);
+
+      await compliance.setCountryAllowed(SPAIN, false);
+      await minting.mint(user2.address, ethers.parseUnits("1", 18));
+    });
+
+    it("should not allow non-admin to manage country restrictions", async function () {
+      const compliance = await ethers.getContractAt("ComplianceFacet", diamondAddress);
+      await expect(
+        compliance.connect(user1).setCountryBlocked(UNITED_STATES, true)
+      ).to.be.revertedWithCustomError(compliance, "UnauthorizedRole");
+    });
+  });
+
+  describe("Transfer checks", function () {
+    const reason = (text) => ethers.encodeBytes32String(text);
+
+    it("should report a transfer that would succeed", async function () {
+      const erc20 = await ethers.getContractAt("ERC20Facet", diamondAddress);
+      const [status, code] = await erc20.canTransfer(user1.address, ethers.parseUnits("1", 18), "0x");
+      expect(status).to.equal("0x51");
+      expect(code).to.equal(ethers.ZeroHash);
+    });
+
+    it("should report the reason a transfer would fail", async function () {
+      const erc20 = await ethers.getContractAt("ERC20Facet", diamondAddress);
+      const adminFacetContract = await ethers.getContractAt("AdminFacet", diamondAddress);
+      const [, , , , , outsider] = await ethers.getSigners();
+
+      expect(await erc20.canTransfer(outsider.address, 1, "0x"))
+        .to.deep.equal(["0x57", reason("RECIPIENT_NOT_WHITELISTED")]);
+      expect(await erc20.connect(outsider).canTransfer(user1.address, 1, "0x"))
+        .to.deep.equal(["0x56", reason("SENDER_NOT_WHITELISTED")]);
+      expect(await erc20.canTransfer(user1.address, ethers.MaxUint256, "0x"))
+        .to.deep.equal(["0x52", reason("INSUFFICIENT_BALANCE")]);
+
+      await adminFacetContract.pause();
+      expect(await erc20.canTransfer(user1.address, 1, "0x"))
+        .to.deep.equal(["0x54", reason("TRANSFERS_PAUSED")]);
+      await adminFacetContract.unpause();
+    });
+
+    it("should check the allowance in canTransferFrom", async function () {
+      const erc20 = await ethers.getContractAt("ERC20Facet", diamondAddress);
+      const amount = ethers.parseUnits("1", 18);
+
+      expect(await erc20.connect(user2).canTransferFrom(admin.address, user1.address, amount, "0x"))
+        .to.deep.equal(["0x53", reason("INSUFFICIENT_ALLOWANCE")]);
+
+      await erc20.approve(user2.address, amount);
+      expect(await erc20.connect(user2).canTransferFrom(admin.address, user1.address, amount, "0x"))
+        .to.deep.equal(["0x51", ethers.ZeroHash]);
+      await erc20.approve(user2.address, 0);
+    });
+  });
+
+  describe("Documents", function () {
+    const PROSPECTUS = ethers.encodeBytes32String("PROSPECTUS");
+    const TERM_SHEET = ethers.encodeBytes32String("TERM_SHEET");
+    const prospectusHash = ethers.keccak256(ethers.toUtf8Bytes("prospectus v1"));
+
+    it("should add and update documents", async function () {
+      const documents = await ethers.getContractAt("DocumentFacet", diamondAddress);
+
+      await expect(documents.setDocument(PROSPECTUS, "ipfs://prospectus-v1", prospectusHash))
+        .to.emit(documents, "DocumentUpdated")
+        .withArgs(PROSPECTUS, "ipfs://prospectus-v1", prospectusHash);
+      await documents.setDocument(TERM_SHEET, "ipfs://term-sheet", ethers.ZeroHash);
+
+      const [uri, documentHash, lastModified] = await documents.getDocument(PROSPECTUS);
+      expect(uri).to.equal("ipfs://prospectus-v1");
+      expect(documentHash).to.equal(prospectusHash);
+      expect(lastModified).to.be.greaterThan(0);
+
+      await documents.setDocument(PROSPECTUS, "ipfs://prospectus-v2", prospectusHash);
+      expect((await documents.getDocument(PROSPECTUS))[0]).to.equal("ipfs://prospectus-v2");
+      expect(await documents.getAllDocuments()).to.deep.equal([PROSPECTUS, TERM_SHEET]);
+    });
+
+    it("should remove documents", async function () {
+      const documents = await ethers.getContractAt("DocumentFacet", diamondAddress);
+
+      await expect(documents.removeDocument(PROSPECTUS))
+        .to.emit(documents, "DocumentRemoved")
+        .withArgs(PROSPECTUS, "ipfs://prospectus-v2", prospectusHash);
+      expect(await documents.getAllDocuments()).to.deep.equal([TERM_SHEET]);
+      expect((await documents.getDocument(PROSPECTUS))[0]).to.equal("");
+
+      await expect(documents.removeDocument(PROSPECTUS))
+        .to.be.revertedWithCustomError(documents, "DocumentNotFound")
+        .withArgs(PROSPECTUS);
+    });
+
+    it("should not allow non-admin to manage documents", async function () {
+      const documents = await ethers.getContractAt("DocumentFacet", diamondAddress);
+      await expect(
+        documents.connect(user1).setDocument(PROSPECTUS, "ipfs://fake", ethers.ZeroHash)
+      ).to.be.revertedWithCustomError(documents, "UnauthorizedRole");
+    });
+  });
+
+  describe("Snapshots", function () {
+    it("should keep balances and total supply as of each snapshot", async function () {
+      const snapshots = await ethers.getContractAt("SnapshotFacet", diamondAddress);
+      const erc20 = await ethers.getContractAt("ERC20Facet", diamondAddress);
+      const minting = await ethers.getContractAt("MintingFacet", diamondAddress);
+      const amount = ethers.parseUnits("5", 18);
+
+      await expect(snapshots.snapshot()).to.emit(snapshots, "Snapshot").withArgs(1);
+      const adminAt1 = await erc20.balanceOf(admin.address);
+      const user1At1 = await erc20.balanceOf(user1.address);
+      const supplyAt1 = await erc20.totalSupply();
+
+      await erc20.transfer(user1.address, amount);
+      await minting.mint(user1.address, amount);
+
+      await snapshots.snapshot();
+      await minting.connect(user1).burn(amount);
+
+      expect(await snapshots.getCurrentSnapshotId()).to.equal(2);
+      expect(await snapshots.balanceOfAt(admin.address, 1)).to.equal(adminAt1);
+      expect(await snapshots.balanceOfAt(user1.address, 1)).to.equal(user1At1);
+      expect(await snapshots.totalSupplyAt(1)).to.equal(supplyAt1);
+
+      expect(await snapshots.balanceOfAt(admin.address, 2)).to.equal(adminAt1 - amount);
+      expect(await snapshots.balanceOfAt(user1.address, 2)).to.equal(user1At1 + amount + amount);
+      expect(await snapshots.totalSupplyAt(2)).to.equal(supplyAt1 + amount);
+      expect(await erc20.totalSupply()).to.equal(supplyAt1);
+    });
+
+    it("should reject unknown snapshot ids", async function () {
+      const snapshots = await ethers.getContractAt("SnapshotFacet", diamondAddress);
+      await expect(snapshots.balanceOfAt(admin.address, 0))
+        .to.be.revertedWithCustomError(snapshots, "InvalidSnapshotId")
+        .withArgs(0);
+      await expect(snapshots.totalSupplyAt(3))
+        .to.be.revertedWithCustomError(snapshots, "InvalidSnapshotId")
+        .withArgs(3);
+    });
+
+    it("should not allow non-admin to take snapshots", async function () {
+      const snapshots = await ethers.getContractAt("SnapshotFacet", diamondAddress);
+      await expect(snapshots.connect(user1).snapshot())
+        .to.be.revertedWithCustomError(snapshots, "UnauthorizedRole");
+    });
+  });
+
+  describe("Distributions", function () {
+    const total = ethers.parseUnits("1000", 6);
+    let stablecoin;
+    let snapshotId;
+    let distributionId;
+
+    before(async function () {
+      const MockERC20 = await ethers.getContractFactory("MockERC20");
+      stablecoin = await MockERC20.deploy("USD Coin", "USDC");
+      await stablecoin.waitForDeployment();
+      await stablecoin.mint(admin.address, total);
+      await stablecoin.approve(diamondAddress, total);
+    });
+
+    it("should create a distribution against a snapshot", async function () {
+      const snapshots = await ethers.getContractAt("SnapshotFacet", diamondAddress);
+      const distributions = await ethers.getContractAt("DistributionFacet", diamondAddress);
+
+      await snapshots.snapshot();
+      snapshotId = await snapshots.getCurrentSnapshotId();
+      const expiry = (await time.latest()) + 30 * 24 * 60 * 60;
+
+      await expect(
+        distributions.createDistribution(await stablecoin.getAddress(), snapshotId, total, expiry)
+      ).to.emit(distributions, "DistributionCreated")
+        .withArgs(1, await stablecoin.getAddress(), snapshotId, total, expiry);
+      distributionId = await distributions.distributionCount();
+
+      expect(await stablecoin.balanceOf(diamondAddress)).to.equal(total);
+      expect(await distributions.unclaimedAmount(distributionId)).to.equal(total);
+    });
+
+    it("should pay holders their pro-rata share", async function () {
+      const snapshots = await ethers.getContractAt("SnapshotFacet", diamondAddress);
+      const distributions = await ethers.getContractAt("DistributionFacet", diamondAddress);
+      const minting = await ethers.getContractAt("MintingFacet", diamondAddress);
+
+      const expected = total * (await snapshots.balanceOfAt(user1.address, snapshotId))
+        / (await snapshots.totalSupplyAt(snapshotId));
+      expect(expected).to.be.greaterThan(0);
+
+      // Balance changes after the snapshot do not change the share
+      await minting.mint(user1.address, ethers.parseUnits("10", 18));
+      expect(await distributions.claimableAmount(distributionId, user1.address)).to.equal(expected);
+
+      await expect(distributions.connect(user1).claim(distributionId))
+        .to.emit(distributions, "DistributionClaimed")
+        .withArgs(distributionId, user1.address, expected);
+      expect(await stablecoin.balanceOf(user1.address)).to.equal(expected);
+      expect(await distributions.hasClaimed(distributionId, user1.address)).to.be.true;
+      expect(await distributions.claimableAmount(distributionId, user1.address)).to.equal(0);
+
+      await expect(distributions.connect(user1).claim(distributionId))
+        .to.be.revertedWithCustomError(distributions, "AlreadyClaimed");
+    });
+
+    it("should exclude frozen and blacklisted holders", async function () {
+      const distributions = await ethers.getContractAt("DistributionFacet", diamondAddress);
+      const adminFacetContract = await ethers.getContractAt("AdminFacet", diamondAddress);
+
+      await adminFacetContract.freezeAccount(user2.address);
+      expect(await distributions.claimableAmount(distributionId, user2.address)).to.equal(0);
+      await expect(distributions.connect(user2).claim(distributionId))
+        .to.be.revertedWithCustomError(distributions, "HolderExcluded")
+        .withArgs(distributionId, user2.address);
+      await adminFacetContract.unfreezeAccount(user2.address);
+
+      await adminFacetContract.addToBlacklist(user2.address);
+      await expect(distributions.connect(user2).claim(distributionId))
+        .to.be.revertedWithCustomError(distributions, "HolderExcluded");
+      await adminFacetContract.removeFromBlacklist(user2.address);
+    });
+
+    it("should let an admin reclaim unclaimed amounts after expiry", async function () {
+      const distributions = await ethers.getContractAt("DistributionFacet", diamondAddress);
+
+      await expect(distributions.reclaimDistribution(distributionId, admin.address))
+        .to.be.revertedWithCustomError(distributions, "DistributionNotExpired");
+
+      await time.increase(31 * 24 * 60 * 60);
+      await expect(distributions.claim(distributionId))
+        .to.be.revertedWithCustomError(distributions, "DistributionExpired");
+
+      const unclaimed = await distributions.unclaimedAmount(distributionId);
+      await expect(distributions.reclaimDistribution(distributionId, admin.address))
+        .to.emit(distributions, "DistributionReclaimed")
+        .withArgs(distributionId, admin.address, unclaimed);
+      expect(await stablecoin.balanceOf(diamondAddress)).to.equal(0);
+      expect(await distributions.unclaimedAmount(distributionId)).to.equal(0);
+
+      await expect(distributions.reclaimDistribution(distributionId, admin.address))
+        .to.be.revertedWithCustomError(distributions, "DistributionAlreadyReclaimed");
+    });
+
+    it("should not allow non-admin to create distributions", async function () {
+      const distributions = await ethers.getContractAt("DistributionFacet", diamondAddress);
+      await expect(
+        distributions.connect(user1).createDistribution(await stablecoin.getAddress(), snapshotId, 1, (await time.latest()) + 100)
+      ).to.be.revertedWithCustomError(distributions, "UnauthorizedRole");
+    });
+  });
+
+  describe("Coupon schedule", function () {
+    const ACT_360 = 0;
+    const THIRTY_360 = 2;
+    const nominalValue = ethers.parseUnits("1000", 6); // 1000 USDC per token
+    const utc = (year, month, day) => Date.UTC(year, month - 1, day) / 1000;
+    let year;
+    let firstCouponDate;
+
+    before(async function () {
+      const redemption = await ethers.getContractAt("RedemptionFacet", diamondAddress);
+      year = new Date((await time.latest()) * 1000).getUTCFullYear() + 1;
+      firstCouponDate = utc(year, 1, 15);
+      await redemption.setBondTerms(utc(year + 5, 1, 15), nominalValue);
+    });
+
+    it("should store the coupon schedule and return the next coupon date", async function () {
+      const coupons = await ethers.getContractAt("CouponFacet", diamondAddress);
+
+      await expect(coupons.setCouponSchedule(500, 2, THIRTY_360, firstCouponDate))
+        .to.emit(coupons, "CouponScheduleSet")
+        .withArgs(500, 2, THIRTY_360, firstCouponDate, admin.address);
+      expect(await coupons.getCouponSchedule()).to.deep.equal([500, 2, THIRTY_360, firstCouponDate]);
+      expect(await coupons.nextCouponDate()).to.equal(firstCouponDate);
+    });
+
+    it("should compute 30/360 semi-annual coupons", async function () {
+      const coupons = await ethers.getContractAt("CouponFacet", diamondAddress);
+      const erc20 = await ethers.getContractAt("ERC20Facet", diamondAddress);
+      const perToken = ethers.parseUnits("25", 6); // 1000 * 5% / 2
+
+      expect(await coupons.couponPeriod(1)).to.deep.equal([utc(year - 1, 7, 15), firstCouponDate]);
+      expect(await coupons.couponPeriod(2)).to.deep.equal([firstCouponDate, utc(year, 7, 15)]);
+      expect(await coupons.couponAmountPerToken(1)).to.equal(perToken);
+      expect(await coupons.couponAmountPerToken(2)).to.equal(perToken);
+
+      const balance = await erc20.balanceOf(user1.address);
+      expect(await coupons.couponAmountFor(user1.address, 2)).to.equal(balance * perToken / 10n ** 18n);
+    });
+
+    it("should compute ACT/360 coupons and accrued interest", async function () {
+      const coupons = await ethers.getContractAt("CouponFacet", diamondAddress);
+      const erc20 = await ethers.getContractAt("ERC20Facet", diamondAddress);
+      await coupons.setCouponSchedule(500, 4, ACT_360, firstCouponDate);
+
+      const days = BigInt((utc(year, 4, 15) - firstCouponDate) / 86400);
+      expect(await coupons.couponPeriod(2)).to.deep.equal([firstCouponDate, utc(year, 4, 15)]);
+      expect(await coupons.couponAmountPerToken(2)).to.equal(nominalValue * 500n * days / (10000n * 360n));
+
+      const balance = await erc20.balanceOf(user1.address);
+      const accrued = balance * nominalValue * 500n * 30n / (10n ** 18n * 10000n * 360n);
+      expect(await coupons.accruedInterest(user1.address, firstCouponDate + 30 * 86400)).to.equal(accrued);
+      expect(await coupons.accruedInterest(user1.address, utc(year - 2, 1, 1))).to.equal(0);
+    });
+
+    it("should clamp coupon dates to the end of the month", async function () {
+      const coupons = await ethers.getContractAt("CouponFacet", diamondAddress);
+      await coupons.setCouponSchedule(500, 12, ACT_360, utc(year, 1, 31));
+
+      const february = new Date(Date.UTC(year, 2, 0)).getUTCDate();
+      expect(await coupons.couponPeriod(2)).to.deep.equal([utc(year, 1, 31), utc(year, 2, february)]);
+      expect(await coupons.couponPeriod(3)).to.deep.equal([utc(year, 2, february), utc(year, 3, 31)]);
+    });
+
+    it("should reject invalid schedules", async function () {
+      const coupons = await ethers.getContractAt("CouponFacet", diamondAddress);
+
+      await expect(coupons.setCouponSchedule(500, 3, ACT_360, firstCouponDate))
+        .to.be.revertedWithCustomError(coupons, "InvalidCouponFrequency")
+        .withArgs(3);
+      await expect(coupons.couponPeriod(0))
+        .to.be.revertedWithCustomError(coupons, "InvalidCouponPeriod");
+      await expect(coupons.connect(user1).setCouponSchedule(500, 2, ACT_360, firstCouponDate))
+        .to.be.revertedWithCustomError(coupons, "UnauthorizedRole");
+    });
+  });
+
+  describe("Partitions", function () {
+    const seriesA = ethers.encodeBytes32String("series-A");
+    const seriesB = ethers.encodeBytes32String("series-B");
+
+    it("should issue tokens into partitions on top of the ERC20 balance", async function () {
+      const erc20 = await ethers.getContractAt("ERC20Facet", diamondAddress);
+      const partitions = await ethers.getContractAt("PartitionFacet", diamondAddress);
+
+      const balanceBefore = await erc20.balanceOf(user1.address);
+      const amount = ethers.parseUnits("30", 18);
+
+      await expect(partitions.issueByPartition(seriesA, user1.address, amount, "0x"))
+        .to.emit(partitions, "IssuedByPartition")
+        .withArgs(seriesA, admin.address, user1.address, amount, "0x", "0x");
+      await partitions.issueByPartition(seriesB, user1.address, amount, "0x");
+
+      expect(await erc20.balanceOf(user1.address)).to.equal(balanceBefore + amount * 2n);
+      expect(await partitions.balanceOfByPartition(seriesA, user1.address)).to.equal(amount);
+      expect(await partitions.partitionsOf(user1.address)).to.deep.equal([seriesA, seriesB]);
+      expect(await partitions.unpartitionedBalanceOf(user1.address)).to.equal(balanceBefore);
+      expect(await partitions.totalPartitions()).to.deep.equal([seriesA, seriesB]);
+    });
+
+    it("should transfer tokens within a partition", async function () {
+      const erc20 = await ethers.getContractAt("ERC20Facet", diamondAddress);
+      const partitions = await ethers.getContractAt("PartitionFacet", diamondAddress);
+
+      const amount = ethers.parseUnits("30", 18);
+      const user2BalanceBefore = await erc20.balanceOf(user2.address);
+
+      await expect(partitions.connect(user1).transferByPartition(seriesB, user2.address, amount, "0x"))
+        .to.emit(partitions, "TransferByPartition")
+        .withArgs(seriesB, user1.address, user1.address, user2.address, amount, "0x", "0x");
+
+      expect(await erc20.balanceOf(user2.address)).to.equal(user2BalanceBefore + amount);
+      expect(await partitions.balanceOfByPartition(seriesB, user2.address)).to.equal(amount);
+      expect(await partitions.partitionsOf(user1.address)).to.deep.equal([seriesA]);
+      expect(await partitions.totalSupplyByPartition(seriesB)).to.equal(amount);
+    });
+
+    it("should keep partitioned tokens out of plain transfers and burns", async function () {
+      const erc20 = await ethers.getContractAt("ERC20Facet", diamondAddress);
+      const minting = await ethers.getContractAt("MintingFacet", diamondAddress);
+      const partitions = await ethers.getContractAt("PartitionFacet", diamondAddress);
+
+      const unpartitioned = await partitions.unpartitionedBalanceOf(user2.address);
+      expect(await erc20.transferableBalanceOf(user2.address)).to.equal(unpartitioned);
+      await expect(erc20.connect(user2).transfer(user1.address, unpartitioned + 1n))
+        .to.be.revertedWithCustomError(erc20, "InsufficientUnpartitionedBalance");
+      expect((await erc20.connect(user2).canTransfer(user1.address, unpartitioned + 1n, "0x")).reason)
+        .to.equal(ethers.encodeBytes32String("TOKENS_IN_PARTITION"));
+      await expect(minting.connect(user2).burn(unpartitioned + 1n))
+        .to.be.revertedWithCustomError(minting, "InsufficientUnpartitionedBalance");
+      await expect(partitions.connect(user2).transferByPartition(seriesA, user1.address, 1, "0x"))
+        .to.be.revertedWithCustomError(partitions, "InsufficientPartitionBalance")
+        .withArgs(user2.address, seriesA, 0, 1);
+    });
+
+    it("should report the partitioned tokens of a holder as not transferable", async function () {
+      const erc20 = await ethers.getContractAt("ERC20Facet", diamondAddress);
+      const partitions = await ethers.getContractAt("PartitionFacet", diamondAddress);
+
+      const transferable = await erc20.transferableBalanceOf(user1.address);
+      expect(transferable).to.equal(await partitions.unpartitionedBalanceOf(user1.address));
+      expect(transferable).to.be.lessThan(await erc20.balanceOf(user1.address));
+
+      await expect(erc20.connect(user1).transfer(user2.address, transferable + 1n))
+        .to.be.revertedWithCustomError(erc20, "InsufficientUnpartitionedBalance");
+      await erc20.connect(user1).transfer(user2.address, transferable);
+      expect(await erc20.transferableBalanceOf(user1.address)).to.equal(0);
+
+      await erc20.connect(user2).transfer(user1.address, transferable);
+    });
+
+    it("should take forced transfers out of partitions when needed", async function () {
+      const erc20 = await ethers.getContractAt("ERC20Facet", diamondAddress);
+      const compliance = await ethers.getContractAt("ComplianceFacet", diamondAddress);
+      const partitions = await ethers.getContractAt("PartitionFacet", diamondAddress);
+
+      const balance = await erc20.balanceOf(user2.address);
+      await compliance.forcedTransfer(user2.address, user1.address, balance, ethers.ZeroHash, "0x");
+
+      expect(await partitions.balanceOfByPartition(seriesB, user2.address)).to.equal(0);
+      expect(await partitions.partitionsOf(user2.address)).to.deep.equal([]);
+      expect(await partitions.totalSupplyByPartition(seriesB)).to.equal(0);
+
+      await erc20.connect(user1).transfer(user2.address, balance);
+    });
+
+    it("should reject the zero partition and unauthorized issuance", async function () {
+      const partitions = await ethers.getContractAt("PartitionFacet", diamondAddress);
+
+      await expect(partitions.issueByPartition(ethers.ZeroHash, user1.address, 1, "0x"))
+        .to.be.revertedWithCustomError(partitions, "InvalidPartition");
+      await expect(partitions.connect(user1).issueByPartition(seriesA, user1.address, 1, "0x"))
+        .to.be.revertedWithCustomError(partitions, "UnauthorizedRole");
+    });
+  });
+
+  describe("Signatures", function () {
+    const deadline = ethers.MaxUint256;
+    let domain;
+
+    before(async function () {
+      domain = {
+        name: initParams.name,
+        version: "1",
+        chainId: (await ethers.provider.getNetwork()).chainId,
+        verifyingContract: diamondAddress
+      };
+    });
+
+    async function sign(signer, types, value) {
+      return ethers.Signature.from(await signer.signTypedData(domain, types, value));
+    }
+
+    it("should set allowances from EIP-2612 permits", async function () {
+      const erc20 = await ethers.getContractAt("ERC20Facet", diamondAddress);
+      const amount = ethers.parseUnits("5", 18);
+
+      expect(await erc20.DOMAIN_SEPARATOR()).to.equal(ethers.TypedDataEncoder.hashDomain(domain));
+
+      const types = {
+        Permit: [
+          { name: "owner", type: "address" },
+          { name: "spender", type: "address" },
+          { name: "value", type: "uint256" },
+          { name: "nonce", type: "uint256" },
+          { name: "deadline", type: "uint256" }
+        ]
+      };
+      const signature = await sign(user1, types, {
+        owner: user1.address, spender: user2.address, value: amount, nonce: 0, deadline
+      });
+
+      await expect(erc20.connect(user2).permit(user1.address, user2.address, amount, deadline, signature.v, signature.r, signature.s))
+        .to.emit(erc20, "Approval")
+        .withArgs(user1.address, user2.address, amount);
+      expect(await erc20.allowance(user1.address, user2.address)).to.equal(amount);
+      expect(await erc20.nonces(user1.address)).to.equal(1);
+
+      await expect(erc20.connect(user2).permit(user1.address, user2.address, amount, deadline, signature.v, signature.r, signature.s))
+        .to.be.revertedWithCustomError(erc20, "InvalidSigner");
+      await erc20.connect(user1).approve(user2.address, 0);
+    });
+
+    it("should reject expired permits", async function () {
+      const erc20 = await ethers.getContractAt("ERC20Facet", diamondAddress);
+      const expired = (await ethers.provider.getBlock("latest")).timestamp - 1;
+
+      const signature = await sign(user1, {
+        Permit: [
+          { name: "owner", type: "address" },
+          { name: "spender", type: "address" },
+          { name: "value", type: "uint256" },
+          { name: "nonce", type: "uint256" },
+          { name: "deadline", type: "uint256" }
+        ]
+      }, { owner: user1.address, spender: user2.address, value: 1, nonce: 1, deadline: expired });
+
+      await expect(erc20.permit(user1.address, user2.address, 1, expired, signature.v, signature.r, signature.s))
+        .to.be.revertedWithCustomError(erc20, "ExpiredSignature")
+        .withArgs(expired);
+    });
+
+    it("should execute admin actions signed by an off-line key", async function () {
+      const erc20 = await ethers.getContractAt("ERC20Facet", diamondAddress);
+      const minting = await ethers.getContractAt("MintingFacet", diamondAddress);
+      const adminFacetContract = await ethers.getContractAt("AdminFacet", diamondAddress);
+      const relayer = user2;
+      const investor = ethers.Wallet.createRandom().address;
+      const amount = ethers.parseUnits("10", 18);
+
+      let nonce = await erc20.nonces(admin.address);
+      let signature = await sign(admin, {
+        AddToWhitelist: [
+          { name: "account", type: "address" },
+          { name: "nonce", type: "uint256" },
+          { name: "deadline", type: "uint256" }
+        ]
+      }, { account: investor, nonce, deadline });
+      await expect(adminFacetContract.connect(relayer).addToWhitelistBySig(investor, admin.address, deadline, signature.v, signature.r, signature.s))
+        .to.emit(adminFacetContract, "WhitelistAdded")
+        .withArgs(investor, admin.address);
+      expect(await adminFacetContract.isWhitelisted(investor)).to.be.true;
+
+      signature = await sign(admin, {
+        Mint: [
+          { name: "to", type: "address" },
+          { name: "amount", type: "uint256" },
+          { name: "nonce", type: "uint256" },
+          { name: "deadline", type: "uint256" }
+        ]
+      }, { to: investor, amount, nonce: nonce + 1n, deadline });
+      await minting.connect(relayer).mintBySig(investor, amount, admin.address, deadline, signature.v, signature.r, signature.s);
+      expect(await erc20.balanceOf(investor)).to.equal(amount);
+
+      const pauseTypes = {
+        Pause: [
+          { name: "nonce", type: "uint256" },
+          { name: "deadline", type: "uint256" }
+        ]
+      };
+      signature = await sign(user1, pauseTypes, { nonce: await erc20.nonces(user1.address), deadline });
+      await expect(adminFacetContract.connect(relayer).pauseBySig(user1.address, deadline, signature.v, signature.r, signature.s))
+        .to.be.revertedWithCustomError(adminFacetContract, "AccessControlUnauthorizedAccount");
+
+      signature = await sign(admin, pauseTypes, { nonce: nonce + 2n, deadline });
+      await expect(adminFacetContract.connect(relayer).pauseBySig(admin.address, deadline, signature.v, signature.r, signature.s))
+        .to.emit(adminFacetContract, "Paused")
+        .withArgs(admin.address);
+      expect(await adminFacetContract.paused()).to.be.true;
+      await adminFacetContract.unpause();
+    });
+  });
+
+  describe("Diamond cut governance", function () {
+    const delay = 24 * 60 * 60;
+    let newERC20Facet;
+    let cut;
+
+    before(async function () {
+      newERC20Facet = await ERC20Facet.deploy();
+      await newERC20Facet.waitForDeployment();
+      cut = [{
+        facetAddress: await newERC20Facet.getAddress(),
+        action: 1, // Replace
+        functionSelectors: getSelectors(newERC20Facet)
+      }];
+    });
+
+    it("should let the owner set the approvers and then block direct cuts", async function () {
+      const cutFacet = await ethers.getContractAt("DiamondCutFacet", diamondAddress);
+      const approvers = [admin.address, user1.address, user2.address];
+
+      await expect(cutFacet.setCutGovernance(approvers, 4, delay))
+        .to.be.revertedWithCustomError(cutFacet, "InvalidCutGovernance")
+        .withArgs(3, 4);
+      await expect(cutFacet.setCutGovernance(approvers, 2, delay))
+        .to.emit(cutFacet, "CutGovernanceUpdated")
+        .withArgs(approvers, 2, delay);
+      expect(await cutFacet.getCutGovernance()).to.deep.equal([approvers, 2n, BigInt(delay)]);
+
+      await expect(cutFacet.diamondCut(cut, ethers.ZeroAddress, "0x"))
+        .to.be.revertedWithCustomError(cutFacet, "DiamondCutRequiresApproval");
+      await expect(cutFacet.setCutGovernance([admin.address], 1, 0))
+        .to.be.revertedWithCustomError(cutFacet, "DiamondCutRequiresApproval");
+    });
+
+    it("should execute a cut after enough approvals and the delay", async function () {
+      const cutFacet = await ethers.getContractAt("DiamondCutFacet", diamondAddress);
+      const loupe = await ethers.getContractAt("DiamondLoupeFacet", diamondAddress);
+      const transferSelector = newERC20Facet.interface.getFunction("transfer").selector;
+
+      await expect(cutFacet.proposeDiamondCut(cut, ethers.ZeroAddress, "0x"))
+        .to.emit(cutFacet, "DiamondCutProposed");
+      const proposalId = await cutFacet.getPendingCutProposals().then((ids) => ids[0]);
+
+      await expect(cutFacet.executeDiamondCut(proposalId, cut, ethers.ZeroAddress, "0x"))
+        .to.be.revertedWithCustomError(cutFacet, "CutNotReady");
+      await time.increase(delay);
+      await expect(cutFacet.executeDiamondCut(proposalId, cut, ethers.ZeroAddress, "0x"))
+        .to.be.revertedWithCustomError(cutFacet, "CutNotApproved")
+        .withArgs(proposalId, 1, 2);
+
+      await cutFacet.connect(user1).approveDiamondCut(proposalId);
+      await expect(cutFacet.connect(user1).approveDiamondCut(proposalId))
+        .to.be.revertedWithCustomError(cutFacet, "CutAlreadyApproved");
+      expect((await cutFacet.getCutProposal(proposalId)).approvals).to.equal(2);
+
+      await expect(cutFacet.executeDiamondCut(proposalId, [], ethers.ZeroAddress, "0x"))
+        .to.be.revertedWithCustomError(cutFacet, "CutMismatch");
+      await expect(cutFacet.connect(user2).executeDiamondCut(proposalId, cut, ethers.ZeroAddress, "0x"))
+        .to.emit(cutFacet, "DiamondCutExecuted")
+        .withArgs(proposalId, user2.address);
+
+      expect(await loupe.facetAddress(transferSelector)).to.equal(await newERC20Facet.getAddress());
+      expect(await cutFacet.getPendingCutProposals()).to.deep.equal([]);
+    });
+
+    it("should let any approver cancel a pending cut", async function () {
+      const cutFacet = await ethers.getContractAt("DiamondCutFacet", diamondAddress);
+      const [, , , outsider] = await ethers.getSigners();
+
+      await expect(cutFacet.connect(outsider).proposeDiamondCut(cut, ethers.ZeroAddress, "0x"))
+        .to.be.revertedWithCustomError(cutFacet, "NotCutApprover");
+
+      await cutFacet.connect(user1).proposeDiamondCut(cut, ethers.ZeroAddress, "0x");
+      const proposalId = await cutFacet.getPendingCutProposals().then((ids) => ids[0]);
+
+      await expect(cutFacet.connect(user2).cancelDiamondCut(proposalId))
+        .to.emit(cutFacet, "DiamondCutCancelled")
+        .withArgs(proposalId, user2.address);
+      await expect(cutFacet.approveDiamondCut(proposalId))
+        .to.be.revertedWithCustomError(cutFacet, "CutProposalNotPending");
+    });
+
+    it("should only change the approvers through an approved cut", async function () {
+      const cutFacet = await ethers.getContractAt("DiamondCutFacet", diamondAddress);
+      const initData = cutFacet.interface.encodeFunctionData("setCutGovernance", [[], 0, 0]);
+      const init = await diamondCutFacet.getAddress();
+
+      await cutFacet.proposeDiamondCut([], init, initData);
+      const proposalId = await cutFacet.getPendingCutProposals().then((ids) => ids[0]);
+      await cutFacet.connect(user2).approveDiamondCut(proposalId);
+      await time.increase(delay);
+      await cutFacet.executeDiamondCut(proposalId, [], init, initData);
+
+      expect(await cutFacet.getCutGovernance()).to.deep.equal([[], 0n, 0n]);
+    });
+  });
+
+  describe("Diamond factory", function () {
+    let diamondFactory;
+    let ownershipFacet;
+
+    function encodeInit(isin) {
+      return diamondInit.interface.encodeFunctionData("init", [
+        "Factory Bond", "FBND", initParams.cap, isin, "bond", "ES", user1.address
+      ]);
+    }
+
+    before(async function () {
+      ownershipFacet = await (await ethers.getContractFactory("OwnershipFacet")).deploy();
+      await ownershipFacet.waitForDeployment();
+
+      const facets = [
+        diamondCutFacet, diamondLoupeFacet, ownershipFacet, erc20Facet, mintingFacet, adminFacet,
+        complianceFacet, documentFacet, snapshotFacet, distributionFacet, redemptionFacet,
+        couponFacet, partitionFacet
+      ];
+      const standardCut = await Promise.all(facets.map(async (facet) => ({
+        facetAddress: await facet.getAddress(),
+        action: 0, // Add
+        functionSelectors: getSelectors(facet)
+      })));
+
+      const DiamondFactory = await ethers.getContractFactory("DiamondFactory");
+      diamondFactory = await DiamondFactory.deploy(standardCut, await diamondInit.getAddress());
+      await diamondFactory.waitForDeployment();
+    });
+
+    it("should create an initialized diamond owned by the token admin in one transaction", async function () {
+      await expect(diamondFactory.createDiamond(encodeInit("ES0000000044"), user2.address))
+        .to.emit(diamondFactory, "DiamondCreated");
+
+      const created = await diamondFactory.getDiamondByIndex(0);
+      expect(await diamondFactory.totalOfDiamondsCreated()).to.equal(1);
+      expect(await diamondFactory.isDiamondCreatedByFactory(created)).to.be.true;
+      expect(await diamondFactory.getDiamondsByBeneficiary(user2.address)).to.deep.equal([created]);
+      expect(await diamondFactory.getTokenByIsin("ES0000000044")).to.equal(created);
+
+      const loupe = await ethers.getContractAt("DiamondLoupeFacet", created);
+      const ownership = await ethers.getContractAt("OwnershipFacet", created);
+      const compliance = await ethers.getContractAt("ComplianceFacet", created);
+      const adminFacetContract = await ethers.getContractAt("AdminFacet", created);
+      expect((await loupe.facets()).length).to.equal(13);
+      expect(await loupe.facetAddress(erc20Facet.interface.getFunction("transfer").selector))
+        .to.equal(await erc20Facet.getAddress());
+      expect(await ownership.owner()).to.equal(user1.address);
+      expect(await compliance.isin()).to.equal("ES0000000044");
+      expect(await adminFacetContract.hasRole(await compliance.MINTER_ROLE(), user1.address)).to.be.true;
+    });
+
+    it("should validate the initializer arguments and ISIN uniqueness", async function () {
+      await expect(diamondFactory.createDiamond("0x12345678", user2.address))
+        .to.be.revertedWithCustomError(diamondFactory, "InvalidInitializer")
+        .withArgs("0x12345678");
+      await expect(diamondFactory.createDiamond(encodeInit(""), user2.address))
+        .to.be.revertedWithCustomError(diamondFactory, "EmptyISIN");
+      await expect(diamondFactory.createDiamond(encodeInit("ES0123456780"), user2.address))
+        .to.be.revertedWithCustomError(diamondInit, "InvalidISIN")
+        .withArgs("ES0123456780");
+      await expect(diamondFactory.createDiamond(encodeInit("ES0000000044"), user2.address))
+        .to.be.revertedWithCustomError(diamondFactory, "DuplicateISIN")
+        .withArgs("ES0000000044", await diamondFactory.getDiamondByIndex(0));
+      await expect(diamondFactory.connect(user1).createDiamond(encodeInit("ES0000000051"), user2.address))
+        .to.be.revertedWithCustomError(diamondFactory, "OwnableUnauthorizedAccount");
+    });
+
+    it("should only accept Add cuts of deployed facets as the standard cut", async function () {
+      const invalidCut = [{
+        facetAddress: user1.address,
+        action: 0, // Add
+        functionSelectors: getSelectors(erc20Facet)
+      }];
+
+      await expect(diamondFactory.setStandardCut(invalidCut, await diamondInit.getAddress()))
+        .to.be.revertedWithCustomError(diamondFactory, "InvalidStandardCutFacet")
+        .withArgs(user1.address);
+      await expect(diamondFactory.setStandardCut([], await diamondInit.getAddress()))
+        .to.be.revertedWithCustomError(diamondFactory, "EmptyStandardCut");
+      expect((await diamondFactory.getStandardCut()).length).to.equal(13);
+    });
+  });
+
+  describe("Diamonds upgraded from older versions", function () {
+    const storageLayout = require("../storage-layout/SecurityTokenStorage.json");
+    const storageBase = BigInt(ethers.keccak256(ethers.toUtf8Bytes("isbe.security.token.storage")));
+    let legacyAddress;
+
+    function fieldSlot(label) {
+      return storageBase + BigInt(storageLayout.storage.find((field) => field.label === label).slot);
+    }
+
+    // Clears a SecurityTokenStorage field, as on a diamond initialized before the field existed
+    async function clearField(label, key) {
+      const slot = key === undefined
+        ? fieldSlot(label)
+        : ethers.keccak256(ethers.AbiCoder.defaultAbiCoder().encode(["address", "uint256"], [key, fieldSlot(label)]));
+      await setStorageAt(legacyAddress, slot, 0);
+    }
+
+    before(async function () {
+      const legacyCut = [diamondCutFacet, erc20Facet, mintingFacet, adminFacet, complianceFacet].map((facet) => ({
+        facetAddress: facet.target,
+        action: 0, // Add
+        functionSelectors: getSelectors(facet)
+      }));
+      const initData = diamondInit.interface.encodeFunctionData("init", [
+        "Legacy", "LGCY", initParams.cap, "ES0000000010", initParams.instrumentType, initParams.jurisdiction, admin.address
+      ]);
+      const legacy = await Diamond.deploy(legacyCut, diamondInit.target, initData);
+      await legacy.waitForDeployment();
+      legacyAddress = await legacy.getAddress();
+    });
+
+    it("should set up the controller role with the upgrade init and refuse forced transfers before", async function () {
+      const compliance = await ethers.getContractAt("ComplianceFacet", legacyAddress);
+      const adminFacetContract = await ethers.getContractAt("AdminFacet", legacyAddress);
+      const minting = await ethers.getContractAt("MintingFacet", legacyAddress);
+      const erc20 = await ethers.getContractAt("ERC20Facet", legacyAddress);
+      const cutFacet = await ethers.getContractAt("DiamondCutFacet", legacyAddress);
+
+      await adminFacetContract.addToWhitelist(user1.address);
+      await adminFacetContract.addToWhitelist(user2.address);
+      await minting.mint(user1.address, 100);
+
+      await clearField("controllerRole");
+      expect(await compliance.CONTROLLER_ROLE()).to.equal(ethers.ZeroHash);
+      await expect(
+        compliance.forcedTransfer(user1.address, user2.address, 10, ethers.ZeroHash, "0x")
+      ).to.be.revertedWithCustomError(compliance, "ControllerRoleNotInitialized");
+
+      await cutFacet.diamondCut([], diamondInit.target, diamondInit.interface.encodeFunctionData("initControllerRole"));
+      const controllerRole = ethers.id("CONTROLLER_ROLE");
+      expect(await compliance.CONTROLLER_ROLE()).to.equal(controllerRole);
+      expect(await adminFacetContract.getRoleAdmin(controllerRole)).to.equal(await compliance.ADMIN_ROLE());
+
+      await adminFacetContract.grantRole(controllerRole, user2.address);
+      await compliance.connect(user2).forcedTransfer(user1.address, user2.address, 10, ethers.ZeroHash, "0x");
+      expect(await erc20.balanceOf(user2.address)).to.equal(10);
+    });
+
+    it("should not count holders that predate holder tracking until they are added by the upgrade init", async function () {
+      const compliance = await ethers.getContractAt("ComplianceFacet", legacyAddress);
+      const erc20 = await ethers.getContractAt("ERC20Facet", legacyAddress);
+      const cutFacet = await ethers.getContractAt("DiamondCutFacet", legacyAddress);
+
+      for (const field of ["holderCount", "holders"]) await clearField(field);
+      for (const account of [user1, user2]) await clearField("holderIndex", account.address);
+      expect(await compliance.holderCount()).to.equal(0);
+
+      // Emptying the balance of an unlisted holder leaves the count alone
+      await erc20.connect(user2).transfer(user1.address, 10);
+      expect(await compliance.holderCount()).to.equal(0);
+
+      const initData = diamondInit.interface.encodeFunctionData("initHolders", [[user1.address, user2.address, admin.address]]);
+      await cutFacet.diamondCut([], diamondInit.target, initData);
+      expect(await compliance.holderCount()).to.equal(1);
+
+      await cutFacet.diamondCut([], diamondInit.target, initData);
+      expect(await compliance.holderCount()).to.equal(1);
+
+      await erc20.connect(user1).transfer(user2.address, await erc20.balanceOf(user1.address));
+      expect(await compliance.holderCount()).to.equal(1);
+    });
+  });
+
   describe("Role management", function () {
     it("should allow admin to grant and revoke roles", async function () {
       const adminFacetContract = await ethers.getContractAt("AdminFacet", diamondAddress);
@@ -411,4 +1703,100 @@ function getSelectors(contract) {
       expect(defaultAdminRole).to.equal("0x0000000000000000000000000000000000000000000000000000000000000000");
     });
   });
-});
\ No newline at end of file
+
+  // Runs last: after maturity every transfer and mint is blocked
+  describe("Bond redemption", function () {
+    const nominalValue = ethers.parseUnits("100", 6); // 100 USDC per token
+    let stablecoin;
+    let maturityDate;
+
+    before(async function () {
+      const MockERC20 = await ethers.getContractFactory("MockERC20");
+      stablecoin = await MockERC20.deploy("USD Coin", "USDC");
+      await stablecoin.waitForDeployment();
+    });
+
+    it("should set the bond terms and fund the redemption", async function () {
+      const redemption = await ethers.getContractAt("RedemptionFacet", diamondAddress);
+      const erc20 = await ethers.getContractAt("ERC20Facet", diamondAddress);
+      maturityDate = (await time.latest()) + 365 * 24 * 60 * 60;
+
+      await expect(redemption.setBondTerms(maturityDate, nominalValue))
+        .to.emit(redemption, "BondTermsSet")
+        .withArgs(maturityDate, nominalValue, admin.address);
+
+      const principal = await redemption.redemptionAmount(await erc20.totalSupply());
+      await stablecoin.mint(admin.address, principal);
+      await stablecoin.approve(diamondAddress, principal);
+      await expect(redemption.fundRedemption(await stablecoin.getAddress(), principal))
+        .to.emit(redemption, "RedemptionFunded")
+        .withArgs(await stablecoin.getAddress(), admin.address, principal);
+
+      expect(await redemption.getRedemptionInfo())
+        .to.deep.equal([maturityDate, nominalValue, await stablecoin.getAddress(), principal]);
+    });
+
+    it("should not allow redemption before maturity", async function () {
+      const redemption = await ethers.getContractAt("RedemptionFacet", diamondAddress);
+      await expect(redemption.redeem(ethers.parseUnits("1", 18)))
+        .to.be.revertedWithCustomError(redemption, "BondNotMatured")
+        .withArgs(maturityDate);
+    });
+
+    it("should block transfers and mints after maturity", async function () {
+      const redemption = await ethers.getContractAt("RedemptionFacet", diamondAddress);
+      const erc20 = await ethers.getContractAt("ERC20Facet", diamondAddress);
+      const minting = await ethers.getContractAt("MintingFacet", diamondAddress);
+
+      await time.increaseTo(maturityDate);
+      expect(await redemption.isMatured()).to.be.true;
+
+      await expect(erc20.transfer(user1.address, 1))
+        .to.be.revertedWithCustomError(erc20, "BondMatured")
+        .withArgs(maturityDate);
+      await expect(minting.mint(user1.address, 1))
+        .to.be.revertedWithCustomError(minting, "BondMatured");
+      expect(await erc20.canTransfer(user1.address, 1, "0x"))
+        .to.deep.equal(["0x54", ethers.encodeBytes32String("BOND_MATURED")]);
+    });
+
+    it("should let holders redeem their tokens for the nominal value", async function () {
+      const redemption = await ethers.getContractAt("RedemptionFacet", diamondAddress);
+      const erc20 = await ethers.getContractAt("ERC20Facet", diamondAddress);
+      const amount = ethers.parseUnits("2", 18);
+      const balanceBefore = await erc20.balanceOf(admin.address);
+
+      await expect(redemption.redeem(amount))
+        .to.emit(redemption, "Redeemed")
+        .withArgs(admin.address, amount, ethers.parseUnits("200", 6), false);
+      expect(await erc20.balanceOf(admin.address)).to.equal(balanceBefore - amount);
+      expect(await stablecoin.balanceOf(admin.address)).to.equal(ethers.parseUnits("200", 6));
+    });
+
+    it("should let the issuer force-redeem all holders in batches", async function () {
+      const redemption = await ethers.getContractAt("RedemptionFacet", diamondAddress);
+      const compliance = await ethers.getContractAt("ComplianceFacet", diamondAddress);
+      const erc20 = await ethers.getContractAt("ERC20Facet", diamondAddress);
+      const partitions = await ethers.getContractAt("PartitionFacet", diamondAddress);
+      const holders = await compliance.holderCount();
+      const user1Balance = await erc20.balanceOf(user1.address);
+
+      await expect(redemption.connect(user1).forceRedeem(1))
+        .to.be.revertedWithCustomError(redemption, "UnauthorizedRole");
+
+      await redemption.forceRedeem(1);
+      expect(await compliance.holderCount()).to.equal(holders - 1n);
+
+      await redemption.forceRedeem(100);
+      expect(await compliance.holderCount()).to.equal(0);
+      expect(await erc20.totalSupply()).to.equal(0);
+      expect(await partitions.partitionsOf(user1.address)).to.deep.equal([]);
+      expect(await erc20.getLockUps(user2.address)).to.deep.equal([]);
+      expect(await stablecoin.balanceOf(user1.address))
+        .to.be.greaterThanOrEqual(await redemption.redemptionAmount(user1Balance));
+
+      const [, , , funds] = await redemption.getRedemptionInfo();
+      expect(await stablecoin.balanceOf(diamondAddress)).to.equal(funds);
+    });
+  });
+});
@@ -0,0 +1,144 @@
+const { expect } = require("chai");
+const { ethers } = require("hardhat");
+const path = require("path");
+const { FacetCutAction, loadManifest, planUpgrade, formatPlan, applyUpgrade } = require("../scripts/diamondUpgrade");
+
+const manifest = loadManifest(path.join(__dirname, "..", "manifests", "securityToken.json"));
+
+function getSelectors(contract) {
+  return contract.interface.fragments
+    .filter((f) => f.type === "function" && f.name !== "init")
+    .map((f) => contract.interface.getFunction(f.name).selector);
+}
+
+// Facets of the first release, before the facets changed since reported a new version
+const BASELINE_FACETS = [
+  "DiamondCutFacet", "DiamondLoupeFacet", "OwnershipFacet", "ERC20Facet", "MintingFacet", "AdminFacet", "ComplianceFacet"
+];
+
+// Deploys a diamond with the given facets, by default every manifest facet except DocumentFacet
+async function deployDiamond(owner, names = Object.keys(manifest.facets).filter((name) => name !== "DocumentFacet")) {
+  const cut = [];
+  for (const name of names) {
+    const facet = await (await ethers.getContractFactory(name)).deploy();
+    cut.push({ facetAddress: await facet.getAddress(), action: 0, functionSelectors: getSelectors(facet) });
+  }
+  const diamondInit = await (await ethers.getContractFactory("DiamondInit")).deploy();
+  const initData = diamondInit.interface.encodeFunctionData("init", [
+    "Upgrade Bond", "UPGB", ethers.parseUnits("1000", 18), "ES0123456784", "bond", "ES", owner.address
+  ]);
+  const diamond = await (await ethers.getContractFactory("Diamond"))
+    .deploy(cut, await diamondInit.getAddress(), initData);
+  return diamond.getAddress();
+}
+
+describe("Diamond upgrade from a facet manifest", function () {
+  let owner;
+  let diamondAddress;
+
+  before(async function () {
+    [owner] = await ethers.getSigners();
+    diamondAddress = await deployDiamond(owner);
+  });
+
+  it("should plan adding a missing facet and removing an unlisted one", async function () {
+    const { CouponFacet, ...facets } = manifest.facets;
+    const plan = await planUpgrade(diamondAddress, { facets });
+
+    expect(plan.upgrades).to.have.lengthOf(1);
+    expect(plan.upgrades[0]).to.include({ name: "DocumentFacet", version: "1.0.0", currentAddress: undefined });
+
+    const documentFacet = await ethers.getContractFactory("DocumentFacet");
+    const [add, remove] = plan.cut;
+    expect(plan.cut).to.have.lengthOf(2);
+    expect(add).to.deep.include({ action: FacetCutAction.Add, facetName: "DocumentFacet" });
+    expect(add.selectors).to.have.members(getSelectors(documentFacet));
+    expect(remove.action).to.equal(FacetCutAction.Remove);
+    expect(remove.facetName).to.be.undefined;
+    expect(remove.functions).to.include("couponFacetVersion()");
+
+    const output = formatPlan(plan, { facets });
+    expect(output).to.include("DocumentFacet new 1.0.0");
+    expect(output).to.include("Remove");
+  });
+
+  it("should plan replacing every selector of a facet whose version changed", async function () {
+    const plan = await planUpgrade(diamondAddress, { facets: { ...manifest.facets, MintingFacet: "1.2.0" } });
+    const mintingFacet = await ethers.getContractFactory("MintingFacet");
+
+    const replace = plan.cut.find((c) => c.action === FacetCutAction.Replace);
+    expect(replace.facetName).to.equal("MintingFacet");
+    expect(replace.selectors).to.have.members(getSelectors(mintingFacet));
+    expect(plan.upgrades.find((u) => u.name === "MintingFacet"))
+      .to.include({ currentVersion: "1.1.0", version: "1.2.0", versionFunction: "mintingFacetVersion" });
+  });
+
+  it("should not cut when the deployed facet reports another version", async function () {
+    const plan = await planUpgrade(diamondAddress, { facets: { ...manifest.facets, DocumentFacet: "2.0.0" } });
+    try {
+      await applyUpgrade(plan, manifest);
+      expect.fail("expected a version mismatch");
+    } catch (error) {
+      expect(error.message).to.equal("DocumentFacet reports version 1.0.0, the manifest expects 2.0.0");
+    }
+  });
+
+  it("should apply the upgrade and leave nothing to do afterwards", async function () {
+    const plan = await planUpgrade(diamondAddress, manifest);
+    const result = await applyUpgrade(plan, manifest);
+    expect(result.proposalId).to.be.undefined;
+
+    const loupe = await ethers.getContractAt("DiamondLoupeFacet", diamondAddress);
+    expect(await loupe.facetCount()).to.equal(13n);
+    const document = await ethers.getContractAt("DocumentFacet", diamondAddress);
+    expect(await document.documentFacetVersion()).to.equal("1.0.0");
+
+    const again = await planUpgrade(diamondAddress, manifest);
+    expect(again.upgrades).to.be.empty;
+    expect(again.cut).to.be.empty;
+  });
+
+  it("should upgrade the changed facets of a diamond deployed from the baseline facet set", async function () {
+    const baselineAddress = await deployDiamond(owner, BASELINE_FACETS);
+    const baselineVersions = await ethers.deployContract("BaselineVersionsFacet");
+    const cutFacet = await ethers.getContractAt("DiamondCutFacet", baselineAddress);
+    await cutFacet.diamondCut(
+      [{ facetAddress: await baselineVersions.getAddress(), action: FacetCutAction.Replace, functionSelectors: getSelectors(baselineVersions) }],
+      ethers.ZeroAddress,
+      "0x"
+    );
+
+    const changed = BASELINE_FACETS.filter((name) => manifest.facets[name] !== "1.0.0");
+    expect(changed).to.have.members(["DiamondCutFacet", "ERC20Facet", "MintingFacet", "AdminFacet", "ComplianceFacet"]);
+
+    const plan = await planUpgrade(baselineAddress, manifest);
+    const added = Object.keys(manifest.facets).filter((name) => !BASELINE_FACETS.includes(name));
+    expect(plan.upgrades.map(({ name }) => name)).to.have.members([...changed, ...added]);
+    for (const name of changed) {
+      expect(plan.upgrades.find((u) => u.name === name)).to.include({ currentVersion: "1.0.0", version: manifest.facets[name] });
+    }
+
+    await applyUpgrade(plan, manifest);
+    for (const { name, versionFunction } of plan.upgrades) {
+      const facet = await ethers.getContractAt(name, baselineAddress);
+      expect(await facet.getFunction(versionFunction)()).to.equal(manifest.facets[name]);
+    }
+    const loupe = await ethers.getContractAt("DiamondLoupeFacet", baselineAddress);
+    expect(await loupe.facetAddresses()).to.not.include(await baselineVersions.getAddress());
+    expect((await planUpgrade(baselineAddress, manifest)).cut).to.be.empty;
+  });
+
+  it("should keep the immutable functions of the diamond whatever the case of its address", async function () {
+    const cutFacet = await ethers.getContractAt("DiamondCutFacet", diamondAddress);
+    const immutableSelector = "0x12345678";
+    await cutFacet.diamondCut(
+      [{ facetAddress: diamondAddress, action: FacetCutAction.Add, functionSelectors: [immutableSelector] }],
+      ethers.ZeroAddress,
+      "0x"
+    );
+
+    const plan = await planUpgrade(diamondAddress.toLowerCase(), manifest);
+    expect(plan.diamond).to.equal(diamondAddress);
+    expect(plan.cut).to.be.empty;
+  });
+});
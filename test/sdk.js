@@ -0,0 +1,168 @@
+const { expect } = require("chai");
+const { ethers } = require("hardhat");
+const {
+  connectSecurityToken,
+  SecurityTokenError,
+  RecipientNotWhitelistedError,
+  RecipientBlacklistedError,
+  UnauthorizedRoleError,
+  AccessControlUnauthorizedAccountError,
+  CapExceededError,
+  ERC20ExceededCapError,
+  ERC20TokenTransferPausedError,
+  EnforcedPauseError,
+} = require("../src/sdk");
+
+const initArgs = (admin) => [
+  "SDK Bond", "SDKB", ethers.parseUnits("1000", 18), "ES0123456784", "bond", "ES", admin
+];
+
+function getSelectors(contract) {
+  return contract.interface.fragments
+    .filter((f) => f.type === "function" && f.name !== "init")
+    .map((f) => contract.interface.getFunction(f.name).selector);
+}
+
+async function deployDiamondToken(admin) {
+  const names = [
+    "DiamondCutFacet", "DiamondLoupeFacet", "OwnershipFacet", "ERC20Facet", "MintingFacet", "AdminFacet",
+    "ComplianceFacet", "DocumentFacet", "SnapshotFacet", "DistributionFacet", "RedemptionFacet",
+    "CouponFacet", "PartitionFacet"
+  ];
+  const standardCut = [];
+  for (const name of names) {
+    const facet = await (await ethers.getContractFactory(name)).deploy();
+    standardCut.push({
+      facetAddress: await facet.getAddress(),
+      action: 0, // Add
+      functionSelectors: getSelectors(facet)
+    });
+  }
+  const diamondInit = await (await ethers.getContractFactory("DiamondInit")).deploy();
+  const factory = await (await ethers.getContractFactory("DiamondFactory"))
+    .deploy(standardCut, await diamondInit.getAddress());
+
+  const initData = diamondInit.interface.encodeFunctionData("init", initArgs(admin.address));
+  await factory.createDiamond(initData, admin.address);
+  return factory.getDiamondByIndex(0);
+}
+
+async function deployBeaconToken(admin) {
+  const implementation = await (await ethers.getContractFactory("SecurityToken")).deploy();
+  const beacon = await (await ethers.getContractFactory("UpgradeableBeacon"))
+    .deploy(await implementation.getAddress(), admin.address);
+  const factory = await (await ethers.getContractFactory("SecurityTokenFactory"))
+    .deploy(await beacon.getAddress());
+
+  const initData = implementation.interface.encodeFunctionData("initialize", initArgs(admin.address));
+  await factory.createToken(initData, admin.address);
+  return factory.getTokenByIndex(0);
+}
+
+const architectures = [
+  {
+    kind: "diamond",
+    deploy: deployDiamondToken,
+    UnauthorizedError: UnauthorizedRoleError,
+    CapError: CapExceededError,
+    PausedError: ERC20TokenTransferPausedError
+  },
+  {
+    kind: "beacon",
+    deploy: deployBeaconToken,
+    UnauthorizedError: AccessControlUnauthorizedAccountError,
+    CapError: ERC20ExceededCapError,
+    PausedError: EnforcedPauseError
+  }
+];
+
+for (const { kind, deploy, UnauthorizedError, CapError, PausedError } of architectures) {
+  describe(`SecurityTokenClient (${kind})`, function () {
+    let admin;
+    let user1;
+    let user2;
+    let client;
+
+    async function expectError(promise, ErrorClass) {
+      try {
+        await promise;
+      } catch (error) {
+        expect(error).to.be.instanceOf(ErrorClass);
+        expect(error).to.be.instanceOf(SecurityTokenError);
+        return error;
+      }
+      expect.fail(`expected ${ErrorClass.name}`);
+    }
+
+    before(async function () {
+      [admin, user1, user2] = await ethers.getSigners();
+      client = connectSecurityToken(kind, await deploy(admin), admin);
+    });
+
+    it("should read the token metadata and roles", async function () {
+      expect(client.kind).to.equal(kind);
+      expect(await client.name()).to.equal("SDK Bond");
+      expect(await client.decimals()).to.equal(18n);
+      expect(await client.getSecurityInfo()).to.deep.equal({
+        isin: "ES0123456784",
+        instrumentType: "bond",
+        jurisdiction: "ES",
+        cap: ethers.parseUnits("1000", 18)
+      });
+      expect(await client.hasRole("MINTER_ROLE", admin.address)).to.be.true;
+      expect(await client.hasRole("MINTER_ROLE", user1.address)).to.be.false;
+    });
+
+    it("should whitelist, mint and transfer", async function () {
+      await client.addToWhitelist(admin.address);
+      await client.addToWhitelist(user1.address);
+      expect(await client.isWhitelisted(user1.address)).to.be.true;
+
+      await client.mint(admin.address, ethers.parseUnits("100", 18));
+      expect(await client.canTransfer(user1.address, ethers.parseUnits("10", 18)))
+        .to.deep.equal({ allowed: true, status: "0x51", reason: "" });
+
+      const receipt = await client.transfer(user1.address, ethers.parseUnits("10", 18));
+      expect(receipt.status).to.equal(1);
+      expect(await client.balanceOf(user1.address)).to.equal(ethers.parseUnits("10", 18));
+
+      const record = await client.getTransactionRecord(await client.transactionCount());
+      expect(record.from).to.equal(admin.address);
+      expect(record.to).to.equal(user1.address);
+      expect(record.amount).to.equal(ethers.parseUnits("10", 18));
+      expect(record.forced).to.be.false;
+    });
+
+    it("should decode compliance reverts into typed errors", async function () {
+      expect(await client.canTransfer(user2.address, 1n))
+        .to.deep.equal({ allowed: false, status: "0x57", reason: "RECIPIENT_NOT_WHITELISTED" });
+      const error = await expectError(client.transfer(user2.address, 1n), RecipientNotWhitelistedError);
+      expect(error.errorName).to.equal("RecipientNotWhitelisted");
+      expect(error.recipient).to.equal(user2.address);
+
+      await client.addToWhitelist(user2.address);
+      await client.addToBlacklist(user2.address);
+      expect(await client.isBlacklisted(user2.address)).to.be.true;
+      await expectError(client.transfer(user2.address, 1n), RecipientBlacklistedError);
+      await client.removeFromBlacklist(user2.address);
+      await client.transfer(user2.address, 1n);
+    });
+
+    it("should decode role, cap and pause reverts into typed errors", async function () {
+      const user1Client = connectSecurityToken(kind, client.address, user1);
+      await expectError(user1Client.mint(user1.address, 1n), UnauthorizedError);
+
+      await client.grantRole("MINTER_ROLE", user1.address);
+      await user1Client.mint(user1.address, 1n);
+      await client.revokeRole("MINTER_ROLE", user1.address);
+
+      const capError = await expectError(client.mint(admin.address, ethers.parseUnits("1000", 18)), CapError);
+      expect(capError.cap).to.equal(ethers.parseUnits("1000", 18));
+
+      await client.pause();
+      expect(await client.paused()).to.be.true;
+      await expectError(client.transfer(user1.address, 1n), PausedError);
+      await client.unpause();
+    });
+  });
+}
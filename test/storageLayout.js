@@ -0,0 +1,56 @@
+const { expect } = require("chai");
+const { artifacts } = require("hardhat");
+const { LAYOUT_TARGETS, extractLayout, compareLayouts, checkStorageLayouts } = require("../scripts/utils/storageLayout");
+
+describe("Storage layout compatibility", function () {
+  let baseline;
+  let current;
+
+  before(async function () {
+    baseline = await extractLayout(artifacts, LAYOUT_TARGETS.find(({ name }) => name === "SecurityTokenStorage"));
+  });
+
+  beforeEach(function () {
+    current = structuredClone(baseline);
+  });
+
+  it("should match the committed baselines", async function () {
+    const results = await checkStorageLayouts(artifacts);
+    for (const errors of Object.values(results)) {
+      expect(errors).to.be.empty;
+    }
+  });
+
+  it("should accept fields appended at the end", function () {
+    current.storage.push({ label: "newField", slot: "999", offset: 0, type: "t_uint256" });
+    current.types["t_struct(TransactionRecord)_storage"].members.push(
+      { label: "memo", slot: "99", offset: 0, type: "t_uint256" }
+    );
+    expect(compareLayouts(baseline, current)).to.be.empty;
+  });
+
+  it("should reject a field inserted mid-struct", function () {
+    current.storage.splice(2, 0, { label: "newField", slot: "2", offset: 0, type: "t_uint256" });
+    expect(compareLayouts(baseline, current, "SecurityTokenStorage"))
+      .to.deep.equal(["SecurityTokenStorage: newField was inserted before totalSupply"]);
+  });
+
+  it("should reject reordered fields", function () {
+    [current.storage[3], current.storage[4]] = [current.storage[4], current.storage[3]];
+    expect(compareLayouts(baseline, current, "SecurityTokenStorage"))
+      .to.deep.equal(["SecurityTokenStorage: name was reordered, found symbol in its place"]);
+  });
+
+  it("should reject retyped fields, also inside nested structs", function () {
+    current.storage.find(({ label }) => label === "decimals").type = "t_uint256";
+    current.types["t_uint256"] = { encoding: "inplace", label: "uint256", numberOfBytes: "32" };
+    const record = current.types["t_struct(TransactionRecord)_storage"].members[0];
+    record.type = "t_bytes32";
+    current.types["t_bytes32"] = { encoding: "inplace", label: "bytes32", numberOfBytes: "32" };
+
+    const errors = compareLayouts(baseline, current, "SecurityTokenStorage");
+    expect(errors).to.have.lengthOf(2);
+    expect(errors[0]).to.equal("SecurityTokenStorage.decimals: type changed from uint8 to uint256");
+    expect(errors[1]).to.match(new RegExp(`\\.${record.label}: type changed from \\w+ to bytes32$`));
+  });
+});
@@ -1,4 +0,0 @@
-/* Autogenerated file. Do not edit manually. */
-/* tslint:disable */
-/* eslint-disable */
-export type { AccessControlUpgradeable } from "./AccessControlUpgradeable";
@@ -1,11 +0,0 @@
-/* Autogenerated file. Do not edit manually. */
-/* tslint:disable */
-/* eslint-disable */
-import type * as access from "./access";
-export type { access };
-import type * as proxy from "./proxy";
-export type { proxy };
-import type * as token from "./token";
-export type { token };
-import type * as utils from "./utils";
-export type { utils };
@@ -1,6 +0,0 @@
-/* Autogenerated file. Do not edit manually. */
-/* tslint:disable */
-/* eslint-disable */
-export type { ERC20BurnableUpgradeable } from "./ERC20BurnableUpgradeable";
-export type { ERC20CappedUpgradeable } from "./ERC20CappedUpgradeable";
-export type { ERC20PausableUpgradeable } from "./ERC20PausableUpgradeable";
@@ -1,7 +0,0 @@
-/* Autogenerated file. Do not edit manually. */
-/* tslint:disable */
-/* eslint-disable */
-import type * as introspection from "./introspection";
-export type { introspection };
-export type { ContextUpgradeable } from "./ContextUpgradeable";
-export type { PausableUpgradeable } from "./PausableUpgradeable";
@@ -1,5 +0,0 @@
-/* Autogenerated file. Do not edit manually. */
-/* tslint:disable */
-/* eslint-disable */
-export type { IAccessControl } from "./IAccessControl";
-export type { Ownable } from "./Ownable";
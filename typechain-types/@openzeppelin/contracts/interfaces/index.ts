@@ -1,6 +0,0 @@
-/* Autogenerated file. Do not edit manually. */
-/* tslint:disable */
-/* eslint-disable */
-import type * as draftIerc6093Sol from "./draft-IERC6093.sol";
-export type { draftIerc6093Sol };
-export type { IERC1967 } from "./IERC1967";
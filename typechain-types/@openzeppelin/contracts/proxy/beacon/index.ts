@@ -1,6 +0,0 @@
-/* Autogenerated file. Do not edit manually. */
-/* tslint:disable */
-/* eslint-disable */
-export type { BeaconProxy } from "./BeaconProxy";
-export type { IBeacon } from "./IBeacon";
-export type { UpgradeableBeacon } from "./UpgradeableBeacon";
@@ -1,8 +0,0 @@
-/* Autogenerated file. Do not edit manually. */
-/* tslint:disable */
-/* eslint-disable */
-import type * as erc1967 from "./ERC1967";
-export type { erc1967 };
-import type * as beacon from "./beacon";
-export type { beacon };
-export type { Proxy } from "./Proxy";
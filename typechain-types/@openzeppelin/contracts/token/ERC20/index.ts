@@ -1,6 +0,0 @@
-/* Autogenerated file. Do not edit manually. */
-/* tslint:disable */
-/* eslint-disable */
-import type * as extensions from "./extensions";
-export type { extensions };
-export type { IERC20 } from "./IERC20";
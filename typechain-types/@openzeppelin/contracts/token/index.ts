@@ -1,5 +0,0 @@
-/* Autogenerated file. Do not edit manually. */
-/* tslint:disable */
-/* eslint-disable */
-import type * as erc20 from "./ERC20";
-export type { erc20 };
@@ -1,7 +0,0 @@
-/* Autogenerated file. Do not edit manually. */
-/* tslint:disable */
-/* eslint-disable */
-import type * as contracts from "./contracts";
-export type { contracts };
-import type * as contractsUpgradeable from "./contracts-upgradeable";
-export type { contractsUpgradeable };
@@ -1,119 +0,0 @@
-/* Autogenerated file. Do not edit manually. */
-/* tslint:disable */
-/* eslint-disable */
-import type {
-  BaseContract,
-  BigNumberish,
-  BytesLike,
-  FunctionFragment,
-  Result,
-  Interface,
-  AddressLike,
-  ContractRunner,
-  ContractMethod,
-  Listener,
-} from "ethers";
-import type {
-  TypedContractEvent,
-  TypedDeferredTopicFilter,
-  TypedEventLog,
-  TypedListener,
-  TypedContractMethod,
-} from "../../../../common";
-
-export declare namespace IDiamondCut {
-  export type FacetCutStruct = {
-    facetAddress: AddressLike;
-    action: BigNumberish;
-    functionSelectors: BytesLike[];
-  };
-
-  export type FacetCutStructOutput = [
-    facetAddress: string,
-    action: bigint,
-    functionSelectors: string[]
-  ] & { facetAddress: string; action: bigint; functionSelectors: string[] };
-}
-
-export interface IDiamondCutInterface extends Interface {
-  getFunction(nameOrSignature: "diamondCut"): FunctionFragment;
-
-  encodeFunctionData(
-    functionFragment: "diamondCut",
-    values: [IDiamondCut.FacetCutStruct[], AddressLike, BytesLike]
-  ): string;
-
-  decodeFunctionResult(functionFragment: "diamondCut", data: BytesLike): Result;
-}
-
-export interface IDiamondCut extends BaseContract {
-  connect(runner?: ContractRunner | null): IDiamondCut;
-  waitForDeployment(): Promise<this>;
-
-  interface: IDiamondCutInterface;
-
-  queryFilter<TCEvent extends TypedContractEvent>(
-    event: TCEvent,
-    fromBlockOrBlockhash?: string | number | undefined,
-    toBlock?: string | number | undefined
-  ): Promise<Array<TypedEventLog<TCEvent>>>;
-  queryFilter<TCEvent extends TypedContractEvent>(
-    filter: TypedDeferredTopicFilter<TCEvent>,
-    fromBlockOrBlockhash?: string | number | undefined,
-    toBlock?: string | number | undefined
-  ): Promise<Array<TypedEventLog<TCEvent>>>;
-
-  on<TCEvent extends TypedContractEvent>(
-    event: TCEvent,
-    listener: TypedListener<TCEvent>
-  ): Promise<this>;
-  on<TCEvent extends TypedContractEvent>(
-    filter: TypedDeferredTopicFilter<TCEvent>,
-    listener: TypedListener<TCEvent>
-  ): Promise<this>;
-
-  once<TCEvent extends TypedContractEvent>(
-    event: TCEvent,
-    listener: TypedListener<TCEvent>
-  ): Promise<this>;
-  once<TCEvent extends TypedContractEvent>(
-    filter: TypedDeferredTopicFilter<TCEvent>,
-    listener: TypedListener<TCEvent>
-  ): Promise<this>;
-
-  listeners<TCEvent extends TypedContractEvent>(
-    event: TCEvent
-  ): Promise<Array<TypedListener<TCEvent>>>;
-  listeners(eventName?: string): Promise<Array<Listener>>;
-  removeAllListeners<TCEvent extends TypedContractEvent>(
-    event?: TCEvent
-  ): Promise<this>;
-
-  diamondCut: TypedContractMethod<
-    [
-      _diamondCut: IDiamondCut.FacetCutStruct[],
-      _init: AddressLike,
-      _calldata: BytesLike
-    ],
-    [void],
-    "nonpayable"
-  >;
-
-  getFunction<T extends ContractMethod = ContractMethod>(
-    key: string | FunctionFragment
-  ): T;
-
-  getFunction(
-    nameOrSignature: "diamondCut"
-  ): TypedContractMethod<
-    [
-      _diamondCut: IDiamondCut.FacetCutStruct[],
-      _init: AddressLike,
-      _calldata: BytesLike
-    ],
-    [void],
-    "nonpayable"
-  >;
-
-  filters: {};
-}
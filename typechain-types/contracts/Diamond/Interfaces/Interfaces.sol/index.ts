@@ -1,6 +0,0 @@
-/* Autogenerated file. Do not edit manually. */
-/* tslint:disable */
-/* eslint-disable */
-export type { IDiamondCut } from "./IDiamondCut";
-export type { IDiamondLoupe } from "./IDiamondLoupe";
-export type { IERC165 } from "./IERC165";
@@ -1,5 +0,0 @@
-/* Autogenerated file. Do not edit manually. */
-/* tslint:disable */
-/* eslint-disable */
-import type * as interfacesSol from "./Interfaces.sol";
-export type { interfacesSol };
@@ -1,16 +0,0 @@
-/* Autogenerated file. Do not edit manually. */
-/* tslint:disable */
-/* eslint-disable */
-import type * as interfaces from "./Interfaces";
-export type { interfaces };
-import type * as librarys from "./Librarys";
-export type { librarys };
-export type { AdminFacet } from "./AdminFacet";
-export type { ComplianceFacet } from "./ComplianceFacet";
-export type { Diamond } from "./Diamond";
-export type { DiamondCutFacet } from "./DiamondCutFacet";
-export type { DiamondInit } from "./DiamondInit";
-export type { DiamondLoupeFacet } from "./DiamondLoupeFacet";
-export type { ERC20Facet } from "./ERC20Facet";
-export type { MintingFacet } from "./MintingFacet";
-export type { OwnershipFacet } from "./OwnershipFacet";
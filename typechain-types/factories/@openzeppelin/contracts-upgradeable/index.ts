@@ -1,7 +0,0 @@
-/* Autogenerated file. Do not edit manually. */
-/* tslint:disable */
-/* eslint-disable */
-export * as access from "./access";
-export * as proxy from "./proxy";
-export * as token from "./token";
-export * as utils from "./utils";
@@ -1,6 +0,0 @@
-/* Autogenerated file. Do not edit manually. */
-/* tslint:disable */
-/* eslint-disable */
-export { ERC20BurnableUpgradeable__factory } from "./ERC20BurnableUpgradeable__factory";
-export { ERC20CappedUpgradeable__factory } from "./ERC20CappedUpgradeable__factory";
-export { ERC20PausableUpgradeable__factory } from "./ERC20PausableUpgradeable__factory";
@@ -1,5 +0,0 @@
-/* Autogenerated file. Do not edit manually. */
-/* tslint:disable */
-/* eslint-disable */
-export * as extensions from "./extensions";
-export { ERC20Upgradeable__factory } from "./ERC20Upgradeable__factory";
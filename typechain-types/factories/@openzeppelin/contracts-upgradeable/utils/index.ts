@@ -1,6 +0,0 @@
-/* Autogenerated file. Do not edit manually. */
-/* tslint:disable */
-/* eslint-disable */
-export * as introspection from "./introspection";
-export { ContextUpgradeable__factory } from "./ContextUpgradeable__factory";
-export { PausableUpgradeable__factory } from "./PausableUpgradeable__factory";
@@ -1,4 +0,0 @@
-/* Autogenerated file. Do not edit manually. */
-/* tslint:disable */
-/* eslint-disable */
-export { ERC165Upgradeable__factory } from "./ERC165Upgradeable__factory";
@@ -1,5 +0,0 @@
-/* Autogenerated file. Do not edit manually. */
-/* tslint:disable */
-/* eslint-disable */
-export { IAccessControl__factory } from "./IAccessControl__factory";
-export { Ownable__factory } from "./Ownable__factory";
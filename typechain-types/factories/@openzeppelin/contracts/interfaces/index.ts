@@ -1,5 +0,0 @@
-/* Autogenerated file. Do not edit manually. */
-/* tslint:disable */
-/* eslint-disable */
-export * as draftIerc6093Sol from "./draft-IERC6093.sol";
-export { IERC1967__factory } from "./IERC1967__factory";
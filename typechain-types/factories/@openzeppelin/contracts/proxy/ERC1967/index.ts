@@ -1,4 +0,0 @@
-/* Autogenerated file. Do not edit manually. */
-/* tslint:disable */
-/* eslint-disable */
-export { ERC1967Utils__factory } from "./ERC1967Utils__factory";
@@ -1,226 +0,0 @@
-/* Autogenerated file. Do not edit manually. */
-/* tslint:disable */
-/* eslint-disable */
-import {
-  Contract,
-  ContractFactory,
-  ContractTransactionResponse,
-  Interface,
-} from "ethers";
-import type {
-  Signer,
-  AddressLike,
-  ContractDeployTransaction,
-  ContractRunner,
-} from "ethers";
-import type { NonPayableOverrides } from "../../../../../common";
-import type {
-  UpgradeableBeacon,
-  UpgradeableBeaconInterface,
-} from "../../../../../@openzeppelin/contracts/proxy/beacon/UpgradeableBeacon";
-
-const _abi = [
-  {
-    inputs: [
-      {
-        internalType: "address",
-        name: "implementation_",
-        type: "address",
-      },
-      {
-        internalType: "address",
-        name: "initialOwner",
-        type: "address",
-      },
-    ],
-    stateMutability: "nonpayable",
-    type: "constructor",
-  },
-  {
-    inputs: [
-      {
-        internalType: "address",
-        name: "implementation",
-        type: "address",
-      },
-    ],
-    name: "BeaconInvalidImplementation",
-    type: "error",
-  },
-  {
-    inputs: [
-      {
-        internalType: "address",
-        name: "owner",
-        type: "address",
-      },
-    ],
-    name: "OwnableInvalidOwner",
-    type: "error",
-  },
-  {
-    inputs: [
-      {
-        internalType: "address",
-        name: "account",
-        type: "address",
-      },
-    ],
-    name: "OwnableUnauthorizedAccount",
-    type: "error",
-  },
-  {
-    anonymous: false,
-    inputs: [
-      {
-        indexed: true,
-        internalType: "address",
-        name: "previousOwner",
-        type: "address",
-      },
-      {
-        indexed: true,
-        internalType: "address",
-        name: "newOwner",
-        type: "address",
-      },
-    ],
-    name: "OwnershipTransferred",
-    type: "event",
-  },
-  {
-    anonymous: false,
-    inputs: [
-      {
-        indexed: true,
-        internalType: "address",
-        name: "implementation",
-        type: "address",
-      },
-    ],
-    name: "Upgraded",
-    type: "event",
-  },
-  {
-    inputs: [],
-    name: "implementation",
-    outputs: [
-      {
-        internalType: "address",
-        name: "",
-        type: "address",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [],
-    name: "owner",
-    outputs: [
-      {
-        internalType: "address",
-        name: "",
-        type: "address",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [],
-    name: "renounceOwnership",
-    outputs: [],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "address",
-        name: "newOwner",
-        type: "address",
-      },
-    ],
-    name: "transferOwnership",
-    outputs: [],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "address",
-        name: "newImplementation",
-        type: "address",
-      },
-    ],
-    name: "upgradeTo",
-    outputs: [],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-] as const;
-
-const _bytecode =
-  "0x608060405234801561001057600080fd5b5060405161044c38038061044c83398101604081905261002f91610165565b806001600160a01b03811661005f57604051631e4fbdf760e01b8152600060048201526024015b60405180910390fd5b61006881610079565b50610072826100c9565b5050610198565b600080546001600160a01b038381166001600160a01b0319831681178455604051919092169283917f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e09190a35050565b806001600160a01b03163b6000036100ff5760405163211eb15960e21b81526001600160a01b0382166004820152602401610056565b600180546001600160a01b0319166001600160a01b0383169081179091556040517fbc7cd75a20ee27fd9adebab32041f755214dbc6bffa90cc0225b39da2e5c2d3b90600090a250565b80516001600160a01b038116811461016057600080fd5b919050565b6000806040838503121561017857600080fd5b61018183610149565b915061018f60208401610149565b90509250929050565b6102a5806101a76000396000f3fe608060405234801561001057600080fd5b50600436106100575760003560e01c80633659cfe61461005c5780635c60da1b14610071578063715018a6146100945780638da5cb5b1461009c578063f2fde38b146100a4575b600080fd5b61006f61006a36600461022b565b6100b7565b005b6001546001600160a01b03165b60405161008b919061025b565b60405180910390f35b61006f6100cb565b61007e6100df565b61006f6100b236600461022b565b6100ee565b6100bf610132565b6100c881610164565b50565b6100d3610132565b6100dd60006101db565b565b6000546001600160a01b031690565b6100f6610132565b6001600160a01b038116610129576000604051631e4fbdf760e01b8152600401610120919061025b565b60405180910390fd5b6100c8816101db565b3361013b6100df565b6001600160a01b0316146100dd573360405163118cdaa760e01b8152600401610120919061025b565b806001600160a01b03163b600003610191578060405163211eb15960e21b8152600401610120919061025b565b600180546001600160a01b0319166001600160a01b0383169081179091556040517fbc7cd75a20ee27fd9adebab32041f755214dbc6bffa90cc0225b39da2e5c2d3b90600090a250565b600080546001600160a01b038381166001600160a01b0319831681178455604051919092169283917f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e09190a35050565b60006020828403121561023d57600080fd5b81356001600160a01b038116811461025457600080fd5b9392505050565b6001600160a01b039190911681526020019056fea2646970667358221220cb14c8f1b00749ab4b1fc87409d5136a4d4efab3859c7f23cd141e65775b671e64736f6c634300081c0033";
-
-type UpgradeableBeaconConstructorParams =
-  | [signer?: Signer]
-  | ConstructorParameters<typeof ContractFactory>;
-
-const isSuperArgs = (
-  xs: UpgradeableBeaconConstructorParams
-): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
-
-export class UpgradeableBeacon__factory extends ContractFactory {
-  constructor(...args: UpgradeableBeaconConstructorParams) {
-    if (isSuperArgs(args)) {
-      super(...args);
-    } else {
-      super(_abi, _bytecode, args[0]);
-    }
-  }
-
-  override getDeployTransaction(
-    implementation_: AddressLike,
-    initialOwner: AddressLike,
-    overrides?: NonPayableOverrides & { from?: string }
-  ): Promise<ContractDeployTransaction> {
-    return super.getDeployTransaction(
-      implementation_,
-      initialOwner,
-      overrides || {}
-    );
-  }
-  override deploy(
-    implementation_: AddressLike,
-    initialOwner: AddressLike,
-    overrides?: NonPayableOverrides & { from?: string }
-  ) {
-    return super.deploy(
-      implementation_,
-      initialOwner,
-      overrides || {}
-    ) as Promise<
-      UpgradeableBeacon & {
-        deploymentTransaction(): ContractTransactionResponse;
-      }
-    >;
-  }
-  override connect(runner: ContractRunner | null): UpgradeableBeacon__factory {
-    return super.connect(runner) as UpgradeableBeacon__factory;
-  }
-
-  static readonly bytecode = _bytecode;
-  static readonly abi = _abi;
-  static createInterface(): UpgradeableBeaconInterface {
-    return new Interface(_abi) as UpgradeableBeaconInterface;
-  }
-  static connect(
-    address: string,
-    runner?: ContractRunner | null
-  ): UpgradeableBeacon {
-    return new Contract(address, _abi, runner) as unknown as UpgradeableBeacon;
-  }
-}
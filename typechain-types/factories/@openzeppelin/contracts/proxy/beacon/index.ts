@@ -1,6 +0,0 @@
-/* Autogenerated file. Do not edit manually. */
-/* tslint:disable */
-/* eslint-disable */
-export { BeaconProxy__factory } from "./BeaconProxy__factory";
-export { IBeacon__factory } from "./IBeacon__factory";
-export { UpgradeableBeacon__factory } from "./UpgradeableBeacon__factory";
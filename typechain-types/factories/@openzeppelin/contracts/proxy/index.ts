@@ -1,6 +0,0 @@
-/* Autogenerated file. Do not edit manually. */
-/* tslint:disable */
-/* eslint-disable */
-export * as erc1967 from "./ERC1967";
-export * as beacon from "./beacon";
-export { Proxy__factory } from "./Proxy__factory";
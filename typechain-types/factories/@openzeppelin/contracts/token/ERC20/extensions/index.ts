@@ -1,4 +0,0 @@
-/* Autogenerated file. Do not edit manually. */
-/* tslint:disable */
-/* eslint-disable */
-export { IERC20Metadata__factory } from "./IERC20Metadata__factory";
@@ -1,5 +0,0 @@
-/* Autogenerated file. Do not edit manually. */
-/* tslint:disable */
-/* eslint-disable */
-export * as extensions from "./extensions";
-export { IERC20__factory } from "./IERC20__factory";
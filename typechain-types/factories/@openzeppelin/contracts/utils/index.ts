@@ -1,6 +0,0 @@
-/* Autogenerated file. Do not edit manually. */
-/* tslint:disable */
-/* eslint-disable */
-export * as introspection from "./introspection";
-export { Address__factory } from "./Address__factory";
-export { Errors__factory } from "./Errors__factory";
@@ -1,5 +0,0 @@
-/* Autogenerated file. Do not edit manually. */
-/* tslint:disable */
-/* eslint-disable */
-export * as contracts from "./contracts";
-export * as contractsUpgradeable from "./contracts-upgradeable";
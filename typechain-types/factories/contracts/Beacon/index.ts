@@ -1,4 +0,0 @@
-/* Autogenerated file. Do not edit manually. */
-/* tslint:disable */
-/* eslint-disable */
-export { SecurityTokenFactory__factory } from "./SecurityTokenFactory__factory";
@@ -1,487 +0,0 @@
-/* Autogenerated file. Do not edit manually. */
-/* tslint:disable */
-/* eslint-disable */
-import {
-  Contract,
-  ContractFactory,
-  ContractTransactionResponse,
-  Interface,
-} from "ethers";
-import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
-import type { NonPayableOverrides } from "../../../common";
-import type {
-  AdminFacet,
-  AdminFacetInterface,
-} from "../../../contracts/Diamond/AdminFacet";
-
-const _abi = [
-  {
-    inputs: [
-      {
-        internalType: "address",
-        name: "sender",
-        type: "address",
-      },
-      {
-        internalType: "bytes32",
-        name: "role",
-        type: "bytes32",
-      },
-    ],
-    name: "AccessControlSenderMustBeAdmin",
-    type: "error",
-  },
-  {
-    inputs: [
-      {
-        internalType: "address",
-        name: "account",
-        type: "address",
-      },
-      {
-        internalType: "bytes32",
-        name: "neededRole",
-        type: "bytes32",
-      },
-    ],
-    name: "AccessControlUnauthorizedAccount",
-    type: "error",
-  },
-  {
-    inputs: [],
-    name: "InvalidAccountAddress",
-    type: "error",
-  },
-  {
-    anonymous: false,
-    inputs: [
-      {
-        indexed: true,
-        internalType: "address",
-        name: "account",
-        type: "address",
-      },
-      {
-        indexed: true,
-        internalType: "address",
-        name: "admin",
-        type: "address",
-      },
-    ],
-    name: "BlacklistAdded",
-    type: "event",
-  },
-  {
-    anonymous: false,
-    inputs: [
-      {
-        indexed: true,
-        internalType: "address",
-        name: "account",
-        type: "address",
-      },
-      {
-        indexed: true,
-        internalType: "address",
-        name: "admin",
-        type: "address",
-      },
-    ],
-    name: "BlacklistRemoved",
-    type: "event",
-  },
-  {
-    anonymous: false,
-    inputs: [
-      {
-        indexed: false,
-        internalType: "address",
-        name: "account",
-        type: "address",
-      },
-    ],
-    name: "Paused",
-    type: "event",
-  },
-  {
-    anonymous: false,
-    inputs: [
-      {
-        indexed: true,
-        internalType: "bytes32",
-        name: "role",
-        type: "bytes32",
-      },
-      {
-        indexed: true,
-        internalType: "address",
-        name: "account",
-        type: "address",
-      },
-      {
-        indexed: true,
-        internalType: "address",
-        name: "sender",
-        type: "address",
-      },
-    ],
-    name: "RoleGranted",
-    type: "event",
-  },
-  {
-    anonymous: false,
-    inputs: [
-      {
-        indexed: true,
-        internalType: "bytes32",
-        name: "role",
-        type: "bytes32",
-      },
-      {
-        indexed: true,
-        internalType: "address",
-        name: "account",
-        type: "address",
-      },
-      {
-        indexed: true,
-        internalType: "address",
-        name: "sender",
-        type: "address",
-      },
-    ],
-    name: "RoleRevoked",
-    type: "event",
-  },
-  {
-    anonymous: false,
-    inputs: [
-      {
-        indexed: false,
-        internalType: "address",
-        name: "account",
-        type: "address",
-      },
-    ],
-    name: "Unpaused",
-    type: "event",
-  },
-  {
-    anonymous: false,
-    inputs: [
-      {
-        indexed: true,
-        internalType: "address",
-        name: "account",
-        type: "address",
-      },
-      {
-        indexed: true,
-        internalType: "address",
-        name: "admin",
-        type: "address",
-      },
-    ],
-    name: "WhitelistAdded",
-    type: "event",
-  },
-  {
-    anonymous: false,
-    inputs: [
-      {
-        indexed: true,
-        internalType: "address",
-        name: "account",
-        type: "address",
-      },
-      {
-        indexed: true,
-        internalType: "address",
-        name: "admin",
-        type: "address",
-      },
-    ],
-    name: "WhitelistRemoved",
-    type: "event",
-  },
-  {
-    inputs: [
-      {
-        internalType: "address",
-        name: "account",
-        type: "address",
-      },
-    ],
-    name: "addToBlacklist",
-    outputs: [],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "address",
-        name: "account",
-        type: "address",
-      },
-    ],
-    name: "addToWhitelist",
-    outputs: [],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "address[]",
-        name: "accounts",
-        type: "address[]",
-      },
-    ],
-    name: "batchIsBlacklisted",
-    outputs: [
-      {
-        internalType: "bool[]",
-        name: "statuses",
-        type: "bool[]",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "address[]",
-        name: "accounts",
-        type: "address[]",
-      },
-    ],
-    name: "batchIsWhitelisted",
-    outputs: [
-      {
-        internalType: "bool[]",
-        name: "statuses",
-        type: "bool[]",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "bytes32",
-        name: "role",
-        type: "bytes32",
-      },
-    ],
-    name: "getRoleAdmin",
-    outputs: [
-      {
-        internalType: "bytes32",
-        name: "",
-        type: "bytes32",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "bytes32",
-        name: "role",
-        type: "bytes32",
-      },
-      {
-        internalType: "address",
-        name: "account",
-        type: "address",
-      },
-    ],
-    name: "grantRole",
-    outputs: [],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "bytes32",
-        name: "role",
-        type: "bytes32",
-      },
-      {
-        internalType: "address",
-        name: "account",
-        type: "address",
-      },
-    ],
-    name: "hasRole",
-    outputs: [
-      {
-        internalType: "bool",
-        name: "",
-        type: "bool",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "address",
-        name: "account",
-        type: "address",
-      },
-    ],
-    name: "isBlacklisted",
-    outputs: [
-      {
-        internalType: "bool",
-        name: "",
-        type: "bool",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "address",
-        name: "account",
-        type: "address",
-      },
-    ],
-    name: "isWhitelisted",
-    outputs: [
-      {
-        internalType: "bool",
-        name: "",
-        type: "bool",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [],
-    name: "pause",
-    outputs: [],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-  {
-    inputs: [],
-    name: "paused",
-    outputs: [
-      {
-        internalType: "bool",
-        name: "",
-        type: "bool",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "address",
-        name: "account",
-        type: "address",
-      },
-    ],
-    name: "removeFromBlacklist",
-    outputs: [],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "address",
-        name: "account",
-        type: "address",
-      },
-    ],
-    name: "removeFromWhitelist",
-    outputs: [],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "bytes32",
-        name: "role",
-        type: "bytes32",
-      },
-      {
-        internalType: "address",
-        name: "account",
-        type: "address",
-      },
-    ],
-    name: "revokeRole",
-    outputs: [],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-  {
-    inputs: [],
-    name: "unpause",
-    outputs: [],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-] as const;
-
-const _bytecode =
-  "0x6080604052348015600f57600080fd5b50610d1d8061001f6000396000f3fe608060405234801561001057600080fd5b50600436106100c55760003560e01c80630b380956146100ca578063248a9ca3146100f35780632f2ff15d14610114578063387d09db146101295780633af32abf1461013c5780633f4ba83a1461015f57806344337ea114610167578063537df3b61461017a5780635c975abb1461018d5780638456cb59146101955780638ab1d6811461019d57806391d14854146101b0578063d547741f146101c3578063e43252d7146101d6578063fe575a87146101e9575b600080fd5b6100dd6100d8366004610b51565b6101fc565b6040516100ea9190610bc6565b60405180910390f35b610106610101366004610c0b565b6102da565b6040519081526020016100ea565b610127610122366004610c40565b6102f8565b005b6100dd610137366004610b51565b6103e1565b61014f61014a366004610c6c565b6104b7565b60405190151581526020016100ea565b6101276104e6565b610127610175366004610c6c565b610597565b610127610188366004610c6c565b61067d565b61014f610763565b610127610779565b6101276101ab366004610c6c565b61081e565b61014f6101be366004610c40565b610904565b6101276101d1366004610c40565b61093b565b6101276101e4366004610c6c565b610a18565b61014f6101f7366004610c6c565b610afe565b6060816001600160401b0381111561021657610216610c8e565b60405190808252806020026020018201604052801561023f578160200160208202803683370190505b509050600061024c610b2d565b905060005b838110156102d25781600d01600086868481811061027157610271610ca4565b90506020020160208101906102869190610c6c565b6001600160a01b03168152602081019190915260400160002054835160ff909116908490839081106102ba576102ba610ca4565b91151560209283029190910190910152600101610251565b505092915050565b60006102e4610b2d565b600092835260090160205250604090205490565b806001600160a01b0381166103205760405163200db56f60e11b815260040160405180910390fd5b600061032a610b2d565b6000858152600982016020908152604080832054835260088401825280832033845290915290205490915060ff166103825733846040516349344f6760e01b8152600401610379929190610cba565b60405180910390fd5b600084815260088201602090815260408083206001600160a01b0387168085529252808320805460ff1916600117905551339287917f2f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0d9190a450505050565b6060816001600160401b038111156103fb576103fb610c8e565b604051908082528060200260200182016040528015610424578160200160208202803683370190505b5090506000610431610b2d565b905060005b838110156102d25781600e01600086868481811061045657610456610ca4565b905060200201602081019061046b9190610c6c565b6001600160a01b03168152602081019190915260400160002054835160ff9091169084908390811061049f5761049f610ca4565b91151560209283029190910190910152600101610436565b60006104c1610b2d565b6001600160a01b039092166000908152600d9290920160205250604090205460ff1690565b6104ee610b2d565b6013015460006104fc610b2d565b6000838152600882016020908152604080832033845290915290205490915060ff1661053f57338260405163e2517d3f60e01b8152600401610379929190610cba565b6000610549610b2d565b600701805460ff19169115159190911790556040517f5db9ee0a495bf2e6ff9c91a7834c1ba4fdd244a5e8aa4e537bd38aeae4b073aa9061058b903390610cd3565b60405180910390a15050565b61059f610b2d565b6011015460006105ad610b2d565b6000838152600882016020908152604080832033845290915290205490915060ff166105f057338260405163e2517d3f60e01b8152600401610379929190610cba565b826001600160a01b0381166106185760405163200db56f60e11b815260040160405180910390fd5b6001610622610b2d565b6001600160a01b0386166000818152600e929092016020526040808320805460ff19169415159490941790935591513392917f16d3e73d99cc9bfeb6c9c26114e148836f8f970a84b0c84e7bb3eadd41444dfa91a350505050565b610685610b2d565b601101546000610693610b2d565b6000838152600882016020908152604080832033845290915290205490915060ff166106d657338260405163e2517d3f60e01b8152600401610379929190610cba565b826001600160a01b0381166106fe5760405163200db56f60e11b815260040160405180910390fd5b6000610708610b2d565b6001600160a01b0386166000818152600e929092016020526040808320805460ff19169415159490941790935591513392917fb56b80ae09ee21321b1a61fa0172350e6be2e070e53b20991fcbdf514c9bf77b91a350505050565b600061076d610b2d565b6007015460ff16919050565b610781610b2d565b60130154600061078f610b2d565b6000838152600882016020908152604080832033845290915290205490915060ff166107d257338260405163e2517d3f60e01b8152600401610379929190610cba565b60016107dc610b2d565b600701805460ff19169115159190911790556040517f62e78cea01bee320cd4e420270b5ea74000d11b0c9f74754ebdbfc544b05a2589061058b903390610cd3565b610826610b2d565b601101546000610834610b2d565b6000838152600882016020908152604080832033845290915290205490915060ff1661087757338260405163e2517d3f60e01b8152600401610379929190610cba565b826001600160a01b03811661089f5760405163200db56f60e11b815260040160405180910390fd5b60006108a9610b2d565b6001600160a01b0386166000818152600d929092016020526040808320805460ff19169415159490941790935591513392917fe0fcf303ba3014f7bddb92283585b57ae29a68f05ceb43d0a0c1b92ad80c613c91a350505050565b600061090e610b2d565b6000938452600801602090815260408085206001600160a01b039490941685529290525090205460ff1690565b806001600160a01b0381166109635760405163200db56f60e11b815260040160405180910390fd5b600061096d610b2d565b6000858152600982016020908152604080832054835260088401825280832033845290915290205490915060ff166109bc5733846040516349344f6760e01b8152600401610379929190610cba565b600084815260088201602090815260408083206001600160a01b0387168085529252808320805460ff1916905551339287917ff6391f5c32d9c69d2a47ea670b442974b53935d1edc7fd64eb21e047a839171b9190a450505050565b610a20610b2d565b601101546000610a2e610b2d565b6000838152600882016020908152604080832033845290915290205490915060ff16610a7157338260405163e2517d3f60e01b8152600401610379929190610cba565b826001600160a01b038116610a995760405163200db56f60e11b815260040160405180910390fd5b6001610aa3610b2d565b6001600160a01b0386166000818152600d929092016020526040808320805460ff19169415159490941790935591513392917f67385d0e3f500ff9deddc1292262190d227a7c30ebc71bdf4362662f6493f6ec91a350505050565b6000610b08610b2d565b6001600160a01b039092166000908152600e9290920160205250604090205460ff1690565b7f10747f78c4ed48b23afd6119064f0748da54fb6a544d1f8f604eaf457d56867d90565b60008060208385031215610b6457600080fd5b82356001600160401b03811115610b7a57600080fd5b8301601f81018513610b8b57600080fd5b80356001600160401b03811115610ba157600080fd5b8560208260051b8401011115610bb657600080fd5b6020919091019590945092505050565b602080825282518282018190526000918401906040840190835b81811015610c005783511515835260209384019390920191600101610be0565b509095945050505050565b600060208284031215610c1d57600080fd5b5035919050565b80356001600160a01b0381168114610c3b57600080fd5b919050565b60008060408385031215610c5357600080fd5b82359150610c6360208401610c24565b90509250929050565b600060208284031215610c7e57600080fd5b610c8782610c24565b9392505050565b634e487b7160e01b600052604160045260246000fd5b634e487b7160e01b600052603260045260246000fd5b6001600160a01b03929092168252602082015260400190565b6001600160a01b039190911681526020019056fea264697066735822122047d52e355bad4c4cd1f6bea4f7cb23ed241971202af243df564aa6910eb77c0264736f6c634300081c0033";
-
-type AdminFacetConstructorParams =
-  | [signer?: Signer]
-  | ConstructorParameters<typeof ContractFactory>;
-
-const isSuperArgs = (
-  xs: AdminFacetConstructorParams
-): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
-
-export class AdminFacet__factory extends ContractFactory {
-  constructor(...args: AdminFacetConstructorParams) {
-    if (isSuperArgs(args)) {
-      super(...args);
-    } else {
-      super(_abi, _bytecode, args[0]);
-    }
-  }
-
-  override getDeployTransaction(
-    overrides?: NonPayableOverrides & { from?: string }
-  ): Promise<ContractDeployTransaction> {
-    return super.getDeployTransaction(overrides || {});
-  }
-  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
-    return super.deploy(overrides || {}) as Promise<
-      AdminFacet & {
-        deploymentTransaction(): ContractTransactionResponse;
-      }
-    >;
-  }
-  override connect(runner: ContractRunner | null): AdminFacet__factory {
-    return super.connect(runner) as AdminFacet__factory;
-  }
-
-  static readonly bytecode = _bytecode;
-  static readonly abi = _abi;
-  static createInterface(): AdminFacetInterface {
-    return new Interface(_abi) as AdminFacetInterface;
-  }
-  static connect(address: string, runner?: ContractRunner | null): AdminFacet {
-    return new Contract(address, _abi, runner) as unknown as AdminFacet;
-  }
-}
@@ -1,226 +0,0 @@
-/* Autogenerated file. Do not edit manually. */
-/* tslint:disable */
-/* eslint-disable */
-import {
-  Contract,
-  ContractFactory,
-  ContractTransactionResponse,
-  Interface,
-} from "ethers";
-import type {
-  Signer,
-  BytesLike,
-  AddressLike,
-  ContractDeployTransaction,
-  ContractRunner,
-} from "ethers";
-import type { PayableOverrides } from "../../../common";
-import type {
-  Diamond,
-  DiamondInterface,
-  IDiamondCut,
-} from "../../../contracts/Diamond/Diamond";
-
-const _abi = [
-  {
-    inputs: [
-      {
-        components: [
-          {
-            internalType: "address",
-            name: "facetAddress",
-            type: "address",
-          },
-          {
-            internalType: "enum IDiamondCut.FacetCutAction",
-            name: "action",
-            type: "uint8",
-          },
-          {
-            internalType: "bytes4[]",
-            name: "functionSelectors",
-            type: "bytes4[]",
-          },
-        ],
-        internalType: "struct IDiamondCut.FacetCut[]",
-        name: "_diamondCut",
-        type: "tuple[]",
-      },
-      {
-        internalType: "address",
-        name: "_init",
-        type: "address",
-      },
-      {
-        internalType: "bytes",
-        name: "_calldata",
-        type: "bytes",
-      },
-    ],
-    stateMutability: "payable",
-    type: "constructor",
-  },
-  {
-    inputs: [
-      {
-        internalType: "bytes4",
-        name: "selector",
-        type: "bytes4",
-      },
-    ],
-    name: "FunctionNotFound",
-    type: "error",
-  },
-  {
-    anonymous: false,
-    inputs: [
-      {
-        components: [
-          {
-            internalType: "address",
-            name: "facetAddress",
-            type: "address",
-          },
-          {
-            internalType: "enum IDiamondCut.FacetCutAction",
-            name: "action",
-            type: "uint8",
-          },
-          {
-            internalType: "bytes4[]",
-            name: "functionSelectors",
-            type: "bytes4[]",
-          },
-        ],
-        indexed: false,
-        internalType: "struct IDiamondCut.FacetCut[]",
-        name: "_diamondCut",
-        type: "tuple[]",
-      },
-      {
-        indexed: false,
-        internalType: "address",
-        name: "_init",
-        type: "address",
-      },
-      {
-        indexed: false,
-        internalType: "bytes",
-        name: "_calldata",
-        type: "bytes",
-      },
-    ],
-    name: "DiamondCut",
-    type: "event",
-  },
-  {
-    anonymous: false,
-    inputs: [
-      {
-        indexed: true,
-        internalType: "address",
-        name: "owner",
-        type: "address",
-      },
-      {
-        indexed: false,
-        internalType: "uint256",
-        name: "facetCount",
-        type: "uint256",
-      },
-    ],
-    name: "DiamondDeployed",
-    type: "event",
-  },
-  {
-    anonymous: false,
-    inputs: [
-      {
-        indexed: true,
-        internalType: "address",
-        name: "previousOwner",
-        type: "address",
-      },
-      {
-        indexed: true,
-        internalType: "address",
-        name: "newOwner",
-        type: "address",
-      },
-    ],
-    name: "OwnershipTransferred",
-    type: "event",
-  },
-  {
-    stateMutability: "payable",
-    type: "fallback",
-  },
-  {
-    stateMutability: "payable",
-    type: "receive",
-  },
-] as const;
-
-const _bytecode =
-  "0x608060405260405161145f38038061145f83398101604081905261002291610ebc565b61002b336100d6565b610036838383610136565b6000610040610354565b6301ffc9a760e01b600090815260038201602090815260408083208054600160ff1991821681179092556307e4c70760e21b855282852080548216831790556348e2b09360e01b8552938290208054909416179092558651915191825291925033917f2a04778bb9cd15cd226df1391f978871c737ccc99e8d359c00862e2615d95cf9910160405180910390a25050505061132c565b60006100e0610354565b6004810180546001600160a01b038581166001600160a01b031983168117909355604051939450169182907f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e090600090a3505050565b60005b835181101561030957600084828151811061015657610156611087565b6020026020010151602001519050600060028111156101775761017761109d565b8160028111156101895761018961109d565b036101dd576101d88583815181106101a3576101a3611087565b6020026020010151600001518684815181106101c1576101c1611087565b60200260200101516040015161037860201b60201c565b610300565b60018160028111156101f1576101f161109d565b03610240576101d885838151811061020b5761020b611087565b60200260200101516000015186848151811061022957610229611087565b6020026020010151604001516104f560201b60201c565b60028160028111156102545761025461109d565b036102a3576101d885838151811061026e5761026e611087565b60200260200101516000015186848151811061028c5761028c611087565b60200260200101516040015161067b60201b60201c565b60405162461bcd60e51b815260206004820152602760248201527f4c69624469616d6f6e644375743a20496e636f727265637420466163657443756044820152663a20b1ba34b7b760c91b60648201526084015b60405180910390fd5b50600101610139565b507f8faa70878671ccd212d20771b795c50af8fd3ff6cf27f4bde57e5d4de0aeb67383838360405161033d939291906110df565b60405180910390a161034f8282610792565b505050565b7f591a66cdc36a46902055fe7f9f195cd083ee999373b7ae1a10dcb19a6c1f59d190565b60008151116103995760405162461bcd60e51b81526004016102f7906111ee565b60006103a3610354565b90506001600160a01b0383166103cb5760405162461bcd60e51b81526004016102f790611239565b6001600160a01b0383166000908152600182016020526040812054906001600160601b0382169003610401576104018285610892565b60005b83518110156104ee57600084828151811061042157610421611087565b6020908102919091018101516001600160e01b031981166000908152918690526040909120549091506001600160a01b031680156104c75760405162461bcd60e51b815260206004820152603560248201527f4c69624469616d6f6e644375743a2043616e2774206164642066756e6374696f60448201527f6e207468617420616c726561647920657869737473000000000000000000000060648201526084016102f7565b6104d38583868a6108fc565b836104dd8161129b565b945050600190920191506104049050565b5050505050565b60008151116105165760405162461bcd60e51b81526004016102f7906111ee565b6000610520610354565b90506001600160a01b0383166105485760405162461bcd60e51b81526004016102f790611239565b6001600160a01b0383166000908152600182016020526040812054906001600160601b038216900361057e5761057e8285610892565b60005b83518110156104ee57600084828151811061059e5761059e611087565b6020908102919091018101516001600160e01b031981166000908152918690526040909120549091506001600160a01b0390811690871681036106495760405162461bcd60e51b815260206004820152603860248201527f4c69624469616d6f6e644375743a2043616e2774207265706c6163652066756e60448201527f6374696f6e20776974682073616d652066756e6374696f6e000000000000000060648201526084016102f7565b61065485828461099c565b6106608583868a6108fc565b8361066a8161129b565b945050600190920191506105819050565b600081511161069c5760405162461bcd60e51b81526004016102f7906111ee565b60006106a6610354565b90506001600160a01b038316156107255760405162461bcd60e51b815260206004820152603660248201527f4c69624469616d6f6e644375743a2052656d6f7665206661636574206164647260448201527f657373206d75737420626520616464726573732830290000000000000000000060648201526084016102f7565b60005b825181101561078c57600083828151811061074557610745611087565b6020908102919091018101516001600160e01b031981166000908152918590526040909120549091506001600160a01b031661078284828461099c565b5050600101610728565b50505050565b6001600160a01b0382166107a4575050565b6107c68260405180606001604052806028815260200161141360289139610d5f565b600080836001600160a01b0316836040516107e191906112c7565b600060405180830381855af49150503d806000811461081c576040519150601f19603f3d011682016040523d82523d6000602084013e610821565b606091505b50915091508161078c5780511561083b5780518082602001fd5b60405162461bcd60e51b815260206004820152602660248201527f4c69624469616d6f6e644375743a205f696e69742066756e6374696f6e2072656044820152651d995c9d195960d21b60648201526084016102f7565b6108b48160405180606001604052806024815260200161143b60249139610d5f565b6002820180546001600160a01b0390921660008181526001948501602090815260408220860185905594840183559182529290200180546001600160a01b0319169091179055565b6001600160e01b0319831660008181526020868152604080832080546001600160601b03909716600160a01b026001600160a01b0397881617815594909516808352600180890183529583208054968701815583528183206008870401805460e09890981c60046007909816979097026101000a96870263ffffffff9097021990971695909517909555529290915281546001600160a01b031916179055565b6001600160a01b038216610a185760405162461bcd60e51b815260206004820152603760248201527f4c69624469616d6f6e644375743a2043616e27742072656d6f76652066756e6360448201527f74696f6e207468617420646f65736e277420657869737400000000000000000060648201526084016102f7565b306001600160a01b03831603610a875760405162461bcd60e51b815260206004820152602e60248201527f4c69624469616d6f6e644375743a2043616e27742072656d6f766520696d6d7560448201526d3a30b1363290333ab731ba34b7b760911b60648201526084016102f7565b6001600160e01b03198116600090815260208481526040808320546001600160a01b0386168452600180880190935290832054600160a01b9091046001600160601b03169291610ad6916112e3565b9050808214610bc8576001600160a01b03841660009081526001860160205260408120805483908110610b0b57610b0b611087565b600091825260208083206008830401546001600160a01b038916845260018a019091526040909220805460079092166004026101000a90920460e01b925082919085908110610b5c57610b5c611087565b600091825260208083206008830401805463ffffffff60079094166004026101000a938402191660e09590951c929092029390931790556001600160e01b03199290921682528690526040902080546001600160a01b0316600160a01b6001600160601b038516021790555b6001600160a01b03841660009081526001860160205260409020805480610bf157610bf16112fc565b60008281526020808220600860001990940193840401805463ffffffff600460078716026101000a0219169055919092556001600160e01b031985168252869052604081208190558190036104ee576002850154600090610c54906001906112e3565b6001600160a01b0386166000908152600180890160205260409091200154909150808214610d03576000876002018381548110610c9357610c93611087565b6000918252602090912001546002890180546001600160a01b039092169250829184908110610cc457610cc4611087565b600091825260208083209190910180546001600160a01b0319166001600160a01b03948516179055929091168152600189810190925260409020018190555b86600201805480610d1657610d166112fc565b60008281526020808220830160001990810180546001600160a01b03191690559092019092556001600160a01b0388168252600189810190915260408220015550505050505050565b813b818161078c5760405162461bcd60e51b81526004016102f79190611312565b634e487b7160e01b600052604160045260246000fd5b604051606081016001600160401b0381118282101715610db857610db8610d80565b60405290565b604051601f8201601f191681016001600160401b0381118282101715610de657610de6610d80565b604052919050565b60006001600160401b03821115610e0757610e07610d80565b5060051b60200190565b80516001600160a01b0381168114610e2857600080fd5b919050565b60005b83811015610e48578181015183820152602001610e30565b50506000910152565b600082601f830112610e6257600080fd5b81516001600160401b03811115610e7b57610e7b610d80565b610e8e601f8201601f1916602001610dbe565b818152846020838601011115610ea357600080fd5b610eb4826020830160208701610e2d565b949350505050565b600080600060608486031215610ed157600080fd5b83516001600160401b03811115610ee757600080fd5b8401601f81018613610ef857600080fd5b8051610f0b610f0682610dee565b610dbe565b8082825260208201915060208360051b850101925088831115610f2d57600080fd5b602084015b838110156110425780516001600160401b03811115610f5057600080fd5b85016060818c03601f19011215610f6657600080fd5b610f6e610d96565b610f7a60208301610e11565b8152604082015160038110610f8e57600080fd5b602082015260608201516001600160401b03811115610fac57600080fd5b6020818401019250508b601f830112610fc457600080fd5b8151610fd2610f0682610dee565b8082825260208201915060208360051b86010192508e831115610ff457600080fd5b6020850194505b8285101561102c5784516001600160e01b03198116811461101b57600080fd5b825260209485019490910190610ffb565b6040840152505084525060209283019201610f32565b5095506110559250505060208501610e11565b60408501519092506001600160401b0381111561107157600080fd5b61107d86828701610e51565b9150509250925092565b634e487b7160e01b600052603260045260246000fd5b634e487b7160e01b600052602160045260246000fd5b600081518084526110cb816020860160208601610e2d565b601f01601f19169290920160200192915050565b6000606082016060835280865180835260808501915060808160051b86010192506020880160005b828110156111bf57868503607f19018452815180516001600160a01b03168652602081015160608701906003811061114f57634e487b7160e01b600052602160045260246000fd5b806020890152506040820151915060606040880152808251808352608089019150602084019350600092505b808310156111a75783516001600160e01b0319168252602093840193600193909301929091019061117b565b50965050506020938401939190910190600101611107565b5050506001600160a01b03861660208501525082810360408401526111e481856110b3565b9695505050505050565b6020808252602b908201527f4c69624469616d6f6e644375743a204e6f2073656c6563746f727320696e206660408201526a1858d95d081d1bc818dd5d60aa1b606082015260800190565b6020808252602c908201527f4c69624469616d6f6e644375743a204164642066616365742063616e2774206260408201526b65206164647265737328302960a01b606082015260800190565b634e487b7160e01b600052601160045260246000fd5b60006001600160601b0382166002600160601b031981016112be576112be611285565b60010192915050565b600082516112d9818460208701610e2d565b9190910192915050565b818103818111156112f6576112f6611285565b92915050565b634e487b7160e01b600052603160045260246000fd5b60208152600061132560208301846110b3565b9392505050565b60d98061133a6000396000f3fe608060405236600a57005b600080356001600160e01b03191681527f591a66cdc36a46902055fe7f9f195cd083ee999373b7ae1a10dcb19a6c1f59d1602081905260409091205481906001600160a01b031680608057604051630a82dd7360e31b81526001600160e01b031960003516600482015260240160405180910390fd5b3660008037600080366000845af43d6000803e808015609e573d6000f35b3d6000fdfea2646970667358221220ef8c32c3f0c4fbf32ba99abd216792d58f587c064c411996a80da50740bfa05664736f6c634300081c00334c69624469616d6f6e644375743a205f696e6974206164647265737320686173206e6f20636f64654c69624469616d6f6e644375743a204e657720666163657420686173206e6f20636f6465";
-
-type DiamondConstructorParams =
-  | [signer?: Signer]
-  | ConstructorParameters<typeof ContractFactory>;
-
-const isSuperArgs = (
-  xs: DiamondConstructorParams
-): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
-
-export class Diamond__factory extends ContractFactory {
-  constructor(...args: DiamondConstructorParams) {
-    if (isSuperArgs(args)) {
-      super(...args);
-    } else {
-      super(_abi, _bytecode, args[0]);
-    }
-  }
-
-  override getDeployTransaction(
-    _diamondCut: IDiamondCut.FacetCutStruct[],
-    _init: AddressLike,
-    _calldata: BytesLike,
-    overrides?: PayableOverrides & { from?: string }
-  ): Promise<ContractDeployTransaction> {
-    return super.getDeployTransaction(
-      _diamondCut,
-      _init,
-      _calldata,
-      overrides || {}
-    );
-  }
-  override deploy(
-    _diamondCut: IDiamondCut.FacetCutStruct[],
-    _init: AddressLike,
-    _calldata: BytesLike,
-    overrides?: PayableOverrides & { from?: string }
-  ) {
-    return super.deploy(
-      _diamondCut,
-      _init,
-      _calldata,
-      overrides || {}
-    ) as Promise<
-      Diamond & {
-        deploymentTransaction(): ContractTransactionResponse;
-      }
-    >;
-  }
-  override connect(runner: ContractRunner | null): Diamond__factory {
-    return super.connect(runner) as Diamond__factory;
-  }
-
-  static readonly bytecode = _bytecode;
-  static readonly abi = _abi;
-  static createInterface(): DiamondInterface {
-    return new Interface(_abi) as DiamondInterface;
-  }
-  static connect(address: string, runner?: ContractRunner | null): Diamond {
-    return new Contract(address, _abi, runner) as unknown as Diamond;
-  }
-}
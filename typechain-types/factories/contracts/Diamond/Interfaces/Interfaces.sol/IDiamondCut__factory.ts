@@ -1,62 +0,0 @@
-/* Autogenerated file. Do not edit manually. */
-/* tslint:disable */
-/* eslint-disable */
-
-import { Contract, Interface, type ContractRunner } from "ethers";
-import type {
-  IDiamondCut,
-  IDiamondCutInterface,
-} from "../../../../../contracts/Diamond/Interfaces/Interfaces.sol/IDiamondCut";
-
-const _abi = [
-  {
-    inputs: [
-      {
-        components: [
-          {
-            internalType: "address",
-            name: "facetAddress",
-            type: "address",
-          },
-          {
-            internalType: "enum IDiamondCut.FacetCutAction",
-            name: "action",
-            type: "uint8",
-          },
-          {
-            internalType: "bytes4[]",
-            name: "functionSelectors",
-            type: "bytes4[]",
-          },
-        ],
-        internalType: "struct IDiamondCut.FacetCut[]",
-        name: "_diamondCut",
-        type: "tuple[]",
-      },
-      {
-        internalType: "address",
-        name: "_init",
-        type: "address",
-      },
-      {
-        internalType: "bytes",
-        name: "_calldata",
-        type: "bytes",
-      },
-    ],
-    name: "diamondCut",
-    outputs: [],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-] as const;
-
-export class IDiamondCut__factory {
-  static readonly abi = _abi;
-  static createInterface(): IDiamondCutInterface {
-    return new Interface(_abi) as IDiamondCutInterface;
-  }
-  static connect(address: string, runner?: ContractRunner | null): IDiamondCut {
-    return new Contract(address, _abi, runner) as unknown as IDiamondCut;
-  }
-}
@@ -1,101 +0,0 @@
-/* Autogenerated file. Do not edit manually. */
-/* tslint:disable */
-/* eslint-disable */
-
-import { Contract, Interface, type ContractRunner } from "ethers";
-import type {
-  IDiamondLoupe,
-  IDiamondLoupeInterface,
-} from "../../../../../contracts/Diamond/Interfaces/Interfaces.sol/IDiamondLoupe";
-
-const _abi = [
-  {
-    inputs: [
-      {
-        internalType: "bytes4",
-        name: "_functionSelector",
-        type: "bytes4",
-      },
-    ],
-    name: "facetAddress",
-    outputs: [
-      {
-        internalType: "address",
-        name: "facetAddress_",
-        type: "address",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [],
-    name: "facetAddresses",
-    outputs: [
-      {
-        internalType: "address[]",
-        name: "facetAddresses_",
-        type: "address[]",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "address",
-        name: "_facet",
-        type: "address",
-      },
-    ],
-    name: "facetFunctionSelectors",
-    outputs: [
-      {
-        internalType: "bytes4[]",
-        name: "facetFunctionSelectors_",
-        type: "bytes4[]",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [],
-    name: "facets",
-    outputs: [
-      {
-        components: [
-          {
-            internalType: "address",
-            name: "facetAddress",
-            type: "address",
-          },
-          {
-            internalType: "bytes4[]",
-            name: "functionSelectors",
-            type: "bytes4[]",
-          },
-        ],
-        internalType: "struct IDiamondLoupe.Facet[]",
-        name: "facets_",
-        type: "tuple[]",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-] as const;
-
-export class IDiamondLoupe__factory {
-  static readonly abi = _abi;
-  static createInterface(): IDiamondLoupeInterface {
-    return new Interface(_abi) as IDiamondLoupeInterface;
-  }
-  static connect(
-    address: string,
-    runner?: ContractRunner | null
-  ): IDiamondLoupe {
-    return new Contract(address, _abi, runner) as unknown as IDiamondLoupe;
-  }
-}
@@ -1,6 +0,0 @@
-/* Autogenerated file. Do not edit manually. */
-/* tslint:disable */
-/* eslint-disable */
-export { IDiamondCut__factory } from "./IDiamondCut__factory";
-export { IDiamondLoupe__factory } from "./IDiamondLoupe__factory";
-export { IERC165__factory } from "./IERC165__factory";
@@ -1,218 +0,0 @@
-/* Autogenerated file. Do not edit manually. */
-/* tslint:disable */
-/* eslint-disable */
-import {
-  Contract,
-  ContractFactory,
-  ContractTransactionResponse,
-  Interface,
-} from "ethers";
-import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
-import type { NonPayableOverrides } from "../../../common";
-import type {
-  OwnershipFacet,
-  OwnershipFacetInterface,
-} from "../../../contracts/Diamond/OwnershipFacet";
-
-const _abi = [
-  {
-    inputs: [
-      {
-        internalType: "address",
-        name: "owner",
-        type: "address",
-      },
-    ],
-    name: "NewOwnerIsSameAsCurrent",
-    type: "error",
-  },
-  {
-    inputs: [],
-    name: "NewOwnerIsZeroAddress",
-    type: "error",
-  },
-  {
-    inputs: [
-      {
-        internalType: "address",
-        name: "caller",
-        type: "address",
-      },
-      {
-        internalType: "address",
-        name: "owner",
-        type: "address",
-      },
-    ],
-    name: "NotContractOwner",
-    type: "error",
-  },
-  {
-    inputs: [
-      {
-        internalType: "address",
-        name: "caller",
-        type: "address",
-      },
-      {
-        internalType: "address",
-        name: "owner",
-        type: "address",
-      },
-    ],
-    name: "NotContractOwner",
-    type: "error",
-  },
-  {
-    anonymous: false,
-    inputs: [
-      {
-        indexed: true,
-        internalType: "address",
-        name: "previousOwner",
-        type: "address",
-      },
-      {
-        indexed: true,
-        internalType: "address",
-        name: "newOwner",
-        type: "address",
-      },
-    ],
-    name: "OwnershipTransferred",
-    type: "event",
-  },
-  {
-    anonymous: false,
-    inputs: [
-      {
-        indexed: true,
-        internalType: "address",
-        name: "previousOwner",
-        type: "address",
-      },
-      {
-        indexed: true,
-        internalType: "address",
-        name: "newOwner",
-        type: "address",
-      },
-    ],
-    name: "OwnershipTransferred",
-    type: "event",
-  },
-  {
-    inputs: [
-      {
-        internalType: "address",
-        name: "account",
-        type: "address",
-      },
-    ],
-    name: "isOwner",
-    outputs: [
-      {
-        internalType: "bool",
-        name: "",
-        type: "bool",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [],
-    name: "owner",
-    outputs: [
-      {
-        internalType: "address",
-        name: "owner_",
-        type: "address",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [],
-    name: "ownershipFacetVersion",
-    outputs: [
-      {
-        internalType: "string",
-        name: "",
-        type: "string",
-      },
-    ],
-    stateMutability: "pure",
-    type: "function",
-  },
-  {
-    inputs: [],
-    name: "renounceOwnership",
-    outputs: [],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "address",
-        name: "_newOwner",
-        type: "address",
-      },
-    ],
-    name: "transferOwnership",
-    outputs: [],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-] as const;
-
-const _bytecode =
-  "0x6080604052348015600f57600080fd5b506103ce8061001f6000396000f3fe608060405234801561001057600080fd5b50600436106100575760003560e01c80632f54bf6e1461005c5780634849685f14610084578063715018a6146100ab5780638da5cb5b146100b5578063f2fde38b146100ca575b600080fd5b61006f61006a3660046102e6565b6100dd565b60405190151581526020015b60405180910390f35b60408051808201825260058152640312e302e360dc1b6020820152905161007b9190610316565b6100b3610101565b005b6100bd610146565b60405161007b9190610364565b6100b36100d83660046102e6565b610155565b6000816001600160a01b03166100f1610208565b6001600160a01b03161492915050565b610109610224565b6000610113610208565b905061011f6000610274565b6040516000906001600160a01b03831690600080516020610379833981519152908390a350565b6000610150610208565b905090565b61015d610224565b6001600160a01b03811661018457604051633a247dd760e11b815260040160405180910390fd5b600061018e610208565b9050806001600160a01b0316826001600160a01b0316036101cd5780604051632b1ae4c760e21b81526004016101c49190610364565b60405180910390fd5b6101d682610274565b816001600160a01b0316816001600160a01b031660008051602061037983398151915260405160405180910390a35050565b60006102126102c2565b600401546001600160a01b0316919050565b600061022e6102c2565b600401546001600160a01b0316905033811461027157604051600162bed83560e01b031981523360048201526001600160a01b03821660248201526044016101c4565b50565b600061027e6102c2565b6004810180546001600160a01b038581166001600160a01b0319831681179093556040519394501691829060008051602061037983398151915290600090a3505050565b7f591a66cdc36a46902055fe7f9f195cd083ee999373b7ae1a10dcb19a6c1f59d190565b6000602082840312156102f857600080fd5b81356001600160a01b038116811461030f57600080fd5b9392505050565b602081526000825180602084015260005b818110156103445760208186018101516040868401015201610327565b506000604082850101526040601f19601f83011684010191505092915050565b6001600160a01b039190911681526020019056fe8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e0a2646970667358221220aeaceb3a74fa660137bc1f0eb39273d0dc8454a844571c65fa76dbefd86a9b3464736f6c634300081c0033";
-
-type OwnershipFacetConstructorParams =
-  | [signer?: Signer]
-  | ConstructorParameters<typeof ContractFactory>;
-
-const isSuperArgs = (
-  xs: OwnershipFacetConstructorParams
-): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
-
-export class OwnershipFacet__factory extends ContractFactory {
-  constructor(...args: OwnershipFacetConstructorParams) {
-    if (isSuperArgs(args)) {
-      super(...args);
-    } else {
-      super(_abi, _bytecode, args[0]);
-    }
-  }
-
-  override getDeployTransaction(
-    overrides?: NonPayableOverrides & { from?: string }
-  ): Promise<ContractDeployTransaction> {
-    return super.getDeployTransaction(overrides || {});
-  }
-  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
-    return super.deploy(overrides || {}) as Promise<
-      OwnershipFacet & {
-        deploymentTransaction(): ContractTransactionResponse;
-      }
-    >;
-  }
-  override connect(runner: ContractRunner | null): OwnershipFacet__factory {
-    return super.connect(runner) as OwnershipFacet__factory;
-  }
-
-  static readonly bytecode = _bytecode;
-  static readonly abi = _abi;
-  static createInterface(): OwnershipFacetInterface {
-    return new Interface(_abi) as OwnershipFacetInterface;
-  }
-  static connect(
-    address: string,
-    runner?: ContractRunner | null
-  ): OwnershipFacet {
-    return new Contract(address, _abi, runner) as unknown as OwnershipFacet;
-  }
-}
@@ -1,14 +0,0 @@
-/* Autogenerated file. Do not edit manually. */
-/* tslint:disable */
-/* eslint-disable */
-export * as interfaces from "./Interfaces";
-export * as librarys from "./Librarys";
-export { AdminFacet__factory } from "./AdminFacet__factory";
-export { ComplianceFacet__factory } from "./ComplianceFacet__factory";
-export { Diamond__factory } from "./Diamond__factory";
-export { DiamondCutFacet__factory } from "./DiamondCutFacet__factory";
-export { DiamondInit__factory } from "./DiamondInit__factory";
-export { DiamondLoupeFacet__factory } from "./DiamondLoupeFacet__factory";
-export { ERC20Facet__factory } from "./ERC20Facet__factory";
-export { MintingFacet__factory } from "./MintingFacet__factory";
-export { OwnershipFacet__factory } from "./OwnershipFacet__factory";
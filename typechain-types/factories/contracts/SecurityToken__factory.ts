@@ -1,1320 +0,0 @@
-/* Autogenerated file. Do not edit manually. */
-/* tslint:disable */
-/* eslint-disable */
-import {
-  Contract,
-  ContractFactory,
-  ContractTransactionResponse,
-  Interface,
-} from "ethers";
-import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
-import type { NonPayableOverrides } from "../../common";
-import type {
-  SecurityToken,
-  SecurityTokenInterface,
-} from "../../contracts/SecurityToken";
-
-const _abi = [
-  {
-    inputs: [],
-    name: "AccessControlBadConfirmation",
-    type: "error",
-  },
-  {
-    inputs: [
-      {
-        internalType: "address",
-        name: "account",
-        type: "address",
-      },
-      {
-        internalType: "bytes32",
-        name: "neededRole",
-        type: "bytes32",
-      },
-    ],
-    name: "AccessControlUnauthorizedAccount",
-    type: "error",
-  },
-  {
-    inputs: [
-      {
-        internalType: "uint256",
-        name: "increasedSupply",
-        type: "uint256",
-      },
-      {
-        internalType: "uint256",
-        name: "cap",
-        type: "uint256",
-      },
-    ],
-    name: "ERC20ExceededCap",
-    type: "error",
-  },
-  {
-    inputs: [
-      {
-        internalType: "address",
-        name: "spender",
-        type: "address",
-      },
-      {
-        internalType: "uint256",
-        name: "allowance",
-        type: "uint256",
-      },
-      {
-        internalType: "uint256",
-        name: "needed",
-        type: "uint256",
-      },
-    ],
-    name: "ERC20InsufficientAllowance",
-    type: "error",
-  },
-  {
-    inputs: [
-      {
-        internalType: "address",
-        name: "sender",
-        type: "address",
-      },
-      {
-        internalType: "uint256",
-        name: "balance",
-        type: "uint256",
-      },
-      {
-        internalType: "uint256",
-        name: "needed",
-        type: "uint256",
-      },
-    ],
-    name: "ERC20InsufficientBalance",
-    type: "error",
-  },
-  {
-    inputs: [
-      {
-        internalType: "address",
-        name: "approver",
-        type: "address",
-      },
-    ],
-    name: "ERC20InvalidApprover",
-    type: "error",
-  },
-  {
-    inputs: [
-      {
-        internalType: "uint256",
-        name: "cap",
-        type: "uint256",
-      },
-    ],
-    name: "ERC20InvalidCap",
-    type: "error",
-  },
-  {
-    inputs: [
-      {
-        internalType: "address",
-        name: "receiver",
-        type: "address",
-      },
-    ],
-    name: "ERC20InvalidReceiver",
-    type: "error",
-  },
-  {
-    inputs: [
-      {
-        internalType: "address",
-        name: "sender",
-        type: "address",
-      },
-    ],
-    name: "ERC20InvalidSender",
-    type: "error",
-  },
-  {
-    inputs: [
-      {
-        internalType: "address",
-        name: "spender",
-        type: "address",
-      },
-    ],
-    name: "ERC20InvalidSpender",
-    type: "error",
-  },
-  {
-    inputs: [],
-    name: "EnforcedPause",
-    type: "error",
-  },
-  {
-    inputs: [],
-    name: "ExpectedPause",
-    type: "error",
-  },
-  {
-    inputs: [],
-    name: "InvalidAdminAddress",
-    type: "error",
-  },
-  {
-    inputs: [],
-    name: "InvalidInitialization",
-    type: "error",
-  },
-  {
-    inputs: [
-      {
-        internalType: "uint256",
-        name: "transactionId",
-        type: "uint256",
-      },
-    ],
-    name: "InvalidTransactionRecord",
-    type: "error",
-  },
-  {
-    inputs: [],
-    name: "NotInitializing",
-    type: "error",
-  },
-  {
-    inputs: [
-      {
-        internalType: "address",
-        name: "recipient",
-        type: "address",
-      },
-    ],
-    name: "RecipientBlacklisted",
-    type: "error",
-  },
-  {
-    inputs: [
-      {
-        internalType: "address",
-        name: "recipient",
-        type: "address",
-      },
-    ],
-    name: "RecipientNotWhitelisted",
-    type: "error",
-  },
-  {
-    inputs: [
-      {
-        internalType: "address",
-        name: "sender",
-        type: "address",
-      },
-    ],
-    name: "SenderBlacklisted",
-    type: "error",
-  },
-  {
-    inputs: [
-      {
-        internalType: "address",
-        name: "sender",
-        type: "address",
-      },
-    ],
-    name: "SenderNotWhitelisted",
-    type: "error",
-  },
-  {
-    anonymous: false,
-    inputs: [
-      {
-        indexed: true,
-        internalType: "address",
-        name: "owner",
-        type: "address",
-      },
-      {
-        indexed: true,
-        internalType: "address",
-        name: "spender",
-        type: "address",
-      },
-      {
-        indexed: false,
-        internalType: "uint256",
-        name: "value",
-        type: "uint256",
-      },
-    ],
-    name: "Approval",
-    type: "event",
-  },
-  {
-    anonymous: false,
-    inputs: [
-      {
-        indexed: true,
-        internalType: "address",
-        name: "account",
-        type: "address",
-      },
-      {
-        indexed: true,
-        internalType: "address",
-        name: "admin",
-        type: "address",
-      },
-    ],
-    name: "BlacklistAdded",
-    type: "event",
-  },
-  {
-    anonymous: false,
-    inputs: [
-      {
-        indexed: true,
-        internalType: "address",
-        name: "account",
-        type: "address",
-      },
-      {
-        indexed: true,
-        internalType: "address",
-        name: "admin",
-        type: "address",
-      },
-    ],
-    name: "BlacklistRemoved",
-    type: "event",
-  },
-  {
-    anonymous: false,
-    inputs: [
-      {
-        indexed: false,
-        internalType: "uint64",
-        name: "version",
-        type: "uint64",
-      },
-    ],
-    name: "Initialized",
-    type: "event",
-  },
-  {
-    anonymous: false,
-    inputs: [
-      {
-        indexed: false,
-        internalType: "address",
-        name: "account",
-        type: "address",
-      },
-    ],
-    name: "Paused",
-    type: "event",
-  },
-  {
-    anonymous: false,
-    inputs: [
-      {
-        indexed: true,
-        internalType: "bytes32",
-        name: "role",
-        type: "bytes32",
-      },
-      {
-        indexed: true,
-        internalType: "bytes32",
-        name: "previousAdminRole",
-        type: "bytes32",
-      },
-      {
-        indexed: true,
-        internalType: "bytes32",
-        name: "newAdminRole",
-        type: "bytes32",
-      },
-    ],
-    name: "RoleAdminChanged",
-    type: "event",
-  },
-  {
-    anonymous: false,
-    inputs: [
-      {
-        indexed: true,
-        internalType: "bytes32",
-        name: "role",
-        type: "bytes32",
-      },
-      {
-        indexed: true,
-        internalType: "address",
-        name: "account",
-        type: "address",
-      },
-      {
-        indexed: true,
-        internalType: "address",
-        name: "sender",
-        type: "address",
-      },
-    ],
-    name: "RoleGranted",
-    type: "event",
-  },
-  {
-    anonymous: false,
-    inputs: [
-      {
-        indexed: true,
-        internalType: "bytes32",
-        name: "role",
-        type: "bytes32",
-      },
-      {
-        indexed: true,
-        internalType: "address",
-        name: "account",
-        type: "address",
-      },
-      {
-        indexed: true,
-        internalType: "address",
-        name: "sender",
-        type: "address",
-      },
-    ],
-    name: "RoleRevoked",
-    type: "event",
-  },
-  {
-    anonymous: false,
-    inputs: [
-      {
-        indexed: true,
-        internalType: "uint256",
-        name: "transactionId",
-        type: "uint256",
-      },
-      {
-        indexed: true,
-        internalType: "address",
-        name: "admin",
-        type: "address",
-      },
-    ],
-    name: "TransactionReverted",
-    type: "event",
-  },
-  {
-    anonymous: false,
-    inputs: [
-      {
-        indexed: true,
-        internalType: "address",
-        name: "from",
-        type: "address",
-      },
-      {
-        indexed: true,
-        internalType: "address",
-        name: "to",
-        type: "address",
-      },
-      {
-        indexed: false,
-        internalType: "uint256",
-        name: "value",
-        type: "uint256",
-      },
-    ],
-    name: "Transfer",
-    type: "event",
-  },
-  {
-    anonymous: false,
-    inputs: [
-      {
-        indexed: false,
-        internalType: "address",
-        name: "account",
-        type: "address",
-      },
-    ],
-    name: "Unpaused",
-    type: "event",
-  },
-  {
-    anonymous: false,
-    inputs: [
-      {
-        indexed: true,
-        internalType: "address",
-        name: "account",
-        type: "address",
-      },
-      {
-        indexed: true,
-        internalType: "address",
-        name: "admin",
-        type: "address",
-      },
-    ],
-    name: "WhitelistAdded",
-    type: "event",
-  },
-  {
-    anonymous: false,
-    inputs: [
-      {
-        indexed: true,
-        internalType: "address",
-        name: "account",
-        type: "address",
-      },
-      {
-        indexed: true,
-        internalType: "address",
-        name: "admin",
-        type: "address",
-      },
-    ],
-    name: "WhitelistRemoved",
-    type: "event",
-  },
-  {
-    inputs: [],
-    name: "ADMIN_ROLE",
-    outputs: [
-      {
-        internalType: "bytes32",
-        name: "",
-        type: "bytes32",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [],
-    name: "DEFAULT_ADMIN_ROLE",
-    outputs: [
-      {
-        internalType: "bytes32",
-        name: "",
-        type: "bytes32",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [],
-    name: "MINTER_ROLE",
-    outputs: [
-      {
-        internalType: "bytes32",
-        name: "",
-        type: "bytes32",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [],
-    name: "PAUSER_ROLE",
-    outputs: [
-      {
-        internalType: "bytes32",
-        name: "",
-        type: "bytes32",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "address",
-        name: "account",
-        type: "address",
-      },
-    ],
-    name: "addToBlacklist",
-    outputs: [],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "address",
-        name: "account",
-        type: "address",
-      },
-    ],
-    name: "addToWhitelist",
-    outputs: [],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "address",
-        name: "owner",
-        type: "address",
-      },
-      {
-        internalType: "address",
-        name: "spender",
-        type: "address",
-      },
-    ],
-    name: "allowance",
-    outputs: [
-      {
-        internalType: "uint256",
-        name: "",
-        type: "uint256",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "address",
-        name: "spender",
-        type: "address",
-      },
-      {
-        internalType: "uint256",
-        name: "value",
-        type: "uint256",
-      },
-    ],
-    name: "approve",
-    outputs: [
-      {
-        internalType: "bool",
-        name: "",
-        type: "bool",
-      },
-    ],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "address",
-        name: "account",
-        type: "address",
-      },
-    ],
-    name: "balanceOf",
-    outputs: [
-      {
-        internalType: "uint256",
-        name: "",
-        type: "uint256",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "address",
-        name: "",
-        type: "address",
-      },
-    ],
-    name: "blacklist",
-    outputs: [
-      {
-        internalType: "bool",
-        name: "",
-        type: "bool",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "uint256",
-        name: "value",
-        type: "uint256",
-      },
-    ],
-    name: "burn",
-    outputs: [],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "address",
-        name: "account",
-        type: "address",
-      },
-      {
-        internalType: "uint256",
-        name: "value",
-        type: "uint256",
-      },
-    ],
-    name: "burnFrom",
-    outputs: [],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-  {
-    inputs: [],
-    name: "cap",
-    outputs: [
-      {
-        internalType: "uint256",
-        name: "",
-        type: "uint256",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [],
-    name: "decimals",
-    outputs: [
-      {
-        internalType: "uint8",
-        name: "",
-        type: "uint8",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "bytes32",
-        name: "role",
-        type: "bytes32",
-      },
-    ],
-    name: "getRoleAdmin",
-    outputs: [
-      {
-        internalType: "bytes32",
-        name: "",
-        type: "bytes32",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [],
-    name: "getSecurityInfo",
-    outputs: [
-      {
-        internalType: "string",
-        name: "isin_",
-        type: "string",
-      },
-      {
-        internalType: "string",
-        name: "instrumentType_",
-        type: "string",
-      },
-      {
-        internalType: "string",
-        name: "jurisdiction_",
-        type: "string",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [],
-    name: "getTokenInfo",
-    outputs: [
-      {
-        internalType: "string",
-        name: "name_",
-        type: "string",
-      },
-      {
-        internalType: "string",
-        name: "symbol_",
-        type: "string",
-      },
-      {
-        internalType: "uint8",
-        name: "decimals_",
-        type: "uint8",
-      },
-      {
-        internalType: "uint256",
-        name: "totalSupply_",
-        type: "uint256",
-      },
-      {
-        internalType: "uint256",
-        name: "cap_",
-        type: "uint256",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "uint256",
-        name: "id",
-        type: "uint256",
-      },
-    ],
-    name: "getTransactionRecord",
-    outputs: [
-      {
-        components: [
-          {
-            internalType: "uint256",
-            name: "id",
-            type: "uint256",
-          },
-          {
-            internalType: "address",
-            name: "from",
-            type: "address",
-          },
-          {
-            internalType: "address",
-            name: "to",
-            type: "address",
-          },
-          {
-            internalType: "uint256",
-            name: "amount",
-            type: "uint256",
-          },
-          {
-            internalType: "uint256",
-            name: "timestamp",
-            type: "uint256",
-          },
-        ],
-        internalType: "struct SecurityToken.TransactionRecord",
-        name: "",
-        type: "tuple",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "bytes32",
-        name: "role",
-        type: "bytes32",
-      },
-      {
-        internalType: "address",
-        name: "account",
-        type: "address",
-      },
-    ],
-    name: "grantRole",
-    outputs: [],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "bytes32",
-        name: "role",
-        type: "bytes32",
-      },
-      {
-        internalType: "address",
-        name: "account",
-        type: "address",
-      },
-    ],
-    name: "hasRole",
-    outputs: [
-      {
-        internalType: "bool",
-        name: "",
-        type: "bool",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "string",
-        name: "name",
-        type: "string",
-      },
-      {
-        internalType: "string",
-        name: "symbol",
-        type: "string",
-      },
-      {
-        internalType: "uint256",
-        name: "cap",
-        type: "uint256",
-      },
-      {
-        internalType: "string",
-        name: "_isin",
-        type: "string",
-      },
-      {
-        internalType: "string",
-        name: "_instrumentType",
-        type: "string",
-      },
-      {
-        internalType: "string",
-        name: "_jurisdiction",
-        type: "string",
-      },
-      {
-        internalType: "address",
-        name: "admin",
-        type: "address",
-      },
-    ],
-    name: "initialize",
-    outputs: [],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-  {
-    inputs: [],
-    name: "instrumentType",
-    outputs: [
-      {
-        internalType: "string",
-        name: "",
-        type: "string",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "address",
-        name: "account",
-        type: "address",
-      },
-    ],
-    name: "isBlacklisted",
-    outputs: [
-      {
-        internalType: "bool",
-        name: "",
-        type: "bool",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "address",
-        name: "account",
-        type: "address",
-      },
-    ],
-    name: "isWhitelisted",
-    outputs: [
-      {
-        internalType: "bool",
-        name: "",
-        type: "bool",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [],
-    name: "isin",
-    outputs: [
-      {
-        internalType: "string",
-        name: "",
-        type: "string",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [],
-    name: "jurisdiction",
-    outputs: [
-      {
-        internalType: "string",
-        name: "",
-        type: "string",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "address",
-        name: "to",
-        type: "address",
-      },
-      {
-        internalType: "uint256",
-        name: "amount",
-        type: "uint256",
-      },
-    ],
-    name: "mint",
-    outputs: [],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-  {
-    inputs: [],
-    name: "name",
-    outputs: [
-      {
-        internalType: "string",
-        name: "",
-        type: "string",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [],
-    name: "pause",
-    outputs: [],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-  {
-    inputs: [],
-    name: "paused",
-    outputs: [
-      {
-        internalType: "bool",
-        name: "",
-        type: "bool",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "address",
-        name: "account",
-        type: "address",
-      },
-    ],
-    name: "removeFromBlacklist",
-    outputs: [],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "address",
-        name: "account",
-        type: "address",
-      },
-    ],
-    name: "removeFromWhitelist",
-    outputs: [],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "bytes32",
-        name: "role",
-        type: "bytes32",
-      },
-      {
-        internalType: "address",
-        name: "callerConfirmation",
-        type: "address",
-      },
-    ],
-    name: "renounceRole",
-    outputs: [],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "uint256",
-        name: "transactionId",
-        type: "uint256",
-      },
-    ],
-    name: "revertTransaction",
-    outputs: [],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "bytes32",
-        name: "role",
-        type: "bytes32",
-      },
-      {
-        internalType: "address",
-        name: "account",
-        type: "address",
-      },
-    ],
-    name: "revokeRole",
-    outputs: [],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "bytes4",
-        name: "interfaceId",
-        type: "bytes4",
-      },
-    ],
-    name: "supportsInterface",
-    outputs: [
-      {
-        internalType: "bool",
-        name: "",
-        type: "bool",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [],
-    name: "symbol",
-    outputs: [
-      {
-        internalType: "string",
-        name: "",
-        type: "string",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [],
-    name: "totalSupply",
-    outputs: [
-      {
-        internalType: "uint256",
-        name: "",
-        type: "uint256",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [],
-    name: "transactionCount",
-    outputs: [
-      {
-        internalType: "uint256",
-        name: "",
-        type: "uint256",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "address",
-        name: "to",
-        type: "address",
-      },
-      {
-        internalType: "uint256",
-        name: "value",
-        type: "uint256",
-      },
-    ],
-    name: "transfer",
-    outputs: [
-      {
-        internalType: "bool",
-        name: "",
-        type: "bool",
-      },
-    ],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "address",
-        name: "from",
-        type: "address",
-      },
-      {
-        internalType: "address",
-        name: "to",
-        type: "address",
-      },
-      {
-        internalType: "uint256",
-        name: "value",
-        type: "uint256",
-      },
-    ],
-    name: "transferFrom",
-    outputs: [
-      {
-        internalType: "bool",
-        name: "",
-        type: "bool",
-      },
-    ],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-  {
-    inputs: [],
-    name: "unpause",
-    outputs: [],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-  {
-    inputs: [],
-    name: "version",
-    outputs: [
-      {
-        internalType: "string",
-        name: "",
-        type: "string",
-      },
-    ],
-    stateMutability: "pure",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "address",
-        name: "",
-        type: "address",
-      },
-    ],
-    name: "whitelist",
-    outputs: [
-      {
-        internalType: "bool",
-        name: "",
-        type: "bool",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-] as const;
-
-const _bytecode =
-  "0x6080604052348015600f57600080fd5b5061208b8061001f6000396000f3fe608060405234801561001057600080fd5b50600436106102045760003560e01c806301ffc9a71461020957806306fdde0314610231578063095ea7b31461024657806318160ddd1461025957806323b872dd1461026f578063248a9ca3146102825780632bde1bac146102955780632f2ff15d1461029d578063313ce567146102b2578063355274ea146102c1578063355d1ee6146102c957806336568abe146103275780633af32abf1461033a5780633f4ba83a1461036657806340c10f191461036e57806342966c681461038157806344337ea114610394578063537df3b6146103a757806354fd4d50146103ba5780635c975abb146103db57806370a08231146103e357806375b238fc146103f657806379cc67901461040b578063826a5d561461041e57806382d5a60d146104265780638456cb591461042e5780638711a71914610436578063884ede2d1461044d5780638ab1d6811461046057806391d148541461047357806395d89b41146104865780639b19251a1461048e578063a217fddf146104b1578063a6c6c11c146104b9578063a9059cbb146104cc578063abb1dc44146104df578063b77bf600146104f8578063d539139314610501578063d547741f14610516578063dd62ed3e14610529578063e43252d71461053c578063e63ab1e91461054f578063f9f92be414610564578063fe575a8714610587575b600080fd5b61021c610217366004611a6c565b6105b3565b60405190151581526020015b60405180910390f35b6102396105ea565b6040516102289190611ae3565b61021c610254366004611b12565b61068b565b6102616106a3565b604051908152602001610228565b61021c61027d366004611b3c565b6106b8565b610261610290366004611b79565b6106dc565b6102396106fc565b6102b06102ab366004611b92565b61078a565b005b60405160128152602001610228565b6102616107ac565b6102dc6102d7366004611b79565b6107be565b60408051825181526020808401516001600160a01b0390811691830191909152838301511691810191909152606080830151908201526080918201519181019190915260a001610228565b6102b0610335366004611b92565b61085f565b61021c610348366004611bbe565b6001600160a01b031660009081526003602052604090205460ff1690565b6102b0610897565b6102b061037c366004611b12565b6108ba565b6102b061038f366004611b79565b61090c565b6102b06103a2366004611bbe565b610916565b6102b06103b5366004611bbe565b6109a5565b6040805180820190915260058152640312e302e360dc1b6020820152610239565b61021c610a31565b6102616103f1366004611bbe565b610a46565b61026160008051602061203683398151915281565b6102b0610419366004611b12565b610a71565b610239610a8a565b610239610a97565b6102b0610aa4565b61043e610ac4565b60405161022893929190611bd9565b6102b061045b366004611cbf565b610c7e565b6102b061046e366004611bbe565b610e44565b61021c610481366004611b92565b610ed0565b610239610f06565b61021c61049c366004611bbe565b60036020526000908152604090205460ff1681565b610261600081565b6102b06104c7366004611b79565b610f23565b61021c6104da366004611b12565b611010565b6104e761101e565b604051610228959493929190611dc0565b61026160065481565b61026160008051602061201683398151915281565b6102b0610524366004611b92565b611059565b610261610537366004611e06565b611075565b6102b061054a366004611bbe565b6110b1565b610261600080516020611ff683398151915281565b61021c610572366004611bbe565b60046020526000908152604090205460ff1681565b61021c610595366004611bbe565b6001600160a01b031660009081526004602052604090205460ff1690565b60006001600160e01b03198216637965db0b60e01b14806105e457506301ffc9a760e01b6001600160e01b03198316145b92915050565b606060006105f6611140565b905080600301805461060790611e30565b80601f016020809104026020016040519081016040528092919081815260200182805461063390611e30565b80156106805780601f1061065557610100808354040283529160200191610680565b820191906000526020600020905b81548152906001019060200180831161066357829003601f168201915b505050505091505090565b600033610699818585611164565b5060019392505050565b6000806106ae611140565b6002015492915050565b6000336106c6858285611171565b6106d18585856111bf565b506001949350505050565b6000806106e761121e565b60009384526020525050604090206001015490565b6001805461070990611e30565b80601f016020809104026020016040519081016040528092919081815260200182805461073590611e30565b80156107825780601f1061075757610100808354040283529160200191610782565b820191906000526020600020905b81548152906001019060200180831161076557829003601f168201915b505050505081565b610793826106dc565b61079c81611242565b6107a6838361124c565b50505050565b6000806107b76112ed565b5492915050565b6108026040518060a001604052806000815260200160006001600160a01b0316815260200160006001600160a01b0316815260200160008152602001600081525090565b50600090815260056020908152604091829020825160a0810184528154815260018201546001600160a01b039081169382019390935260028201549092169282019290925260038201546060820152600490910154608082015290565b6001600160a01b03811633146108885760405163334bd91960e11b815260040160405180910390fd5b6108928282611311565b505050565b600080516020611ff68339815191526108af81611242565b6108b7611389565b50565b6000805160206120168339815191526108d281611242565b826001600160a01b0381166109025760405162461bcd60e51b81526004016108f990611e6a565b60405180910390fd5b6107a684846113e0565b6108b73382611416565b60008051602061203683398151915261092e81611242565b816001600160a01b0381166109555760405162461bcd60e51b81526004016108f990611e6a565b6001600160a01b038316600081815260046020526040808220805460ff19166001179055513392917f16d3e73d99cc9bfeb6c9c26114e148836f8f970a84b0c84e7bb3eadd41444dfa91a3505050565b6000805160206120368339815191526109bd81611242565b816001600160a01b0381166109e45760405162461bcd60e51b81526004016108f990611e6a565b6001600160a01b038316600081815260046020526040808220805460ff19169055513392917fb56b80ae09ee21321b1a61fa0172350e6be2e070e53b20991fcbdf514c9bf77b91a3505050565b600080610a3c61144c565b5460ff1692915050565b600080610a51611140565b6001600160a01b0390931660009081526020939093525050604090205490565b610a7c823383611171565b610a868282611416565b5050565b6002805461070990611e30565b6000805461070990611e30565b600080516020611ff6833981519152610abc81611242565b6108b7611470565b6060806060600060016002828054610adb90611e30565b80601f0160208091040260200160405190810160405280929190818152602001828054610b0790611e30565b8015610b545780601f10610b2957610100808354040283529160200191610b54565b820191906000526020600020905b815481529060010190602001808311610b3757829003601f168201915b50505050509250818054610b6790611e30565b80601f0160208091040260200160405190810160405280929190818152602001828054610b9390611e30565b8015610be05780601f10610bb557610100808354040283529160200191610be0565b820191906000526020600020905b815481529060010190602001808311610bc357829003601f168201915b50505050509150808054610bf390611e30565b80601f0160208091040260200160405190810160405280929190818152602001828054610c1f90611e30565b8015610c6c5780601f10610c4157610100808354040283529160200191610c6c565b820191906000526020600020905b815481529060010190602001808311610c4f57829003601f168201915b50505050509050925092509250909192565b6000610c886114b7565b805490915060ff600160401b82041615906001600160401b0316600081158015610caf5750825b90506000826001600160401b03166001148015610ccb5750303b155b905081158015610cd9575080155b15610cf75760405163f92ee8a960e01b815260040160405180910390fd5b84546001600160401b03191660011785558315610d2057845460ff60401b1916600160401b1785555b6001600160a01b038616610d475760405163016ed19f60e21b815260040160405180910390fd5b610d518c8c6114e0565b610d596114f2565b610d616114f2565b610d6a8a6114fc565b610d726114f2565b6000610d7e8a82611ee1565b506001610d8b8982611ee1565b506002610d988882611ee1565b50610da460008761124c565b50610dbd6000805160206120368339815191528761124c565b50610dd66000805160206120168339815191528761124c565b50610def600080516020611ff68339815191528761124c565b508315610e3657845460ff60401b19168555604051600181527fc7f505b2f371ae2175ee4913f4499e1f2633a7b5936321eed1cdaeb6115181d29060200160405180910390a15b505050505050505050505050565b600080516020612036833981519152610e5c81611242565b816001600160a01b038116610e835760405162461bcd60e51b81526004016108f990611e6a565b6001600160a01b038316600081815260036020526040808220805460ff19169055513392917fe0fcf303ba3014f7bddb92283585b57ae29a68f05ceb43d0a0c1b92ad80c613c91a3505050565b600080610edb61121e565b6000948552602090815260408086206001600160a01b03959095168652939052505090205460ff1690565b60606000610f12611140565b905080600401805461060790611e30565b600080516020612036833981519152610f3b81611242565b600082815260056020908152604091829020825160a0810184528154815260018201546001600160a01b0390811693820184905260028301541693810193909352600381015460608401526004015460808301521580610fa6575060408101516001600160a01b0316155b15610fc757604051630216bbb160e61b8152600481018490526024016108f9565b610fde8160400151826020015183606001516111bf565b604051339084907f051cb38496aec7b935e543ad37855a07bbe54a8cac2d3e576ff4afe7131ea83490600090a3505050565b6000336106998185856111bf565b606080600080600061102e6105ea565b611036610f06565b60126110406106a3565b6110486107ac565b945094509450945094509091929394565b611062826106dc565b61106b81611242565b6107a68383611311565b600080611080611140565b6001600160a01b03948516600090815260019190910160209081526040808320959096168252939093525050205490565b6000805160206120368339815191526110c981611242565b816001600160a01b0381166110f05760405162461bcd60e51b81526004016108f990611e6a565b6001600160a01b038316600081815260036020526040808220805460ff19166001179055513392917f67385d0e3f500ff9deddc1292262190d227a7c30ebc71bdf4362662f6493f6ec91a3505050565b7f52c63247e1f47db19d5ce0460030c497f067ca4cebf71ba98eeadabe20bace0090565b610892838383600161150d565b600061117d8484611075565b90506000198110156107a657818110156111b057828183604051637dc7a0d960e11b81526004016108f993929190611f9f565b6107a68484848403600061150d565b6001600160a01b0383166111e9576000604051634b637e8f60e11b81526004016108f99190611fc0565b6001600160a01b03821661121357600060405163ec442f0560e01b81526004016108f99190611fc0565b6108928383836115f2565b7f02dd7bc7dec4dceedda775e58dd541e08a116c6c53815c0bd028192f7b62680090565b6108b781336117ab565b60008061125761121e565b90506112638484610ed0565b6112e3576000848152602082815260408083206001600160a01b03871684529091529020805460ff191660011790556112993390565b6001600160a01b0316836001600160a01b0316857f2f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0d60405160405180910390a460019150506105e4565b60009150506105e4565b7f0f070392f17d5f958cc1ac31867dabecfc5c9758b4a419a200803226d7155d0090565b60008061131c61121e565b90506113288484610ed0565b156112e3576000848152602082815260408083206001600160a01b0387168085529252808320805460ff1916905551339287917ff6391f5c32d9c69d2a47ea670b442974b53935d1edc7fd64eb21e047a839171b9190a460019150506105e4565b6113916117e4565b600061139b61144c565b805460ff1916815590507f5db9ee0a495bf2e6ff9c91a7834c1ba4fdd244a5e8aa4e537bd38aeae4b073aa335b6040516113d59190611fc0565b60405180910390a150565b6001600160a01b03821661140a57600060405163ec442f0560e01b81526004016108f99190611fc0565b610a86600083836115f2565b6001600160a01b038216611440576000604051634b637e8f60e11b81526004016108f99190611fc0565b610a86826000836115f2565b7fcd5ed15c6e187e77e9aee88184c21f4f2182ab5827cb3b7e07fbedcd63f0330090565b611478611809565b600061148261144c565b805460ff1916600117815590507f62e78cea01bee320cd4e420270b5ea74000d11b0c9f74754ebdbfc544b05a2586113c83390565b6000807ff0c57e16840df040f15088dc2f81fe391c3923bec73e23a9662efc9c229c6a006105e4565b6114e861182f565b610a868282611854565b6114fa61182f565b565b61150461182f565b6108b781611885565b6000611517611140565b90506001600160a01b03851661154357600060405163e602df0560e01b81526004016108f99190611fc0565b6001600160a01b03841661156d576000604051634a1406b160e11b81526004016108f99190611fc0565b6001600160a01b038086166000908152600183016020908152604080832093881683529290522083905581156115eb57836001600160a01b0316856001600160a01b03167f8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b925856040516115e291815260200190565b60405180910390a35b5050505050565b6001600160a01b03831615611678576001600160a01b03831660009081526003602052604090205460ff1661163c578260405163bf3f938960e01b81526004016108f99190611fc0565b6001600160a01b03831660009081526004602052604090205460ff1615611678578260405163578f3e1360e01b81526004016108f99190611fc0565b6001600160a01b038216156116fe576001600160a01b03821660009081526003602052604090205460ff166116c25781604051632ac2e20360e21b81526004016108f99190611fc0565b6001600160a01b03821660009081526004602052604090205460ff16156116fe57816040516332e38af360e21b81526004016108f99190611fc0565b6001600660008282546117119190611fd4565b90915550506040805160a0810182526006548082526001600160a01b03808716602080850191825287831685870190815260608601888152426080880190815260009687526005909352969094209451855590516001850180549184166001600160a01b031992831617905592516002850180549190931693169290921790559151600382015590516004909101556108928383836118c0565b6117b58282610ed0565b610a865760405163e2517d3f60e01b81526001600160a01b0382166004820152602481018390526044016108f9565b6117ec610a31565b6114fa57604051638dfc202b60e01b815260040160405180910390fd5b611811610a31565b156114fa5760405163d93c066560e01b815260040160405180910390fd5b61183761191c565b6114fa57604051631afcd79f60e31b815260040160405180910390fd5b61185c61182f565b6000611866611140565b9050600381016118768482611ee1565b50600481016107a68382611ee1565b61188d61182f565b60006118976112ed565b9050816000036118bd5760405163392e1e2760e01b8152600060048201526024016108f9565b55565b6118cb838383611936565b6001600160a01b0383166108925760006118e36107ac565b905060006118ef6106a3565b9050818111156115eb5760405163279e7e1560e21b815260048101829052602481018390526044016108f9565b60006119266114b7565b54600160401b900460ff16919050565b61193e611809565b610892838383600061194e611140565b90506001600160a01b03841661197d57818160020160008282546119729190611fd4565b909155506119dc9050565b6001600160a01b038416600090815260208290526040902054828110156119bd5784818460405163391434e360e21b81526004016108f993929190611f9f565b6001600160a01b03851660009081526020839052604090209083900390555b6001600160a01b0383166119fa576002810180548390039055611a19565b6001600160a01b03831660009081526020829052604090208054830190555b826001600160a01b0316846001600160a01b03167fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef84604051611a5e91815260200190565b60405180910390a350505050565b600060208284031215611a7e57600080fd5b81356001600160e01b031981168114611a9657600080fd5b9392505050565b6000815180845260005b81811015611ac357602081850181015186830182015201611aa7565b506000602082860101526020601f19601f83011685010191505092915050565b602081526000611a966020830184611a9d565b80356001600160a01b0381168114611b0d57600080fd5b919050565b60008060408385031215611b2557600080fd5b611b2e83611af6565b946020939093013593505050565b600080600060608486031215611b5157600080fd5b611b5a84611af6565b9250611b6860208501611af6565b929592945050506040919091013590565b600060208284031215611b8b57600080fd5b5035919050565b60008060408385031215611ba557600080fd5b82359150611bb560208401611af6565b90509250929050565b600060208284031215611bd057600080fd5b611a9682611af6565b606081526000611bec6060830186611a9d565b8281036020840152611bfe8186611a9d565b90508281036040840152611c128185611a9d565b9695505050505050565b634e487b7160e01b600052604160045260246000fd5b600082601f830112611c4357600080fd5b81356001600160401b03811115611c5c57611c5c611c1c565b604051601f8201601f19908116603f011681016001600160401b0381118282101715611c8a57611c8a611c1c565b604052818152838201602001851015611ca257600080fd5b816020850160208301376000918101602001919091529392505050565b600080600080600080600060e0888a031215611cda57600080fd5b87356001600160401b03811115611cf057600080fd5b611cfc8a828b01611c32565b97505060208801356001600160401b03811115611d1857600080fd5b611d248a828b01611c32565b9650506040880135945060608801356001600160401b03811115611d4757600080fd5b611d538a828b01611c32565b94505060808801356001600160401b03811115611d6f57600080fd5b611d7b8a828b01611c32565b93505060a08801356001600160401b03811115611d9757600080fd5b611da38a828b01611c32565b925050611db260c08901611af6565b905092959891949750929550565b60a081526000611dd360a0830188611a9d565b8281036020840152611de58188611a9d565b60ff9690961660408401525050606081019290925260809091015292915050565b60008060408385031215611e1957600080fd5b611e2283611af6565b9150611bb560208401611af6565b600181811c90821680611e4457607f821691505b602082108103611e6457634e487b7160e01b600052602260045260246000fd5b50919050565b602080825260169082015275416464726573732063616e6e6f74206265207a65726f60501b604082015260600190565b601f82111561089257806000526020600020601f840160051c81016020851015611ec15750805b601f840160051c820191505b818110156115eb5760008155600101611ecd565b81516001600160401b03811115611efa57611efa611c1c565b611f0e81611f088454611e30565b84611e9a565b6020601f821160018114611f425760008315611f2a5750848201515b600019600385901b1c1916600184901b1784556115eb565b600084815260208120601f198516915b82811015611f725787850151825560209485019460019092019101611f52565b5084821015611f905786840151600019600387901b60f8161c191681555b50505050600190811b01905550565b6001600160a01b039390931683526020830191909152604082015260600190565b6001600160a01b0391909116815260200190565b808201808211156105e457634e487b7160e01b600052601160045260246000fdfe65d7a28e3265b37a6474929f336521b332c1681b933f6cb9f3376673440d862a9f2df0fed2c77648de5860a4cc508cd0818c85b8b8a1ab4ceeef8d981c8956a6a49807205ce4d355092ef5a8a18f56e8913cf4a201fbe287825b095693c21775a264697066735822122049ddcd328643f4d98af1733b3330b4a292d5f6d79b46a9ae7ff648f4fdaeedb164736f6c634300081c0033";
-
-type SecurityTokenConstructorParams =
-  | [signer?: Signer]
-  | ConstructorParameters<typeof ContractFactory>;
-
-const isSuperArgs = (
-  xs: SecurityTokenConstructorParams
-): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
-
-export class SecurityToken__factory extends ContractFactory {
-  constructor(...args: SecurityTokenConstructorParams) {
-    if (isSuperArgs(args)) {
-      super(...args);
-    } else {
-      super(_abi, _bytecode, args[0]);
-    }
-  }
-
-  override getDeployTransaction(
-    overrides?: NonPayableOverrides & { from?: string }
-  ): Promise<ContractDeployTransaction> {
-    return super.getDeployTransaction(overrides || {});
-  }
-  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
-    return super.deploy(overrides || {}) as Promise<
-      SecurityToken & {
-        deploymentTransaction(): ContractTransactionResponse;
-      }
-    >;
-  }
-  override connect(runner: ContractRunner | null): SecurityToken__factory {
-    return super.connect(runner) as SecurityToken__factory;
-  }
-
-  static readonly bytecode = _bytecode;
-  static readonly abi = _abi;
-  static createInterface(): SecurityTokenInterface {
-    return new Interface(_abi) as SecurityTokenInterface;
-  }
-  static connect(
-    address: string,
-    runner?: ContractRunner | null
-  ): SecurityToken {
-    return new Contract(address, _abi, runner) as unknown as SecurityToken;
-  }
-}
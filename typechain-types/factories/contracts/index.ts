@@ -1,6 +0,0 @@
-/* Autogenerated file. Do not edit manually. */
-/* tslint:disable */
-/* eslint-disable */
-export * as beacon from "./Beacon";
-export * as diamond from "./Diamond";
-export { SecurityToken__factory } from "./SecurityToken__factory";
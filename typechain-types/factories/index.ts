@@ -1,5 +0,0 @@
-/* Autogenerated file. Do not edit manually. */
-/* tslint:disable */
-/* eslint-disable */
-export * as openzeppelin from "./@openzeppelin";
-export * as contracts from "./contracts";
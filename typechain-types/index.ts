@@ -1,86 +0,0 @@
-/* Autogenerated file. Do not edit manually. */
-/* tslint:disable */
-/* eslint-disable */
-import type * as openzeppelin from "./@openzeppelin";
-export type { openzeppelin };
-import type * as contracts from "./contracts";
-export type { contracts };
-export * as factories from "./factories";
-export type { AccessControlUpgradeable } from "./@openzeppelin/contracts-upgradeable/access/AccessControlUpgradeable";
-export { AccessControlUpgradeable__factory } from "./factories/@openzeppelin/contracts-upgradeable/access/AccessControlUpgradeable__factory";
-export type { Initializable } from "./@openzeppelin/contracts-upgradeable/proxy/utils/Initializable";
-export { Initializable__factory } from "./factories/@openzeppelin/contracts-upgradeable/proxy/utils/Initializable__factory";
-export type { ERC20Upgradeable } from "./@openzeppelin/contracts-upgradeable/token/ERC20/ERC20Upgradeable";
-export { ERC20Upgradeable__factory } from "./factories/@openzeppelin/contracts-upgradeable/token/ERC20/ERC20Upgradeable__factory";
-export type { ERC20BurnableUpgradeable } from "./@openzeppelin/contracts-upgradeable/token/ERC20/extensions/ERC20BurnableUpgradeable";
-export { ERC20BurnableUpgradeable__factory } from "./factories/@openzeppelin/contracts-upgradeable/token/ERC20/extensions/ERC20BurnableUpgradeable__factory";
-export type { ERC20CappedUpgradeable } from "./@openzeppelin/contracts-upgradeable/token/ERC20/extensions/ERC20CappedUpgradeable";
-export { ERC20CappedUpgradeable__factory } from "./factories/@openzeppelin/contracts-upgradeable/token/ERC20/extensions/ERC20CappedUpgradeable__factory";
-export type { ERC20PausableUpgradeable } from "./@openzeppelin/contracts-upgradeable/token/ERC20/extensions/ERC20PausableUpgradeable";
-export { ERC20PausableUpgradeable__factory } from "./factories/@openzeppelin/contracts-upgradeable/token/ERC20/extensions/ERC20PausableUpgradeable__factory";
-export type { ContextUpgradeable } from "./@openzeppelin/contracts-upgradeable/utils/ContextUpgradeable";
-export { ContextUpgradeable__factory } from "./factories/@openzeppelin/contracts-upgradeable/utils/ContextUpgradeable__factory";
-export type { ERC165Upgradeable } from "./@openzeppelin/contracts-upgradeable/utils/introspection/ERC165Upgradeable";
-export { ERC165Upgradeable__factory } from "./factories/@openzeppelin/contracts-upgradeable/utils/introspection/ERC165Upgradeable__factory";
-export type { PausableUpgradeable } from "./@openzeppelin/contracts-upgradeable/utils/PausableUpgradeable";
-export { PausableUpgradeable__factory } from "./factories/@openzeppelin/contracts-upgradeable/utils/PausableUpgradeable__factory";
-export type { IAccessControl } from "./@openzeppelin/contracts/access/IAccessControl";
-export { IAccessControl__factory } from "./factories/@openzeppelin/contracts/access/IAccessControl__factory";
-export type { Ownable } from "./@openzeppelin/contracts/access/Ownable";
-export { Ownable__factory } from "./factories/@openzeppelin/contracts/access/Ownable__factory";
-export type { IERC1155Errors } from "./@openzeppelin/contracts/interfaces/draft-IERC6093.sol/IERC1155Errors";
-export { IERC1155Errors__factory } from "./factories/@openzeppelin/contracts/interfaces/draft-IERC6093.sol/IERC1155Errors__factory";
-export type { IERC20Errors } from "./@openzeppelin/contracts/interfaces/draft-IERC6093.sol/IERC20Errors";
-export { IERC20Errors__factory } from "./factories/@openzeppelin/contracts/interfaces/draft-IERC6093.sol/IERC20Errors__factory";
-export type { IERC721Errors } from "./@openzeppelin/contracts/interfaces/draft-IERC6093.sol/IERC721Errors";
-export { IERC721Errors__factory } from "./factories/@openzeppelin/contracts/interfaces/draft-IERC6093.sol/IERC721Errors__factory";
-export type { IERC1967 } from "./@openzeppelin/contracts/interfaces/IERC1967";
-export { IERC1967__factory } from "./factories/@openzeppelin/contracts/interfaces/IERC1967__factory";
-export type { BeaconProxy } from "./@openzeppelin/contracts/proxy/beacon/BeaconProxy";
-export { BeaconProxy__factory } from "./factories/@openzeppelin/contracts/proxy/beacon/BeaconProxy__factory";
-export type { IBeacon } from "./@openzeppelin/contracts/proxy/beacon/IBeacon";
-export { IBeacon__factory } from "./factories/@openzeppelin/contracts/proxy/beacon/IBeacon__factory";
-export type { UpgradeableBeacon } from "./@openzeppelin/contracts/proxy/beacon/UpgradeableBeacon";
-export { UpgradeableBeacon__factory } from "./factories/@openzeppelin/contracts/proxy/beacon/UpgradeableBeacon__factory";
-export type { ERC1967Utils } from "./@openzeppelin/contracts/proxy/ERC1967/ERC1967Utils";
-export { ERC1967Utils__factory } from "./factories/@openzeppelin/contracts/proxy/ERC1967/ERC1967Utils__factory";
-export type { Proxy } from "./@openzeppelin/contracts/proxy/Proxy";
-export { Proxy__factory } from "./factories/@openzeppelin/contracts/proxy/Proxy__factory";
-export type { IERC20Metadata } from "./@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata";
-export { IERC20Metadata__factory } from "./factories/@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata__factory";
-export type { IERC20 } from "./@openzeppelin/contracts/token/ERC20/IERC20";
-export { IERC20__factory } from "./factories/@openzeppelin/contracts/token/ERC20/IERC20__factory";
-export type { Address } from "./@openzeppelin/contracts/utils/Address";
-export { Address__factory } from "./factories/@openzeppelin/contracts/utils/Address__factory";
-export type { Errors } from "./@openzeppelin/contracts/utils/Errors";
-export { Errors__factory } from "./factories/@openzeppelin/contracts/utils/Errors__factory";
-export type { IERC165 } from "./@openzeppelin/contracts/utils/introspection/IERC165";
-export { IERC165__factory } from "./factories/@openzeppelin/contracts/utils/introspection/IERC165__factory";
-export type { SecurityTokenFactory } from "./contracts/Beacon/SecurityTokenFactory";
-export { SecurityTokenFactory__factory } from "./factories/contracts/Beacon/SecurityTokenFactory__factory";
-export type { AdminFacet } from "./contracts/Diamond/AdminFacet";
-export { AdminFacet__factory } from "./factories/contracts/Diamond/AdminFacet__factory";
-export type { ComplianceFacet } from "./contracts/Diamond/ComplianceFacet";
-export { ComplianceFacet__factory } from "./factories/contracts/Diamond/ComplianceFacet__factory";
-export type { Diamond } from "./contracts/Diamond/Diamond";
-export { Diamond__factory } from "./factories/contracts/Diamond/Diamond__factory";
-export type { DiamondCutFacet } from "./contracts/Diamond/DiamondCutFacet";
-export { DiamondCutFacet__factory } from "./factories/contracts/Diamond/DiamondCutFacet__factory";
-export type { DiamondInit } from "./contracts/Diamond/DiamondInit";
-export { DiamondInit__factory } from "./factories/contracts/Diamond/DiamondInit__factory";
-export type { DiamondLoupeFacet } from "./contracts/Diamond/DiamondLoupeFacet";
-export { DiamondLoupeFacet__factory } from "./factories/contracts/Diamond/DiamondLoupeFacet__factory";
-export type { ERC20Facet } from "./contracts/Diamond/ERC20Facet";
-export { ERC20Facet__factory } from "./factories/contracts/Diamond/ERC20Facet__factory";
-export type { IDiamondCut } from "./contracts/Diamond/Interfaces/Interfaces.sol/IDiamondCut";
-export { IDiamondCut__factory } from "./factories/contracts/Diamond/Interfaces/Interfaces.sol/IDiamondCut__factory";
-export type { IDiamondLoupe } from "./contracts/Diamond/Interfaces/Interfaces.sol/IDiamondLoupe";
-export { IDiamondLoupe__factory } from "./factories/contracts/Diamond/Interfaces/Interfaces.sol/IDiamondLoupe__factory";
-export type { LibDiamond } from "./contracts/Diamond/Librarys/LibDiamond";
-export { LibDiamond__factory } from "./factories/contracts/Diamond/Librarys/LibDiamond__factory";
-export type { MintingFacet } from "./contracts/Diamond/MintingFacet";
-export { MintingFacet__factory } from "./factories/contracts/Diamond/MintingFacet__factory";
-export type { OwnershipFacet } from "./contracts/Diamond/OwnershipFacet";
-export { OwnershipFacet__factory } from "./factories/contracts/Diamond/OwnershipFacet__factory";
-export type { SecurityToken } from "./contracts/SecurityToken";
-export { SecurityToken__factory } from "./factories/contracts/SecurityToken__factory";